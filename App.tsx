@@ -1,33 +1,44 @@
-import React, { useRef, useState, useEffect, useCallback } from 'react';
+import React, { useRef, useState, useEffect, useCallback, useMemo } from 'react';
 import GameMap from './components/GameMap';
 import Sidebar from './components/Sidebar';
 import EventLog from './components/EventLog';
 import MainMenu from './components/MainMenu';
 import VictoryScreen from './components/VictoryScreen';
+import VictoryProgress from './components/VictoryProgress';
 import AudioSettings from './components/AudioSettings';
+import ReplayViewer from './components/ReplayViewer';
+import ScenarioEditor from './components/ScenarioEditor';
+import SaveGameDialog from './components/SaveGameDialog';
 import { useGameLoop } from './hooks/useGameLoop';
 import { useHotkeys } from './hooks/useHotkeys';
 import { TerrainService } from './services/terrainService';
 import { AudioService } from './services/audioService';
 import { NetworkService } from './services/networkService';
 import { spawnUnit } from './services/gameLogic'; // Import spawnUnit
-import { Scenario, Faction, LobbyState, Difficulty, UnitClass, POIType } from './types';
-import { SCENARIOS, UNIT_CONFIG } from './constants';
+import { Scenario, Faction, LobbyState, Difficulty, UnitClass, POIType, CommandModifiers, GameSettings } from './types';
+import { SCENARIOS, UNIT_CONFIG, DEFAULT_GAME_SETTINGS } from './constants';
 import { TooltipProvider } from './components/Tooltip';
 import { FormationType, calculateFormationPositions, getGroupCenter, getFacingAngle } from './services/formationService';
-import { createAction } from './services/schemas';
-import { applyAction } from './services/applyAction';
+import { createAction, ReplayFile, SaveGame } from './services/schemas';
+import { ReplayRecorder, downloadReplay } from './services/replayService';
+import { getAllies } from './services/teamService';
+import { getVictoryProgress } from './services/victoryService';
+import { getScenario, getScenarioInfo } from './services/scenarioService';
 
 
 const App: React.FC = () => {
     const [isInMenu, setIsInMenu] = useState(true);
     const [showAudioSettings, setShowAudioSettings] = useState(false);
+    const [showSaveGame, setShowSaveGame] = useState(false);
+    const [isBattleRoyale, setIsBattleRoyale] = useState(false); // BR rounds belong to the phantom host - not saveable
+    const [activeReplay, setActiveReplay] = useState<ReplayFile | null>(null);
+    const [editingScenario, setEditingScenario] = useState<Scenario | null>(null);
     const [lobbyState, setLobbyState] = useState<LobbyState>({
         players: [],
         scenarioId: 'WORLD',
         difficulty: Difficulty.MEDIUM,
-        botCount: 3,
-        gameMode: 'DOMINATION'
+        gameMode: 'DOMINATION',
+        settings: DEFAULT_GAME_SETTINGS
     });
     const [networkMode, setNetworkMode] = useState<'SINGLE' | 'MULTI_HOST' | 'MULTI_JOIN' | 'LOBBY' | 'BATTLE_ROYALE' | null>(null);
 
@@ -40,7 +51,9 @@ const App: React.FC = () => {
         setSelectedUnitIds,
         handleUnitAction: originalHandleUnitAction,
         handleBuyUnit: originalHandleBuyUnit,
-        handleAllianceRequest,
+        handleProposeTreaty,
+        handleRespondTreaty,
+        handleTransferResources,
         handlePoiClick,
         handleMapClick,
         handleMapRightClick,
@@ -50,13 +63,34 @@ const App: React.FC = () => {
         handleAddToGroup,
         handleRemoveFromGroup,
         handleGroupOrder,
+        dispatchAction,
         setDifficulty,
         startGame,
+        loadGame,
         joinBattleRoyale,
         nukeLaunchMode,
-        setNukeLaunchMode
+        setNukeLaunchMode,
+        cargoTargeting,
+        attackMoveMode,
+        setAttackMoveMode,
+        handleStartAttackMove,
+        handleSetStance,
+        handleToggleStance
     } = useGameLoop();
 
+    // Teammates + ALLIANCE partners share vision
+    const allyIds = useMemo(
+        () => getAllies(gameState, gameState.localPlayerId),
+        [gameState.factions, gameState.diplomacy, gameState.localPlayerId]
+    );
+
+    // Victory HUD - refreshed about once a second
+    const victoryTick = Math.floor(gameState.gameTick / 30);
+    const victoryProgress = useMemo(
+        () => gameState.gameMode === 'PLAYING' ? getVictoryProgress(gameState, gameState.localPlayerId) : [],
+        [victoryTick, gameState.gameMode, gameState.victory, gameState.settings, gameState.localPlayerId]
+    );
+
     // --- NETWORK INITIALIZATION ---
     useEffect(() => {
         if (networkMode === 'MULTI_HOST' || networkMode === 'MULTI_JOIN') {
@@ -85,13 +119,16 @@ const App: React.FC = () => {
                             };
                         });
                     }
+                } else if (e.type === 'RESPONSE' && e.response.type === 'REJOIN_RESULT' && e.response.accepted) {
+                    // Seat reclaimed from the menu (e.g. after a reload) - the host's FULL_STATE fills in the match
+                    setIsInMenu(false);
                 } else if (e.type === 'LOBBY_UPDATE') {
                     setLobbyState(e.state);
                 } else if (e.type === 'START_GAME') {
                     // Client Start
-                    const scenario = Object.values(SCENARIOS).find(s => s.id === e.scenarioId) || SCENARIOS.WORLD;
+                    const scenario = e.scenario || getScenario(e.scenarioId) || SCENARIOS.WORLD;
                     // Use MY Peer ID as localPlayerId
-                    startGame(scenario, NetworkService.myPeerId, e.factions, true, e.pois);
+                    startGame(scenario, NetworkService.myPeerId, e.factions, true, e.pois, e.rngSeed, e.settings);
                     setIsInMenu(false);
                 }
                 // Note: Game events (TURN, INTENT) are handled by useGameLoop subscription
@@ -128,7 +165,7 @@ const App: React.FC = () => {
         }
     }, [gameState.gameResult]);
 
-    const handleStartGame = (scenario: Scenario, localPlayerId: string, factions: Faction[], isMultiplayer: boolean, isHost: boolean) => {
+    const handleStartGame = (scenario: Scenario, localPlayerId: string, factions: Faction[], isMultiplayer: boolean, isHost: boolean, settings: GameSettings) => {
         // Host generates POIs here or inside startGame?
         // startGame handles it. But for multiplayer host, we need to generate them and send them.
         // Let's let startGame generate them if not provided, then we grab them from gameState?
@@ -149,10 +186,17 @@ const App: React.FC = () => {
             // Let's rely on useGameLoop to generate them if we pass null, 
             // BUT we need to send them.
             // Actually, let's just update useGameLoop to broadcast the start game WITH the POIs it generated.
-            startGame(scenario, localPlayerId, factions, isMultiplayer && !isHost);
+            startGame(scenario, localPlayerId, factions, isMultiplayer && !isHost, undefined, undefined, settings);
         } else {
-            startGame(scenario, localPlayerId, factions, isMultiplayer && !isHost);
+            startGame(scenario, localPlayerId, factions, isMultiplayer && !isHost, undefined, undefined, settings);
         }
+        setIsBattleRoyale(false);
+        setIsInMenu(false);
+    };
+
+    const handleLoadGame = (save: SaveGame) => {
+        loadGame(save);
+        setIsBattleRoyale(false);
         setIsInMenu(false);
     };
 
@@ -160,6 +204,7 @@ const App: React.FC = () => {
     const handleJoinBattleRoyale = (existingGameState: any) => {
         console.log('[APP] Joining Battle Royale with existing state');
         joinBattleRoyale(existingGameState);
+        setIsBattleRoyale(true);
         setIsInMenu(false);
     };
 
@@ -186,15 +231,15 @@ const App: React.FC = () => {
         }
     };
 
-    const handleUnitRightClick = (id: string) => {
+    const handleUnitRightClick = (id: string, modifiers?: CommandModifiers) => {
         if (gameState.gameMode === 'PLAYING' && selectedUnitIds.length > 0) {
-            handleTargetCommand(id, false);
+            handleTargetCommand(id, false, !!modifiers?.shiftKey);
         }
     };
 
-    const handlePoiRightClick = (id: string) => {
+    const handlePoiRightClick = (id: string, modifiers?: CommandModifiers) => {
         if (gameState.gameMode === 'PLAYING' && selectedUnitIds.length > 0) {
-            handleTargetCommand(id, true);
+            handleTargetCommand(id, true, !!modifiers?.shiftKey);
         }
     };
 
@@ -220,6 +265,7 @@ const App: React.FC = () => {
 
     const handleDeselectAll = useCallback(() => {
         setSelectedUnitIds([]);
+        setAttackMoveMode(false);
     }, []);
 
     // Auto-Control: Toggle auto-target for selected units
@@ -257,8 +303,7 @@ const App: React.FC = () => {
             mode: newMode
         });
 
-        setGameState(prev => applyAction(prev, action));
-        NetworkService.broadcastAction(action);
+        dispatchAction(action);
     }, [selectedUnitIds, setGameState, gameState]);
 
     useHotkeys({
@@ -267,6 +312,8 @@ const App: React.FC = () => {
         onDeselectAll: handleDeselectAll,
         onToggleAutoTarget: handleToggleAutoTarget,
         onCycleAutoMode: handleCycleAutoMode,
+        onAttackMove: handleStartAttackMove,
+        onToggleStance: handleToggleStance,
         // Control group management
         onAssignGroup: handleAssignGroup,
         onRecallGroup: handleRecallGroup,
@@ -275,11 +322,30 @@ const App: React.FC = () => {
         enabled: !isInMenu && gameState.gameMode === 'PLAYING'
     });
 
+    if (activeReplay) {
+        return <ReplayViewer replay={activeReplay} onExit={() => setActiveReplay(null)} />;
+    }
+
+    if (editingScenario) {
+        return (
+            <ScenarioEditor
+                scenario={editingScenario}
+                onExit={(saved) => {
+                    setEditingScenario(null);
+                    if (saved) setLobbyState(prev => ({ ...prev, scenarioId: saved.id, customScenario: getScenarioInfo(saved) }));
+                }}
+            />
+        );
+    }
+
     if (isInMenu) {
         return (
             <MainMenu
                 onStartGame={handleStartGame}
                 onJoinBattleRoyale={handleJoinBattleRoyale}
+                onOpenReplay={setActiveReplay}
+                onOpenScenarioEditor={setEditingScenario}
+                onLoadGame={handleLoadGame}
                 lobbyState={lobbyState}
                 setLobbyState={setLobbyState}
                 networkMode={networkMode}
@@ -294,7 +360,9 @@ const App: React.FC = () => {
                 <Sidebar
                     gameState={gameState}
                     onBuyUnit={originalHandleBuyUnit}
-                    onAllianceRequest={handleAllianceRequest}
+                    onProposeTreaty={handleProposeTreaty}
+                    onRespondTreaty={handleRespondTreaty}
+                    onTransferResources={handleTransferResources}
                     selectedUnitIds={selectedUnitIds}
                     onUnitAction={originalHandleUnitAction}
                     onSetDifficulty={setDifficulty}
@@ -315,10 +383,11 @@ const App: React.FC = () => {
                             mode: mode
                         });
 
-                        setGameState(prev => applyAction(prev, action));
-                        NetworkService.broadcastAction(action);
+                        dispatchAction(action);
                     }}
                     onToggleAutoTarget={handleToggleAutoTarget}
+                    onSetStance={handleSetStance}
+                    onAttackMove={handleStartAttackMove}
                     onSetFormation={(formation) => {
                         console.log('[FORMATION] Button clicked:', formation);
 
@@ -344,8 +413,7 @@ const App: React.FC = () => {
                             facingAngle: 0 // Face north
                         });
 
-                        setGameState(prev => applyAction(prev, action));
-                        NetworkService.broadcastAction(action);
+                        dispatchAction(action);
 
                         AudioService.playUnitSelect();
                     }}
@@ -360,7 +428,11 @@ const App: React.FC = () => {
                         gameMode={gameState.gameMode}
                         placementType={gameState.placementType}
                         localPlayerId={gameState.localPlayerId}
+                        allyIds={allyIds}
                         nukesInFlight={gameState.nukesInFlight}
+                        mines={gameState.mines}
+                        gameTick={gameState.gameTick}
+                        fogOfWarEnabled={!!gameState.settings?.fogOfWar}
                     />
                     <EventLog messages={gameState.messages} />
                     <div className="absolute inset-0 pointer-events-none z-[400] hex-overlay"></div>
@@ -381,6 +453,41 @@ const App: React.FC = () => {
                         </div>
                     )}
 
+                    {/* CARGO TARGETING OVERLAY */}
+                    {cargoTargeting && (
+                        <div className="absolute top-20 left-1/2 transform -translate-x-1/2 z-[450] pointer-events-none bg-blue-900/90 backdrop-blur-sm px-8 py-4 rounded-xl border-2 border-blue-500">
+                            <p className="text-blue-300 font-bold text-lg">{cargoTargeting.mode === 'AIRDROP' ? 'AIRDROP ZONE' : 'SORTIE TARGET'}</p>
+                            <p className="text-blue-100 text-sm">Click on map to select target location</p>
+                        </div>
+                    )}
+
+                    {/* ATTACK-MOVE TARGETING OVERLAY */}
+                    {attackMoveMode && (
+                        <div className="absolute top-20 left-1/2 transform -translate-x-1/2 z-[450] pointer-events-none bg-orange-900/90 backdrop-blur-sm px-8 py-4 rounded-xl border-2 border-orange-500">
+                            <p className="text-orange-300 font-bold text-lg">ATTACK-MOVE</p>
+                            <p className="text-orange-100 text-sm">Click on map to advance there, right-click to cancel</p>
+                        </div>
+                    )}
+
+                    {/* Victory Condition Progress */}
+                    <VictoryProgress rows={victoryProgress} />
+
+                    {/* Save Button - host only (the host's state is the authoritative one) */}
+                    {!gameState.isClient && !isBattleRoyale && gameState.gameMode === 'PLAYING' && !gameState.gameResult && (
+                        <button
+                            onClick={() => setShowSaveGame(true)}
+                            className="absolute top-4 right-16 z-[500] w-10 h-10 bg-slate-800/80 hover:bg-slate-700 
+                                   rounded-full flex items-center justify-center transition-all 
+                                   border border-slate-600 hover:border-slate-500 shadow-lg"
+                            title="Save Game"
+                        >
+                            <svg className="w-5 h-5 text-gray-300" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+                                    d="M4 7v10a2 2 0 002 2h12a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-3.414-3.414A1 1 0 0015.586 5H6a2 2 0 00-2 2zm4-2v4h7V5M8 19v-6h8v6" />
+                            </svg>
+                        </button>
+                    )}
+
                     {/* Settings Button - Gear Icon */}
                     <button
                         onClick={() => setShowAudioSettings(true)}
@@ -397,6 +504,9 @@ const App: React.FC = () => {
                     </button>
                 </div>
 
+                {/* Save Game Modal */}
+                <SaveGameDialog isOpen={showSaveGame} gameState={gameState} onClose={() => setShowSaveGame(false)} />
+
                 {/* Audio Settings Modal */}
                 <AudioSettings isOpen={showAudioSettings} onClose={() => setShowAudioSettings(false)} />
 
@@ -404,6 +514,7 @@ const App: React.FC = () => {
                 {gameState.gameResult && (
                     <VictoryScreen
                         isVictory={gameState.gameResult === 'VICTORY'}
+                        condition={gameState.victory?.endedBy}
                         stats={{
                             unitsKilled: gameState.gameStats?.unitsKilled || 0,
                             unitsLost: gameState.gameStats?.unitsLost || 0,
@@ -417,6 +528,7 @@ const App: React.FC = () => {
                         onMainMenu={() => {
                             setIsInMenu(true);
                         }}
+                        onDownloadReplay={ReplayRecorder.getFinished() ? () => downloadReplay(ReplayRecorder.getFinished()!) : undefined}
                     />
                 )}
             </div>
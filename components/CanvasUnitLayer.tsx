@@ -2,6 +2,7 @@ import React, { useEffect, useRef } from 'react';
 import { useMap } from 'react-leaflet';
 import L from 'leaflet';
 import { GameUnit, Faction, UnitClass, Projectile, Explosion, WeaponType } from '../types';
+import { SimClock } from '../services/deterministic';
 
 interface Props {
     units: GameUnit[];
@@ -368,7 +369,7 @@ const CanvasUnitLayer: React.FC<Props> = ({ units, factions, selectedUnitIds, pr
 
             // --- DRAW EXPLOSIONS ---
             currentExplosions.forEach(exp => {
-                const age = Date.now() - exp.timestamp;
+                const age = SimClock.presentationNow() - exp.timestamp;
                 const duration = exp.size === 'NUCLEAR' ? 3000 : 500;
                 if (age > duration) return;
 
@@ -55,7 +55,7 @@ const EventLog: React.FC<Props> = ({ messages }) => {
                                     <div className="flex-1">
                                         <div className="flex items-center justify-between mb-1">
                                             <span className="text-[10px] text-slate-500 font-mono">
-                                                {new Date(msg.timestamp).toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+                                                {new Date(msg.timestamp).toISOString().substr(11, 8) /* simulation time since game start */}
                                             </span>
                                         </div>
                                         <p className="text-slate-200 text-xs leading-relaxed">{msg.text}</p>
@@ -8,6 +8,7 @@ interface Props {
     units: GameUnit[];
     pois: POI[];
     localPlayerId: string;
+    allyIds?: string[]; // Allied factions share their vision
     enabled: boolean;
 }
 
@@ -26,7 +27,7 @@ const VISION_MODIFIERS: Record<string, number> = {
     'MILITARY_BASE': 1.5,
 };
 
-const FogOfWarCanvas: React.FC<Props> = ({ units, pois, localPlayerId, enabled }) => {
+const FogOfWarCanvas: React.FC<Props> = ({ units, pois, localPlayerId, allyIds = [], enabled }) => {
     const map = useMap();
     const canvasRef = useRef<HTMLCanvasElement | null>(null);
     const animationFrameId = useRef<number | null>(null);
@@ -34,15 +35,15 @@ const FogOfWarCanvas: React.FC<Props> = ({ units, pois, localPlayerId, enabled }
     // Refs for data access
     const unitsRef = useRef(units);
     const poisRef = useRef(pois);
-    const localPlayerRef = useRef(localPlayerId);
+    const visionIdsRef = useRef(new Set([localPlayerId, ...allyIds]));
     const enabledRef = useRef(enabled);
 
     useEffect(() => {
         unitsRef.current = units;
         poisRef.current = pois;
-        localPlayerRef.current = localPlayerId;
+        visionIdsRef.current = new Set([localPlayerId, ...allyIds]);
         enabledRef.current = enabled;
-    }, [units, pois, localPlayerId, enabled]);
+    }, [units, pois, localPlayerId, allyIds, enabled]);
 
     useEffect(() => {
         const canvas = L.DomUtil.create('canvas', 'leaflet-zoom-animated') as HTMLCanvasElement;
@@ -90,10 +91,10 @@ const FogOfWarCanvas: React.FC<Props> = ({ units, pois, localPlayerId, enabled }
 
             const currentUnits = unitsRef.current;
             const currentPois = poisRef.current;
-            const playerId = localPlayerRef.current;
+            const visionIds = visionIdsRef.current;
 
-            // Reveal areas around player's units
-            const playerUnits = currentUnits.filter(u => u.factionId === playerId && u.hp > 0);
+            // Reveal areas around player's (and allies') units
+            const playerUnits = currentUnits.filter(u => visionIds.has(u.factionId) && u.hp > 0);
 
             for (const unit of playerUnits) {
                 const pos = map.latLngToContainerPoint([unit.position.lat, unit.position.lng]);
@@ -127,9 +128,9 @@ const FogOfWarCanvas: React.FC<Props> = ({ units, pois, localPlayerId, enabled }
                 ctx.fill();
             }
 
-            // Reveal areas around player's cities
+            // Reveal areas around player's (and allies') cities
             const playerCities = currentPois.filter(
-                p => p.ownerFactionId === playerId && p.type === POIType.CITY
+                p => visionIds.has(p.ownerFactionId) && p.type === POIType.CITY
             );
 
             for (const poi of playerCities) {
@@ -1,8 +1,13 @@
 import React, { useEffect, useRef, useMemo } from 'react';
 import { useMap } from 'react-leaflet';
 import L from 'leaflet';
-import { GameUnit, Faction, UnitClass, Projectile, Explosion, WeaponType, POI, POIType, NuclearMissile } from '../types';
+import { GameUnit, Faction, UnitClass, Projectile, Explosion, WeaponType, POI, POIType, NuclearMissile, NavalMine, UnitOrderType } from '../types';
 import { globalParticleSystem, ParticleType } from '../services/ParticleSystem';
+import { SimClock } from '../services/deterministic';
+import { STEALTH_CONFIG } from '../constants';
+import { getSupplyModifiers, getSupplyStatusColor } from '../services/supplyService';
+import { isPathFor } from '../services/pathfindingService';
+import { hasOrders, getOrderPosition } from '../services/orderQueueService';
 
 interface Props {
     units: GameUnit[];
@@ -12,6 +17,16 @@ interface Props {
     explosions: Explosion[];
     pois: POI[];
     nukesInFlight?: NuclearMissile[];
+    mines?: NavalMine[];  // Already filtered to what the local player can see
+    contacts?: SonarContact[];
+}
+
+// Last known position of an enemy submarine that dropped off sonar
+export interface SonarContact {
+    id: string;
+    factionId: string;
+    position: { lat: number; lng: number };
+    lostAt: number; // Wall-clock time of the last detection
 }
 
 const UNIT_COLORS: Record<string, string> = {
@@ -353,7 +368,17 @@ const getUnitSprite = (type: UnitClass, color: string): HTMLCanvasElement => {
     return canvas;
 };
 
-const GameCanvas: React.FC<Props> = ({ units, factions, selectedUnitIds, projectiles, explosions, pois, nukesInFlight = [] }) => {
+// Queued order markers (see 1e. DRAW QUEUED ORDERS)
+const ORDER_COLORS: Record<UnitOrderType, string> = {
+    MOVE: '#4ade80',
+    ATTACK: '#f87171',
+    ATTACK_MOVE: '#fb923c',
+    PATROL: '#22d3ee',
+    LOAD: '#facc15',
+    UNLOAD: '#facc15'
+};
+
+const GameCanvas: React.FC<Props> = ({ units, factions, selectedUnitIds, projectiles, explosions, pois, nukesInFlight = [], mines = [], contacts = [] }) => {
     const map = useMap();
     const canvasRef = useRef<HTMLCanvasElement | null>(null);
     const animationFrameId = useRef<number | null>(null);
@@ -366,6 +391,8 @@ const GameCanvas: React.FC<Props> = ({ units, factions, selectedUnitIds, project
     const explosionsRef = useRef(explosions);
     const poisRef = useRef(pois);
     const nukesRef = useRef(nukesInFlight);
+    const minesRef = useRef(mines);
+    const contactsRef = useRef(contacts);
 
     useEffect(() => {
         unitsRef.current = units;
@@ -375,7 +402,9 @@ const GameCanvas: React.FC<Props> = ({ units, factions, selectedUnitIds, project
         explosionsRef.current = explosions;
         poisRef.current = pois;
         nukesRef.current = nukesInFlight;
-    }, [units, factions, selectedUnitIds, projectiles, explosions, pois, nukesInFlight]);
+        minesRef.current = mines;
+        contactsRef.current = contacts;
+    }, [units, factions, selectedUnitIds, projectiles, explosions, pois, nukesInFlight, mines, contacts]);
 
     useEffect(() => {
         const canvas = L.DomUtil.create('canvas', 'leaflet-zoom-animated') as HTMLCanvasElement;
@@ -466,6 +495,128 @@ const GameCanvas: React.FC<Props> = ({ units, factions, selectedUnitIds, project
                 ctx.restore();
             });
 
+            // --- 1b. DRAW NAVAL MINES ---
+            minesRef.current.forEach(mine => {
+                const pos = map.latLngToContainerPoint([mine.position.lat, mine.position.lng]);
+                if (pos.x < -buffer || pos.y < -buffer || pos.x > mapSize.x + buffer || pos.y > mapSize.y + buffer) return;
+
+                const owner = currentFactions.find(f => f.id === mine.factionId);
+                ctx.save();
+                ctx.translate(pos.x, pos.y);
+                ctx.fillStyle = owner?.color || '#64748b';
+                ctx.strokeStyle = 'black';
+                ctx.lineWidth = 1;
+                ctx.beginPath();
+                ctx.arc(0, 0, 3, 0, Math.PI * 2);
+                ctx.fill();
+                ctx.stroke();
+                // Contact horns
+                ctx.beginPath();
+                for (let i = 0; i < 4; i++) {
+                    const a = (i * Math.PI) / 2 + Math.PI / 4;
+                    ctx.moveTo(Math.cos(a) * 3, Math.sin(a) * 3);
+                    ctx.lineTo(Math.cos(a) * 5.5, Math.sin(a) * 5.5);
+                }
+                ctx.stroke();
+                ctx.restore();
+            });
+
+            // --- 1c. DRAW LAST KNOWN SUBMARINE CONTACTS ---
+            contactsRef.current.forEach(contact => {
+                const pos = map.latLngToContainerPoint([contact.position.lat, contact.position.lng]);
+                if (pos.x < -buffer || pos.y < -buffer || pos.x > mapSize.x + buffer || pos.y > mapSize.y + buffer) return;
+
+                const owner = currentFactions.find(f => f.id === contact.factionId);
+                const age = Date.now() - contact.lostAt;
+                ctx.save();
+                ctx.translate(pos.x, pos.y);
+                ctx.globalAlpha = Math.max(0.15, 1 - age / STEALTH_CONFIG.CONTACT_GHOST_MS);
+                ctx.strokeStyle = owner?.color || '#94a3b8';
+                ctx.lineWidth = 1.5;
+                ctx.setLineDash([3, 3]);
+                ctx.beginPath();
+                ctx.arc(0, 0, 10, 0, Math.PI * 2);
+                ctx.stroke();
+                ctx.setLineDash([]);
+                ctx.fillStyle = owner?.color || '#94a3b8';
+                ctx.font = 'bold 10px Arial';
+                ctx.textAlign = 'center';
+                ctx.fillText('?', 0, 4);
+                ctx.restore();
+            });
+
+            // --- 1d. DRAW PLANNED PATHS (selected units) ---
+            const selectedIds = selectedRef.current;
+            if (selectedIds.length > 0) {
+                ctx.save();
+                ctx.strokeStyle = 'rgba(255, 255, 255, 0.55)';
+                ctx.lineWidth = 1.5;
+                ctx.setLineDash([6, 4]);
+                unitsRef.current.forEach(unit => {
+                    if (!selectedIds.includes(unit.id) || !isPathFor(unit.path, unit.destination)) return;
+                    const start = unit.visualPosition || unit.position;
+                    ctx.beginPath();
+                    const origin = map.latLngToContainerPoint([start.lat, start.lng]);
+                    ctx.moveTo(origin.x, origin.y);
+                    unit.path.waypoints.forEach(wp => {
+                        const p = map.latLngToContainerPoint([wp.lat, wp.lng]);
+                        ctx.lineTo(p.x, p.y);
+                    });
+                    ctx.stroke();
+                });
+                ctx.setLineDash([]);
+                ctx.restore();
+            }
+
+            // --- 1e. DRAW QUEUED ORDERS (selected units) ---
+            // Line from the current destination through every queued order, numbered markers
+            if (selectedIds.length > 0) {
+                const lookup = (id: string) =>
+                    unitsRef.current.find(u => u.id === id)?.position || poisRef.current.find(p => p.id === id)?.position;
+                ctx.save();
+                ctx.lineWidth = 1.5;
+                ctx.font = 'bold 9px monospace';
+                ctx.textAlign = 'center';
+                ctx.textBaseline = 'middle';
+                unitsRef.current.forEach(unit => {
+                    if (!selectedIds.includes(unit.id) || !hasOrders(unit)) return;
+                    const active = unit.activeOrder;
+                    let from = unit.destination || unit.visualPosition || unit.position;
+
+                    // Patrol: the leg back to where it started
+                    const legs = [...(unit.orderQueue || [])];
+                    if (active?.type === 'PATROL' && active.patrolFrom) legs.unshift({ type: 'PATROL', position: active.patrolFrom });
+
+                    legs.forEach((order, index) => {
+                        const to = getOrderPosition(order, lookup);
+                        if (!to) return;
+                        const a = map.latLngToContainerPoint([from.lat, from.lng]);
+                        const b = map.latLngToContainerPoint([to.lat, to.lng]);
+                        const color = ORDER_COLORS[order.type];
+
+                        ctx.strokeStyle = color;
+                        ctx.globalAlpha = 0.6;
+                        ctx.setLineDash([4, 4]);
+                        ctx.beginPath();
+                        ctx.moveTo(a.x, a.y);
+                        ctx.lineTo(b.x, b.y);
+                        ctx.stroke();
+
+                        ctx.globalAlpha = 1;
+                        ctx.setLineDash([]);
+                        ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+                        ctx.beginPath();
+                        ctx.arc(b.x, b.y, 6, 0, Math.PI * 2);
+                        ctx.fill();
+                        ctx.stroke();
+                        ctx.fillStyle = color;
+                        ctx.fillText(String(index + 1), b.x, b.y + 0.5);
+                        from = to;
+                    });
+                });
+                ctx.restore();
+            }
+
             // --- 2. DRAW UNITS & COMBAT ---
             const currentUnits = unitsRef.current;
             const currentSelected = selectedRef.current;
@@ -585,12 +736,23 @@ const GameCanvas: React.FC<Props> = ({ units, factions, selectedUnitIds, project
                     ctx.strokeRect(-8, 12, 16, 3);
                 }
 
+                // Low supply ring (orange -> red as supply runs out)
+                if (getSupplyModifiers(unit).isLowSupply) {
+                    ctx.beginPath();
+                    ctx.arc(0, 0, 11, 0, Math.PI * 2);
+                    ctx.strokeStyle = getSupplyStatusColor(unit);
+                    ctx.lineWidth = 1.5;
+                    ctx.setLineDash([3, 2]);
+                    ctx.stroke();
+                    ctx.setLineDash([]);
+                }
+
                 ctx.restore();
             });
 
             // Explosions - with NUCLEAR support
             currentExplosions.forEach(exp => {
-                const age = Date.now() - exp.timestamp;
+                const age = SimClock.presentationNow() - exp.timestamp;
                 const isNuclear = exp.size === 'NUCLEAR';
                 const duration = isNuclear ? 4000 : 500; // Nuclear explosions last longer
                 if (age > duration) return;
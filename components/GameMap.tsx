@@ -1,15 +1,17 @@
 import React, { useEffect, useState, useMemo, useCallback } from 'react';
 import { MapContainer, useMap, useMapEvents, Marker } from 'react-leaflet';
 import L from 'leaflet';
-import { GameUnit, Projectile, Faction, POI, POIType, Explosion, UnitClass, GameMode, NuclearMissile } from '../types';
+import { GameUnit, Projectile, Faction, POI, POIType, Explosion, UnitClass, GameMode, NuclearMissile, NavalMine, CommandModifiers } from '../types';
 import { getNearbyUnits } from '../services/gameLogic';
 import TerritoryLayer from './TerritoryLayer';
 import PlacementOverlay from './PlacementOverlay';
-import GameCanvas from './GameCanvas';
+import GameCanvas, { SonarContact } from './GameCanvas';
 import TerrainLayer from './TerrainLayer';
 import TerrainDebugLayer from './TerrainDebugLayer';
 import SmoothZoom from './SmoothZoom';
 import FogOfWarCanvas from './FogOfWarCanvas';
+import { isStealthUnit, isUnitDetectedBy } from '../services/stealthService';
+import { STEALTH_CONFIG } from '../constants';
 
 interface Props {
     units: GameUnit[];
@@ -20,18 +22,22 @@ interface Props {
     center: { lat: number; lng: number };
     selectedUnitIds: string[];
     onUnitClick: (id: string, multiSelect: boolean) => void;
-    onUnitRightClick: (id: string) => void;
+    onUnitRightClick: (id: string, modifiers?: CommandModifiers) => void;
     onUnitAction: (action: string, id: string) => void;
     onMapClick: (lat: number, lng: number) => void;
-    onMapRightClick: (lat: number, lng: number) => void;
+    onMapRightClick: (lat: number, lng: number, modifiers?: CommandModifiers) => void;
     onPoiClick: (id: string) => void;
-    onPoiRightClick: (id: string) => void;
+    onPoiRightClick: (id: string, modifiers?: CommandModifiers) => void;
     onMultiSelect: (ids: string[]) => void;
     gameMode: GameMode;
     placementType?: UnitClass | null;
     localPlayerId: string;
+    allyIds?: string[]; // Share fog reveal, sonar contacts and mine sightings
     nukesInFlight?: NuclearMissile[];
+    mines?: NavalMine[];
+    gameTick?: number;
     fogOfWarEnabled?: boolean;
+    revealAll?: boolean; // Replay observer: show hidden submarines and every mine
 }
 
 // DRAG SELECTION OVERLAY
@@ -135,11 +141,11 @@ const MemoizedDragSelection = React.memo(DragSelection);
 
 const MapInteraction: React.FC<{
     onMapClick: (lat: number, lng: number) => void,
-    onMapRightClick: (lat: number, lng: number) => void,
+    onMapRightClick: (lat: number, lng: number, modifiers?: CommandModifiers) => void,
     onUnitClick: (id: string, multiSelect: boolean) => void,
-    onUnitRightClick: (id: string) => void,
+    onUnitRightClick: (id: string, modifiers?: CommandModifiers) => void,
     onPoiClick: (id: string) => void,
-    onPoiRightClick: (id: string) => void,
+    onPoiRightClick: (id: string, modifiers?: CommandModifiers) => void,
     units: GameUnit[],
     pois: POI[],
     selectedUnitIds: string[],
@@ -266,12 +272,14 @@ const MapInteraction: React.FC<{
                 }
             }
 
+            // Shift queues the command (see useGameLoop's SHIFT-CLICK COMMAND QUEUES)
+            const modifiers = e.originalEvent;
             if (clickedUnitId) {
-                onUnitRightClick(clickedUnitId);
+                onUnitRightClick(clickedUnitId, modifiers);
             } else if (clickedPoiId) {
-                onPoiRightClick(clickedPoiId);
+                onPoiRightClick(clickedPoiId, modifiers);
             } else {
-                onMapRightClick(e.latlng.lat, e.latlng.lng);
+                onMapRightClick(e.latlng.lat, e.latlng.lng, modifiers);
             }
         }
     });
@@ -304,7 +312,56 @@ const MapController: React.FC<{ center: { lat: number; lng: number }, gameMode:
 
 const MemoizedMapController = React.memo(MapController);
 
-const GameMap: React.FC<Props> = ({ units, factions, pois = [], projectiles, explosions, center, selectedUnitIds, onUnitClick, onUnitRightClick, onUnitAction, onMapClick, onMapRightClick, onPoiClick, onPoiRightClick, onMultiSelect, gameMode, placementType, localPlayerId, nukesInFlight = [], fogOfWarEnabled = false }) => {
+// Stable default so the memos below don't recompute every render
+const NO_ALLIES: string[] = [];
+
+const GameMap: React.FC<Props> = ({ units: allUnits, factions, pois = [], projectiles, explosions, center, selectedUnitIds, onUnitClick, onUnitRightClick, onUnitAction, onMapClick, onMapRightClick, onPoiClick, onPoiRightClick, onMultiSelect, gameMode, placementType, localPlayerId, allyIds = NO_ALLIES, nukesInFlight = [], mines = [], gameTick = 0, fogOfWarEnabled = false, revealAll = false }) => {
+    // Last time each enemy submarine was on our sonar - feeds the ghost markers
+    const lastContacts = React.useRef(new Map<string, { unit: GameUnit; seenAt: number }>());
+
+    // Units aboard transports/carriers and undetected enemy submarines are
+    // neither drawn nor selectable. Allies' sonar counts as ours.
+    const { units, contacts } = useMemo(() => {
+        const now = Date.now();
+        const visionIds = [localPlayerId, ...allyIds];
+        const visible: GameUnit[] = [];
+        const visibleIds = new Set<string>();
+        const aliveSubs = new Set<string>();
+
+        for (const u of allUnits) {
+            if (u.isLoaded) continue;
+            if (!revealAll && isStealthUnit(u) && !visionIds.includes(u.factionId)) {
+                aliveSubs.add(u.id);
+                if (!visionIds.some(id => isUnitDetectedBy(u, id, gameTick))) continue;
+                lastContacts.current.set(u.id, { unit: u, seenAt: now });
+            }
+            visible.push(u);
+            visibleIds.add(u.id);
+        }
+
+        const ghosts: SonarContact[] = [];
+        lastContacts.current.forEach((contact, id) => {
+            if (!aliveSubs.has(id) || now - contact.seenAt > STEALTH_CONFIG.CONTACT_GHOST_MS) {
+                lastContacts.current.delete(id);
+                return;
+            }
+            if (visibleIds.has(id)) return;
+            const pos = contact.unit.visualPosition || contact.unit.position;
+            ghosts.push({ id, factionId: contact.unit.factionId, position: { lat: pos.lat, lng: pos.lng }, lostAt: contact.seenAt });
+        });
+
+        return { units: visible, contacts: ghosts };
+    }, [allUnits, localPlayerId, allyIds, gameTick, revealAll]);
+    // Enemy mines stay hidden until a DESTROYER / RECON_DRONE spots them
+    const visibleMines = useMemo(
+        () => {
+            if (revealAll) return mines;
+            const visionIds = [localPlayerId, ...allyIds];
+            return mines.filter(m => visionIds.includes(m.factionId) || m.revealedTo.some(id => visionIds.includes(id)));
+        },
+        [mines, localPlayerId, allyIds, revealAll]
+    );
+
     return (
         <div className="w-full h-screen relative z-0">
             <MapContainer
@@ -334,6 +391,7 @@ const GameMap: React.FC<Props> = ({ units, factions, pois = [], projectiles, exp
                         units={units}
                         pois={pois}
                         localPlayerId={localPlayerId}
+                        allyIds={allyIds}
                         enabled={fogOfWarEnabled}
                     />
                 )}
@@ -347,6 +405,8 @@ const GameMap: React.FC<Props> = ({ units, factions, pois = [], projectiles, exp
                     explosions={explosions}
                     pois={pois}
                     nukesInFlight={nukesInFlight}
+                    mines={visibleMines}
+                    contacts={contacts}
                 />
 
                 <MapInteraction
@@ -367,7 +427,7 @@ const GameMap: React.FC<Props> = ({ units, factions, pois = [], projectiles, exp
                 {gameMode !== 'SELECTION' && (
                     <>
                         {/* LAYER 2: TERRITORY (Z: 400) - Rendered via SVGOverlay inside TerritoryLayer */}
-                        <TerritoryLayer units={units} pois={pois} factions={factions} />
+                        <TerritoryLayer units={units} pois={pois} factions={factions} localPlayerId={localPlayerId} />
                         <PlacementOverlay gameMode={gameMode} placementType={placementType || null} />
                     </>
                 )}
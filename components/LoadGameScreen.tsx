@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { SaveGame, SaveGameSummary } from '../services/schemas';
+import { SaveGameService, describeSave } from '../services/saveGameService';
+
+interface LoadGameScreenProps {
+    onLoad: (save: SaveGame) => void;
+    onBack: () => void;
+}
+
+// Main menu: pick a save slot to resume, or delete one
+const LoadGameScreen: React.FC<LoadGameScreenProps> = ({ onLoad, onBack }) => {
+    const [saves, setSaves] = useState<SaveGameSummary[] | null>(null);
+    const [error, setError] = useState('');
+    const [busyId, setBusyId] = useState<string | null>(null);
+
+    useEffect(() => {
+        SaveGameService.list()
+            .then(setSaves)
+            .catch(err => {
+                setSaves([]);
+                setError(err?.message || 'Could not read saves');
+            });
+    }, []);
+
+    const handleLoad = async (id: string) => {
+        setBusyId(id);
+        try {
+            onLoad(await SaveGameService.load(id));
+        } catch (err: any) {
+            console.error('[SAVE] Failed to load', id, err);
+            setError(err?.message || 'Could not load the game');
+            setBusyId(null);
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        setBusyId(id);
+        try {
+            await SaveGameService.remove(id);
+            setSaves(await SaveGameService.list());
+        } catch (err: any) {
+            setError(err?.message || 'Could not delete the save');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    return (
+        <div className="relative flex flex-col items-center justify-center h-screen bg-tactical-900 text-white overflow-hidden">
+            <div className="absolute inset-0 bg-grid-animated opacity-20"></div>
+            <div className="absolute inset-0 bg-radial-glow"></div>
+
+            <div className="relative z-10 animate-slide-up">
+                <h2 className="font-display text-4xl font-bold mb-6 text-center tracking-wider text-cyan-400">LOAD GAME</h2>
+
+                <div className="glass-panel rounded-2xl p-6 w-[560px] space-y-2 border border-cyan-500/20">
+                    {saves === null && <p className="text-slate-400 text-center py-6">Loading saves...</p>}
+                    {saves?.length === 0 && !error && <p className="text-slate-500 text-center py-6">No saved games yet - save from the in-game menu.</p>}
+                    <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+                        {saves?.map(slot => (
+                            <div key={slot.id} className="flex items-center gap-3 p-3 rounded-xl bg-slate-800/50 border border-slate-700/40">
+                                <div className="flex-1 min-w-0">
+                                    <p className="font-bold truncate">{slot.name}</p>
+                                    <p className="text-xs text-slate-400 truncate">{describeSave(slot)}</p>
+                                    <p className="text-xs text-slate-500">{new Date(slot.savedAt).toLocaleString()}</p>
+                                </div>
+                                <button
+                                    disabled={busyId !== null}
+                                    onClick={() => handleLoad(slot.id)}
+                                    className="px-4 py-2 rounded-lg bg-cyan-600 hover:bg-cyan-500 disabled:opacity-50 text-sm font-bold"
+                                >
+                                    LOAD
+                                </button>
+                                <button
+                                    disabled={busyId !== null}
+                                    onClick={() => handleDelete(slot.id)}
+                                    className="px-3 py-2 rounded-lg bg-red-900/40 hover:bg-red-800/60 border border-red-700/40 disabled:opacity-50 text-sm text-red-300"
+                                >
+                                    DELETE
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                    {error && <p className="text-xs text-red-400 text-center">{error}</p>}
+                </div>
+
+                <button onClick={onBack} className="mt-4 w-full text-slate-400 hover:text-white text-sm py-2 transition-colors">
+                    ← Back to Menu
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default LoadGameScreen;
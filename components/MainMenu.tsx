@@ -1,28 +1,35 @@
 import React, { useState, useEffect } from 'react';
-import { SCENARIOS, FACTION_PRESETS, DIFFICULTY_CONFIG, PERSONALITY_CONFIG } from '../constants';
+import { SCENARIOS, FACTION_PRESETS, DIFFICULTY_CONFIG, PERSONALITY_CONFIG, TEAM_CONFIG, DEFAULT_GAME_SETTINGS, GAME_SETTINGS_LIMITS } from '../constants';
 import { NetworkService } from '../services/networkService';
 import { PhantomHostService } from '../services/phantomHostService';
 import { BattleRoyaleService } from '../services/battleRoyaleService';
 import { AudioService } from '../services/audioService';
-import { Scenario, Faction, LobbyState, LobbyPlayer, Difficulty, BotPersonality, POI, POIType } from '../types';
+import { parseReplay } from '../services/replayService';
+import { getAllScenarios, getScenario, getScenarioInfo, createScenarioDraft, deleteCustomScenario } from '../services/scenarioService';
+import { applyLobbyTeams } from '../services/teamService';
+import { normalizeGameSettings, getStartingResources, resolveBotPersonality, VICTORY_CONDITIONS, VICTORY_CONDITION_NAMES } from '../services/gameSettings';
+import { ReplayFile, SaveGame } from '../services/schemas';
+import LoadGameScreen from './LoadGameScreen';
+import { Scenario, Faction, LobbyState, LobbyPlayer, Difficulty, BotPersonality, BotPersonalityChoice, GameSettings, VictoryCondition, VictoryParams, UnitClass, POI, POIType } from '../types';
 
-// Helper to assign random personality to bots
-const getRandomPersonality = (): BotPersonality => {
-    const personalities = Object.values(BotPersonality);
-    return personalities[Math.floor(Math.random() * personalities.length)];
-};
+const PERSONALITY_CYCLE: BotPersonalityChoice[] = ['RANDOM', ...Object.values(BotPersonality)];
 
 interface MainMenuProps {
-    onStartGame: (scenario: Scenario, localPlayerId: string, factions: Faction[], isMultiplayer: boolean, isHost: boolean) => void;
+    onStartGame: (scenario: Scenario, localPlayerId: string, factions: Faction[], isMultiplayer: boolean, isHost: boolean, settings: GameSettings) => void;
     onJoinBattleRoyale?: (gameState: any) => void;
+    onOpenReplay?: (replay: ReplayFile) => void;
+    onOpenScenarioEditor?: (scenario: Scenario) => void;
+    onLoadGame?: (save: SaveGame) => void;
     lobbyState: LobbyState;
     setLobbyState: React.Dispatch<React.SetStateAction<LobbyState>>;
     networkMode: 'SINGLE' | 'MULTI_HOST' | 'MULTI_JOIN' | 'LOBBY' | 'BATTLE_ROYALE' | null;
     setNetworkMode: React.Dispatch<React.SetStateAction<'SINGLE' | 'MULTI_HOST' | 'MULTI_JOIN' | 'LOBBY' | 'BATTLE_ROYALE' | null>>;
 }
 
-const MainMenu: React.FC<MainMenuProps> = ({ onStartGame, onJoinBattleRoyale, lobbyState, setLobbyState, networkMode, setNetworkMode }) => {
+const MainMenu: React.FC<MainMenuProps> = ({ onStartGame, onJoinBattleRoyale, onOpenReplay, onOpenScenarioEditor, onLoadGame, lobbyState, setLobbyState, networkMode, setNetworkMode }) => {
     const [hostIdInput, setHostIdInput] = useState<string>('');
+    const [replayError, setReplayError] = useState<string>('');
+    const [showLoadGame, setShowLoadGame] = useState<boolean>(false);
     const [connectionStatus, setConnectionStatus] = useState<string>('');
     const [selectedFactionIndex, setSelectedFactionIndex] = useState<number>(0);
     const [peerId, setPeerId] = useState<string>('');
@@ -37,6 +44,7 @@ const MainMenu: React.FC<MainMenuProps> = ({ onStartGame, onJoinBattleRoyale, lo
     const [brSelectedCity, setBrSelectedCity] = useState<string>('');
     const [brRoundTime, setBrRoundTime] = useState<number>(300000);
     const [brScenario, setBrScenario] = useState<string>('WORLD');
+    const [brRotation, setBrRotation] = useState<string[]>([]);
 
     useEffect(() => {
         const checkId = setInterval(() => {
@@ -100,6 +108,7 @@ const MainMenu: React.FC<MainMenuProps> = ({ onStartGame, onJoinBattleRoyale, lo
                             gameState.factions.some(f => f.id === p.ownerFactionId && f.type === 'BOT'))
                     ));
                     setBrScenario(brState.config.scenarioRotation[brState.currentScenarioIndex]);
+                    setBrRotation(brState.config.scenarioRotation);
                     setBrRoundTime(brState.config.roundDurationMs - (Date.now() - brState.roundStartTime));
                 }
             })
@@ -124,28 +133,27 @@ const MainMenu: React.FC<MainMenuProps> = ({ onStartGame, onJoinBattleRoyale, lo
     }, [networkMode, brConnected]);
 
     const handleSinglePlayerStart = () => {
-        const scenario = Object.values(SCENARIOS).find(s => s.id === lobbyState.scenarioId) || SCENARIOS.WORLD;
+        const scenario = getScenario(lobbyState.scenarioId) || SCENARIOS.WORLD;
+        const settings = normalizeGameSettings(lobbyState.settings);
         const playerFaction = {
             ...FACTION_PRESETS[selectedFactionIndex],
             id: 'PLAYER',
             type: 'PLAYER' as const,
-            gold: 10000,
-            oil: 1000,
+            ...getStartingResources(settings, 'PLAYER'),
             relations: {},
             aggression: 0
         };
 
         const otherFactions = FACTION_PRESETS
             .filter((_, i) => i !== selectedFactionIndex)
-            .slice(0, lobbyState.botCount)
+            .slice(0, settings.botCount)
             .map((preset, i) => {
-                const personality = getRandomPersonality();
+                const personality = resolveBotPersonality(settings, i);
                 return {
                     ...preset,
                     id: `BOT_${i}`,
                     type: 'BOT' as const,
-                    gold: 10000,
-                    oil: 1000,
+                    ...getStartingResources(settings, `BOT_${i}`),
                     relations: { 'PLAYER': -100 },
                     aggression: 1.0,
                     personality,
@@ -154,14 +162,15 @@ const MainMenu: React.FC<MainMenuProps> = ({ onStartGame, onJoinBattleRoyale, lo
                 };
             });
 
-        const allFactions = [playerFaction, ...otherFactions] as Faction[];
-        onStartGame(scenario, 'PLAYER', allFactions, false, true);
+        const allFactions = applyLobbyTeams([playerFaction, ...otherFactions] as Faction[], lobbyState.teams);
+        onStartGame(scenario, 'PLAYER', allFactions, false, true, settings);
     };
 
     const handleHostLobbyStart = () => {
         if (networkMode !== 'MULTI_HOST' && networkMode !== 'LOBBY') return;
 
-        const scenario = Object.values(SCENARIOS).find(s => s.id === lobbyState.scenarioId) || SCENARIOS.WORLD;
+        const scenario = getScenario(lobbyState.scenarioId) || SCENARIOS.WORLD;
+        const settings = normalizeGameSettings(lobbyState.settings);
 
         // Helper function to build factions with correct player ID
         const buildFactions = (playerId: string): Faction[] => {
@@ -185,8 +194,7 @@ const MainMenu: React.FC<MainMenuProps> = ({ onStartGame, onJoinBattleRoyale, lo
                     id: p.id,
                     name: p.name,
                     type: 'PLAYER',
-                    gold: 10000,
-                    oil: 1000,
+                    ...getStartingResources(settings, p.id),
                     relations: {},
                     aggression: 0
                 });
@@ -195,15 +203,14 @@ const MainMenu: React.FC<MainMenuProps> = ({ onStartGame, onJoinBattleRoyale, lo
             const usedIndices = players.map(p => p.factionIndex);
             const availablePresets = FACTION_PRESETS.filter((_, i) => !usedIndices.includes(i));
 
-            for (let i = 0; i < lobbyState.botCount; i++) {
+            for (let i = 0; i < settings.botCount; i++) {
                 if (i >= availablePresets.length) break;
-                const personality = getRandomPersonality();
+                const personality = resolveBotPersonality(settings, i);
                 factions.push({
                     ...availablePresets[i],
                     id: `BOT_${i}`,
                     type: 'BOT',
-                    gold: 10000,
-                    oil: 1000,
+                    ...getStartingResources(settings, `BOT_${i}`),
                     relations: {},
                     aggression: 1.0,
                     personality,
@@ -220,8 +227,9 @@ const MainMenu: React.FC<MainMenuProps> = ({ onStartGame, onJoinBattleRoyale, lo
                 });
             });
 
-            console.log('[LOBBY] Built factions:', factions.map(f => ({ id: f.id, type: f.type, color: f.color })));
-            return factions;
+            const teamed = applyLobbyTeams(factions, lobbyState.teams);
+            console.log('[LOBBY] Built factions:', teamed.map(f => ({ id: f.id, type: f.type, color: f.color, team: f.teamId })));
+            return teamed;
         };
 
         // CRITICAL: Wait for peerId to be ready before starting
@@ -233,7 +241,7 @@ const MainMenu: React.FC<MainMenuProps> = ({ onStartGame, onJoinBattleRoyale, lo
                 if (NetworkService.myPeerId) {
                     // Rebuild factions with the correct player ID
                     const factions = buildFactions(NetworkService.myPeerId);
-                    onStartGame(scenario, NetworkService.myPeerId, factions, true, true);
+                    onStartGame(scenario, NetworkService.myPeerId, factions, true, true, settings);
                 } else {
                     setTimeout(checkPeerId, 100);
                 }
@@ -243,7 +251,7 @@ const MainMenu: React.FC<MainMenuProps> = ({ onStartGame, onJoinBattleRoyale, lo
         }
 
         const factions = buildFactions(playerId);
-        onStartGame(scenario, playerId, factions, true, true);
+        onStartGame(scenario, playerId, factions, true, true, settings);
     };
 
     const handleJoin = () => {
@@ -251,17 +259,87 @@ const MainMenu: React.FC<MainMenuProps> = ({ onStartGame, onJoinBattleRoyale, lo
         NetworkService.connect(hostIdInput);
     };
 
+    // Reclaim the seat this tab held before a drop or reload (see reconnectService)
+    const handleRejoin = async () => {
+        setConnectionStatus('Rejoining match...');
+        const unsub = NetworkService.subscribe(e => {
+            if (e.type !== 'RESPONSE' || e.response.type !== 'REJOIN_RESULT') return;
+            unsub();
+            if (!e.response.accepted) setConnectionStatus(e.response.message || 'Rejoin refused');
+        });
+        if (!(await NetworkService.rejoin())) {
+            unsub();
+            setConnectionStatus('Could not reach the host of your last match');
+        }
+    };
+
     const updateLobbySetting = (key: keyof LobbyState, value: any) => {
         setLobbyState(prev => ({ ...prev, [key]: value }));
     };
 
+    // Custom scenarios travel to lobby clients as info only (the host keeps the map)
+    const selectScenario = (scenario: Scenario) => {
+        setLobbyState(prev => ({ ...prev, scenarioId: scenario.id, customScenario: scenario.custom ? getScenarioInfo(scenario) : undefined }));
+    };
+
+    const toggleBrRotation = (scenarioId: string) => {
+        const next = brRotation.includes(scenarioId) ? brRotation.filter(id => id !== scenarioId) : [...brRotation, scenarioId];
+        if (next.length === 0) return;
+        PhantomHostService.setScenarioRotation(next);
+        setBrRotation(PhantomHostService.getBRState()?.config.scenarioRotation || next);
+    };
+
+    const updateGameSetting = <K extends keyof GameSettings>(key: K, value: GameSettings[K]) => {
+        setLobbyState(prev => ({ ...prev, settings: { ...prev.settings, [key]: value } }));
+    };
+
+    // Bot slot -> next personality (RANDOM, then every BotPersonality)
+    const cyclePersonality = (botIndex: number) => {
+        const personalities = [...lobbyState.settings.botPersonalities];
+        const current = PERSONALITY_CYCLE.indexOf(personalities[botIndex] || 'RANDOM');
+        for (let i = personalities.length; i < botIndex; i++) personalities[i] = 'RANDOM';
+        personalities[botIndex] = PERSONALITY_CYCLE[(current + 1) % PERSONALITY_CYCLE.length];
+        updateGameSetting('botPersonalities', personalities);
+    };
+
+    // Slot -> next starting resource scale (per-faction handicap)
+    const cycleResourceScale = (slotId: string) => {
+        const scales = GAME_SETTINGS_LIMITS.RESOURCE_SCALES;
+        const resourceScale = { ...(lobbyState.settings.resourceScale || {}) };
+        resourceScale[slotId] = scales[(scales.indexOf(resourceScale[slotId] ?? 1) + 1) % scales.length];
+        updateGameSetting('resourceScale', resourceScale);
+    };
+
+    const setStartingUnitCount = (unitClass: UnitClass, count: number) => {
+        const clamped = Math.max(0, Math.min(GAME_SETTINGS_LIMITS.MAX_STARTING_UNITS, count));
+        updateGameSetting('startingUnits', { ...lobbyState.settings.startingUnits, [unitClass]: clamped });
+    };
+
+    const toggleVictoryCondition = (condition: VictoryCondition) => {
+        const current = lobbyState.settings.victoryConditions;
+        const next = current.includes(condition) ? current.filter(c => c !== condition) : [...current, condition];
+        if (next.length > 0) updateGameSetting('victoryConditions', next); // At least one way to win
+    };
+
+    const updateVictoryParam = <K extends keyof VictoryParams>(key: K, value: VictoryParams[K]) => {
+        updateGameSetting('victoryParams', { ...lobbyState.settings.victoryParams, [key]: value });
+    };
+
+    // Slot -> next team (0 = free-for-all, then 1..MAX_TEAMS)
+    const cycleTeam = (slotId: string) => {
+        const teams = { ...(lobbyState.teams || {}) };
+        teams[slotId] = ((teams[slotId] || 0) + 1) % (TEAM_CONFIG.MAX_TEAMS + 1);
+        updateLobbySetting('teams', teams);
+    };
+
     useEffect(() => {
         if (networkMode === 'MULTI_HOST' && NetworkService.myPeerId && lobbyState.players.length === 0) {
             setLobbyState({
                 players: [{ id: NetworkService.myPeerId, name: 'Host', factionIndex: 0, isHost: true, isReady: true }],
                 scenarioId: 'WORLD',
                 difficulty: Difficulty.MEDIUM,
-                botCount: 2
+                gameMode: 'DOMINATION',
+                settings: { ...DEFAULT_GAME_SETTINGS, botCount: 2 }
             });
         }
     }, [networkMode, peerId]);
@@ -272,6 +350,8 @@ const MainMenu: React.FC<MainMenuProps> = ({ onStartGame, onJoinBattleRoyale, lo
     if (!networkMode || networkMode === 'SINGLE') {
         if (networkMode === 'SINGLE') {
             // Falls through to shared lobby UI
+        } else if (showLoadGame && onLoadGame) {
+            return <LoadGameScreen onLoad={onLoadGame} onBack={() => setShowLoadGame(false)} />;
         } else {
             return (
                 <div className="relative flex flex-col items-center justify-center h-screen bg-tactical-900 text-white overflow-hidden">
@@ -397,6 +477,50 @@ const MainMenu: React.FC<MainMenuProps> = ({ onStartGame, onJoinBattleRoyale, lo
                                     JOIN GAME
                                 </span>
                             </button>
+
+                            {/* LOAD GAME - Resume a save slot */}
+                            {onLoadGame && (
+                                <button
+                                    onClick={() => setShowLoadGame(true)}
+                                    className="group relative px-8 py-4 rounded-2xl bg-gradient-to-r from-slate-800/40 to-slate-700/30 border border-slate-500/40 text-lg font-bold tracking-wider transition-all duration-300 hover:border-slate-300/70 hover:shadow-[0_0_30px_rgba(148,163,184,0.4)] hover:scale-[1.03] overflow-hidden backdrop-blur-sm"
+                                >
+                                    <span className="relative flex items-center justify-center gap-4">
+                                        <svg className="w-6 h-6 group-hover:scale-110 transition-transform" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7v10a2 2 0 002 2h12a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-3.414-3.414A1 1 0 0015.586 5H6a2 2 0 00-2 2zm4-2v4h7V5M8 19v-6h8v6" /></svg>
+                                        LOAD GAME
+                                    </span>
+                                </button>
+                            )}
+
+                            {/* REPLAY - Watch a downloaded match file */}
+                            {onOpenReplay && (
+                                <label className="group relative cursor-pointer px-8 py-4 rounded-2xl bg-gradient-to-r from-slate-800/40 to-slate-700/30 border border-slate-500/40 text-lg font-bold tracking-wider transition-all duration-300 hover:border-slate-300/70 hover:shadow-[0_0_30px_rgba(148,163,184,0.4)] hover:scale-[1.03] overflow-hidden backdrop-blur-sm">
+                                    <input
+                                        type="file"
+                                        accept=".json,application/json"
+                                        className="hidden"
+                                        onChange={async (e) => {
+                                            const file = e.target.files?.[0];
+                                            e.target.value = '';
+                                            if (!file) return;
+                                            try {
+                                                const replay = parseReplay(await file.text());
+                                                setReplayError('');
+                                                onOpenReplay(replay);
+                                            } catch (err: any) {
+                                                console.error('[REPLAY] Failed to open', file.name, err);
+                                                setReplayError(err?.message || 'Could not read replay');
+                                            }
+                                        }}
+                                    />
+                                    <span className="relative flex items-center justify-center gap-4">
+                                        <svg className="w-6 h-6 group-hover:scale-110 transition-transform" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+                                        REPLAY
+                                    </span>
+                                    {replayError && (
+                                        <span className="relative block text-center text-xs text-red-400 font-normal tracking-normal mt-2">{replayError}</span>
+                                    )}
+                                </label>
+                            )}
                         </div>
 
                         {/* Footer */}
@@ -494,7 +618,26 @@ const MainMenu: React.FC<MainMenuProps> = ({ onStartGame, onJoinBattleRoyale, lo
                         {/* Current Scenario */}
                         <div className="bg-slate-800/50 rounded-xl p-4 border border-slate-700/30">
                             <p className="text-xs text-slate-400 mb-1">CURRENT SCENARIO</p>
-                            <p className="text-xl font-bold text-cyan-400">{SCENARIOS[brScenario as keyof typeof SCENARIOS]?.name || brScenario}</p>
+                            <p className="text-xl font-bold text-cyan-400">{getScenario(brScenario)?.name || brScenario}</p>
+                            {PhantomHostService.isRunning() && (
+                                <>
+                                    <p className="text-xs text-slate-400 mt-3 mb-1">ROTATION</p>
+                                    <div className="flex flex-wrap gap-1">
+                                        {getAllScenarios().map(scen => (
+                                            <button
+                                                key={scen.id}
+                                                onClick={() => toggleBrRotation(scen.id)}
+                                                className={`px-2 py-0.5 rounded text-[11px] font-bold border ${brRotation.includes(scen.id)
+                                                    ? 'bg-cyan-500/20 border-cyan-500/50 text-cyan-300'
+                                                    : 'bg-slate-800/50 border-slate-600/30 text-slate-500'
+                                                    }`}
+                                            >
+                                                {scen.name}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </>
+                            )}
                         </div>
 
                         {/* Join Options */}
@@ -655,6 +798,16 @@ const MainMenu: React.FC<MainMenuProps> = ({ onStartGame, onJoinBattleRoyale, lo
                             CONNECT TO HOST
                         </button>
 
+                        {NetworkService.session && (
+                            <button
+                                onClick={handleRejoin}
+                                disabled={!peerId}
+                                className="w-full px-8 py-3 bg-slate-800/60 hover:bg-slate-700/60 rounded-xl text-sm font-bold tracking-wider border border-purple-500/30 text-purple-300 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+                            >
+                                REJOIN LAST MATCH
+                            </button>
+                        )}
+
                         <button
                             onClick={() => setNetworkMode(null)}
                             className="w-full text-slate-400 hover:text-white text-sm py-2 transition-colors"
@@ -718,36 +871,115 @@ const MainMenu: React.FC<MainMenuProps> = ({ onStartGame, onJoinBattleRoyale, lo
                         <div>
                             <label className="block text-xs text-slate-400 mb-3 tracking-wider uppercase">Theater of War</label>
                             <div className="grid grid-cols-2 gap-2">
-                                {Object.values(SCENARIOS).map((scen) => (
+                                {[
+                                    ...getAllScenarios(),
+                                    // Lobby clients only know the host's custom pick by its info
+                                    ...(lobbyState.customScenario && !getScenario(lobbyState.customScenario.id) ? [lobbyState.customScenario] : [])
+                                ].map((scen) => (
                                     <button
                                         key={scen.id}
                                         disabled={!canEdit}
-                                        onClick={() => isSingle ? setLobbyState(p => ({ ...p, scenarioId: scen.id })) : updateLobbySetting('scenarioId', scen.id)}
+                                        onClick={() => selectScenario(scen)}
                                         className={`p-3 rounded-xl text-sm font-bold border transition-all ${lobbyState.scenarioId === scen.id
                                             ? 'bg-cyan-500/20 border-cyan-500/50 text-cyan-300 shadow-[0_0_15px_rgba(6,182,212,0.2)]'
                                             : 'bg-slate-800/50 border-slate-600/30 text-slate-400 hover:bg-slate-700/50 hover:border-slate-500/50'
                                             } ${!canEdit && 'opacity-50 cursor-not-allowed'}`}
                                     >
-                                        {scen.name}
+                                        {scen.custom && <span className="text-amber-400 mr-1">★</span>}{scen.name}
                                     </button>
                                 ))}
                             </div>
+                            {/* Scenario editor: copy a theater into a new scenario, or edit/delete a custom one */}
+                            {canEdit && onOpenScenarioEditor && (() => {
+                                const selected = getScenario(lobbyState.scenarioId);
+                                return (
+                                    <div className="flex gap-2 mt-2">
+                                        <button
+                                            onClick={() => onOpenScenarioEditor(createScenarioDraft(selected))}
+                                            className="flex-1 p-2 rounded-lg text-xs font-bold border bg-slate-800/50 border-slate-600/30 text-slate-300 hover:bg-slate-700/50"
+                                        >
+                                            {selected?.custom ? 'EDIT SCENARIO' : 'NEW SCENARIO FROM THEATER'}
+                                        </button>
+                                        {selected?.custom && (
+                                            <button
+                                                onClick={() => {
+                                                    deleteCustomScenario(selected.id);
+                                                    selectScenario(SCENARIOS.WORLD);
+                                                }}
+                                                className="p-2 rounded-lg text-xs font-bold border bg-red-900/30 border-red-700/40 text-red-300 hover:bg-red-800/40"
+                                            >
+                                                DELETE
+                                            </button>
+                                        )}
+                                    </div>
+                                );
+                            })()}
                         </div>
 
                         {/* Bot Count */}
                         <div>
                             <label className="block text-xs text-slate-400 mb-3 tracking-wider uppercase">
-                                Enemy Factions: <span className="text-red-400 font-bold">{lobbyState.botCount}</span>
+                                Enemy Factions: <span className="text-red-400 font-bold">{lobbyState.settings.botCount}</span>
                             </label>
                             <input
-                                type="range" min="0" max="7"
+                                type="range" min="0" max={GAME_SETTINGS_LIMITS.MAX_BOTS}
                                 disabled={!canEdit}
-                                value={lobbyState.botCount}
-                                onChange={(e) => isSingle ? setLobbyState(p => ({ ...p, botCount: parseInt(e.target.value) })) : updateLobbySetting('botCount', parseInt(e.target.value))}
+                                value={lobbyState.settings.botCount}
+                                onChange={(e) => updateGameSetting('botCount', parseInt(e.target.value))}
                                 className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
                             />
                             <div className="flex justify-between text-xs text-slate-500 mt-1">
-                                <span>0</span><span>7</span>
+                                <span>0</span><span>{GAME_SETTINGS_LIMITS.MAX_BOTS}</span>
+                            </div>
+                        </div>
+
+                        {/* Teams, bot personalities and per-faction starting resources */}
+                        <div>
+                            <label className="block text-xs text-slate-400 mb-3 tracking-wider uppercase">Teams</label>
+                            <div className="space-y-1.5">
+                                {[
+                                    ...(isSingle ? [{ id: 'PLAYER', name: 'You', botIndex: -1 }] : lobbyState.players.map(p => ({ id: p.id, name: p.name, botIndex: -1 }))),
+                                    ...Array.from({ length: lobbyState.settings.botCount }, (_, i) => ({ id: `BOT_${i}`, name: `Bot ${i + 1}`, botIndex: i }))
+                                ].map(slot => {
+                                    const team = lobbyState.teams?.[slot.id] || 0;
+                                    const scale = lobbyState.settings.resourceScale?.[slot.id] ?? 1;
+                                    return (
+                                        <div key={slot.id} className="flex items-center gap-1.5 text-xs">
+                                            <span className="flex-1 text-slate-300">{slot.name}</span>
+                                            {slot.botIndex >= 0 && (
+                                                <button
+                                                    disabled={!canEdit}
+                                                    onClick={() => cyclePersonality(slot.botIndex)}
+                                                    title="Bot personality (random is rolled at start)"
+                                                    className={`w-24 py-1 rounded-lg font-bold border transition-all bg-slate-800/50 border-slate-600/30 text-slate-300 hover:bg-slate-700/50 ${!canEdit && 'opacity-50 cursor-not-allowed'}`}
+                                                >
+                                                    {PERSONALITY_CONFIG[lobbyState.settings.botPersonalities[slot.botIndex] as BotPersonality]?.name || 'Random'}
+                                                </button>
+                                            )}
+                                            <button
+                                                disabled={!canEdit}
+                                                onClick={() => cycleResourceScale(slot.id)}
+                                                title="Starting resources"
+                                                className={`w-12 py-1 rounded-lg font-bold border transition-all ${scale !== 1
+                                                    ? 'bg-yellow-500/20 border-yellow-500/50 text-yellow-300'
+                                                    : 'bg-slate-800/50 border-slate-600/30 text-slate-400 hover:bg-slate-700/50'
+                                                    } ${!canEdit && 'opacity-50 cursor-not-allowed'}`}
+                                            >
+                                                {Math.round(scale * 100)}%
+                                            </button>
+                                            <button
+                                                disabled={!canEdit}
+                                                onClick={() => cycleTeam(slot.id)}
+                                                className={`w-20 py-1 rounded-lg font-bold border transition-all ${team
+                                                    ? 'bg-cyan-500/20 border-cyan-500/50 text-cyan-300'
+                                                    : 'bg-slate-800/50 border-slate-600/30 text-slate-400 hover:bg-slate-700/50'
+                                                    } ${!canEdit && 'opacity-50 cursor-not-allowed'}`}
+                                            >
+                                                {team ? `TEAM ${team}` : 'FFA'}
+                                            </button>
+                                        </div>
+                                    );
+                                })}
                             </div>
                         </div>
 
@@ -851,6 +1083,148 @@ const MainMenu: React.FC<MainMenuProps> = ({ onStartGame, onJoinBattleRoyale, lo
                         </div>
                     </div>
 
+                    {/* CUSTOM RULES */}
+                    <div className="glass-panel rounded-2xl p-6 space-y-6 border border-slate-600/20">
+                        <h3 className="font-display text-lg font-bold tracking-wider text-yellow-400 flex items-center gap-2">
+                            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" /></svg>
+                            CUSTOM RULES
+                        </h3>
+
+                        {/* Starting Resources */}
+                        <div>
+                            <label className="block text-xs text-slate-400 mb-3 tracking-wider uppercase">
+                                Starting Gold: <span className="text-yellow-400 font-bold">{lobbyState.settings.startingGold}</span>
+                            </label>
+                            <input
+                                type="range" min="0" max={GAME_SETTINGS_LIMITS.MAX_STARTING_GOLD} step="1000"
+                                disabled={!canEdit}
+                                value={lobbyState.settings.startingGold}
+                                onChange={(e) => updateGameSetting('startingGold', parseInt(e.target.value))}
+                                className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-yellow-500"
+                            />
+                            <label className="block text-xs text-slate-400 mt-4 mb-3 tracking-wider uppercase">
+                                Starting Oil: <span className="text-cyan-400 font-bold">{lobbyState.settings.startingOil}</span>
+                            </label>
+                            <input
+                                type="range" min="0" max={GAME_SETTINGS_LIMITS.MAX_STARTING_OIL} step="500"
+                                disabled={!canEdit}
+                                value={lobbyState.settings.startingOil}
+                                onChange={(e) => updateGameSetting('startingOil', parseInt(e.target.value))}
+                                className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+                            />
+                        </div>
+
+                        {/* Starting Units (besides the HQ) */}
+                        <div>
+                            <label className="block text-xs text-slate-400 mb-3 tracking-wider uppercase">Starting Army</label>
+                            <div className="space-y-1.5">
+                                {GAME_SETTINGS_LIMITS.STARTING_UNIT_CLASSES.map(unitClass => {
+                                    const count = lobbyState.settings.startingUnits[unitClass] || 0;
+                                    return (
+                                        <div key={unitClass} className="flex items-center justify-between text-xs">
+                                            <span className={count > 0 ? 'text-slate-200' : 'text-slate-500'}>{unitClass.replace(/_/g, ' ')}</span>
+                                            <div className="flex items-center gap-2">
+                                                <button
+                                                    disabled={!canEdit || count === 0}
+                                                    onClick={() => setStartingUnitCount(unitClass, count - 1)}
+                                                    className="w-6 h-6 rounded-lg font-bold border bg-slate-800/50 border-slate-600/30 text-slate-300 hover:bg-slate-700/50 disabled:opacity-40 disabled:cursor-not-allowed"
+                                                >-</button>
+                                                <span className="w-5 text-center font-mono text-white">{count}</span>
+                                                <button
+                                                    disabled={!canEdit || count >= GAME_SETTINGS_LIMITS.MAX_STARTING_UNITS}
+                                                    onClick={() => setStartingUnitCount(unitClass, count + 1)}
+                                                    className="w-6 h-6 rounded-lg font-bold border bg-slate-800/50 border-slate-600/30 text-slate-300 hover:bg-slate-700/50 disabled:opacity-40 disabled:cursor-not-allowed"
+                                                >+</button>
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+
+                        {/* Income Multiplier */}
+                        <div>
+                            <label className="block text-xs text-slate-400 mb-3 tracking-wider uppercase">Income</label>
+                            <div className="flex gap-2">
+                                {GAME_SETTINGS_LIMITS.INCOME_MULTIPLIERS.map(mult => (
+                                    <button
+                                        key={mult}
+                                        disabled={!canEdit}
+                                        onClick={() => updateGameSetting('incomeMultiplier', mult)}
+                                        className={`flex-1 py-2 rounded-xl text-xs font-bold border transition-all ${lobbyState.settings.incomeMultiplier === mult
+                                            ? 'bg-yellow-500/20 border-yellow-500/50 text-yellow-300'
+                                            : 'bg-slate-800/50 border-slate-600/30 text-slate-400 hover:bg-slate-700/50'
+                                            } ${!canEdit && 'opacity-50 cursor-not-allowed'}`}
+                                    >
+                                        x{mult}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        {/* Rule Toggles */}
+                        <div className="grid grid-cols-2 gap-2">
+                            {([['nukesEnabled', '☢️ NUKES'], ['fogOfWar', 'FOG OF WAR']] as const).map(([key, label]) => (
+                                <button
+                                    key={key}
+                                    disabled={!canEdit}
+                                    onClick={() => updateGameSetting(key, !lobbyState.settings[key])}
+                                    className={`p-3 rounded-xl text-sm font-bold border transition-all ${lobbyState.settings[key]
+                                        ? 'bg-cyan-500/20 border-cyan-500/50 text-cyan-300'
+                                        : 'bg-slate-800/50 border-slate-600/30 text-slate-500 hover:bg-slate-700/50'
+                                        } ${!canEdit && 'opacity-50 cursor-not-allowed'}`}
+                                >
+                                    {label}: {lobbyState.settings[key] ? 'ON' : 'OFF'}
+                                </button>
+                            ))}
+                        </div>
+
+                        {/* Victory Conditions */}
+                        <div>
+                            <label className="block text-xs text-slate-400 mb-3 tracking-wider uppercase">Victory Conditions</label>
+                            <div className="grid grid-cols-2 gap-2">
+                                {VICTORY_CONDITIONS.map(condition => (
+                                    <button
+                                        key={condition}
+                                        disabled={!canEdit}
+                                        onClick={() => toggleVictoryCondition(condition)}
+                                        className={`p-3 rounded-xl text-sm font-bold border transition-all ${lobbyState.settings.victoryConditions.includes(condition)
+                                            ? 'bg-green-500/20 border-green-500/50 text-green-300'
+                                            : 'bg-slate-800/50 border-slate-600/30 text-slate-500 hover:bg-slate-700/50'
+                                            } ${!canEdit && 'opacity-50 cursor-not-allowed'}`}
+                                    >
+                                        {VICTORY_CONDITION_NAMES[condition].toUpperCase()}
+                                    </button>
+                                ))}
+                            </div>
+
+                            {/* Targets for the enabled conditions */}
+                            <div className="space-y-3 mt-4">
+                                {([
+                                    ['CAPITALS', 'capitalCount', 'Capitals to hold', 1, GAME_SETTINGS_LIMITS.MAX_CAPITAL_COUNT, 1, ''],
+                                    ['CAPITALS', 'capitalHoldMinutes', 'Hold capitals for', 1, GAME_SETTINGS_LIMITS.MAX_HOLD_MINUTES, 1, ' min'],
+                                    ['TERRITORY', 'territoryPercent', 'Territory needed', 10, 100, 5, '%'],
+                                    ['KING_OF_THE_HILL', 'hillHoldMinutes', 'Hold the hill for', 1, GAME_SETTINGS_LIMITS.MAX_HOLD_MINUTES, 1, ' min'],
+                                    ['ECONOMIC', 'economicGold', 'Gold to bank', 10000, GAME_SETTINGS_LIMITS.MAX_ECONOMIC_GOLD, 10000, 'G'],
+                                    ['TIME_LIMIT', 'timeLimitMinutes', 'Time limit', 5, GAME_SETTINGS_LIMITS.MAX_TIME_LIMIT_MINUTES, 5, ' min']
+                                ] as const).filter(([condition]) => lobbyState.settings.victoryConditions.includes(condition)).map(([, key, label, min, max, step, unit]) => (
+                                    <div key={key}>
+                                        <label className="block text-xs text-slate-400 mb-2 tracking-wider uppercase">
+                                            {label}: <span className="text-green-400 font-bold">{lobbyState.settings.victoryParams[key]}{unit}</span>
+                                        </label>
+                                        <input
+                                            type="range" min={min} max={max} step={step}
+                                            disabled={!canEdit}
+                                            value={lobbyState.settings.victoryParams[key]}
+                                            onChange={(e) => updateVictoryParam(key, parseInt(e.target.value))}
+                                            className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-green-500"
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    </div>
+
                     {/* PLAYERS LIST (Multiplayer Only) */}
                     {!isSingle && (
                         <div className="glass-panel rounded-2xl p-6 border border-slate-600/20">
@@ -0,0 +1,208 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import GameMap from './GameMap';
+import EventLog from './EventLog';
+import { GameState } from '../types';
+import { GAME_TICK_MS, REPLAY_CONFIG } from '../constants';
+import { ReplayFile } from '../services/schemas';
+import { ReplayPlayer } from '../services/replayService';
+import { TerrainService } from '../services/terrainService';
+import { getAllies } from '../services/teamService';
+
+interface ReplayViewerProps {
+    replay: ReplayFile;
+    onExit: () => void;
+}
+
+const noop = () => { };
+
+const formatTicks = (ticks: number) => {
+    const seconds = Math.floor((ticks * GAME_TICK_MS) / 1000);
+    return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ replay, onExit }) => {
+    const player = useMemo(() => new ReplayPlayer(replay), [replay]);
+    const [state, setState] = useState<GameState>(player.currentState);
+    const [checkpoints, setCheckpoints] = useState<number[]>(player.getCheckpointTicks());
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [speed, setSpeed] = useState(1);
+    // '' = observer (no fog, everything revealed), otherwise a faction's point of view
+    const [povFactionId, setPovFactionId] = useState<string>('');
+    const [terrainReady, setTerrainReady] = useState(TerrainService.isReady());
+
+    const isPlayingRef = useRef(isPlaying);
+    const speedRef = useRef(speed);
+    useEffect(() => { isPlayingRef.current = isPlaying; }, [isPlaying]);
+    useEffect(() => { speedRef.current = speed; }, [speed]);
+
+    // The simulation needs terrain data (naval/land movement rules)
+    useEffect(() => {
+        if (terrainReady) return;
+        const timer = setInterval(() => {
+            if (TerrainService.isReady()) {
+                setTerrainReady(true);
+                clearInterval(timer);
+            }
+        }, 250);
+        return () => clearInterval(timer);
+    }, [terrainReady]);
+
+    useEffect(() => () => player.dispose(), [player]);
+
+    const publish = () => {
+        setState(player.currentState);
+        setCheckpoints(player.getCheckpointTicks());
+    };
+
+    // PLAYBACK LOOP
+    useEffect(() => {
+        let frameId = 0;
+        let lastTime = performance.now();
+        let carry = 0;
+
+        const loop = (time: number) => {
+            const elapsed = time - lastTime;
+            lastTime = time;
+
+            if (isPlayingRef.current && terrainReady) {
+                carry += (elapsed * speedRef.current) / GAME_TICK_MS;
+                const due = Math.min(Math.floor(carry), REPLAY_CONFIG.MAX_TICKS_PER_FRAME);
+                carry = Math.min(carry - due, REPLAY_CONFIG.MAX_TICKS_PER_FRAME);
+                if (due > 0 && player.advance(due) > 0) publish();
+                if (player.isAtEnd) setIsPlaying(false);
+            } else {
+                carry = 0;
+            }
+            frameId = requestAnimationFrame(loop);
+        };
+
+        frameId = requestAnimationFrame(loop);
+        return () => cancelAnimationFrame(frameId);
+    }, [player, terrainReady]);
+
+    const handleSeek = (tick: number) => {
+        player.seek(tick);
+        publish();
+    };
+
+    const span = Math.max(1, player.endTick - player.startTick);
+    const progress = (state.gameTick - player.startTick) / span;
+    const isObserver = povFactionId === '';
+    const povAllies = useMemo(
+        () => isObserver ? [] : getAllies(state, povFactionId),
+        [state.factions, state.diplomacy, povFactionId, isObserver]
+    );
+
+    return (
+        <div className="w-full h-screen relative bg-slate-900 overflow-hidden">
+            <GameMap
+                units={state.units} factions={state.factions} pois={state.pois} projectiles={state.projectiles} explosions={state.explosions}
+                center={replay.initialState.pois.find(p => p.ownerFactionId === replay.localPlayerId)?.position || { lat: 20, lng: 0 }}
+                selectedUnitIds={[]}
+                onUnitClick={noop} onUnitRightClick={noop} onUnitAction={noop}
+                onMapClick={noop} onMapRightClick={noop} onPoiClick={noop} onPoiRightClick={noop}
+                onMultiSelect={noop}
+                gameMode="PLAYING"
+                localPlayerId={isObserver ? replay.localPlayerId : povFactionId}
+                allyIds={povAllies}
+                nukesInFlight={state.nukesInFlight}
+                mines={state.mines}
+                gameTick={state.gameTick}
+                fogOfWarEnabled={!isObserver}
+                revealAll={isObserver}
+            />
+            <EventLog messages={state.messages} />
+
+            {/* REPLAY BADGE */}
+            <div className="absolute top-4 left-4 z-[500] bg-slate-900/85 backdrop-blur px-4 py-2 rounded-xl border border-slate-600 text-white">
+                <p className="text-xs text-slate-400 tracking-widest">REPLAY</p>
+                <p className="font-bold">{replay.initialState.scenario.name}</p>
+                <p className="text-xs text-slate-400">{new Date(replay.recordedAt).toLocaleString()}</p>
+            </div>
+
+            <button
+                onClick={onExit}
+                className="absolute top-4 right-4 z-[500] px-4 py-2 rounded-xl bg-slate-800/80 hover:bg-slate-700 border border-slate-600 text-white font-bold text-sm"
+            >
+                EXIT REPLAY
+            </button>
+
+            {!terrainReady && (
+                <div className="absolute inset-0 z-[600] flex items-center justify-center pointer-events-none">
+                    <p className="bg-black/70 px-6 py-3 rounded-xl text-cyan-300 font-bold tracking-widest">LOADING TERRAIN...</p>
+                </div>
+            )}
+
+            {/* CONTROLS */}
+            <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-[500] w-[min(900px,90vw)] bg-slate-900/90 backdrop-blur rounded-2xl border border-slate-600 px-5 py-3 text-white shadow-xl">
+                {/* Seek bar with checkpoint markers */}
+                <div className="relative h-6 flex items-center">
+                    <input
+                        type="range"
+                        min={player.startTick}
+                        max={player.endTick}
+                        value={state.gameTick}
+                        onChange={(e) => handleSeek(Number(e.target.value))}
+                        className="w-full accent-cyan-400 cursor-pointer"
+                    />
+                    {checkpoints.map(tick => (
+                        <span
+                            key={tick}
+                            title={`Checkpoint ${formatTicks(tick - player.startTick)}`}
+                            className="absolute top-0 w-0.5 h-1.5 bg-cyan-300/70 pointer-events-none"
+                            style={{ left: `${((tick - player.startTick) / span) * 100}%` }}
+                        />
+                    ))}
+                </div>
+
+                <div className="flex items-center gap-4 mt-2 text-sm">
+                    <button
+                        onClick={() => {
+                            if (player.isAtEnd) handleSeek(player.startTick);
+                            setIsPlaying(p => !p);
+                        }}
+                        disabled={!terrainReady}
+                        className="w-20 py-1 rounded-lg bg-cyan-600 hover:bg-cyan-500 disabled:opacity-40 font-bold"
+                    >
+                        {isPlaying ? 'PAUSE' : 'PLAY'}
+                    </button>
+
+                    <div className="flex gap-1">
+                        {REPLAY_CONFIG.SPEEDS.map(s => (
+                            <button
+                                key={s}
+                                onClick={() => setSpeed(s)}
+                                className={`px-2 py-1 rounded-md font-mono ${speed === s ? 'bg-cyan-500 text-black' : 'bg-slate-700 hover:bg-slate-600'}`}
+                            >
+                                {s}x
+                            </button>
+                        ))}
+                    </div>
+
+                    <span className="font-mono text-slate-300">
+                        {formatTicks(state.gameTick - player.startTick)} / {formatTicks(span)}
+                    </span>
+                    <span className="text-slate-500 text-xs">{Math.round(progress * 100)}%</span>
+
+                    <label className="ml-auto flex items-center gap-2 text-slate-300">
+                        Vision
+                        <select
+                            value={povFactionId}
+                            onChange={(e) => setPovFactionId(e.target.value)}
+                            className="bg-slate-800 border border-slate-600 rounded-md px-2 py-1 text-white"
+                        >
+                            <option value="">Observer (no fog)</option>
+                            {state.factions
+                                .filter(f => f.id !== 'NEUTRAL' && f.id !== 'NEUTRAL_DEFENDER')
+                                .map(f => (
+                                    <option key={f.id} value={f.id}>{f.name}</option>
+                                ))}
+                        </select>
+                    </label>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ReplayViewer;
@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import { GameState } from '../types';
+import { SAVE_GAME_CONFIG } from '../constants';
+import { SaveGameSummary } from '../services/schemas';
+import { SaveGameService, createSaveGame, describeSave } from '../services/saveGameService';
+
+interface SaveGameDialogProps {
+    isOpen: boolean;
+    gameState: GameState;
+    onClose: () => void;
+}
+
+// In-game modal: save the running match to a new or existing slot
+const SaveGameDialog: React.FC<SaveGameDialogProps> = ({ isOpen, gameState, onClose }) => {
+    const [saves, setSaves] = useState<SaveGameSummary[]>([]);
+    const [name, setName] = useState('');
+    const [status, setStatus] = useState<{ text: string; error: boolean } | null>(null);
+    const [busy, setBusy] = useState(false);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setName(`${gameState.scenario?.name || 'Match'} - ${new Date().toLocaleString()}`.slice(0, SAVE_GAME_CONFIG.MAX_NAME_LENGTH));
+        setStatus(null);
+        SaveGameService.list()
+            .then(setSaves)
+            .catch(err => setStatus({ text: err?.message || 'Could not read saves', error: true }));
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const save = async (slotName: string, id?: string) => {
+        setBusy(true);
+        try {
+            const summary = await SaveGameService.save(createSaveGame(slotName, gameState, id));
+            setSaves(await SaveGameService.list());
+            setStatus({ text: `Saved "${summary.name}"`, error: false });
+        } catch (err: any) {
+            console.error('[SAVE] Failed to save', err);
+            setStatus({ text: err?.message || 'Could not save the game', error: true });
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50" onClick={onClose}>
+            <div
+                className="bg-gradient-to-b from-slate-800 to-slate-900 rounded-xl p-6 w-[28rem] shadow-2xl border border-slate-600"
+                onClick={e => e.stopPropagation()}
+            >
+                <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-xl font-bold text-white">💾 Save Game</h2>
+                    <button onClick={onClose} className="text-gray-400 hover:text-white text-2xl">×</button>
+                </div>
+
+                <div className="flex gap-2 mb-4">
+                    <input
+                        value={name}
+                        maxLength={SAVE_GAME_CONFIG.MAX_NAME_LENGTH}
+                        onChange={(e) => setName(e.target.value)}
+                        className="flex-1 bg-slate-800 border border-slate-600 rounded px-2 py-1 text-sm text-white"
+                    />
+                    <button
+                        disabled={busy}
+                        onClick={() => save(name)}
+                        className="px-4 py-1 rounded bg-cyan-600 hover:bg-cyan-500 disabled:opacity-50 text-sm font-bold text-white"
+                    >
+                        SAVE
+                    </button>
+                </div>
+
+                {saves.length > 0 && <p className="text-xs text-gray-400 mb-2">Or overwrite a slot:</p>}
+                <div className="space-y-1 max-h-64 overflow-y-auto">
+                    {saves.map(slot => (
+                        <button
+                            key={slot.id}
+                            disabled={busy}
+                            onClick={() => save(slot.name, slot.id)}
+                            className="w-full text-left p-2 rounded bg-slate-800/60 hover:bg-slate-700 border border-slate-700 disabled:opacity-50"
+                        >
+                            <p className="text-sm text-white font-bold">{slot.name}</p>
+                            <p className="text-xs text-gray-400">{describeSave(slot)} · {new Date(slot.savedAt).toLocaleString()}</p>
+                        </button>
+                    ))}
+                </div>
+
+                {status && <p className={`text-xs mt-3 ${status.error ? 'text-red-400' : 'text-green-400'}`}>{status.text}</p>}
+            </div>
+        </div>
+    );
+};
+
+export default SaveGameDialog;
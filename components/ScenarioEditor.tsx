@@ -0,0 +1,316 @@
+import React, { useMemo, useState } from 'react';
+import GameMap from './GameMap';
+import { Scenario, ScenarioPOI, ScenarioUnit, Faction, POIType, UnitClass } from '../types';
+import { FACTION_PRESETS, SCENARIO_CONFIG, UNIT_CONFIG } from '../constants';
+import {
+    buildScenarioMap, createScenarioPoi, createScenarioUnit, fitScenarioBounds,
+    validateScenario, saveCustomScenario, downloadScenario, parseScenarioFile
+} from '../services/scenarioService';
+
+interface ScenarioEditorProps {
+    scenario: Scenario;
+    onExit: (saved: Scenario | null) => void;
+}
+
+type EditorTool = 'SELECT' | POIType | 'UNIT';
+type Selection = { kind: 'POI' | 'UNIT'; id: string } | null;
+
+const noop = () => { };
+
+const TOOLS: { tool: EditorTool; label: string }[] = [
+    { tool: 'SELECT', label: 'Select / Move' },
+    { tool: POIType.CITY, label: 'City' },
+    { tool: POIType.OIL_RIG, label: 'Oil Rig' },
+    { tool: POIType.GOLD_MINE, label: 'Gold Mine' },
+    { tool: 'UNIT', label: 'Unit' }
+];
+
+// Stand-in factions so slot-owned POIs and units render in their slot colour
+const SLOT_FACTIONS: Faction[] = Array.from({ length: SCENARIO_CONFIG.MAX_SLOTS }, (_, i) => ({
+    id: `SLOT_${i}`,
+    name: `Slot ${i + 1}`,
+    type: 'BOT',
+    color: FACTION_PRESETS[i].color,
+    gold: 0,
+    oil: 0,
+    relations: {},
+    aggression: 0
+}));
+
+const BOUND_FIELDS: { key: keyof Scenario['bounds']; label: string }[] = [
+    { key: 'minLat', label: 'Min Lat' }, { key: 'maxLat', label: 'Max Lat' },
+    { key: 'minLng', label: 'Min Lng' }, { key: 'maxLng', label: 'Max Lng' }
+];
+
+const inputClass = 'w-full bg-slate-800 border border-slate-600 rounded px-2 py-1 text-sm text-white';
+
+// Full-screen editor: place/move/delete POIs and pre-placed units on the map,
+// then save to the local library or export a scenario file
+const ScenarioEditor: React.FC<ScenarioEditorProps> = ({ scenario, onExit }) => {
+    const [draft, setDraft] = useState<Scenario>(() => ({ ...scenario, pois: scenario.pois || [], units: scenario.units || [] }));
+    const [tool, setTool] = useState<EditorTool>('SELECT');
+    const [slot, setSlot] = useState<number | null>(0); // null = unclaimed (POIs only)
+    const [unitClass, setUnitClass] = useState<UnitClass>(UnitClass.INFANTRY);
+    const [selection, setSelection] = useState<Selection>(null);
+    const [status, setStatus] = useState<{ text: string; error: boolean } | null>(null);
+
+    const preview = useMemo(() => buildScenarioMap(draft, SLOT_FACTIONS), [draft]);
+    const center = useMemo(() => ({
+        lat: (draft.bounds.minLat + draft.bounds.maxLat) / 2,
+        lng: (draft.bounds.minLng + draft.bounds.maxLng) / 2
+    }), []);
+
+    const pois = draft.pois!;
+    const units = draft.units!;
+    const selectedPoi = selection?.kind === 'POI' ? pois.find(p => p.id === selection.id) : undefined;
+    const selectedUnit = selection?.kind === 'UNIT' ? units.find(u => u.id === selection.id) : undefined;
+
+    const updatePoi = (id: string, changes: Partial<ScenarioPOI>) =>
+        setDraft(d => ({ ...d, pois: d.pois!.map(p => p.id === id ? { ...p, ...changes } : p) }));
+    const updateUnit = (id: string, changes: Partial<ScenarioUnit>) =>
+        setDraft(d => ({ ...d, units: d.units!.map(u => u.id === id ? { ...u, ...changes } : u) }));
+
+    const deleteSelection = () => {
+        if (!selection) return;
+        setDraft(d => selection.kind === 'POI'
+            ? { ...d, pois: d.pois!.filter(p => p.id !== selection.id) }
+            : { ...d, units: d.units!.filter(u => u.id !== selection.id) });
+        setSelection(null);
+    };
+
+    const handleMapClick = (lat: number, lng: number) => {
+        const position = { lat, lng };
+        if (tool === 'SELECT') {
+            // Click on empty map moves the selection there
+            if (selectedPoi) updatePoi(selectedPoi.id, { position });
+            else if (selectedUnit) updateUnit(selectedUnit.id, { position });
+            return;
+        }
+        if (tool === 'UNIT') {
+            if (units.length >= SCENARIO_CONFIG.MAX_UNITS) return setStatus({ text: `Unit limit reached (${SCENARIO_CONFIG.MAX_UNITS})`, error: true });
+            const unit = createScenarioUnit(unitClass, slot ?? 0, position);
+            setDraft(d => ({ ...d, units: [...d.units!, unit] }));
+            setSelection({ kind: 'UNIT', id: unit.id });
+            return;
+        }
+        if (pois.length >= SCENARIO_CONFIG.MAX_POIS) return setStatus({ text: `POI limit reached (${SCENARIO_CONFIG.MAX_POIS})`, error: true });
+        const poi = { ...createScenarioPoi(tool, position), ownerSlot: slot ?? undefined };
+        setDraft(d => ({ ...d, pois: [...d.pois!, poi] }));
+        setSelection({ kind: 'POI', id: poi.id });
+    };
+
+    const handleSave = () => {
+        try {
+            const saved = saveCustomScenario(draft);
+            setDraft(saved);
+            setStatus({ text: `Saved "${saved.name}"`, error: false });
+            return saved;
+        } catch (err: any) {
+            setStatus({ text: err?.message || 'Could not save scenario', error: true });
+            return null;
+        }
+    };
+
+    const handleExport = () => {
+        try {
+            downloadScenario(validateScenario(draft));
+        } catch (err: any) {
+            setStatus({ text: err?.message || 'Could not export scenario', error: true });
+        }
+    };
+
+    const handleImport = async (file: File) => {
+        try {
+            const imported = parseScenarioFile(await file.text());
+            setDraft(imported);
+            setSelection(null);
+            setStatus({ text: `Imported "${imported.name}" - save to add it to your scenarios`, error: false });
+        } catch (err: any) {
+            console.error('[SCENARIO] Failed to import', file.name, err);
+            setStatus({ text: err?.message || 'Could not read scenario', error: true });
+        }
+    };
+
+    const slotSelect = (value: number | null, onChange: (value: number | null) => void, allowUnclaimed: boolean) => (
+        <select
+            value={value === null ? '' : value}
+            onChange={(e) => onChange(e.target.value === '' ? null : Number(e.target.value))}
+            className={inputClass}
+        >
+            {allowUnclaimed && <option value="">Unclaimed</option>}
+            {SLOT_FACTIONS.map((f, i) => <option key={f.id} value={i}>{f.name}</option>)}
+        </select>
+    );
+
+    const cityCount = pois.filter(p => p.type === POIType.CITY).length;
+
+    return (
+        <div className="w-full h-screen relative bg-slate-900 overflow-hidden">
+            <GameMap
+                units={preview.units} factions={SLOT_FACTIONS} pois={preview.pois} projectiles={[]} explosions={[]}
+                center={center}
+                selectedUnitIds={selectedUnit ? [selectedUnit.id] : []}
+                onUnitClick={(id) => setSelection({ kind: 'UNIT', id })}
+                onUnitRightClick={noop} onUnitAction={noop}
+                onMapClick={handleMapClick} onMapRightClick={noop}
+                onPoiClick={(id) => setSelection({ kind: 'POI', id })}
+                onPoiRightClick={noop}
+                onMultiSelect={noop}
+                gameMode="PLAYING"
+                localPlayerId="SLOT_0"
+                revealAll
+            />
+
+            {/* SCENARIO PANEL */}
+            <div className="absolute top-4 left-4 z-[500] w-72 bg-slate-900/90 backdrop-blur rounded-xl border border-slate-600 p-4 text-white space-y-3">
+                <p className="text-xs text-slate-400 tracking-widest">SCENARIO EDITOR</p>
+                <input
+                    value={draft.name}
+                    maxLength={60}
+                    onChange={(e) => setDraft(d => ({ ...d, name: e.target.value }))}
+                    className={inputClass}
+                    placeholder="Scenario name"
+                />
+                <div className="grid grid-cols-2 gap-2">
+                    {BOUND_FIELDS.map(({ key, label }) => (
+                        <label key={key} className="text-[10px] text-slate-400 uppercase">
+                            {label}
+                            <input
+                                type="number" step="0.5"
+                                value={draft.bounds[key]}
+                                onChange={(e) => setDraft(d => ({ ...d, bounds: { ...d.bounds, [key]: Number(e.target.value) } }))}
+                                className={inputClass}
+                            />
+                        </label>
+                    ))}
+                </div>
+                <button
+                    onClick={() => setDraft(d => ({ ...d, bounds: fitScenarioBounds(d) }))}
+                    className="w-full px-3 py-1 rounded bg-slate-700 hover:bg-slate-600 text-xs font-bold"
+                >
+                    FIT BOUNDS TO CONTENT
+                </button>
+                <p className="text-xs text-slate-400">{cityCount} cities · {pois.length - cityCount} resources · {units.length} units</p>
+
+                <div className="grid grid-cols-3 gap-2">
+                    <button onClick={handleSave} className="px-2 py-1.5 rounded bg-cyan-600 hover:bg-cyan-500 text-xs font-bold">SAVE</button>
+                    <button onClick={handleExport} className="px-2 py-1.5 rounded bg-slate-700 hover:bg-slate-600 text-xs font-bold">EXPORT</button>
+                    <label className="px-2 py-1.5 rounded bg-slate-700 hover:bg-slate-600 text-xs font-bold text-center cursor-pointer">
+                        IMPORT
+                        <input
+                            type="file"
+                            accept=".json,application/json"
+                            className="hidden"
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                e.target.value = '';
+                                if (file) handleImport(file);
+                            }}
+                        />
+                    </label>
+                </div>
+                {status && <p className={`text-xs ${status.error ? 'text-red-400' : 'text-green-400'}`}>{status.text}</p>}
+            </div>
+
+            <button
+                onClick={() => onExit(null)}
+                className="absolute top-4 right-4 z-[500] px-4 py-2 rounded-xl bg-slate-800/80 hover:bg-slate-700 border border-slate-600 text-white font-bold text-sm"
+            >
+                EXIT EDITOR
+            </button>
+            <button
+                onClick={() => { const saved = handleSave(); if (saved) onExit(saved); }}
+                className="absolute top-16 right-4 z-[500] px-4 py-2 rounded-xl bg-cyan-700/80 hover:bg-cyan-600 border border-cyan-500 text-white font-bold text-sm"
+            >
+                SAVE & USE
+            </button>
+
+            {/* TOOLBAR */}
+            <div className="absolute bottom-20 left-1/2 -translate-x-1/2 z-[500] bg-slate-900/90 backdrop-blur rounded-xl border border-slate-600 px-4 py-3 text-white flex items-end gap-4">
+                <div className="flex gap-1">
+                    {TOOLS.map(t => (
+                        <button
+                            key={t.tool}
+                            onClick={() => setTool(t.tool)}
+                            className={`px-3 py-1.5 rounded text-xs font-bold border ${tool === t.tool ? 'bg-cyan-500/20 border-cyan-500/60 text-cyan-300' : 'bg-slate-800 border-slate-600 text-slate-300 hover:bg-slate-700'}`}
+                        >
+                            {t.label}
+                        </button>
+                    ))}
+                </div>
+                {tool !== 'SELECT' && (
+                    <label className="text-[10px] text-slate-400 uppercase w-32">
+                        Owner
+                        {slotSelect(tool === 'UNIT' ? (slot ?? 0) : slot, setSlot, tool !== 'UNIT')}
+                    </label>
+                )}
+                {tool === 'UNIT' && (
+                    <label className="text-[10px] text-slate-400 uppercase w-44">
+                        Unit / Structure
+                        <select value={unitClass} onChange={(e) => setUnitClass(e.target.value as UnitClass)} className={inputClass}>
+                            {Object.values(UnitClass).map(c => <option key={c} value={c}>{c.replace(/_/g, ' ')}</option>)}
+                        </select>
+                    </label>
+                )}
+            </div>
+
+            {/* INSPECTOR */}
+            {(selectedPoi || selectedUnit) && (
+                <div className="absolute top-28 right-4 z-[500] w-64 bg-slate-900/90 backdrop-blur rounded-xl border border-slate-600 p-4 text-white space-y-2">
+                    {selectedPoi && (
+                        <>
+                            <p className="text-xs text-slate-400 tracking-widest">{selectedPoi.type.replace(/_/g, ' ')}</p>
+                            <input value={selectedPoi.name} maxLength={40} onChange={(e) => updatePoi(selectedPoi.id, { name: e.target.value })} className={inputClass} />
+                            {selectedPoi.type === POIType.CITY && (
+                                <label className="block text-[10px] text-slate-400 uppercase">
+                                    Tier
+                                    <select value={selectedPoi.tier ?? 3} onChange={(e) => updatePoi(selectedPoi.id, { tier: Number(e.target.value) })} className={inputClass}>
+                                        <option value={1}>1 - Capital</option>
+                                        <option value={2}>2 - Major</option>
+                                        <option value={3}>3 - Outpost</option>
+                                    </select>
+                                </label>
+                            )}
+                            <label className="block text-[10px] text-slate-400 uppercase">
+                                HP
+                                <input type="number" min={1} value={selectedPoi.hp} onChange={(e) => updatePoi(selectedPoi.id, { hp: Math.max(1, Number(e.target.value)) })} className={inputClass} />
+                            </label>
+                            <label className="block text-[10px] text-slate-400 uppercase">
+                                Owner
+                                {slotSelect(selectedPoi.ownerSlot ?? null, (value) => updatePoi(selectedPoi.id, { ownerSlot: value ?? undefined }), true)}
+                            </label>
+                            {selectedPoi.type === POIType.CITY && (
+                                <label className="flex items-center gap-2 text-xs text-slate-300">
+                                    <input type="checkbox" checked={!!selectedPoi.isCoastal} onChange={(e) => updatePoi(selectedPoi.id, { isCoastal: e.target.checked || undefined })} />
+                                    Coastal
+                                </label>
+                            )}
+                        </>
+                    )}
+                    {selectedUnit && (
+                        <>
+                            <p className="text-xs text-slate-400 tracking-widest">{selectedUnit.unitClass.replace(/_/g, ' ')}</p>
+                            <label className="block text-[10px] text-slate-400 uppercase">
+                                Owner
+                                {slotSelect(selectedUnit.slot, (value) => updateUnit(selectedUnit.id, { slot: value ?? 0 }), false)}
+                            </label>
+                            <label className="block text-[10px] text-slate-400 uppercase">
+                                HP (max {UNIT_CONFIG[selectedUnit.unitClass].maxHp})
+                                <input
+                                    type="number" min={1} max={UNIT_CONFIG[selectedUnit.unitClass].maxHp}
+                                    value={selectedUnit.hp ?? UNIT_CONFIG[selectedUnit.unitClass].maxHp}
+                                    onChange={(e) => updateUnit(selectedUnit.id, { hp: Math.max(1, Number(e.target.value)) })}
+                                    className={inputClass}
+                                />
+                            </label>
+                        </>
+                    )}
+                    <p className="text-[10px] text-slate-500">Select / Move tool: click the map to move it here.</p>
+                    <button onClick={deleteSelection} className="w-full px-3 py-1.5 rounded bg-red-700/80 hover:bg-red-600 text-xs font-bold">DELETE</button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ScenarioEditor;
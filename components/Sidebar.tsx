@@ -1,25 +1,32 @@
 import React, { useState } from 'react';
-import { GameState, UnitClass, Faction, POIType, Difficulty } from '../types';
-import { UNIT_CONFIG, POI_CONFIG, DIPLOMACY, NUKE_CONFIG } from '../constants';
+import { GameState, GameUnit, UnitClass, UnitStance, Faction, POIType, Difficulty, TreatyType, TributeTerms } from '../types';
+import { UNIT_CONFIG, POI_CONFIG, DIPLOMACY, NUKE_CONFIG, CARGO_CONFIG, MINE_CONFIG, TREATY_CONFIG, TEAM_CONFIG, GAME_TICK_MS } from '../constants';
 
-import { evaluateAllianceRequest } from '../services/gameLogic';
 import { useTooltip } from './Tooltip';
-import { HOTKEY_LABELS, AUTO_MODE_LABELS } from '../hooks/useHotkeys';
+import { HOTKEY_LABELS, AUTO_MODE_LABELS, STANCE_LABELS } from '../hooks/useHotkeys';
 import { FormationType, FormationNames } from '../services/formationService';
+import { canProduceAt, isProductionSite, getOrderProgress } from '../services/productionService';
+import { getDiplomacy, evaluateTreatyProposal, TREATY_NAMES } from '../services/diplomacyService';
+import { isAllied } from '../services/teamService';
+import { getGameSettings } from '../services/gameSettings';
 
 interface Props {
     gameState: GameState;
     onBuyUnit: (type: UnitClass) => void;
-    onAllianceRequest: (factionId: string) => void;
+    onProposeTreaty: (factionId: string, treatyType: TreatyType, tribute?: TributeTerms) => void;
+    onRespondTreaty: (proposalId: string, accept: boolean) => void;
+    onTransferResources: (factionId: string, gold: number, oil: number) => void;
     selectedUnitIds: string[];
     onUnitAction: (action: string, id: string) => void;
     onSetDifficulty: (diff: Difficulty) => void;
     onSetAutoMode?: (mode: 'NONE' | 'DEFEND' | 'ATTACK' | 'PATROL') => void;
     onToggleAutoTarget?: () => void;
     onSetFormation?: (formation: FormationType) => void;
+    onSetStance?: (stance: UnitStance) => void;
+    onAttackMove?: () => void;
 }
 
-const Sidebar: React.FC<Props> = ({ gameState, onBuyUnit, onAllianceRequest, selectedUnitIds, onUnitAction, onSetDifficulty, onSetAutoMode, onToggleAutoTarget, onSetFormation }) => {
+const Sidebar: React.FC<Props> = ({ gameState, onBuyUnit, onProposeTreaty, onRespondTreaty, onTransferResources, selectedUnitIds, onUnitAction, onSetDifficulty, onSetAutoMode, onToggleAutoTarget, onSetFormation, onSetStance, onAttackMove }) => {
 
     const [activeTab, setActiveTab] = useState<'UNITS' | 'BUILD' | 'DIPLOMACY'>('BUILD');
 
@@ -105,7 +112,16 @@ const Sidebar: React.FC<Props> = ({ gameState, onBuyUnit, onAllianceRequest, sel
     const playerFaction = gameState.factions.find(f => f.id === gameState.localPlayerId);
     const playerUnits = gameState.units.filter(u => u.factionId === gameState.localPlayerId);
     const selectedUnit = selectedUnitIds.length === 1 ? gameState.units.find(u => u.id === selectedUnitIds[0]) : null;
+    const firstSelected = gameState.units.find(u => selectedUnitIds.includes(u.id) && u.factionId === gameState.localPlayerId);
+    const selectionStance: UnitStance = firstSelected?.stance || 'AGGRESSIVE';
     const isMultiSelect = selectedUnitIds.length > 1;
+    const diplomacy = getDiplomacy(gameState);
+
+    // Ticks -> "m:ss" for treaty / proposal timers
+    const formatTicks = (ticks: number) => {
+        const seconds = Math.max(0, Math.ceil((ticks * GAME_TICK_MS) / 1000));
+        return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+    };
 
     const baseIncomeGold = 5 + (playerUnits.length * 0.5);
     const baseIncomeOil = 2;
@@ -116,20 +132,50 @@ const Sidebar: React.FC<Props> = ({ gameState, onBuyUnit, onAllianceRequest, sel
         }
     });
 
-    const goldPerSec = Math.floor((baseIncomeGold + poiGold) * 0.83);
-    const oilPerSec = Math.floor((baseIncomeOil + poiOil) * 0.83);
+    const settings = getGameSettings(gameState);
+    const goldPerSec = Math.floor((baseIncomeGold + poiGold) * 0.83 * settings.incomeMultiplier);
+    const oilPerSec = Math.floor((baseIncomeOil + poiOil) * 0.83 * settings.incomeMultiplier);
 
 
 
-    const structures = [UnitClass.AIRBASE, UnitClass.PORT, UnitClass.MILITARY_BASE, UnitClass.MISSILE_SILO];
+    const structures = [UnitClass.AIRBASE, UnitClass.PORT, UnitClass.MILITARY_BASE, ...(settings.nukesEnabled ? [UnitClass.MISSILE_SILO] : [])];
     const seaUnits = [UnitClass.DESTROYER, UnitClass.FRIGATE, UnitClass.SUBMARINE, UnitClass.AIRCRAFT_CARRIER, UnitClass.BATTLESHIP, UnitClass.PATROL_BOAT, UnitClass.MINELAYER];
     const airUnits = [UnitClass.FIGHTER_JET, UnitClass.HEAVY_BOMBER, UnitClass.TROOP_TRANSPORT, UnitClass.HELICOPTER];
     const groundUnits = [UnitClass.INFANTRY, UnitClass.GROUND_TANK, UnitClass.MISSILE_LAUNCHER, UnitClass.SAM_LAUNCHER, UnitClass.MOBILE_COMMAND_CENTER];
 
-    const hasCity = gameState.pois.some(p => p.ownerFactionId === gameState.localPlayerId && p.type === POIType.CITY);
-    const hasNavalCap = gameState.pois.some(p => p.ownerFactionId === gameState.localPlayerId && p.type === POIType.CITY && p.isCoastal) ||
-        gameState.units.some(u => u.factionId === gameState.localPlayerId && u.unitClass === UnitClass.PORT);
-    const hasAirCap = hasCity || gameState.units.some(u => u.factionId === gameState.localPlayerId && (u.unitClass === UnitClass.AIRBASE || u.unitClass === UnitClass.MILITARY_BASE));
+    // Units are built at structures (see productionService)
+    const hasGroundCap = playerUnits.some(u => canProduceAt(u, UnitClass.INFANTRY));
+    const hasNavalCap = playerUnits.some(u => canProduceAt(u, UnitClass.DESTROYER));
+    const hasAirCap = playerUnits.some(u => canProduceAt(u, UnitClass.FIGHTER_JET));
+    const productionSites = playerUnits.filter(u => (u.productionQueue?.length ?? 0) > 0);
+
+    const renderQueue = (site: GameUnit) => (
+        <div className="space-y-1.5">
+            {(site.productionQueue || []).map((order, i) => {
+                const progress = getOrderProgress(order, gameState.gameTick);
+                return (
+                    <div key={order.unitId} className="flex items-center gap-2">
+                        <div className="flex-1">
+                            <div className="flex justify-between text-[10px] mb-0.5">
+                                <span className={i === 0 ? 'text-slate-200' : 'text-slate-500'}>{order.unitClass.replace(/_/g, ' ')}</span>
+                                {i === 0 && <span className="text-cyan-400 font-mono">{Math.floor(progress * 100)}%</span>}
+                            </div>
+                            <div className="w-full bg-slate-900 h-1.5 rounded-full overflow-hidden border border-slate-700/50">
+                                <div className="h-full bg-gradient-to-r from-cyan-500 to-blue-400" style={{ width: `${progress * 100}%` }} />
+                            </div>
+                        </div>
+                        <button
+                            onClick={() => onUnitAction('CANCEL_PRODUCTION', order.unitId)}
+                            title={`Cancel (refund ${order.cost.gold}G ${order.cost.oil}O)`}
+                            className="w-5 h-5 text-[10px] rounded bg-slate-800 hover:bg-red-900/60 text-slate-400 hover:text-red-300 border border-slate-600/40"
+                        >
+                            ✕
+                        </button>
+                    </div>
+                );
+            })}
+        </div>
+    );
 
     const { showTooltip, hideTooltip } = useTooltip();
 
@@ -259,6 +305,32 @@ const Sidebar: React.FC<Props> = ({ gameState, onBuyUnit, onAllianceRequest, sel
                         </button>
                     </div>
 
+                    {/* Stance + attack-move */}
+                    {onSetStance && (
+                        <div className="grid grid-cols-3 gap-2 mb-3">
+                            {(Object.keys(STANCE_LABELS) as UnitStance[]).map(stance => (
+                                <button
+                                    key={stance}
+                                    onClick={() => onSetStance(stance)}
+                                    className={`py-2 text-[9px] rounded-lg border transition-all font-medium ${selectionStance === stance
+                                        ? 'bg-amber-900/40 text-amber-300 border-amber-500/60'
+                                        : 'bg-slate-700/50 hover:bg-slate-600/50 text-slate-300 border-slate-600/30'
+                                        }`}
+                                >
+                                    {STANCE_LABELS[stance]}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                    {onAttackMove && (
+                        <button
+                            onClick={onAttackMove}
+                            className="w-full py-2 mb-1 text-[10px] rounded-lg bg-orange-900/30 hover:bg-orange-800/40 text-orange-300 border border-orange-600/30 hover:border-orange-500/50 transition-all font-medium"
+                        >
+                            ➤ ATTACK-MOVE (V)
+                        </button>
+                    )}
+
                     {/* Formations - only show when 2+ units selected */}
                     {selectedUnitIds.length >= 2 && onSetFormation && (
                         <div className="mt-3">
@@ -302,8 +374,23 @@ const Sidebar: React.FC<Props> = ({ gameState, onBuyUnit, onAllianceRequest, sel
             <div className="flex-1 overflow-y-auto p-4">
                 {activeTab === 'BUILD' && (
                     <div>
+                        {productionSites.length > 0 && (
+                            <div className="mb-5">
+                                <div className="text-xs font-bold text-slate-400 tracking-wider uppercase mb-3">Production</div>
+                                <div className="space-y-3">
+                                    {productionSites.map(site => (
+                                        <div key={site.id} className="bg-slate-800/40 border border-slate-600/30 rounded-xl p-3">
+                                            <div className="text-[10px] text-yellow-400 font-bold mb-2">
+                                                {site.unitClass.replace(/_/g, ' ')} <span className="text-slate-500 font-mono">#{site.id.substr(0, 6)}</span>
+                                            </div>
+                                            {renderQueue(site)}
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
                         {renderBuildList(structures, "Facilities", true, "")}
-                        {renderBuildList(groundUnits, "Ground Forces", hasCity, "Requires City")}
+                        {renderBuildList(groundUnits, "Ground Forces", hasGroundCap, "Requires HQ or Base")}
                         {renderBuildList(airUnits, "Air Force", hasAirCap, "Requires Airbase")}
                         {renderBuildList(seaUnits, "Naval Fleet", hasNavalCap, "Requires Port")}
                     </div>
@@ -341,9 +428,35 @@ const Sidebar: React.FC<Props> = ({ gameState, onBuyUnit, onAllianceRequest, sel
                 )}
                 {activeTab === 'DIPLOMACY' && (
                     <div className="space-y-3">
+                        {/* Incoming proposals */}
+                        {diplomacy.proposals.filter(p => p.toFactionId === gameState.localPlayerId).map(proposal => {
+                            const from = gameState.factions.find(f => f.id === proposal.fromFactionId);
+                            return (
+                                <div key={proposal.id} className="bg-gradient-to-r from-cyan-500/10 to-transparent p-3 rounded-xl border border-cyan-500/30">
+                                    <div className="text-xs text-slate-300 mb-1">
+                                        <span className="font-bold" style={{ color: from?.color }}>{from?.name || proposal.fromFactionId}</span> proposes: <span className="font-bold text-cyan-300">{TREATY_NAMES[proposal.type]}</span>
+                                    </div>
+                                    <div className="text-[10px] text-slate-500 mb-2 font-mono">
+                                        {formatTicks(proposal.durationTicks)}
+                                        {proposal.tribute && ` · ${proposal.tribute.payerId === gameState.localPlayerId ? 'you pay' : 'they pay'} ${proposal.tribute.gold}g/${proposal.tribute.oil}o`}
+                                        {` · expires in ${formatTicks(proposal.expiresTick - gameState.gameTick)}`}
+                                    </div>
+                                    <div className="grid grid-cols-2 gap-2">
+                                        <button onClick={() => onRespondTreaty(proposal.id, true)} className="bg-green-600/30 hover:bg-green-600/50 text-[10px] py-1.5 rounded-lg text-green-300 font-bold border border-green-500/30">ACCEPT</button>
+                                        <button onClick={() => onRespondTreaty(proposal.id, false)} className="bg-red-600/20 hover:bg-red-600/40 text-[10px] py-1.5 rounded-lg text-red-300 font-bold border border-red-500/30">REJECT</button>
+                                    </div>
+                                </div>
+                            );
+                        })}
+
                         {gameState.factions.filter(f => f.id !== gameState.localPlayerId && f.id !== 'NEUTRAL').map(faction => {
                             const relation = playerFaction?.relations[faction.id] || 0;
-                            const allianceAnalysis = evaluateAllianceRequest(gameState, faction.id);
+                            const theirRelation = faction.relations[gameState.localPlayerId] || 0;
+                            const treaties = diplomacy.treaties.filter(t => t.factionIds.includes(faction.id) && t.factionIds.includes(gameState.localPlayerId));
+                            const outgoing = diplomacy.proposals.filter(p => p.fromFactionId === gameState.localPlayerId && p.toFactionId === faction.id);
+                            const isBot = faction.type === 'BOT' || faction.type === 'AI';
+                            const allied = isAllied(gameState, gameState.localPlayerId, faction.id);
+                            const isTeammate = !!faction.teamId && faction.teamId === playerFaction?.teamId;
                             let status = 'NEUTRAL';
                             let statusColor = 'text-slate-400';
                             let bgColor = 'from-slate-500/10';
@@ -352,11 +465,22 @@ const Sidebar: React.FC<Props> = ({ gameState, onBuyUnit, onAllianceRequest, sel
                                 statusColor = 'text-red-400';
                                 bgColor = 'from-red-500/10';
                             }
-                            else if (relation >= DIPLOMACY.ALLIANCE_THRESHOLD) {
-                                status = 'ALLY';
+                            else if (allied || relation >= DIPLOMACY.ALLIANCE_THRESHOLD) {
+                                status = isTeammate ? 'TEAMMATE' : 'ALLY';
                                 statusColor = 'text-green-400';
                                 bgColor = 'from-green-500/10';
                             }
+                            const relationColor = (r: number) => r > 0 ? 'text-green-400' : r < 0 ? 'text-red-400' : 'text-slate-400';
+
+                            // Offered treaties: [type, label, tribute terms, enabled]
+                            const tribute = TREATY_CONFIG.DEFAULT_TRIBUTE;
+                            const offers: [TreatyType, string, TributeTerms | undefined, boolean][] = [
+                                ['ALLIANCE', 'ALLIANCE', undefined, status !== 'HOSTILE'],
+                                ['NON_AGGRESSION', 'NON-AGGRESSION', undefined, status !== 'HOSTILE'],
+                                ['CEASEFIRE', 'CEASEFIRE', undefined, status === 'HOSTILE'],
+                                ['TRIBUTE', `OFFER ${tribute.gold}g`, { payerId: gameState.localPlayerId, ...tribute }, true],
+                                ['TRIBUTE', `DEMAND ${tribute.gold}g`, { payerId: faction.id, ...tribute }, true]
+                            ];
 
                             return (
                                 <div key={faction.id} className={`bg-gradient-to-r ${bgColor} to-transparent p-4 rounded-xl border border-slate-600/30`}>
@@ -364,25 +488,80 @@ const Sidebar: React.FC<Props> = ({ gameState, onBuyUnit, onAllianceRequest, sel
                                         <div className="font-bold text-sm" style={{ color: faction.color }}>{faction.name}</div>
                                         <div className={`text-xs font-bold ${statusColor}`}>{status}</div>
                                     </div>
-                                    <div className="flex items-center justify-between mb-3">
-                                        <span className="text-xs text-slate-500">Relations</span>
-                                        <span className={`text-xs font-mono ${relation > 0 ? 'text-green-400' : relation < 0 ? 'text-red-400' : 'text-slate-400'}`}>
-                                            {relation > 0 ? '+' : ''}{relation}
-                                        </span>
+                                    <div className="flex items-center justify-between mb-1">
+                                        <span className="text-xs text-slate-500">Our Relations</span>
+                                        <span className={`text-xs font-mono ${relationColor(relation)}`}>{relation > 0 ? '+' : ''}{relation}</span>
                                     </div>
                                     <div className="flex items-center justify-between mb-3">
-                                        <span className="text-xs text-slate-500">Alliance Chance</span>
-                                        <span className={`text-xs font-mono ${allianceAnalysis.chance > 50 ? 'text-green-400' : 'text-red-400'}`}>
-                                            {Math.floor(allianceAnalysis.chance)}%
-                                        </span>
+                                        <span className="text-xs text-slate-500">Their Relations</span>
+                                        <span className={`text-xs font-mono ${relationColor(theirRelation)}`}>{theirRelation > 0 ? '+' : ''}{theirRelation}</span>
                                     </div>
-                                    <button
-                                        onClick={() => onAllianceRequest(faction.id)}
-                                        className="w-full bg-slate-700/50 hover:bg-slate-600/50 text-xs py-2.5 rounded-lg text-white disabled:opacity-30 font-medium tracking-wide transition-all border border-slate-600/30 hover:border-slate-500/50"
-                                        disabled={status === 'ALLY' || status === 'HOSTILE'}
-                                    >
-                                        PROPOSE ALLIANCE
-                                    </button>
+
+                                    {treaties.length > 0 && (
+                                        <div className="mb-3 space-y-1">
+                                            {treaties.map(t => (
+                                                <div key={t.id} className="flex justify-between text-[10px] bg-slate-900/40 rounded px-2 py-1">
+                                                    <span className="text-cyan-300 font-bold">
+                                                        {TREATY_NAMES[t.type]}
+                                                        {t.tribute && <span className="text-slate-400 font-normal"> ({t.tribute.payerId === gameState.localPlayerId ? 'paying' : 'receiving'} {t.tribute.gold}g/{t.tribute.oil}o)</span>}
+                                                    </span>
+                                                    <span className="text-slate-400 font-mono">{formatTicks(t.endsTick - gameState.gameTick)}</span>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+
+                                    {outgoing.map(p => (
+                                        <div key={p.id} className="flex justify-between items-center text-[10px] mb-2 text-yellow-300">
+                                            <span>Awaiting reply: {TREATY_NAMES[p.type]}</span>
+                                            <button onClick={() => onRespondTreaty(p.id, false)} className="text-slate-400 hover:text-red-400">WITHDRAW</button>
+                                        </div>
+                                    ))}
+
+                                    {isBot && (
+                                        <div className="flex items-center justify-between mb-3">
+                                            <span className="text-xs text-slate-500">Alliance Chance</span>
+                                            {(() => {
+                                                const chance = evaluateTreatyProposal(gameState, gameState.localPlayerId, faction.id, 'ALLIANCE').chance;
+                                                return <span className={`text-xs font-mono ${chance > 50 ? 'text-green-400' : 'text-red-400'}`}>{Math.floor(chance)}%</span>;
+                                            })()}
+                                        </div>
+                                    )}
+
+                                    {allied && (
+                                        <div className="grid grid-cols-2 gap-1.5 mb-1.5">
+                                            <button
+                                                onClick={() => onTransferResources(faction.id, TEAM_CONFIG.TRANSFER_STEP.gold, 0)}
+                                                disabled={gameState.playerResources.gold < TEAM_CONFIG.TRANSFER_STEP.gold}
+                                                className="bg-yellow-600/20 hover:bg-yellow-600/40 text-[10px] py-2 rounded-lg text-yellow-300 disabled:opacity-30 font-medium border border-yellow-500/30"
+                                            >
+                                                SEND {TEAM_CONFIG.TRANSFER_STEP.gold}g
+                                            </button>
+                                            <button
+                                                onClick={() => onTransferResources(faction.id, 0, TEAM_CONFIG.TRANSFER_STEP.oil)}
+                                                disabled={gameState.playerResources.oil < TEAM_CONFIG.TRANSFER_STEP.oil}
+                                                className="bg-slate-600/30 hover:bg-slate-600/50 text-[10px] py-2 rounded-lg text-slate-200 disabled:opacity-30 font-medium border border-slate-500/30"
+                                            >
+                                                SEND {TEAM_CONFIG.TRANSFER_STEP.oil} OIL
+                                            </button>
+                                        </div>
+                                    )}
+
+                                    {!isTeammate && <div className="grid grid-cols-2 gap-1.5">
+                                        {offers.map(([type, label, terms, enabled]) => {
+                                            const active = treaties.some(t => t.type === type) || outgoing.some(p => p.type === type);
+                                            return (
+                                                <button
+                                                    key={label}
+                                                    onClick={() => onProposeTreaty(faction.id, type, terms)}
+                                                    className="bg-slate-700/50 hover:bg-slate-600/50 text-[10px] py-2 rounded-lg text-white disabled:opacity-30 font-medium tracking-wide transition-all border border-slate-600/30 hover:border-slate-500/50"
+                                                    disabled={!enabled || active}
+                                                >
+                                                    {label}
+                                                </button>
+                                            );
+                                        })}
+                                    </div>}
                                 </div>
                             )
                         })}
@@ -403,19 +582,90 @@ const Sidebar: React.FC<Props> = ({ gameState, onBuyUnit, onAllianceRequest, sel
                             style={{ width: `${(selectedUnit.hp / selectedUnit.maxHp) * 100}%` }}
                         />
                     </div>
-                    {selectedUnit.unitClass === UnitClass.TROOP_TRANSPORT && (
-                        <div className="grid grid-cols-2 gap-2">
-                            <button onClick={() => onUnitAction('DEPLOY_TANK', selectedUnit.id)} className="bg-blue-900/40 border border-blue-500/30 hover:bg-blue-800/50 text-xs text-blue-200 py-2.5 rounded-lg transition-all">DEPLOY TANK</button>
-                            <button onClick={() => onUnitAction('DEPLOY_INFANTRY', selectedUnit.id)} className="bg-blue-900/40 border border-blue-500/30 hover:bg-blue-800/50 text-xs text-blue-200 py-2.5 rounded-lg transition-all">DEPLOY INF</button>
+                    {/* PRODUCTION QUEUE + RALLY POINT */}
+                    {isProductionSite(selectedUnit) && (
+                        <div className="space-y-2 mb-3">
+                            {(selectedUnit.productionQueue?.length ?? 0) > 0
+                                ? renderQueue(selectedUnit)
+                                : <p className="text-xs text-slate-500">Idle - pick a unit from BUILD to queue it here</p>}
+                            <div className="flex justify-between items-center text-xs">
+                                <span className="text-slate-400">
+                                    Rally: {selectedUnit.rallyPoint
+                                        ? <span className="text-cyan-400 font-mono">{selectedUnit.rallyPoint.lat.toFixed(2)}, {selectedUnit.rallyPoint.lng.toFixed(2)}</span>
+                                        : <span className="text-slate-500">right-click map</span>}
+                                </span>
+                                {selectedUnit.rallyPoint && (
+                                    <button onClick={() => onUnitAction('CLEAR_RALLY_POINT', selectedUnit.id)} className="text-[10px] text-slate-400 hover:text-red-300">CLEAR</button>
+                                )}
+                            </div>
                         </div>
                     )}
-                    {selectedUnit.unitClass === UnitClass.AIRCRAFT_CARRIER && (
-                        <button onClick={() => onUnitAction('DEPLOY_SPECOPS', selectedUnit.id)} className="w-full bg-blue-900/40 border border-blue-500/30 hover:bg-blue-800/50 text-xs text-blue-200 py-2.5 rounded-lg transition-all">
-                            DEPLOY SPECOPS
-                        </button>
-                    )}
+                    {/* TRANSPORT / CARRIER CARGO CONTROLS */}
+                    {(selectedUnit.unitClass === UnitClass.TROOP_TRANSPORT || selectedUnit.unitClass === UnitClass.AIRCRAFT_CARRIER) && (() => {
+                        const isCarrier = selectedUnit.unitClass === UnitClass.AIRCRAFT_CARRIER;
+                        const cargoCount = selectedUnit.cargoUnits?.length ?? 0;
+                        const capacity = CARGO_CONFIG.CAPACITY[selectedUnit.unitClass] ?? 0;
+                        const btn = (enabled: boolean) => `text-xs py-2.5 rounded-lg transition-all border ${enabled
+                            ? 'bg-blue-900/40 border-blue-500/30 hover:bg-blue-800/50 text-blue-200'
+                            : 'bg-slate-900/50 border-slate-700/30 text-slate-500 cursor-not-allowed'}`;
+
+                        return (
+                            <div className="space-y-2">
+                                <div className="flex justify-between text-xs">
+                                    <span className="text-slate-400">{isCarrier ? 'Air wing' : 'Cargo'}: <span className="text-cyan-400">{cargoCount}/{capacity}</span></span>
+                                    {selectedUnit.transportState && selectedUnit.transportState !== 'IDLE' && (
+                                        <span className="text-yellow-400">{selectedUnit.transportState}</span>
+                                    )}
+                                </div>
+                                <div className="grid grid-cols-2 gap-2">
+                                    <button onClick={() => onUnitAction('LOAD_UNITS', selectedUnit.id)} disabled={cargoCount >= capacity} className={btn(cargoCount < capacity)}>
+                                        {isCarrier ? 'RECOVER' : 'LOAD'}
+                                    </button>
+                                    {isCarrier ? (
+                                        <button onClick={() => onUnitAction('LAUNCH_SORTIE', selectedUnit.id)} disabled={cargoCount === 0} className={btn(cargoCount > 0)}>LAUNCH</button>
+                                    ) : (
+                                        <button onClick={() => onUnitAction('UNLOAD_UNITS', selectedUnit.id)} disabled={cargoCount === 0} className={btn(cargoCount > 0)}>UNLOAD</button>
+                                    )}
+                                </div>
+                                {!isCarrier && (
+                                    <button onClick={() => onUnitAction('AIRDROP', selectedUnit.id)} disabled={cargoCount === 0} className={`w-full ${btn(cargoCount > 0)}`}>
+                                        AIRDROP
+                                    </button>
+                                )}
+                            </div>
+                        );
+                    })()}
+                    {/* NAVAL MINE CONTROLS */}
+                    {(selectedUnit.unitClass === UnitClass.MINELAYER || selectedUnit.unitClass === UnitClass.DESTROYER) && (() => {
+                        const isLayer = selectedUnit.unitClass === UnitClass.MINELAYER;
+                        const canAffordMine = (playerFaction?.gold ?? 0) >= MINE_CONFIG.LAY_COST.gold &&
+                            (playerFaction?.oil ?? 0) >= MINE_CONFIG.LAY_COST.oil;
+                        const isOnCooldown = (selectedUnit.mineCooldown ?? 0) > 0;
+                        const enabled = !isOnCooldown && (!isLayer || canAffordMine);
+                        const ownMines = (gameState.mines || []).filter(m => m.factionId === gameState.localPlayerId).length;
+
+                        return (
+                            <div className="space-y-2">
+                                <button
+                                    onClick={() => onUnitAction(isLayer ? 'LAY_MINE' : 'SWEEP_MINES', selectedUnit.id)}
+                                    disabled={!enabled}
+                                    className={`w-full text-xs py-2.5 rounded-lg transition-all border ${enabled
+                                        ? 'bg-blue-900/40 border-blue-500/30 hover:bg-blue-800/50 text-blue-200'
+                                        : 'bg-slate-900/50 border-slate-700/30 text-slate-500 cursor-not-allowed'}`}
+                                >
+                                    {isLayer ? 'LAY MINE' : 'SWEEP MINES'}
+                                </button>
+                                <div className="flex justify-between text-xs">
+                                    {isLayer
+                                        ? <span className="text-slate-400">Cost: <span className="text-yellow-400">{MINE_CONFIG.LAY_COST.gold}G</span> + <span className="text-cyan-400">{MINE_CONFIG.LAY_COST.oil}O</span> ({ownMines}/{MINE_CONFIG.MAX_MINES_PER_FACTION})</span>
+                                        : <span className="text-slate-400">Range: {MINE_CONFIG.SWEEP_RANGE_KM}km</span>}
+                                    {isOnCooldown && <span className="text-red-400">Cooldown: {Math.ceil((selectedUnit.mineCooldown ?? 0) / 25)}s</span>}
+                                </div>
+                            </div>
+                        );
+                    })()}
                     {/* NUCLEAR SILO CONTROLS */}
-                    {selectedUnit.unitClass === UnitClass.MISSILE_SILO && (() => {
+                    {selectedUnit.unitClass === UnitClass.MISSILE_SILO && settings.nukesEnabled && (() => {
                         const canAffordNuke = (playerFaction?.gold ?? 0) >= NUKE_CONFIG.LAUNCH_COST.gold &&
                             (playerFaction?.oil ?? 0) >= NUKE_CONFIG.LAUNCH_COST.oil;
                         const isOnCooldown = (selectedUnit.cooldown ?? 0) > 0;
@@ -4,11 +4,13 @@ import L from 'leaflet';
 import * as d3 from 'd3';
 import { GameUnit, Faction, POI, UnitClass } from '../types';
 import { TERRITORY_CONFIG } from '../constants';
+import { getSupplyLines } from '../services/supplyService';
 
 interface Props {
     units: GameUnit[];
     pois: POI[];
     factions: Faction[];
+    localPlayerId?: string;
 }
 
 interface Site {
@@ -48,13 +50,14 @@ const hexToRgbaArray = (hex: string): string[] => {
     return result;
 };
 
-const TerritoryLayer: React.FC<Props> = ({ units, pois, factions }) => {
+const TerritoryLayer: React.FC<Props> = ({ units, pois, factions, localPlayerId }) => {
     const map = useMap();
     const canvasRef = useRef<HTMLCanvasElement | null>(null);
     const animationFrameId = useRef<number | null>(null);
 
     // Refs for data access in loop
     const cellsRef = useRef<VoronoiCell[]>([]);
+    const supplyLinesRef = useRef<ReturnType<typeof getSupplyLines>>([]);
 
     // PERFORMANCE: Create stable key for HQs based on position + faction, not full object
     const hqKey = useMemo(() => {
@@ -162,6 +165,11 @@ const TerritoryLayer: React.FC<Props> = ({ units, pois, factions }) => {
         cellsRef.current = cells;
     }, [cells]);
 
+    // SUPPLY LINES: Only the local player's own logistics are shown
+    useEffect(() => {
+        supplyLinesRef.current = localPlayerId ? getSupplyLines(units, pois, localPlayerId) : [];
+    }, [units, pois, localPlayerId]);
+
     // Canvas Setup and Draw Loop
     useEffect(() => {
         const canvas = L.DomUtil.create('canvas', 'leaflet-zoom-animated') as HTMLCanvasElement;
@@ -237,6 +245,23 @@ const TerritoryLayer: React.FC<Props> = ({ units, pois, factions }) => {
                 ctx.globalAlpha = 1.0;
             });
 
+            // Supply lines - source to unit, dashed when the unit is cut off
+            ctx.lineWidth = 1;
+            supplyLinesRef.current.forEach(line => {
+                const from = map.latLngToContainerPoint([line.from.lat, line.from.lng]);
+                const to = map.latLngToContainerPoint([line.to.lat, line.to.lng]);
+
+                ctx.beginPath();
+                ctx.moveTo(from.x, from.y);
+                ctx.lineTo(to.x, to.y);
+                ctx.strokeStyle = line.color;
+                ctx.globalAlpha = line.inSupply ? 0.25 : 0.6;
+                ctx.setLineDash(line.inSupply ? [] : [4, 4]);
+                ctx.stroke();
+            });
+            ctx.setLineDash([]);
+            ctx.globalAlpha = 1.0;
+
             animationFrameId.current = requestAnimationFrame(draw);
         };
 
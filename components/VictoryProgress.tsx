@@ -0,0 +1,33 @@
+import React from 'react';
+import { VictoryProgress as VictoryProgressRow } from '../services/victoryService';
+
+interface Props {
+    rows: VictoryProgressRow[];
+}
+
+// HUD panel: progress of the local side towards every enabled victory condition
+const VictoryProgress: React.FC<Props> = ({ rows }) => {
+    if (rows.length === 0) return null;
+
+    return (
+        <div className="absolute top-16 right-4 z-[500] w-64 pointer-events-none bg-slate-900/80 backdrop-blur-md rounded-xl border border-slate-700/50 shadow-lg p-3 space-y-2">
+            <div className="text-[10px] font-bold text-slate-400 tracking-wider uppercase">Victory</div>
+            {rows.map(row => (
+                <div key={row.condition}>
+                    <div className="flex justify-between text-[11px] mb-0.5">
+                        <span className="text-slate-200 font-bold">{row.name}</span>
+                        <span className="text-slate-400 font-mono">{row.detail}</span>
+                    </div>
+                    <div className="w-full bg-slate-950 h-1.5 rounded-full overflow-hidden border border-slate-700/50">
+                        <div
+                            className={`h-full ${row.progress >= 1 ? 'bg-green-400' : 'bg-gradient-to-r from-yellow-500 to-amber-400'}`}
+                            style={{ width: `${Math.round(row.progress * 100)}%` }}
+                        />
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default VictoryProgress;
@@ -1,7 +1,20 @@
 import React, { useEffect, useState } from 'react';
+import { VictoryCondition } from '../types';
+import { VICTORY_CONDITION_NAMES } from '../services/gameSettings';
+
+// Subtitle per deciding condition: [victory, defeat]
+const CONDITION_TEXT: Record<VictoryCondition, [string, string]> = {
+    ELIMINATION: ['Congratulations, Commander. Global domination achieved.', 'Your forces have been eliminated. The enemy prevails.'],
+    CAPITALS: ['The capitals are yours, and you held them long enough.', 'The enemy held the capitals long enough to claim the war.'],
+    TERRITORY: ['Your territory spans the map. The world is yours.', 'The enemy\'s territory spans the map.'],
+    KING_OF_THE_HILL: ['You held the hill against all comers.', 'The enemy held the hill until the end.'],
+    ECONOMIC: ['Your treasury has outgrown every rival.', 'The enemy\'s treasury has outgrown yours.'],
+    TIME_LIMIT: ['Time is up - you lead on score.', 'Time is up - the enemy leads on score.']
+};
 
 interface VictoryScreenProps {
     isVictory: boolean;
+    condition?: VictoryCondition; // Condition that ended the match (unset = eliminated)
     stats: {
         unitsKilled: number;
         unitsLost: number;
@@ -11,13 +24,16 @@ interface VictoryScreenProps {
     };
     onPlayAgain: () => void;
     onMainMenu: () => void;
+    onDownloadReplay?: () => void; // Only when the host recorded this match
 }
 
 const VictoryScreen: React.FC<VictoryScreenProps> = ({
     isVictory,
+    condition,
     stats,
     onPlayAgain,
-    onMainMenu
+    onMainMenu,
+    onDownloadReplay
 }) => {
     const [animatedStats, setAnimatedStats] = useState({
         unitsKilled: 0,
@@ -75,10 +91,14 @@ const VictoryScreen: React.FC<VictoryScreenProps> = ({
                     {isVictory ? 'VICTORY' : 'DEFEAT'}
                 </h1>
 
+                {condition && (
+                    <div className="inline-block mb-3 px-3 py-1 rounded-full text-xs font-bold tracking-wider bg-white/10 text-white/80 border border-white/20">
+                        {VICTORY_CONDITION_NAMES[condition].toUpperCase()}
+                    </div>
+                )}
+
                 <p className="text-white/70 text-lg mb-10 max-w-md mx-auto">
-                    {isVictory
-                        ? 'Congratulations, Commander. Global domination achieved.'
-                        : 'Your forces have been eliminated. The enemy prevails.'}
+                    {CONDITION_TEXT[condition || 'ELIMINATION'][isVictory ? 0 : 1]}
                 </p>
 
                 {/* Stats Grid */}
@@ -126,6 +146,18 @@ const VictoryScreen: React.FC<VictoryScreenProps> = ({
                             Main Menu
                         </span>
                     </button>
+                    {onDownloadReplay && (
+                        <button
+                            onClick={onDownloadReplay}
+                            className="group relative px-8 py-4 rounded-xl font-bold text-lg bg-slate-700/50 hover:bg-slate-600/50 text-white transition-all border border-slate-500/30 hover:border-slate-400/50 hover:scale-105 overflow-hidden"
+                        >
+                            <span className="absolute inset-0 bg-gradient-to-r from-white/0 via-white/5 to-white/0 translate-x-[-100%] group-hover:translate-x-[100%] transition-transform duration-700"></span>
+                            <span className="relative flex items-center gap-2">
+                                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
+                                Download Replay
+                            </span>
+                        </button>
+                    )}
                 </div>
             </div>
         </div>
@@ -1,5 +1,5 @@
 
-import { UnitClass, UnitStats, POIType, WeaponType, Difficulty, BotPersonality } from './types';
+import { UnitClass, UnitStats, POIType, WeaponType, Difficulty, BotPersonality, TreatyType, GameSettings } from './types';
 
 export const GAME_TICK_MS = 30; // Faster tick for "Frenetic" feel
 export const COMBAT_RADIUS_KM = 30;
@@ -18,6 +18,138 @@ export const NUKE_CONFIG = {
   STRUCTURE_DESTROY_RADIUS_KM: 20,            // Smaller instant-kill zone
 };
 
+// NETWORK STATE SYNC - Delta compression with periodic keyframes
+export const STATE_SYNC_CONFIG = {
+  KEYFRAME_INTERVAL: 10,                      // Send FULL_STATE every N syncs, deltas in between
+  RESYNC_COOLDOWN_MS: 1000,                   // Min time between client resync requests
+};
+
+// RECONNECT - dropped players keep their seat for a grace window (services/reconnectService.ts)
+export const RECONNECT_CONFIG = {
+  GRACE_SECONDS: 60,                          // Seat is frozen (or bot-run in Battle Royale) this long
+  RETRY_INTERVAL_MS: 3000,                    // Client REJOIN attempts after losing the host
+  STORAGE_KEY: 'TACTIC_OPS_SESSION',          // sessionStorage - survives a page reload
+};
+
+// NETWORK TRANSPORT (services/transport.ts)
+export const TRANSPORT_CONFIG = {
+  RELAY_URL_PARAM: 'relay',                   // ?relay=wss://host:port switches the browser to the WebSocket relay
+  RELAY_DEFAULT_PORT: 8787,                   // server/relayServer.ts
+  RELAY_CONNECT_TIMEOUT_MS: 10000,            // Relay or target peer not answering
+};
+
+// HOST-SIDE ACTION VALIDATION
+export const ACTION_VALIDATION = {
+  MAX_UNITS_PER_ACTION: 200,                  // Reject absurd selections
+  OPTIMISTIC_TIMEOUT_MS: 5000,                // Client forgets pending actions after this
+};
+
+// CLIENT-SIDE PREDICTION (services/predictionService.ts)
+export const PREDICTION_CONFIG = {
+  CORRECTION_RATE: 0.15,                      // Share of a predicted unit's visual error removed per tick
+  SNAP_DISTANCE: 0.5,                         // Degrees - errors beyond this teleport instead of gliding
+  REMOTE_LERP: 0.15,                          // Other players' units: visual catch-up per tick
+};
+
+// TRANSPORT & CARRIER CARGO
+export const CARGO_CONFIG = {
+  // Max loaded units per carrier class
+  CAPACITY: {
+    [UnitClass.TROOP_TRANSPORT]: 4,
+    [UnitClass.AIRCRAFT_CARRIER]: 6,
+  } as Partial<Record<UnitClass, number>>,
+  // Which unit classes each carrier class can take aboard
+  CARGO_CLASSES: {
+    [UnitClass.TROOP_TRANSPORT]: [UnitClass.INFANTRY, UnitClass.SPECIAL_FORCES, UnitClass.GROUND_TANK],
+    [UnitClass.AIRCRAFT_CARRIER]: [UnitClass.FIGHTER_JET, UnitClass.RECON_DRONE],
+  } as Partial<Record<UnitClass, UnitClass[]>>,
+  // Only these can be paradropped - tanks need the transport to land (UNLOAD)
+  AIRDROP_CLASSES: [UnitClass.INFANTRY, UnitClass.SPECIAL_FORCES],
+  LOAD_RANGE_KM: 15,              // Boarding completes within this distance
+  MAX_BOARDING_DISTANCE_KM: 300,  // Units further away cannot be ordered aboard
+  DROP_ZONE_RADIUS_KM: 10,        // Airdrop starts when the transport is this close
+  UNLOAD_SPREAD_DEG: 0.03,        // Ring radius for unloaded units
+};
+
+// NAVAL MINE WARFARE
+export const MINE_CONFIG = {
+  LAY_COST: { gold: 40, oil: 15 },
+  LAY_COOLDOWN_TICKS: 60,         // ~2s between mines per MINELAYER
+  MAX_MINES_PER_FACTION: 40,
+  TRIGGER_RADIUS_KM: 6,           // Enemy ships this close set the mine off
+  DAMAGE: 450,
+  // Only these classes can spot enemy mines
+  DETECTION_RANGE_KM: {
+    [UnitClass.DESTROYER]: 30,
+    [UnitClass.RECON_DRONE]: 45,
+  } as Partial<Record<UnitClass, number>>,
+  SWEEP_RANGE_KM: 35,             // DESTROYER mine-clearing radius
+  SWEEP_COOLDOWN_TICKS: 200,
+  AVOID_RADIUS_KM: 20,            // Bot naval routing keeps this clear of known mines
+};
+
+// SUBMARINE STEALTH
+export const STEALTH_CONFIG = {
+  // Sonar platforms and how far they can hear submarines
+  SONAR_RANGE_KM: {
+    [UnitClass.DESTROYER]: 60,
+    [UnitClass.FRIGATE]: 45,
+  } as Partial<Record<UnitClass, number>>,
+  FIRING_REVEAL_TICKS: 100,       // ~3s exposed to everyone after a sub fires
+  CONTACT_GHOST_MS: 20000,        // UI keeps a "last known contact" marker this long
+};
+
+// PRODUCTION QUEUES
+export const PRODUCTION_CONFIG = {
+  // Which structures build which units
+  SITES: {
+    GROUND: [UnitClass.COMMAND_CENTER, UnitClass.MILITARY_BASE],
+    AIR: [UnitClass.AIRBASE],
+    SEA: [UnitClass.PORT],
+  },
+  // Build times in ticks (GAME_TICK_MS each)
+  BUILD_TICKS: {
+    [UnitClass.INFANTRY]: 150,
+    [UnitClass.SPECIAL_FORCES]: 250,
+    [UnitClass.GROUND_TANK]: 300,
+    [UnitClass.MISSILE_LAUNCHER]: 350,
+    [UnitClass.SAM_LAUNCHER]: 350,
+    [UnitClass.MOBILE_COMMAND_CENTER]: 600,
+    [UnitClass.FIGHTER_JET]: 400,
+    [UnitClass.HELICOPTER]: 300,
+    [UnitClass.HEAVY_BOMBER]: 600,
+    [UnitClass.RECON_DRONE]: 200,
+    [UnitClass.TROOP_TRANSPORT]: 400,
+    [UnitClass.PATROL_BOAT]: 250,
+    [UnitClass.FRIGATE]: 400,
+    [UnitClass.MINELAYER]: 400,
+    [UnitClass.DESTROYER]: 500,
+    [UnitClass.SUBMARINE]: 550,
+    [UnitClass.BATTLESHIP]: 1000,
+    [UnitClass.AIRCRAFT_CARRIER]: 1200,
+  } as Partial<Record<UnitClass, number>>,
+  DEFAULT_BUILD_TICKS: 300,
+  MAX_QUEUE_LENGTH: 5,            // Orders per structure, including the one in progress
+  CANCEL_REFUND_RATIO: 1,         // Cancelled orders give back this share of their cost
+  EXIT_SPREAD_DEG: 0.03,          // Finished land/air units appear this close to the structure
+};
+
+// SAVE GAMES - named slots in IndexedDB (services/saveGameService.ts)
+export const SAVE_GAME_CONFIG = {
+  SCHEMA_VERSION: 1,              // Bump when SaveGame changes shape - and add a migration
+  DB_NAME: 'TACTIC_OPS_SAVES',
+  DB_VERSION: 1,
+  MAX_NAME_LENGTH: 40,
+};
+
+// REPLAYS
+export const REPLAY_CONFIG = {
+  FORMAT_VERSION: 2,              // Bump when ReplayFile (or the action set) changes shape
+  CHECKPOINT_INTERVAL_TICKS: 1000, // ~30s - seek re-simulates from the nearest one
+  SPEEDS: [1, 2, 4, 8, 16],
+  MAX_TICKS_PER_FRAME: 64,        // Playback catch-up limit per animation frame
+};
+
 // DIFFICULTY CONFIGURATION - SMOOTHED PROGRESSION
 export const DIFFICULTY_CONFIG = {
   [Difficulty.EASY]: {
@@ -130,6 +262,103 @@ export const DIPLOMACY = {
   WEIGHT_COMMON_ENEMY: 0.3,
 };
 
+// PATHFINDING (see services/pathfindingService.ts)
+export const PATHFINDING_CONFIG = {
+  CELL_DEG: 0.5,                  // Nav grid resolution (~55km at the equator)
+  MAX_EXPANSIONS: 250000,         // A* gives up after this many cells
+  CACHE_SIZE: 512,                // Cached cell-to-cell routes (per domain + region pair)
+  SNAP_RADIUS_CELLS: 40,          // Search radius for a reachable cell near a blocked goal
+  WAYPOINT_REACHED_KM: 15,        // Advance to the next waypoint inside this radius
+  MAX_LEG_KM: 1500,               // Longest straight leg kept by path smoothing
+};
+
+// COMMAND QUEUES (see services/orderQueueService.ts)
+export const ORDER_QUEUE_CONFIG = {
+  MAX_ORDERS: 16,                 // Queued orders per unit (not counting the active one)
+};
+
+// CUSTOM GAME SETUP (see services/gameSettings.ts)
+export const DEFAULT_GAME_SETTINGS: GameSettings = {
+  startingGold: 10000,
+  startingOil: 1000,
+  startingUnits: { [UnitClass.INFANTRY]: 3, [UnitClass.GROUND_TANK]: 2 },
+  botCount: 3,
+  botPersonalities: [],
+  incomeMultiplier: 1,
+  nukesEnabled: true,
+  fogOfWar: false,
+  victoryConditions: ['ELIMINATION'],
+  victoryParams: {
+    capitalCount: 3,
+    capitalHoldMinutes: 3,
+    territoryPercent: 50,
+    hillHoldMinutes: 3,
+    economicGold: 50000,
+    timeLimitMinutes: 30,
+  },
+};
+
+export const GAME_SETTINGS_LIMITS = {
+  MAX_STARTING_GOLD: 100000,
+  MAX_STARTING_OIL: 50000,
+  MAX_STARTING_UNITS: 20,         // Per unit class
+  MAX_BOTS: 7,
+  INCOME_MULTIPLIERS: [0.5, 1, 1.5, 2, 3],
+  RESOURCE_SCALES: [0.5, 1, 1.5, 2], // Per-faction handicap steps
+  MAX_HOLD_MINUTES: 30,
+  MAX_CAPITAL_COUNT: 10,
+  MAX_ECONOMIC_GOLD: 1000000,
+  MAX_TIME_LIMIT_MINUTES: 180,
+  STARTING_UNIT_CLASSES: [UnitClass.INFANTRY, UnitClass.GROUND_TANK, UnitClass.MISSILE_LAUNCHER, UnitClass.SAM_LAUNCHER, UnitClass.HELICOPTER, UnitClass.FIGHTER_JET],
+};
+
+// VICTORY CONDITIONS (see services/victoryService.ts)
+export const VICTORY_CONFIG = {
+  CHECK_INTERVAL_TICKS: 60,       // Same cadence as the elimination check
+  CAPITAL_TIER: 1,                // Cities of this tier count as capitals
+  SCORE_PER_CITY: 1000,           // Time-limit score: cities * 1000 + gold + oil
+};
+
+// TEAMS & ALLIED PLAY (see services/teamService.ts)
+export const TEAM_CONFIG = {
+  MAX_TEAMS: 4,
+  TEAM_RELATION: 100,             // Teammates start (and stay) fully allied
+  TRANSFER_STEP: { gold: 500, oil: 100 }, // Sidebar "send" buttons
+  MAX_TRANSFER: 100000,           // Per action, per resource
+};
+
+// TREATIES (see services/diplomacyService.ts)
+export const TREATY_CONFIG = {
+  DEFAULT_DURATION_TICKS: {
+    ALLIANCE: 20000,              // ~10 min
+    NON_AGGRESSION: 10000,
+    CEASEFIRE: 2000,              // ~1 min
+    TRIBUTE: 6000,
+  } as Record<TreatyType, number>,
+  MIN_DURATION_TICKS: 500,
+  MAX_DURATION_TICKS: 60000,
+  PROPOSAL_TIMEOUT_TICKS: 1000,   // Unanswered proposals lapse after ~30s
+  // Relation both sides are lifted to while the treaty holds (null = unchanged)
+  RELATION_FLOOR: {
+    ALLIANCE: 50,                 // DIPLOMACY.ALLIANCE_THRESHOLD
+    NON_AGGRESSION: 0,
+    CEASEFIRE: 0,
+    TRIBUTE: null,
+  } as Record<TreatyType, number | null>,
+  TRIBUTE_INTERVAL_TICKS: 200,    // One payment every ~6s
+  MAX_TRIBUTE_PAYMENT: 1000,      // Per payment, per resource
+  DEFAULT_TRIBUTE: { gold: 50, oil: 10 }, // Per payment, Sidebar offers/demands
+  BETRAYAL_RELATION: -80,         // Both sides after an attack breaks a treaty
+  UPDATE_INTERVAL_TICKS: 20,
+  // Minimum evaluateTreatyProposal() score for bots to sign
+  BOT_ACCEPT_SCORE: {
+    ALLIANCE: 40,
+    NON_AGGRESSION: 20,
+    CEASEFIRE: 0,
+    TRIBUTE: 0,
+  } as Record<TreatyType, number>,
+};
+
 export const FACTION_PRESETS = [
   { name: 'Atlantic Coalition', color: '#3b82f6' },
   { name: 'Red Dawn Syndicate', color: '#ef4444' },
@@ -422,3 +651,13 @@ export const SCENARIOS = {
   AFRICA: { id: 'AFRICA', name: 'Africa', bounds: { minLat: -35, maxLat: 38, minLng: -20, maxLng: 55 } },
   ASIA: { id: 'ASIA', name: 'Asia', bounds: { minLat: 0, maxLat: 75, minLng: 45, maxLng: 180 } },
 };
+
+// SCENARIO EDITOR - custom scenario files (services/scenarioService.ts)
+export const SCENARIO_CONFIG = {
+  FORMAT_VERSION: 1,              // Bump when ScenarioFile changes shape
+  STORAGE_KEY: 'TACTIC_OPS_SCENARIOS',
+  ID_PREFIX: 'CUSTOM_',           // Keeps custom IDs clear of the built-in SCENARIOS keys
+  MAX_SLOTS: FACTION_PRESETS.length,
+  MAX_POIS: 500,
+  MAX_UNITS: 1000,
+};
@@ -1,22 +1,37 @@
 import { useState, useRef, useEffect, useCallback } from 'react';
-import { GameState, GameUnit, POI, UnitClass, POIType, Faction, Difficulty, NetworkRequest, NetworkResponse, GameMode } from '../types';
-import { UNIT_CONFIG, NUKE_CONFIG, GAME_TICK_MS } from '../constants';
-import { processGameTick, spawnUnit } from '../services/gameLogic';
+import { GameState, GameUnit, POI, UnitClass, POIType, Faction, Difficulty, NetworkRequest, NetworkResponse, GameMode, TreatyType, TributeTerms, UnitOrder, UnitOrderType, UnitStance, CommandModifiers, GameSettings } from '../types';
+import { UNIT_CONFIG, NUKE_CONFIG, GAME_TICK_MS, ACTION_VALIDATION, CARGO_CONFIG, PRODUCTION_CONFIG, TREATY_CONFIG } from '../constants';
+import { processGameTick, spawnUnit, getDistanceKm } from '../services/gameLogic';
 import { NetworkService } from '../services/networkService';
 import { AudioService } from '../services/audioService';
 import { AudioEvents } from '../services/audioEventDispatcher';
 import { TerrainService } from '../services/terrainService';
-import { GameAction, createAction, SpawnUnitPayload, MoveUnitsPayload, AttackTargetPayload, BuildStructurePayload, SelectBasePayload, LaunchNukePayload } from '../services/schemas';
+import { GameAction, Intent, createAction, QueueProductionPayload, CancelProductionPayload, SetRallyPointPayload, MoveUnitsPayload, QueueOrdersPayload, SetStancePayload, AttackTargetPayload, BuildStructurePayload, SelectBasePayload, LaunchNukePayload, LoadUnitsPayload, UnloadUnitsPayload, AirdropPayload, LayMinePayload, SweepMinesPayload, ProposeTreatyPayload, RespondTreatyPayload, TransferResourcesPayload, SaveGame } from '../services/schemas';
 import { applyAction } from '../services/applyAction';
+import { validateAction, revertOptimisticAction } from '../services/actionValidator';
+import { canCarry, getFreeCargoSlots, getCargoCapacity } from '../services/cargoService';
+import { canProduceAt, findProductionSite, isProductionSite } from '../services/productionService';
+import { getLocalGameResult } from '../services/teamService';
 import { Scenario } from '../types';
 import { getMockCities, generateRandomResources } from '../services/mockDataService';
+import { buildScenarioMap, getScenarioInfo } from '../services/scenarioService';
 import { PhantomHostService } from '../services/phantomHostService';
 import { shakeScreen } from '../components/GameCanvas';
+import { SimClock, createGameSeed } from '../services/deterministic';
+import { applyStateDelta, isDeltaApplicable } from '../services/stateSync';
+import { ReplayRecorder } from '../services/replayService';
+import { resetBotBrains, restoreBotBrains } from '../services/AdvancedBotAI';
+import { AIDirector } from '../services/aiDirector';
+import { prepareLoadedState } from '../services/saveGameService';
+import { getGameSettings, normalizeGameSettings, getStartingResources, createStartingArmy } from '../services/gameSettings';
+import { initVictoryState } from '../services/victoryService';
+import { markDisconnected, markReconnected } from '../services/reconnectService';
+import { PendingAction, acknowledgeAction, getAcknowledgedSeq, reconcileWithHost, carryPresentation, predictUnits } from '../services/predictionService';
 
 // GAME_TICK_MS now imported from constants.ts for consistency
 
 export const useGameLoop = () => {
-    const [gameState, setGameState] = useState<GameState>({
+    const [gameState, setRawGameState] = useState<GameState>({
         units: [],
         pois: [],
         factions: [],
@@ -36,13 +51,32 @@ export const useGameLoop = () => {
         // Network sync fields
         stateVersion: 0,
         hostTick: 0,
-        nukesInFlight: []
+        rngSeed: 0,
+        nukesInFlight: [],
+        mines: []
     });
 
+    // Latest state, updated eagerly so handlers can validate and run side effects
+    // (network, replay, audio) outside updaters - StrictMode runs updaters twice
+    const gameStateRef = useRef(gameState);
+    const setGameState = useCallback((update: GameState | ((prev: GameState) => GameState)) => {
+        const next = typeof update === 'function' ? update(gameStateRef.current) : update;
+        gameStateRef.current = next;
+        setRawGameState(next);
+    }, []);
+
     const [center, setCenter] = useState<{ lat: number; lng: number }>({ lat: 20, lng: 0 });
     const [selectedUnitIds, setSelectedUnitIds] = useState<string[]>([]);
     const lastRightClickTime = useRef<number>(0);
 
+    // Host-side events for the next simulated tick (peer drop-outs) - host only
+    const hostIntents = useRef<Intent[]>([]);
+
+    // Optimistically applied actions awaiting host validation (client only)
+    const pendingActions = useRef(new Map<string, PendingAction>());
+    const actionSeq = useRef(0); // Last GameAction.seq this client sent
+    const authoritativeState = useRef<GameState | null>(null); // CLIENT: host state as last received, before prediction
+
     // NUCLEAR TARGETING MODE
     const [nukeLaunchMode, setNukeLaunchMode] = useState<boolean>(false);
     const [selectedSiloId, setSelectedSiloId] = useState<string | null>(null);
@@ -52,6 +86,16 @@ export const useGameLoop = () => {
     nukeLaunchModeRef.current = nukeLaunchMode;
     selectedSiloIdRef.current = selectedSiloId;
 
+    // CARGO TARGETING MODE - next map click picks the drop zone / sortie target
+    const [cargoTargeting, setCargoTargeting] = useState<{ mode: 'AIRDROP' | 'LAUNCH_SORTIE'; transportId: string } | null>(null);
+    const cargoTargetingRef = useRef(cargoTargeting);
+    cargoTargetingRef.current = cargoTargeting;
+
+    // ATTACK-MOVE MODE (V) - next map click sends the selection there, engaging on the way
+    const [attackMoveMode, setAttackMoveMode] = useState<boolean>(false);
+    const attackMoveModeRef = useRef(attackMoveMode);
+    attackMoveModeRef.current = attackMoveMode;
+
     // Game loop control
     const animationFrameId = useRef<number>(0);
     const lastTickTime = useRef<number>(0);
@@ -67,66 +111,45 @@ export const useGameLoop = () => {
     // ============================================
     useEffect(() => {
         const unsub = NetworkService.subscribe((event) => {
-            // 0. PLAYER DISCONNECT - Clean up orphaned entities (Host only)
+            // 0. PLAYER DISCONNECT - Hold the seat for a reconnect (Host only)
+            // Queued as an intent so the next tick applies it and replays record it;
+            // seats nobody reclaims in time are neutralized by processGameTick
             if (event.type === 'DISCONNECT') {
-                setGameState(prev => {
-                    if (prev.isClient) return prev; // Only host handles this
-
-                    const disconnectedPlayerId = event.peerId;
-                    console.log('[HOST] Player disconnected:', disconnectedPlayerId);
-
-                    // Convert disconnected player's units to neutral defenders
-                    const neutralizedUnits = prev.units.map(u =>
-                        u.factionId === disconnectedPlayerId
-                            ? {
-                                ...u,
-                                factionId: 'NEUTRAL_DEFENDER',
-                                autoMode: 'DEFEND' as const,
-                                homePosition: { ...u.position },
-                                targetId: null,
-                                destination: null
-                            }
-                            : u
-                    );
-
-                    // Remove faction from active players
-                    const remainingFactions = prev.factions.filter(f =>
-                        f.id !== disconnectedPlayerId
-                    );
-
-                    // Release owned POIs to neutral
-                    const releasedPois = prev.pois.map(p =>
-                        p.ownerFactionId === disconnectedPlayerId
-                            ? { ...p, ownerFactionId: 'NEUTRAL' }
-                            : p
-                    );
+                if (gameStateRef.current.isClient) return; // Only host handles this
 
-                    console.log('[HOST] Neutralized',
-                        prev.units.filter(u => u.factionId === disconnectedPlayerId).length,
-                        'units and',
-                        prev.pois.filter(p => p.ownerFactionId === disconnectedPlayerId).length,
-                        'POIs from disconnected player'
-                    );
-
-                    return {
-                        ...prev,
-                        units: neutralizedUnits,
-                        factions: remainingFactions,
-                        pois: releasedPois
-                    };
-                });
+                const factionId = NetworkService.factionForPeer(event.peerId);
+                console.log('[HOST] Player disconnected:', event.peerId, 'faction:', factionId);
+                if (factionId) hostIntents.current.push({ type: 'PLAYER_DISCONNECTED', clientId: factionId });
                 return;
             }
 
             // 1. GAMEPLAY ACTIONS
             if (event.type === 'ACTION') {
-                setGameState(prev => {
-                    // HOST: Always apply all actions (from self and remote clients)
-                    if (!prev.isClient) {
-                        console.log('[NET][HOST] Applying action:', event.action.actionType, 'from', event.action.playerId);
-                        return applyAction(prev, event.action);
+                // HOST: Validate, then apply (remote actions from clients)
+                if (!gameStateRef.current.isClient) {
+                    // Connection superseded by a REJOIN from another peer
+                    const senderFaction = NetworkService.factionForPeer(event.fromPeerId);
+                    if (!senderFaction) return;
+
+                    const rejection = validateAction(gameStateRef.current, event.action, senderFaction);
+                    if (rejection) {
+                        console.warn('[NET][HOST] Rejected action:', event.action.actionType, 'from', event.action.playerId, '-', rejection.reason, rejection.message);
+                        NetworkService.broadcastResponse({
+                            type: 'ACTION_REJECTED',
+                            actionId: event.action.actionId,
+                            playerId: event.action.playerId,
+                            reason: rejection.reason,
+                            message: rejection.message
+                        });
+                        return;
                     }
+                    console.log('[NET][HOST] Applying action:', event.action.actionType, 'from', event.action.playerId);
+                    ReplayRecorder.recordAction(gameStateRef.current.gameTick, event.action);
+                    setGameState(prev => acknowledgeAction(applyAction(prev, event.action), event.action));
+                    return;
+                }
 
+                setGameState(prev => {
                     // CLIENT DURING PLAYING: Only ignore REMOTE actions (not our own)
                     // Our own actions are already applied locally before broadcast
                     // Remote actions will arrive in FULL_STATE from host
@@ -189,7 +212,7 @@ export const useGameLoop = () => {
 
                     // MERGE: Only authoritative fields from host
                     // PRESERVE: All local UI state
-                    return {
+                    const merged: GameState = {
                         // === AUTHORITATIVE (from host) ===
                         units: mergedUnits,
                         pois: hostState.pois,
@@ -204,10 +227,17 @@ export const useGameLoop = () => {
                         scenario: hostState.scenario,
                         territoryControlled: hostState.territoryControlled,
                         startTime: hostState.startTime,
-                        gameResult: hostState.gameResult,
+                        gameResult: getLocalGameResult(hostState, prev.localPlayerId),
+                        winnerFactionIds: hostState.winnerFactionIds,
                         gameStats: hostState.gameStats,
                         pendingBotFactions: hostState.pendingBotFactions,
                         nukesInFlight: hostState.nukesInFlight || [], // Ensure always initialized
+                        mines: hostState.mines || [],
+                        diplomacy: hostState.diplomacy,
+                        settings: hostState.settings,
+                        victory: hostState.victory,
+                        rngSeed: hostState.rngSeed, // Needed if we are ever elected host
+                        actionAcks: hostState.actionAcks,
 
                         // === LOCAL UI STATE (preserved) ===
                         gameMode: finalGameMode,
@@ -217,6 +247,51 @@ export const useGameLoop = () => {
                         controlGroups: prev.controlGroups,
                         playerResources: syncedResources
                     };
+                    // Freshest host state we hold - what we would resume from as the next host
+                    NetworkService.updateLastKnownState(merged);
+                    authoritativeState.current = merged;
+                    // Keep numbering after the host's count (e.g. rejoining after a reload)
+                    actionSeq.current = Math.max(actionSeq.current, getAcknowledgedSeq(merged, prev.localPlayerId));
+                    // PREDICTION: orders the host has not applied yet go back on top
+                    return reconcileWithHost(merged, pendingActions.current, prev.localPlayerId);
+                });
+            }
+            // 2b. DELTA STATE SYNC (changes since last sync)
+            else if (event.type === 'STATE_DELTA') {
+                setGameState(prev => {
+                    if (!prev.isClient) return prev;
+
+                    // PREDICTION: a delta only carries what changed on the host, so it
+                    // applies to our copy of the host state - never to the predicted one
+                    const base = authoritativeState.current ?? prev;
+
+                    // Gap detected (missed a delta or a keyframe) - ask host for a keyframe
+                    if (!isDeltaApplicable(base, event.delta)) {
+                        if (event.delta.stateVersion > base.stateVersion) {
+                            NetworkService.requestResync(base.stateVersion);
+                        }
+                        return prev;
+                    }
+
+                    const synced = applyStateDelta(base, event.delta);
+                    NetworkService.updateLastKnownState(synced);
+                    authoritativeState.current = synced;
+                    const next = carryPresentation(reconcileWithHost(synced, pendingActions.current, prev.localPlayerId), prev);
+
+                    // Preserve LOCAL UI state, resync resources from our faction
+                    const myFaction = next.factions.find(f => f.id === prev.localPlayerId);
+                    return {
+                        ...next,
+                        gameMode: prev.gameMode === 'PLACING_STRUCTURE' ? prev.gameMode : next.gameMode,
+                        placementType: prev.placementType,
+                        controlGroups: prev.controlGroups,
+                        gameResult: getLocalGameResult(next, prev.localPlayerId),
+                        playerResources: myFaction ? {
+                            gold: myFaction.gold,
+                            oil: myFaction.oil || 0,
+                            intel: prev.playerResources.intel
+                        } : prev.playerResources
+                    };
                 });
             }
             // 3. AUTHORITATIVE RESPONSES (Host -> Client)
@@ -229,7 +304,25 @@ export const useGameLoop = () => {
             }
         });
 
-        return () => unsub();
+        // HOST MIGRATION: we were elected (run the simulation from our copy of the
+        // state) or a newer host took over from us (become a client again)
+        NetworkService.setHostMigrationCallback((newHostId, previousHostId) => {
+            setGameState(prev => {
+                const isHostNow = newHostId === NetworkService.myPeerId;
+                console.log('[NET] Host migrated:', previousHostId || '?', '->', newHostId || '?', isHostNow ? '(us)' : '');
+                if (!isHostNow) return prev.isClient ? prev : { ...prev, isClient: true };
+
+                ReplayRecorder.disarm(); // Took over mid-match - nothing to replay from
+                const promoted = { ...prev, isClient: false, stateVersion: NetworkService.stateVersion };
+                // The old host's seat waits for it like any dropped player's
+                return previousHostId ? markDisconnected(promoted, previousHostId) : promoted;
+            });
+        });
+
+        return () => {
+            unsub();
+            NetworkService.setHostMigrationCallback(null);
+        };
     }, []);
 
     // ============================================
@@ -262,7 +355,8 @@ export const useGameLoop = () => {
                     // =============================================
                     let nextUnits = [...prev.units];
 
-                    // Command Center (HQ) - ONLY unit for players
+                    // Command Center (HQ) + the lobby's starting army
+                    const settings = getGameSettings(prev);
                     nextUnits.push({
                         id: `HQ-${req.playerId}-${Date.now()}`,
                         unitClass: UnitClass.COMMAND_CENTER,
@@ -276,8 +370,9 @@ export const useGameLoop = () => {
                         speed: 0,
                         vision: UNIT_CONFIG[UnitClass.COMMAND_CENTER].vision
                     });
+                    nextUnits.push(...createStartingArmy(req.playerId, poi.position, settings));
 
-                    console.log(`[HOST] Spawned HQ for player ${req.playerId}`);
+                    console.log(`[HOST] Spawned HQ + starting army for player ${req.playerId}`);
                     console.log(`[HOST] Player units in nextUnits: ${nextUnits.filter(u => u.factionId === req.playerId).length}`);
 
                     // 2. Broadcast Response (Authoritative Update)
@@ -310,7 +405,12 @@ export const useGameLoop = () => {
                         const shuffledCities = [...availableCities].sort(() => Math.random() - 0.5);
 
                         // Assign to Bots - IMMUTABLE UPDATES
-                        botFactions.forEach((bot, index) => {
+                        // Bots that already hold a city (custom scenario) keep their pre-placed setup
+                        const basedBots = botFactions.filter(bot => finalPois.some(p => p.type === POIType.CITY && p.ownerFactionId === bot.id));
+                        finalFactions = finalFactions.map(f =>
+                            basedBots.includes(f) ? { ...f, ready: true } : f
+                        );
+                        botFactions.filter(bot => !basedBots.includes(bot)).forEach((bot, index) => {
                             if (index < shuffledCities.length) {
                                 const city = shuffledCities[index];
                                 // Update POI immutably
@@ -343,49 +443,10 @@ export const useGameLoop = () => {
                                     vision: UNIT_CONFIG[UnitClass.COMMAND_CENTER].vision
                                 });
 
-                                // THREE INFANTRY (needed for capture!)
-                                for (let inf = 0; inf < 3; inf++) {
-                                    finalUnits.push({
-                                        id: `INF-${bot.id}-${inf}-${Date.now()}`,
-                                        unitClass: UnitClass.INFANTRY,
-                                        factionId: bot.id,
-                                        position: {
-                                            lat: city.position.lat + (Math.random() - 0.5) * 0.03,
-                                            lng: city.position.lng + (Math.random() - 0.5) * 0.03
-                                        },
-                                        heading: Math.random() * 360,
-                                        hp: UNIT_CONFIG[UnitClass.INFANTRY].hp,
-                                        maxHp: UNIT_CONFIG[UnitClass.INFANTRY].maxHp,
-                                        attack: UNIT_CONFIG[UnitClass.INFANTRY].attack,
-                                        range: UNIT_CONFIG[UnitClass.INFANTRY].range,
-                                        speed: UNIT_CONFIG[UnitClass.INFANTRY].speed,
-                                        vision: UNIT_CONFIG[UnitClass.INFANTRY].vision,
-                                        canCapture: true
-                                    });
-                                }
-
-                                // TWO TANKS (escorts)
-                                for (let tank = 0; tank < 2; tank++) {
-                                    finalUnits.push({
-                                        id: `TANK-${bot.id}-${tank}-${Date.now()}`,
-                                        unitClass: UnitClass.GROUND_TANK,
-                                        factionId: bot.id,
-                                        position: {
-                                            lat: city.position.lat + (Math.random() - 0.5) * 0.04,
-                                            lng: city.position.lng + (Math.random() - 0.5) * 0.04
-                                        },
-                                        heading: Math.random() * 360,
-                                        hp: UNIT_CONFIG[UnitClass.GROUND_TANK].hp,
-                                        maxHp: UNIT_CONFIG[UnitClass.GROUND_TANK].maxHp,
-                                        attack: UNIT_CONFIG[UnitClass.GROUND_TANK].attack,
-                                        range: UNIT_CONFIG[UnitClass.GROUND_TANK].range,
-                                        speed: UNIT_CONFIG[UnitClass.GROUND_TANK].speed,
-                                        vision: UNIT_CONFIG[UnitClass.GROUND_TANK].vision,
-                                        canCapture: true
-                                    });
-                                }
+                                // Starting army from the lobby settings
+                                finalUnits.push(...createStartingArmy(bot.id, city.position, settings));
 
-                                console.log(`[HOST] Spawned starting army for bot ${bot.id}: 1 HQ + 3 Infantry + 2 Tanks`);
+                                console.log(`[HOST] Spawned starting army for bot ${bot.id}`);
                             }
                         });
 
@@ -436,8 +497,9 @@ export const useGameLoop = () => {
                         // =============================================
                         // SPAWN RANDOM RESOURCES (After Player Selection)
                         // =============================================
+                        // (custom scenarios place their own deposits)
                         const scenarioBounds = prev.scenario?.bounds || { minLat: -85, maxLat: 85, minLng: -180, maxLng: 180 };
-                        const randomResources = generateRandomResources(scenarioBounds, 10, 10);
+                        const randomResources = prev.scenario?.custom ? [] : generateRandomResources(scenarioBounds, 10, 10);
                         finalPois = [...finalPois, ...randomResources];
                         console.log(`[HOST] Added ${randomResources.length} random resource deposits`);
 
@@ -478,10 +540,63 @@ export const useGameLoop = () => {
                 return prev;
             });
         }
+        else if (req.type === 'REJOIN') {
+            const current = gameStateRef.current;
+            if (current.isClient) return;
+
+            const factionId = NetworkService.claimSession(req.token, fromPeerId);
+            const faction = factionId && current.factions.find(f => f.id === factionId && f.type === 'PLAYER');
+            if (!faction) {
+                console.warn('[HOST] Refused rejoin from', fromPeerId, '- seat gone or token unknown');
+                NetworkService.sendResponse(fromPeerId, { type: 'REJOIN_RESULT', accepted: false, message: 'Your seat in this match is no longer available' });
+                return;
+            }
+
+            // The seat is handed back on the next tick (recorded like the disconnect);
+            // the snapshot for the returning player already shows it reclaimed
+            console.log('[HOST] Player', fromPeerId, 'rejoined as', factionId);
+            hostIntents.current.push({ type: 'PLAYER_REJOINED', clientId: factionId });
+            const next = markReconnected(current, factionId);
+            NetworkService.sendResponse(fromPeerId, { type: 'REJOIN_RESULT', accepted: true, factionId });
+            NetworkService.sendFullState(fromPeerId, {
+                ...next,
+                gameMode: next.gameMode === 'PLACING_STRUCTURE' ? 'PLAYING' : next.gameMode
+            });
+        }
     };
 
     // CLIENT & HOST: Process Responses
     const handleNetworkResponse = (res: NetworkResponse) => {
+        if (res.type === 'ACTION_REJECTED') {
+            // Only the client that sent the action cares - roll back its optimistic copy
+            const current = gameStateRef.current;
+            if (!current.isClient || res.playerId !== current.localPlayerId) return;
+
+            console.warn('[NET] Action rejected by host:', res.reason, res.message);
+            const pending = pendingActions.current.get(res.actionId);
+            pendingActions.current.delete(res.actionId);
+            AudioService.playError();
+
+            // Ask for a keyframe either way so the authoritative state wins
+            NetworkService.requestResync(current.stateVersion);
+
+            setGameState(prev => {
+                const reverted = pending
+                    ? revertOptimisticAction(prev, pending.before, pending.after, pending.action)
+                    : prev;
+                return {
+                    ...reverted,
+                    messages: [...reverted.messages, {
+                        id: `REJECT-${res.actionId}`,
+                        text: `[ORDER REJECTED] ${res.message}`,
+                        type: 'alert' as const,
+                        timestamp: prev.gameTick * GAME_TICK_MS
+                    }].slice(-20)
+                };
+            });
+            return;
+        }
+
         setGameState(prev => {
             if (res.type === 'BASE_SELECTED') {
                 // CRITICAL FIX: HOST already applies these changes in handleNetworkRequest
@@ -513,6 +628,12 @@ export const useGameLoop = () => {
 
                 return { ...prev, pois: nextPois, factions: nextFactions };
             }
+            else if (res.type === 'REJOIN_RESULT') {
+                // Our seat is back - the FULL_STATE that follows brings the match
+                if (!res.accepted || !res.factionId) return prev;
+                console.log('[NET] Rejoined as', res.factionId);
+                return { ...prev, isClient: true, localPlayerId: res.factionId, placementType: null };
+            }
             else if (res.type === 'GAME_MODE_UPDATE') {
                 // CRITICAL FIX: HOST already applies game mode changes
                 if (!prev.isClient) {
@@ -531,6 +652,44 @@ export const useGameLoop = () => {
         });
     };
 
+    // ============================================
+    // ACTION DISPATCH (Optimistic + Host Validation)
+    // ============================================
+    /**
+     * Apply a local GameAction and send it to peers.
+     * HOST: validated with the same rules as remote actions; invalid ones are dropped.
+     * CLIENT: applied optimistically, numbered and remembered until the host
+     * acknowledges or rejects it (see predictionService).
+     */
+    const dispatchAction = useCallback((unsequenced: GameAction) => {
+        const action = NetworkService.isHost ? unsequenced : { ...unsequenced, seq: ++actionSeq.current };
+        const before = gameStateRef.current;
+        if (!before.isClient) {
+            const rejection = validateAction(before, action);
+            if (rejection) {
+                console.warn('[HOST] Local action rejected:', rejection.reason, rejection.message);
+                AudioService.playError();
+                return;
+            }
+            ReplayRecorder.recordAction(before.gameTick, action);
+            setGameState(prev => applyAction(prev, action));
+            NetworkService.broadcastAction(action);
+            return;
+        }
+
+        setGameState(prev => applyAction(prev, action));
+
+        // Forget old pending actions - lost, or sent to a host that does not acknowledge
+        const now = Date.now();
+        pendingActions.current.forEach((entry, id) => {
+            if (now - entry.sentAt > ACTION_VALIDATION.OPTIMISTIC_TIMEOUT_MS) pendingActions.current.delete(id);
+        });
+        pendingActions.current.set(action.actionId, { action, before, after: gameStateRef.current, sentAt: now });
+
+        // Clients send immediately; the host broadcasts only after validation (above)
+        NetworkService.broadcastAction(action);
+    }, []);
+
     // ============================================
     // GAME LOOP (Authoritative Host Simulation)
     // ============================================
@@ -560,6 +719,12 @@ export const useGameLoop = () => {
         });
 
         if (timestamp - lastTickTime.current >= GAME_TICK_MS) {
+            // HOST: Take this tick's intents and record them before simulating
+            const before = gameStateRef.current;
+            const simulating = !before.isClient && (before.gameMode === 'PLAYING' || before.gameMode === 'PLACING_STRUCTURE');
+            const intents = simulating ? hostIntents.current.splice(0) : [];
+            if (simulating) ReplayRecorder.recordTick(before, intents);
+
             setGameState(prevState => {
                 // PLACING_STRUCTURE is a LOCAL UI MODE - should not stop game simulation!
                 // Only skip if in actual non-playing modes (LOBBY, SELECTION, COUNTDOWN)
@@ -574,63 +739,24 @@ export const useGameLoop = () => {
                 if (prevState.isClient) {
                     // CLIENT: Do NOT run simulation
                     // Only update visual elements that don't affect game state
+                    SimClock.observe(prevState.gameTick);
                     const updatedProjectiles = prevState.projectiles.map(p => {
                         if (p.progress < 1) {
                             return { ...p, progress: Math.min(1, p.progress + (p.speed || 0.1)) };
                         }
                         return p;
-                    }).filter(p => p.progress < 1 || Date.now() - p.timestamp < 500);
+                    }).filter(p => p.progress < 1 || SimClock.presentationNow() - p.timestamp < 500);
 
                     const updatedExplosions = prevState.explosions.filter(
-                        e => Date.now() - e.timestamp < 1000
+                        e => SimClock.presentationNow() - e.timestamp < 1000
                     );
 
                     // ============================================
-                    // CLIENT-SIDE INTERPOLATION + PREDICTION
+                    // CLIENT-SIDE PREDICTION + INTERPOLATION
                     // ============================================
-                    const LERP_FACTOR = 0.15; // Smooth interpolation speed (higher = faster snap)
-                    const PREDICT_SPEED = 0.00005; // Movement prediction per tick
-
-                    const updatedUnits = prevState.units.map(unit => {
-                        // Initialize visual position if not set
-                        const currentVisualLat = unit.visualPosition?.lat ?? unit.position.lat;
-                        const currentVisualLng = unit.visualPosition?.lng ?? unit.position.lng;
-                        const currentVisualHeading = unit.visualHeading ?? unit.heading;
-
-                        // Target position: authoritative OR predicted from destination
-                        let targetLat = unit.position.lat;
-                        let targetLng = unit.position.lng;
-
-                        // PREDICTION: If unit has a destination, predict movement toward it
-                        if (unit.destination) {
-                            const dx = unit.destination.lng - unit.position.lng;
-                            const dy = unit.destination.lat - unit.position.lat;
-                            const dist = Math.sqrt(dx * dx + dy * dy);
-
-                            if (dist > 0.001) { // Only predict if not at destination
-                                const speed = (unit.speed || 100) * PREDICT_SPEED;
-                                targetLat = unit.position.lat + (dy / dist) * speed;
-                                targetLng = unit.position.lng + (dx / dist) * speed;
-                            }
-                        }
-
-                        // LERP visual position toward target
-                        const newVisualLat = currentVisualLat + (targetLat - currentVisualLat) * LERP_FACTOR;
-                        const newVisualLng = currentVisualLng + (targetLng - currentVisualLng) * LERP_FACTOR;
-
-                        // LERP heading for smooth rotation
-                        let headingDiff = unit.heading - currentVisualHeading;
-                        // Handle wrap-around (e.g., 350 -> 10 should go +20, not -340)
-                        if (headingDiff > 180) headingDiff -= 360;
-                        if (headingDiff < -180) headingDiff += 360;
-                        const newVisualHeading = currentVisualHeading + headingDiff * LERP_FACTOR;
-
-                        return {
-                            ...unit,
-                            visualPosition: { lat: newVisualLat, lng: newVisualLng },
-                            visualHeading: newVisualHeading
-                        };
-                    });
+                    // Own units run the host's movement code, everything else
+                    // glides towards the last authoritative state
+                    const updatedUnits = predictUnits(prevState);
 
                     return {
                         ...prevState,
@@ -642,10 +768,10 @@ export const useGameLoop = () => {
                 }
 
                 // HOST: Run full authoritative simulation
-                const nextState = processGameTick(prevState, [], true);
+                const nextState = processGameTick(prevState, intents, true);
 
                 // HOST: Broadcast state to clients periodically
-                // Every 15 ticks (~600ms) - reduced from 5 for bandwidth optimization
+                // Every 15 ticks (~600ms) - delta compressed, with periodic FULL_STATE keyframes
                 // Actions are still sent immediately for low-latency
                 if (nextState.gameTick % 15 === 0) {
                     NetworkService.incrementStateVersion();
@@ -657,7 +783,7 @@ export const useGameLoop = () => {
                         stateVersion: NetworkService.stateVersion,
                         hostTick: nextState.gameTick
                     };
-                    NetworkService.broadcastFullState(broadcastState);
+                    NetworkService.broadcastStateSync(broadcastState);
                 }
 
                 return {
@@ -667,6 +793,11 @@ export const useGameLoop = () => {
                 };
             });
             lastTickTime.current = timestamp;
+
+            const after = gameStateRef.current;
+            if (simulating && after.gameResult && ReplayRecorder.isRecording) {
+                ReplayRecorder.finish(after.gameTick);
+            }
         }
 
         animationFrameId.current = requestAnimationFrame(gameLoop);
@@ -675,8 +806,9 @@ export const useGameLoop = () => {
     // ============================================
     // START GAME (Initialization)
     // ============================================
-    const startGame = (scenario: Scenario, localPlayerId: string, factions: Faction[], isClient: boolean, initialPois?: POI[]) => {
+    const startGame = (scenario: Scenario, localPlayerId: string, factions: Faction[], isClient: boolean, initialPois?: POI[], initialSeed?: number, initialSettings?: GameSettings) => {
         console.log('[START GAME]', scenario.id, 'localPlayerId:', localPlayerId, 'isClient:', isClient);
+        const settings = normalizeGameSettings(initialSettings);
         console.log('[START GAME] Factions received:', factions.map(f => ({ id: f.id, type: f.type, color: f.color })));
 
         // CRITICAL: Ensure player faction exists with the correct ID
@@ -699,8 +831,7 @@ export const useGameLoop = () => {
                     name: 'Player',
                     type: 'PLAYER',
                     color: '#00ff00', // Default green
-                    gold: 10000,
-                    oil: 1000,
+                    ...getStartingResources(settings, localPlayerId),
                     relations: {},
                     aggression: 0
                 });
@@ -710,9 +841,23 @@ export const useGameLoop = () => {
         console.log('[START GAME] Final factions:', finalFactions.map(f => ({ id: f.id, type: f.type, color: f.color })));
 
         let allCities = initialPois || getMockCities();
+        let scenarioUnits: GameUnit[] = [];
 
-        // HOST: Initialize Unclaimed Cities
+        // Deterministic simulation seed: host picks it, clients adopt it from START_GAME
+        const rngSeed = initialSeed ?? createGameSeed();
+
+        // HOST: Initialize Unclaimed Cities (custom scenarios keep their pre-set owners and units)
         if (!isClient) {
+            if (scenario.custom && scenario.pois) {
+                const map = buildScenarioMap(scenario, finalFactions);
+                allCities = map.pois;
+                scenarioUnits = map.units;
+                console.log(`[START GAME] Custom scenario: ${allCities.length} POIs, ${scenarioUnits.length} pre-placed units`);
+            } else {
+                allCities.forEach(city => {
+                    if (city.type === POIType.CITY) city.ownerFactionId = undefined as any;
+                });
+            }
             if (scenario.bounds) {
                 const { minLat, maxLat, minLng, maxLng } = scenario.bounds as any;
                 allCities = allCities.filter(city =>
@@ -720,40 +865,77 @@ export const useGameLoop = () => {
                     city.position.lng >= minLng && city.position.lng <= maxLng
                 );
             }
-            allCities.forEach(city => {
-                if (city.type === POIType.CITY) city.ownerFactionId = undefined as any;
-            });
 
             // Broadcast Initial Setup
             if (NetworkService.isHost || (!isClient && NetworkService.myPeerId)) {
-                NetworkService.startGame(scenario.id, finalFactions, allCities);
+                NetworkService.startGame(scenario.id, finalFactions, allCities, rngSeed, settings, getScenarioInfo(scenario));
+
+                // Every remote player gets a token to reclaim their seat after a drop
+                NetworkService.resetSessions();
+                finalFactions
+                    .filter(f => f.type === 'PLAYER' && f.id !== localPlayerId)
+                    .forEach(f => NetworkService.issueSession(f.id, f.id));
             }
         }
 
+        const localFaction = finalFactions.find(f => f.id === localPlayerId);
         setGameState({
-            units: [],
+            units: scenarioUnits,
             pois: allCities,
             factions: finalFactions,
             projectiles: [],
             explosions: [],
             messages: [],
-            playerResources: { gold: 10000, oil: 1000, intel: 100 },
+            playerResources: { gold: localFaction?.gold ?? settings.startingGold, oil: localFaction?.oil ?? settings.startingOil, intel: 100 },
             gameMode: 'SELECTION', // Start in Selection
             gameTick: 0,
             controlGroups: {},
             territoryControlled: 0,
             difficulty: Difficulty.MEDIUM,
-            scenario: scenario,
+            scenario: getScenarioInfo(scenario),
             localPlayerId,
             isClient,
             placementType: null,
             pendingBotFactions: finalFactions.filter(f => f.type === 'BOT').map(f => f.id),
             // Network sync fields
             stateVersion: 0,
-            hostTick: 0
+            hostTick: 0,
+            rngSeed,
+            mines: [],
+            settings,
+            victory: initVictoryState(allCities, settings)
         });
 
         NetworkService.isHost = !isClient;
+        NetworkService.resetStateSync();
+        hostIntents.current = [];
+        authoritativeState.current = null;
+
+        // Host records a replay from the first simulated tick; bots and waves start fresh
+        if (isClient) {
+            ReplayRecorder.disarm();
+        } else {
+            resetBotBrains();
+            AIDirector.getInstance().reset();
+            ReplayRecorder.arm();
+        }
+        AudioService.startBackgroundMusic();
+        AudioService.playSuccess();
+    };
+
+    // ============================================
+    // LOAD GAME (Resume a save slot as local host)
+    // ============================================
+    const loadGame = (save: SaveGame): void => {
+        console.log('[LOAD GAME]', save.id, `"${save.name}"`, 'tick', save.gameTick);
+        restoreBotBrains(save.botBrains);
+        AIDirector.getInstance().restore(save.director);
+        setGameState(prepareLoadedState(save));
+        setSelectedUnitIds([]);
+
+        NetworkService.isHost = true;
+        NetworkService.resetStateSync();
+        ReplayRecorder.disarm(); // Resumed mid-match - nothing to replay from
         AudioService.startBackgroundMusic();
         AudioService.playSuccess();
     };
@@ -786,6 +968,7 @@ export const useGameLoop = () => {
         setGameState(gameStateForPlayer);
 
         NetworkService.isHost = true; // BR runs locally
+        ReplayRecorder.disarm(); // Joined mid-match - nothing to replay from
         AudioService.startBackgroundMusic();
         AudioService.playSuccess();
 
@@ -919,6 +1102,25 @@ export const useGameLoop = () => {
     };
 
     const handleMapClick = (lat: number, lng: number) => {
+        // ATTACK-MOVE MODE
+        if (attackMoveModeRef.current) {
+            handleAttackMove(lat, lng, false);
+            setAttackMoveMode(false);
+            return;
+        }
+
+        // CARGO TARGETING MODE - airdrop zone or carrier sortie target
+        if (cargoTargetingRef.current) {
+            const { mode, transportId } = cargoTargetingRef.current;
+            const action = mode === 'AIRDROP'
+                ? createAction(gameState.localPlayerId, 'AIRDROP', { transportId, targetLat: lat, targetLng: lng } as AirdropPayload)
+                : createAction(gameState.localPlayerId, 'UNLOAD_UNITS', { transportId, targetLat: lat, targetLng: lng } as UnloadUnitsPayload);
+            dispatchAction(action);
+            AudioService.playSuccess();
+            setCargoTargeting(null);
+            return;
+        }
+
         // NUCLEAR TARGETING MODE - use refs to avoid stale closure
         if (nukeLaunchModeRef.current && selectedSiloIdRef.current) {
             const currentSiloId = selectedSiloIdRef.current;
@@ -946,8 +1148,7 @@ export const useGameLoop = () => {
                     nukeId: `NUKE-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
                 };
                 const action = createAction(gameState.localPlayerId, 'LAUNCH_NUKE', payload);
-                setGameState(prev => applyAction(prev, action));
-                NetworkService.broadcastAction(action);
+                dispatchAction(action);
                 AudioService.playAlert();
                 console.log('[NUKE] Nuclear strike launched at', lat.toFixed(2), lng.toFixed(2));
             }
@@ -997,8 +1198,7 @@ export const useGameLoop = () => {
                 unitId: `STRUCT-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
             };
             const action = createAction(gameState.localPlayerId, 'BUILD_STRUCTURE', payload);
-            setGameState(prev => applyAction(prev, action)); // Optimistic
-            NetworkService.broadcastAction(action);
+            dispatchAction(action); // Optimistic
             setGameState(prev => ({ ...prev, gameMode: 'PLAYING', placementType: null }));
             AudioService.playUnitSpawn();
         }
@@ -1008,21 +1208,88 @@ export const useGameLoop = () => {
         }
     };
 
+    // ============================================
+    // SHIFT-CLICK COMMAND QUEUES
+    // ============================================
+    // Shift+right-click appends to the selected units' order chains:
+    //   map = MOVE, +Ctrl = ATTACK_MOVE, +Alt = PATROL, +Ctrl+Alt = UNLOAD (transports)
+    //   enemy/POI = ATTACK, own transport = LOAD (units that fit aboard)
+    const queueOrder = (unitIds: string[], order: UnitOrder, replace: boolean = false) => {
+        const payload: QueueOrdersPayload = { unitIds, order, replace };
+        dispatchAction(createAction(gameState.localPlayerId, 'QUEUE_ORDERS', payload));
+    };
+
+    // Move there, engaging every hostile that comes into range on the way
+    const handleAttackMove = (lat: number, lng: number, queued: boolean) => {
+        const unitIds = gameState.units
+            .filter(u => selectedUnitIds.includes(u.id) && u.factionId === gameState.localPlayerId && !isProductionSite(u))
+            .filter(u => TerrainService.isValidMove(u.unitClass, lat, lng, gameState.pois))
+            .map(u => u.id);
+        if (unitIds.length === 0) {
+            AudioService.playError();
+            return;
+        }
+        queueOrder(unitIds, { type: 'ATTACK_MOVE', position: { lat, lng } }, !queued);
+        AudioService.playAttackCommand();
+    };
+
+    const getMapOrderType = (modifiers: CommandModifiers): UnitOrderType => {
+        if (modifiers.ctrlKey && modifiers.altKey) return 'UNLOAD';
+        if (modifiers.ctrlKey) return 'ATTACK_MOVE';
+        if (modifiers.altKey) return 'PATROL';
+        return 'MOVE';
+    };
+
+    const handleQueuedMapOrder = (lat: number, lng: number, modifiers: CommandModifiers) => {
+        const type = getMapOrderType(modifiers);
+        const selectedUnits = gameState.units.filter(u =>
+            selectedUnitIds.includes(u.id) && u.factionId === gameState.localPlayerId && !isProductionSite(u)
+        );
+        const unitIds = selectedUnits
+            .filter(u => type === 'UNLOAD'
+                ? getCargoCapacity(u.unitClass) > 0
+                : TerrainService.isValidMove(u.unitClass, lat, lng, gameState.pois))
+            .map(u => u.id);
+
+        if (unitIds.length === 0) {
+            AudioService.playError();
+            return;
+        }
+        queueOrder(unitIds, { type, position: { lat, lng } });
+        AudioService.playMoveCommand();
+    };
+
     // ============================================
     // RIGHT-CLICK MOVEMENT (Terrain-Aware + Formation-Preserving)
     // ============================================
-    const handleMapRightClick = (lat: number, lng: number) => {
-        if (gameState.gameMode === 'PLAYING' && selectedUnitIds.length > 0) {
+    const handleMapRightClick = (lat: number, lng: number, modifiers?: CommandModifiers) => {
+        if (attackMoveModeRef.current) {
+            // Right-click cancels attack-move targeting
+            setAttackMoveMode(false);
+        } else if (gameState.gameMode === 'PLAYING' && selectedUnitIds.length > 0 && modifiers?.shiftKey) {
+            handleQueuedMapOrder(lat, lng, modifiers);
+        } else if (gameState.gameMode === 'PLAYING' && selectedUnitIds.length > 0) {
             // Detect double-click for boosting
             const now = Date.now();
             const timeDiff = now - lastRightClickTime.current;
             lastRightClickTime.current = now;
             const isBoosting = timeDiff < 300; // Double right-click = boost
 
+            // Selected production structures take the click as their rally point
+            const selectedSites = gameState.units.filter(u =>
+                selectedUnitIds.includes(u.id) && u.factionId === gameState.localPlayerId && isProductionSite(u)
+            );
+            if (selectedSites.length > 0) {
+                const payload: SetRallyPointPayload = { factoryIds: selectedSites.map(u => u.id), lat, lng };
+                dispatchAction(createAction(gameState.localPlayerId, 'SET_RALLY_POINT', payload));
+                AudioService.playMoveCommand();
+            }
+
             // Get selected units for formation check
             const selectedUnits = gameState.units.filter(u =>
-                selectedUnitIds.includes(u.id) && u.factionId === gameState.localPlayerId
+                selectedUnitIds.includes(u.id) && u.factionId === gameState.localPlayerId && !isProductionSite(u)
             );
+            if (selectedUnits.length === 0) return;
 
             // Check if any unit has a formation offset - if so, apply formation
             const hasFormation = selectedUnits.some(u => u.formationOffset);
@@ -1063,8 +1330,7 @@ export const useGameLoop = () => {
                     isBoosting
                 };
                 const action = createAction(gameState.localPlayerId, 'MOVE_UNITS', payload);
-                setGameState(prev => applyAction(prev, action));
-                NetworkService.broadcastAction(action);
+                dispatchAction(action);
                 AudioService.playMoveCommand();
             }
 
@@ -1220,11 +1486,8 @@ export const useGameLoop = () => {
             mode: mode
         });
 
-        // Apply locally (optimistic)
-        setGameState(prev => applyAction(prev, action));
-
-        // Broadcast to network
-        NetworkService.broadcastAction(action);
+        // Apply locally (optimistic) and broadcast
+        dispatchAction(action);
 
         AudioService.playSuccess();
         console.log(`[GROUP] Set ${validUnitIds.length} units to ${mode} mode`);
@@ -1233,79 +1496,29 @@ export const useGameLoop = () => {
     const handleBuyUnit = (type: UnitClass) => {
         const structures = [UnitClass.AIRBASE, UnitClass.PORT, UnitClass.MILITARY_BASE, UnitClass.MISSILE_SILO];
         if (structures.includes(type)) {
+            if (type === UnitClass.MISSILE_SILO && !getGameSettings(gameState).nukesEnabled) {
+                AudioService.playError();
+                return;
+            }
             setGameState(prev => ({ ...prev, gameMode: 'PLACING_STRUCTURE', placementType: type }));
             AudioService.playUiClick();
             return;
         }
 
-        const airUnits = [UnitClass.FIGHTER_JET, UnitClass.HEAVY_BOMBER, UnitClass.HELICOPTER, UnitClass.RECON_DRONE, UnitClass.TROOP_TRANSPORT];
-        const seaUnits = [UnitClass.DESTROYER, UnitClass.FRIGATE, UnitClass.SUBMARINE, UnitClass.AIRCRAFT_CARRIER, UnitClass.BATTLESHIP, UnitClass.PATROL_BOAT, UnitClass.MINELAYER];
-        const landUnits = [UnitClass.INFANTRY, UnitClass.SPECIAL_FORCES, UnitClass.GROUND_TANK, UnitClass.MISSILE_LAUNCHER, UnitClass.SAM_LAUNCHER];
-
-        let spawnLat: number | null = null;
-        let spawnLng: number | null = null;
-        let validSites: { position: { lat: number, lng: number } }[] = [];
-
-        if (airUnits.includes(type)) {
-            validSites = gameState.units.filter(u => u.factionId === gameState.localPlayerId && u.unitClass === UnitClass.AIRBASE);
-        } else if (seaUnits.includes(type)) {
-            // Sea units spawn from ports - need to find valid water location
-            validSites = gameState.units.filter(u => u.factionId === gameState.localPlayerId && u.unitClass === UnitClass.PORT);
-        } else if (landUnits.includes(type)) {
-            validSites = [
-                ...gameState.pois.filter(p => p.ownerFactionId === gameState.localPlayerId && p.type === POIType.CITY),
-                ...gameState.units.filter(u => u.factionId === gameState.localPlayerId && (u.unitClass === UnitClass.COMMAND_CENTER || u.unitClass === UnitClass.MILITARY_BASE))
-            ];
-        } else if (type === UnitClass.MOBILE_COMMAND_CENTER) {
-            validSites = [
-                ...gameState.pois.filter(p => p.ownerFactionId === gameState.localPlayerId && p.type === POIType.CITY),
-                ...gameState.units.filter(u => u.factionId === gameState.localPlayerId && u.unitClass === UnitClass.COMMAND_CENTER)
-            ];
-        } else {
-            validSites = gameState.pois.filter(p => p.ownerFactionId === gameState.localPlayerId && p.type === POIType.CITY);
-        }
-
-        if (validSites.length > 0) {
-            const site = validSites[Math.floor(Math.random() * validSites.length)];
-            spawnLat = site.position.lat;
-            spawnLng = site.position.lng;
-
-            // For sea units, find valid water location near the port
-            if (seaUnits.includes(type)) {
-                const waterPoint = TerrainService.findNearestWater(spawnLat, spawnLng, gameState.pois);
-
-                // Try to find valid water spawn with some randomness
-                let validSpawn = false;
-                for (let attempt = 0; attempt < 5 && !validSpawn; attempt++) {
-                    const candidateLat = waterPoint.lat + (Math.random() - 0.5) * 0.02;
-                    const candidateLng = waterPoint.lng + (Math.random() - 0.5) * 0.02;
-
-                    if (!TerrainService.isPointLand(candidateLat, candidateLng)) {
-                        spawnLat = candidateLat;
-                        spawnLng = candidateLng;
-                        validSpawn = true;
-                        console.log(`[PLAYER] Naval spawn at (${candidateLat.toFixed(3)}, ${candidateLng.toFixed(3)}) - VALID WATER`);
-                    }
-                }
+        // Build at the selected structure if it can, otherwise the least busy one
+        const ownUnits = gameState.units.filter(u => u.factionId === gameState.localPlayerId);
+        const selectedSite = ownUnits.find(u => selectedUnitIds.includes(u.id) && canProduceAt(u, type) &&
+            (u.productionQueue?.length ?? 0) < PRODUCTION_CONFIG.MAX_QUEUE_LENGTH);
+        const site = selectedSite || findProductionSite(ownUnits, gameState.localPlayerId, type);
 
-                if (!validSpawn) {
-                    spawnLat = waterPoint.lat;
-                    spawnLng = waterPoint.lng;
-                    console.log(`[PLAYER] Naval spawn fallback to water point`);
-                }
-            }
-        }
-
-        if (spawnLat !== null && spawnLng !== null) {
-            const payload: SpawnUnitPayload = {
+        if (site) {
+            const payload: QueueProductionPayload = {
+                factoryId: site.id,
                 unitClass: type,
-                lat: seaUnits.includes(type) ? spawnLat : spawnLat + (Math.random() - 0.5) * 0.05,
-                lng: seaUnits.includes(type) ? spawnLng : spawnLng + (Math.random() - 0.5) * 0.05,
                 unitId: `UNIT-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
             };
-            const action = createAction(gameState.localPlayerId, 'SPAWN_UNIT', payload);
-            setGameState(prev => applyAction(prev, action));
-            NetworkService.broadcastAction(action);
+            const action = createAction(gameState.localPlayerId, 'QUEUE_PRODUCTION', payload);
+            dispatchAction(action);
             AudioService.playUnitSpawn();
         } else {
             AudioService.playAlert();
@@ -1313,29 +1526,71 @@ export const useGameLoop = () => {
     };
 
     const handleUnitAction = (actionType: string, unitId: string) => {
-        if (actionType.startsWith('DEPLOY')) {
-            const unit = gameState.units.find(u => u.id === unitId);
-            if (!unit) return;
-            let type = UnitClass.INFANTRY;
-            if (actionType === 'DEPLOY_TANK') type = UnitClass.GROUND_TANK;
-            if (actionType === 'DEPLOY_SPECOPS') type = UnitClass.SPECIAL_FORCES;
-
-            const payload: SpawnUnitPayload = {
-                unitClass: type,
-                lat: unit.position.lat + (Math.random() - 0.5) * 0.02,
-                lng: unit.position.lng + (Math.random() - 0.5) * 0.02,
-                unitId: `DEPLOYED-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-                factionId: gameState.localPlayerId
+        // CARGO: Board the selected (or nearest eligible) units onto a transport/carrier
+        if (actionType === 'LOAD_UNITS') {
+            const transport = gameState.units.find(u => u.id === unitId && u.factionId === gameState.localPlayerId);
+            if (!transport) return;
+            const freeSlots = getFreeCargoSlots(transport, gameState.units);
+            const eligible = gameState.units.filter(u => canCarry(transport, u) && !u.isLoaded && !u.boardingTransportId);
+            const selected = eligible.filter(u => selectedUnitIds.includes(u.id));
+            const distance = (u: GameUnit) => getDistanceKm(u.position.lat, u.position.lng, transport.position.lat, transport.position.lng);
+            const candidates = (selected.length > 0 ? selected : eligible)
+                .filter(u => distance(u) <= CARGO_CONFIG.MAX_BOARDING_DISTANCE_KM)
+                .sort((a, b) => distance(a) - distance(b))
+                .slice(0, Math.max(0, freeSlots));
+
+            if (candidates.length === 0) {
+                AudioService.playError();
+                return;
+            }
+            const payload: LoadUnitsPayload = { transportId: transport.id, unitIds: candidates.map(u => u.id) };
+            dispatchAction(createAction(gameState.localPlayerId, 'LOAD_UNITS', payload));
+            AudioService.playSuccess();
+        }
+        // PRODUCTION: unitId is the queued order's ID
+        else if (actionType === 'CANCEL_PRODUCTION') {
+            const site = gameState.units.find(u => u.factionId === gameState.localPlayerId && u.productionQueue?.some(o => o.unitId === unitId));
+            if (!site) return;
+            const payload: CancelProductionPayload = { factoryId: site.id, unitId };
+            dispatchAction(createAction(gameState.localPlayerId, 'CANCEL_PRODUCTION', payload));
+            AudioService.playUiClick();
+        }
+        else if (actionType === 'CLEAR_RALLY_POINT') {
+            const payload: SetRallyPointPayload = { factoryIds: [unitId], lat: null, lng: null };
+            dispatchAction(createAction(gameState.localPlayerId, 'SET_RALLY_POINT', payload));
+            AudioService.playUiClick();
+        }
+        else if (actionType === 'UNLOAD_UNITS') {
+            const payload: UnloadUnitsPayload = { transportId: unitId };
+            dispatchAction(createAction(gameState.localPlayerId, 'UNLOAD_UNITS', payload));
+        }
+        // AIRDROP / CARRIER SORTIE: Enter targeting mode
+        else if (actionType === 'AIRDROP' || actionType === 'LAUNCH_SORTIE') {
+            const transport = gameState.units.find(u => u.id === unitId);
+            if (transport && (transport.cargoUnits?.length ?? 0) > 0) {
+                setCargoTargeting({ mode: actionType, transportId: unitId });
+                console.log(`[CARGO] ${actionType} targeting mode activated. Click on map to select target.`);
+            } else {
+                AudioService.playError();
+            }
+        }
+        // NAVAL MINES: Lay at the minelayer's position / sweep around a destroyer
+        else if (actionType === 'LAY_MINE') {
+            const payload: LayMinePayload = {
+                layerId: unitId,
+                mineId: `MINE-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
             };
-            const action = createAction(gameState.localPlayerId, 'SPAWN_UNIT', payload);
-            setGameState(prev => applyAction(prev, action));
-            NetworkService.broadcastAction(action);
-            AudioService.playUnitSpawn();
+            dispatchAction(createAction(gameState.localPlayerId, 'LAY_MINE', payload));
+            AudioService.playSuccess();
+        }
+        else if (actionType === 'SWEEP_MINES') {
+            const payload: SweepMinesPayload = { unitId };
+            dispatchAction(createAction(gameState.localPlayerId, 'SWEEP_MINES', payload));
         }
         // NUCLEAR SILO: Enter targeting mode
         else if (actionType === 'LAUNCH_NUKE') {
             const silo = gameState.units.find(u => u.id === unitId && u.unitClass === UnitClass.MISSILE_SILO);
-            if (silo && (!silo.cooldown || silo.cooldown <= 0)) {
+            if (silo && getGameSettings(gameState).nukesEnabled && (!silo.cooldown || silo.cooldown <= 0)) {
                 const playerFaction = gameState.factions.find(f => f.id === gameState.localPlayerId);
                 const canAfford = (playerFaction?.gold ?? 0) >= NUKE_CONFIG.LAUNCH_COST.gold &&
                     (playerFaction?.oil ?? 0) >= NUKE_CONFIG.LAUNCH_COST.oil;
@@ -1353,8 +1608,23 @@ export const useGameLoop = () => {
         }
     };
 
-    const handleTargetCommand = (targetId: string, isPoi: boolean) => {
-        if (gameState.gameMode === 'PLAYING' && selectedUnitIds.length > 0) {
+    const handleTargetCommand = (targetId: string, isPoi: boolean, queued: boolean = false) => {
+        if (gameState.gameMode === 'PLAYING' && selectedUnitIds.length > 0 && queued) {
+            // Queued: board our own transport, attack anything else
+            const ownTransport = isPoi ? undefined : gameState.units.find(u =>
+                u.id === targetId && u.factionId === gameState.localPlayerId && getCargoCapacity(u.unitClass) > 0
+            );
+            const unitIds = ownTransport
+                ? gameState.units.filter(u => selectedUnitIds.includes(u.id) && canCarry(ownTransport, u)).map(u => u.id)
+                : selectedUnitIds;
+            if (unitIds.length === 0) {
+                AudioService.playError();
+                return;
+            }
+            queueOrder(unitIds, { type: ownTransport ? 'LOAD' : 'ATTACK', targetId });
+            if (ownTransport) AudioService.playMoveCommand();
+            else AudioService.playAttackCommand();
+        } else if (gameState.gameMode === 'PLAYING' && selectedUnitIds.length > 0) {
             // Get selected units for formation check
             const selectedUnits = gameState.units.filter(u =>
                 selectedUnitIds.includes(u.id) && u.factionId === gameState.localPlayerId
@@ -1401,7 +1671,8 @@ export const useGameLoop = () => {
                         return {
                             ...u,
                             destination: { lat: destLat, lng: destLng },
-                            targetId: targetId
+                            targetId: targetId,
+                            orderedTargetId: targetId
                         };
                     })
                 }));
@@ -1423,14 +1694,67 @@ export const useGameLoop = () => {
                     isPoi
                 };
                 const action = createAction(gameState.localPlayerId, 'ATTACK_TARGET', payload);
-                setGameState(prev => applyAction(prev, action));
-                NetworkService.broadcastAction(action);
+                dispatchAction(action);
                 AudioService.playAttackCommand();
             }
         }
     };
 
-    const handleAllianceRequest = (targetFactionId: string) => { };
+    const handleProposeTreaty = (targetFactionId: string, treatyType: TreatyType, tribute?: TributeTerms) => {
+        const payload: ProposeTreatyPayload = {
+            proposalId: `TREATY-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+            toFactionId: targetFactionId,
+            treatyType,
+            durationTicks: TREATY_CONFIG.DEFAULT_DURATION_TICKS[treatyType],
+            tribute: treatyType === 'TRIBUTE' ? tribute : undefined
+        };
+        dispatchAction(createAction(gameState.localPlayerId, 'PROPOSE_TREATY', payload));
+        AudioService.playUiClick();
+    };
+
+    // ============================================
+    // STANCES & ATTACK-MOVE HOTKEYS
+    // ============================================
+    const getOwnSelectedIds = () => selectedUnitIds.filter(id => {
+        const u = gameState.units.find(unit => unit.id === id);
+        return u && u.factionId === gameState.localPlayerId && !isProductionSite(u);
+    });
+
+    const handleSetStance = (stance: UnitStance) => {
+        const unitIds = getOwnSelectedIds();
+        if (unitIds.length === 0) return;
+        const payload: SetStancePayload = { unitIds, stance };
+        dispatchAction(createAction(gameState.localPlayerId, 'SET_STANCE', payload));
+        AudioService.playUiClick();
+    };
+
+    // Hotkeys toggle a stance on, or back to AGGRESSIVE when the selection already has it
+    const handleToggleStance = (stance: UnitStance) => {
+        const first = gameState.units.find(u => u.id === getOwnSelectedIds()[0]);
+        if (!first) return;
+        handleSetStance(first.stance === stance ? 'AGGRESSIVE' : stance);
+    };
+
+    const handleStartAttackMove = () => {
+        if (getOwnSelectedIds().length === 0) return;
+        setAttackMoveMode(true);
+        AudioService.playUiClick();
+    };
+
+    // Send gold/oil to an ally (validated against teams/alliances by the host)
+    const handleTransferResources = (toFactionId: string, gold: number, oil: number) => {
+        const payload: TransferResourcesPayload = { toFactionId, gold, oil };
+        dispatchAction(createAction(gameState.localPlayerId, 'TRANSFER_RESOURCES', payload));
+        AudioService.playUiClick();
+    };
+
+    // Accept/reject an incoming proposal, or withdraw our own (reject)
+    const handleRespondTreaty = (proposalId: string, accept: boolean) => {
+        const payload: RespondTreatyPayload = { proposalId };
+        dispatchAction(createAction(gameState.localPlayerId, accept ? 'ACCEPT_TREATY' : 'REJECT_TREATY', payload));
+        if (accept) AudioService.playSuccess(); else AudioService.playUiClick();
+    };
+
     const setDifficulty = (diff: Difficulty) => { };
 
     return {
@@ -1442,7 +1766,9 @@ export const useGameLoop = () => {
         setSelectedUnitIds,
         handleUnitAction,
         handleBuyUnit,
-        handleAllianceRequest,
+        handleProposeTreaty,
+        handleRespondTreaty,
+        handleTransferResources,
         handlePoiClick,
         handleMapClick,
         handleMapRightClick,
@@ -1453,9 +1779,18 @@ export const useGameLoop = () => {
         handleRemoveFromGroup,
         handleGroupOrder,
         setDifficulty,
+        dispatchAction,
         startGame,
+        loadGame,
         joinBattleRoyale,
         nukeLaunchMode,
-        setNukeLaunchMode
+        setNukeLaunchMode,
+        cargoTargeting,
+        setCargoTargeting,
+        attackMoveMode,
+        setAttackMoveMode,
+        handleStartAttackMove,
+        handleSetStance,
+        handleToggleStance
     };
 };
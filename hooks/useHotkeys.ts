@@ -1,5 +1,5 @@
 import { useEffect, useCallback } from 'react';
-import { UnitClass } from '../types';
+import { UnitClass, UnitStance } from '../types';
 
 interface HotkeyConfig {
     onBuyUnit: (type: UnitClass) => void;
@@ -7,6 +7,8 @@ interface HotkeyConfig {
     onDeselectAll: () => void;
     onToggleAutoTarget?: () => void;
     onCycleAutoMode?: () => void;
+    onAttackMove?: () => void;
+    onToggleStance?: (stance: UnitStance) => void;
     // Control group callbacks
     onAssignGroup?: (groupNum: number) => void;
     onRecallGroup?: (groupNum: number) => void;
@@ -20,6 +22,7 @@ interface HotkeyConfig {
 // A = Destroyer, S = Frigate, D = Submarine
 // Z = Missile Launcher, X = SAM
 // G = Toggle Auto-Target, F = Cycle Auto-Mode (NONE -> DEFEND -> ATTACK -> PATROL)
+// V = Attack-Move (then click on map), H = Toggle Hold Position, C = Toggle Return Fire
 // 1-9 = Recall Control Group
 // Ctrl+1-9 = Assign Control Group
 // Shift+1-9 = Add to Control Group
@@ -41,7 +44,7 @@ const PRODUCTION_HOTKEYS: Record<string, UnitClass> = {
 
 export const useHotkeys = ({
     onBuyUnit, onSelectAll, onDeselectAll,
-    onToggleAutoTarget, onCycleAutoMode,
+    onToggleAutoTarget, onCycleAutoMode, onAttackMove, onToggleStance,
     onAssignGroup, onRecallGroup, onAddToGroup, onRemoveFromGroup,
     enabled
 }: HotkeyConfig) => {
@@ -104,6 +107,20 @@ export const useHotkeys = ({
             return;
         }
 
+        // Attack-Move (V)
+        if (key === 'v' && !e.ctrlKey && onAttackMove) {
+            e.preventDefault();
+            onAttackMove();
+            return;
+        }
+
+        // Stances (H / C)
+        if ((key === 'h' || key === 'c') && !e.ctrlKey && onToggleStance) {
+            e.preventDefault();
+            onToggleStance(key === 'h' ? 'HOLD_POSITION' : 'RETURN_FIRE');
+            return;
+        }
+
         // Select All (Ctrl+A)
         if (e.ctrlKey && key === 'a') {
             e.preventDefault();
@@ -117,7 +134,7 @@ export const useHotkeys = ({
             onDeselectAll();
             return;
         }
-    }, [enabled, onBuyUnit, onSelectAll, onDeselectAll, onToggleAutoTarget, onCycleAutoMode,
+    }, [enabled, onBuyUnit, onSelectAll, onDeselectAll, onToggleAutoTarget, onCycleAutoMode, onAttackMove, onToggleStance,
         onAssignGroup, onRecallGroup, onAddToGroup, onRemoveFromGroup]);
 
     useEffect(() => {
@@ -159,3 +176,10 @@ export const AUTO_MODE_LABELS = {
     ATTACK: '⚔️',
     PATROL: '🔄'
 };
+
+// Stance Labels
+export const STANCE_LABELS: Record<UnitStance, string> = {
+    AGGRESSIVE: '⚔️ AGGRESSIVE',
+    HOLD_POSITION: '✋ HOLD (H)',
+    RETURN_FIRE: '🎯 RETURN FIRE (C)'
+};
@@ -0,0 +1,145 @@
+// ============================================
+// TERRAIN MASK BUILDER
+// public/world.geojson -> public/terrain.bin
+// ============================================
+// Scanline-fills every land polygon onto the fixed whole-globe grid described
+// in services/terrainMask.ts, then flags coast cells. Re-run whenever
+// world.geojson changes:
+//   npm run terrain:build [-- --input public/world.geojson --output public/terrain.bin --width 4096]
+
+import fs from 'node:fs';
+import { TerrainMask, TERRAIN_CELL_LAND, TERRAIN_CELL_COAST } from '../services/terrainMask';
+import { cleanWorldGeoJson } from '../services/terrainService';
+
+interface BuildOptions {
+    input: string;
+    output: string;
+    width: number;
+}
+
+const parseArgs = (argv: string[]): BuildOptions => {
+    const options: BuildOptions = {
+        input: 'public/world.geojson',
+        output: 'public/terrain.bin',
+        width: 4096
+    };
+    for (let i = 0; i < argv.length; i++) {
+        const value = argv[i + 1];
+        switch (argv[i]) {
+            case '--input': options.input = value; i++; break;
+            case '--output': options.output = value; i++; break;
+            case '--width': options.width = Number(value); i++; break;
+            default:
+                console.warn('[TERRAIN MASK] Ignoring unknown option:', argv[i]);
+        }
+    }
+    return options;
+};
+
+type Ring = [number, number][];
+
+/** Every polygon in the collection as a list of rings (outer + holes). */
+const collectPolygons = (geojson: any): Ring[][] => {
+    const polygons: Ring[][] = [];
+    for (const feature of geojson.features || []) {
+        const geometry = feature.geometry;
+        if (!geometry) continue;
+        if (geometry.type === 'Polygon') polygons.push(geometry.coordinates);
+        if (geometry.type === 'MultiPolygon') polygons.push(...geometry.coordinates);
+    }
+    return polygons;
+};
+
+/**
+ * Mark land cells (cell centre inside a polygon, even-odd rule so holes stay water).
+ * Returns one byte per cell.
+ */
+const rasterizeLand = (polygons: Ring[][], width: number, height: number): Uint8Array => {
+    const land = new Uint8Array(width * height);
+    const cellDeg = 360 / width;
+
+    for (const rings of polygons) {
+        let minLat = Infinity;
+        let maxLat = -Infinity;
+        rings.forEach(ring => ring.forEach(([, lat]) => {
+            if (lat < minLat) minLat = lat;
+            if (lat > maxLat) maxLat = lat;
+        }));
+
+        const firstRow = Math.max(0, Math.floor((90 - maxLat) / cellDeg));
+        const lastRow = Math.min(height - 1, Math.ceil((90 - minLat) / cellDeg));
+
+        for (let y = firstRow; y <= lastRow; y++) {
+            const lat = 90 - (y + 0.5) * cellDeg;
+            const crossings: number[] = [];
+
+            for (const ring of rings) {
+                for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+                    const [lngA, latA] = ring[i];
+                    const [lngB, latB] = ring[j];
+                    if ((latA > lat) !== (latB > lat)) {
+                        crossings.push(lngA + ((lat - latA) / (latB - latA)) * (lngB - lngA));
+                    }
+                }
+            }
+            crossings.sort((a, b) => a - b);
+
+            for (let k = 0; k + 1 < crossings.length; k += 2) {
+                const startX = Math.max(0, Math.ceil((crossings[k] + 180) / cellDeg - 0.5));
+                const endX = Math.min(width - 1, Math.floor((crossings[k + 1] + 180) / cellDeg - 0.5));
+                for (let x = startX; x <= endX; x++) land[y * width + x] = 1;
+            }
+        }
+    }
+    return land;
+};
+
+/**
+ * Combine land bits with coast detection: a cell is coast when any of its
+ * 8 neighbours is the other medium (longitude wraps, poles clamp).
+ */
+const classify = (land: Uint8Array, width: number, height: number): TerrainMask => {
+    const mask = new TerrainMask(width, height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const self = land[y * width + x];
+            let coast = false;
+            for (let dy = -1; dy <= 1 && !coast; dy++) {
+                const ny = Math.max(0, Math.min(height - 1, y + dy));
+                for (let dx = -1; dx <= 1; dx++) {
+                    const nx = (x + dx + width) % width;
+                    if (land[ny * width + nx] !== self) {
+                        coast = true;
+                        break;
+                    }
+                }
+            }
+            const value = (self ? TERRAIN_CELL_LAND : 0) | (coast ? TERRAIN_CELL_COAST : 0);
+            if (value) mask.setIndex(y * width + x, value);
+        }
+    }
+    return mask;
+};
+
+const main = () => {
+    const options = parseArgs(process.argv.slice(2));
+    const width = options.width;
+    const height = width / 2;
+    if (!Number.isInteger(height) || width > 65535) {
+        throw new Error(`Width must be an even number up to 65535 (got ${width})`);
+    }
+
+    const geojson = cleanWorldGeoJson(JSON.parse(fs.readFileSync(options.input, 'utf8')));
+    const polygons = collectPolygons(geojson);
+
+    const land = rasterizeLand(polygons, width, height);
+    const mask = classify(land, width, height);
+    const bytes = mask.encode();
+    fs.writeFileSync(options.output, bytes);
+
+    const landCells = land.reduce((sum, cell) => sum + cell, 0);
+    console.log(`[TERRAIN MASK] ${polygons.length} polygons -> ${width}x${height} grid, ` +
+        `${(100 * landCells / land.length).toFixed(1)}% land, ${(bytes.byteLength / 1024).toFixed(0)}KB written to ${options.output}`);
+};
+
+main();
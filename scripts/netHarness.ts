@@ -0,0 +1,216 @@
+// ============================================
+// MULTI-PEER NETWORK HARNESS
+// Real NetworkService instances over the loopback and relay transports
+// ============================================
+// Runs one NetworkServiceImpl per player and checks:
+//   1. lobby: clients connect, the host sees them, LOBBY_UPDATE reaches all
+//   2. START_GAME: payload arrives intact on every client
+//   3. actions: client -> host (tagged with the sender), host -> clients,
+//      duplicates dropped; requests / responses
+//   4. host migration: the client holding the freshest state becomes host of
+//      epoch 1, the others follow; the old host coming back as a zombie is
+//      ignored and steps down
+//   5. 1-3 again through server/relayServer.ts (skipped without a global
+//      WebSocket - Node 22+, or Node 20 with --experimental-websocket)
+// Every connection negotiates the binary wire format, so ACTION, FULL_STATE
+// and HEARTBEAT go through services/wireCodec.ts.
+// Uses the real heartbeat / election timers, so it takes ~15s.
+//   npm run net:harness
+
+import type { AddressInfo } from 'node:net';
+import { GameState, LobbyState } from '../types';
+import { GameAction } from '../services/schemas';
+import { NetworkEvent, NetworkServiceImpl } from '../services/networkService';
+import { LoopbackNetwork } from '../services/loopbackTransport';
+import { TransportFactory } from '../services/transport';
+import { createWebSocketTransport } from '../services/webSocketTransport';
+import { startRelayServer } from '../server/relayServer';
+
+interface Player {
+    id: string;
+    service: NetworkServiceImpl;
+    events: NetworkEvent[];
+    versionsSeen: number[];
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const stateAt = (stateVersion: number) => ({ stateVersion, hostTick: stateVersion * 15 } as GameState);
+
+const createPlayer = (createTransport: TransportFactory, id: string): Promise<Player> => {
+    const service = new NetworkServiceImpl();
+    service.configure({ createTransport: () => createTransport(id) });
+    const player: Player = { id, service, events: [], versionsSeen: [] };
+    // What useGameLoop does with host state on a client
+    service.subscribe(event => {
+        player.events.push(event);
+        if (event.type === 'FULL_STATE') {
+            player.versionsSeen.push(event.gameState.stateVersion);
+            service.updateLastKnownState(event.gameState);
+        }
+    });
+    return new Promise(resolve => service.initialize(() => resolve(player)));
+};
+
+const eventsOf = <T extends NetworkEvent['type']>(player: Player, type: T) =>
+    player.events.filter((e): e is Extract<NetworkEvent, { type: T }> => e.type === type);
+
+let failures = 0;
+const check = (label: string, ok: boolean, detail = '') => {
+    if (!ok) failures++;
+    console.log(`${ok ? 'PASS' : 'FAIL'} ${label}${detail ? ` (${detail})` : ''}`);
+};
+
+const describe = (players: Player[]) =>
+    players.map(p => `${p.id}:${p.service.isHost ? 'host' : 'client'}@${p.service.hostEpoch}`).join(' ');
+
+const action = (playerId: string, n: number): GameAction => ({
+    playerId,
+    actionType: 'MOVE_UNITS',
+    payload: { unitIds: [`U-${n}`], target: { lat: n, lng: n } },
+    timestamp: Date.now(),
+    actionId: `${playerId}-${n}`,
+    seq: n
+});
+
+// ============================================
+// 1-3. LOBBY, START_GAME, ACTIONS
+// ============================================
+
+/** Host + clients joined and in a started match. */
+const runMatch = async (transport: string, host: Player, clients: Player[]) => {
+    const tag = `[${transport}]`;
+
+    // --- 1. Lobby ---
+    host.service.isHost = true;
+    for (const client of clients) {
+        check(`${tag} ${client.id} connects to host`, await client.service.connect(host.id));
+    }
+    await sleep(100);
+    const connected = eventsOf(host, 'CONNECT').map(e => e.peerId).sort();
+    check(`${tag} host saw every client connect`, connected.join() === clients.map(c => c.id).sort().join(), connected.join());
+
+    const lobby = { players: clients.map(c => ({ id: c.id })), scenarioId: 'EUROPE' } as unknown as LobbyState;
+    host.service.sendLobbyUpdate(lobby);
+    await sleep(100);
+    check(`${tag} LOBBY_UPDATE reached every client`,
+        clients.every(c => eventsOf(c, 'LOBBY_UPDATE').some(e => e.state.scenarioId === 'EUROPE' && e.state.players.length === clients.length)));
+
+    // --- 2. START_GAME ---
+    const factions = [{ id: host.id }, ...clients.map(c => ({ id: c.id }))];
+    const pois = [{ id: 'POI-1', ownerFactionId: host.id }];
+    host.service.startGame('EUROPE', factions, pois, 1234);
+    await sleep(100);
+    check(`${tag} START_GAME reached every client intact`, clients.every(c => {
+        const start = eventsOf(c, 'START_GAME')[0];
+        return start?.scenarioId === 'EUROPE' && start.rngSeed === 1234
+            && start.factions.length === factions.length && start.pois[0]?.id === 'POI-1';
+    }));
+
+    // --- 3. Actions, requests, responses ---
+    const [sender, ...others] = clients;
+    sender.service.broadcastAction(action(sender.id, 1));
+    await sleep(100);
+    const received = eventsOf(host, 'ACTION');
+    check(`${tag} client action reached the host, tagged with its sender`,
+        received.length === 1 && received[0].action.actionId === `${sender.id}-1` && received[0].fromPeerId === sender.id);
+    check(`${tag} action kept its prediction seq`, received[0]?.action.seq === 1);
+
+    // The host relays it on (as useGameLoop does) - twice, the copy must be dropped
+    host.service.broadcastAction(received[0].action);
+    host.service.broadcastAction(received[0].action);
+    host.service.broadcastAction(action(host.id, 2));
+    await sleep(100);
+    check(`${tag} relayed client action reached the other clients exactly once`,
+        others.every(c => eventsOf(c, 'ACTION').filter(e => e.action.actionId === `${sender.id}-1`).length === 1));
+    check(`${tag} host action reached every client`,
+        clients.every(c => eventsOf(c, 'ACTION').some(e => e.action.actionId === `${host.id}-2` && e.fromPeerId === host.id)));
+
+    sender.service.sendRequest({ type: 'REQUEST_READY', playerId: sender.id, isReady: true });
+    await sleep(100);
+    const request = eventsOf(host, 'REQUEST')[0];
+    check(`${tag} request reached the host`, request?.request.type === 'REQUEST_READY' && request.fromPeerId === sender.id);
+
+    host.service.sendResponse(sender.id, { type: 'BASE_SELECTED', poiId: 'POI-1', factionId: sender.id });
+    await sleep(100);
+    check(`${tag} response reached only its addressee`,
+        eventsOf(sender, 'RESPONSE').some(e => e.response.type === 'BASE_SELECTED')
+        && others.every(c => !eventsOf(c, 'RESPONSE').some(e => e.response.type === 'BASE_SELECTED')));
+};
+
+// ============================================
+// 4. HOST MIGRATION
+// ============================================
+
+const runMigration = async (net: LoopbackNetwork, [a, b, c, d]: Player[]) => {
+    // Everybody gets versions 1..5; only C gets 6 before the host dies
+    for (let version = 1; version <= 5; version++) a.service.broadcastFullState(stateAt(version));
+    a.service.sendFullState('C', stateAt(6));
+    await sleep(100);
+
+    // --- Host loss ---
+    net.crash('A');
+    console.log('[HARNESS] Host A crashed, waiting for the election...');
+    await sleep(9000);
+
+    const survivors = [b, c, d];
+    console.log('[HARNESS]', describe(survivors));
+    check('freshest client (C) is the new host', c.service.isHost);
+    check('exactly one surviving host', survivors.filter(p => p.service.isHost).length === 1);
+    check('everyone moved to epoch 1', survivors.every(p => p.service.hostEpoch === 1));
+    check('B and D follow C', [b, d].every(p => p.service.hostConn?.peer === 'C'));
+    check('new host resumed from version 6', c.service.stateVersion === 6, `at ${c.service.stateVersion}`);
+
+    // --- Zombie host ---
+    net.revive('A');
+    console.log('[HARNESS] Old host A is back, still believing it hosts epoch 0');
+    a.service.broadcastFullState(stateAt(99));
+    await sleep(2500);
+
+    const everyone = [a, b, c, d];
+    console.log('[HARNESS]', describe(everyone));
+    check('stale-epoch state from A dropped', survivors.every(p => !p.versionsSeen.includes(99)));
+    check('A stepped down', !a.service.isHost);
+    check('still exactly one host', everyone.filter(p => p.service.isHost).length === 1);
+    check('A follows C at epoch 1', a.service.hostConn?.peer === 'C' && a.service.hostEpoch === 1);
+};
+
+// ============================================
+// 5. WEBSOCKET RELAY
+// ============================================
+
+const runRelay = async () => {
+    if (typeof WebSocket === 'undefined') {
+        console.log('SKIP [relay] no global WebSocket in this Node version');
+        return;
+    }
+    const server = await startRelayServer(0);
+    const url = `ws://localhost:${(server.address() as AddressInfo).port}`;
+    const players = await Promise.all(['H', 'X', 'Y'].map(id => createPlayer(peerId => createWebSocketTransport(url, peerId), id)));
+
+    await runMatch('relay', players[0], players.slice(1));
+
+    // Losing the host's socket closes its links on every client
+    players[0].service.disconnect();
+    await sleep(200);
+    check('[relay] clients notice the host leaving', players.slice(1).every(p => !p.service.hostConn?.open));
+
+    players.forEach(p => p.service.disconnect());
+    server.close();
+};
+
+const main = async () => {
+    const net = new LoopbackNetwork({ latencyMs: 5 });
+    const players = await Promise.all(['A', 'B', 'C', 'D'].map(id => createPlayer(net.createTransport, id)));
+
+    await runMatch('loopback', players[0], players.slice(1));
+    await runMigration(net, players);
+    players.forEach(p => p.service.disconnect());
+
+    await runRelay();
+
+    console.log(failures === 0 ? '[HARNESS] All checks passed' : `[HARNESS] ${failures} check(s) failed`);
+    process.exit(failures === 0 ? 0 : 1);
+};
+
+main();
@@ -0,0 +1,255 @@
+// ============================================
+// WIRE CODEC CHECK
+// Round trips and bandwidth of the binary wire format vs JSON
+// ============================================
+// Builds seeded mid-game states (world cities, a few hundred units with
+// orders, paths, production queues, projectiles in flight) and checks that
+// every ACTION / FULL_STATE / HEARTBEAT survives encode -> decode - exactly,
+// apart from the documented lat/lng and heading quantization - then prints
+// what each message costs as JSON and as a binary frame.
+//   npm run net:codec
+
+import { GameState, GameUnit, Projectile, UnitClass, WeaponType, Difficulty, Faction } from '../types';
+import { SCENARIOS, FACTION_PRESETS } from '../constants';
+import { NetworkMessage, createAction } from '../services/schemas';
+import { spawnUnit } from '../services/gameLogic';
+import { getMockCities } from '../services/mockDataService';
+import { SimRandom } from '../services/deterministic';
+import { encodeWireMessage, decodeWireMessage, negotiateWireVersion, WIRE_VERSION } from '../services/wireCodec';
+
+const COORD_TOLERANCE = 0.5e-7 + 1e-12;
+const HEADING_TOLERANCE = 360 / 65536 / 2 + 1e-9;
+
+let failures = 0;
+const check = (label: string, ok: boolean, detail = '') => {
+    if (!ok) failures++;
+    console.log(`${ok ? 'PASS' : 'FAIL'} ${label}${detail ? ` (${detail})` : ''}`);
+};
+
+// ============================================
+// TEST STATES
+// ============================================
+
+const MOBILE_CLASSES = [
+    UnitClass.INFANTRY, UnitClass.GROUND_TANK, UnitClass.MISSILE_LAUNCHER, UnitClass.SAM_LAUNCHER,
+    UnitClass.FIGHTER_JET, UnitClass.HEAVY_BOMBER, UnitClass.HELICOPTER, UnitClass.DESTROYER, UnitClass.SUBMARINE
+];
+
+const buildState = (unitCount: number): GameState => {
+    SimRandom.seed(unitCount);
+    const pois = getMockCities();
+    const factions: Faction[] = FACTION_PRESETS.slice(0, 6).map((preset, i) => ({
+        id: i === 0 ? 'PLAYER' : `AI_${i}`,
+        name: preset.name,
+        color: preset.color,
+        type: i === 0 ? 'PLAYER' : 'AI',
+        gold: 5000 + i * 731,
+        oil: 2000 + i * 157,
+        relations: { PLAYER: -50 }
+    }));
+    // Unowned cities keep ownerFactionId undefined, like a fresh scenario
+    pois.forEach((poi, i) => {
+        poi.ownerFactionId = i % 5 === 0 ? undefined : i % 3 === 0 ? 'NEUTRAL' : factions[i % factions.length].id;
+    });
+
+    const units: GameUnit[] = [];
+    for (let i = 0; i < unitCount; i++) {
+        const home = pois[SimRandom.int(pois.length)];
+        const factionId = factions[i % factions.length].id;
+        const isStructure = i % 15 === 0;
+        const unitClass = isStructure ? UnitClass.MILITARY_BASE : MOBILE_CLASSES[SimRandom.int(MOBILE_CLASSES.length)];
+        const unit = spawnUnit(unitClass, home.position.lat + SimRandom.jitter(2), home.position.lng + SimRandom.jitter(2), factionId);
+        unit.heading = SimRandom.range(0, 360);
+        unit.hp = Math.round(unit.maxHp * SimRandom.range(0.2, 1) * 10) / 10;
+        unit.veterancy = SimRandom.int(4);
+        unit.autoMode = 'DEFEND';
+        unit.homePosition = { ...home.position };
+        if (isStructure) {
+            unit.productionQueue = [{ unitId: `SPAWN-${SimRandom.id(6)}`, unitClass: UnitClass.GROUND_TANK, buildTicks: 40, startedTick: 900, cost: { gold: 450, oil: 120 } }];
+            unit.rallyPoint = { lat: home.position.lat + 0.3, lng: home.position.lng - 0.3 };
+        } else if (i % 3 === 0) {
+            const goal = { lat: unit.position.lat + SimRandom.jitter(6), lng: unit.position.lng + SimRandom.jitter(6) };
+            unit.destination = goal;
+            unit.path = { goal, waypoints: [{ lat: (unit.position.lat + goal.lat) / 2, lng: unit.position.lng }, goal] };
+        }
+        units.push(unit);
+    }
+    units.forEach((unit, i) => {
+        if (i % 4 === 1) unit.targetId = units[(i + 7) % units.length].id;
+    });
+
+    const projectiles: Projectile[] = units.filter(u => u.targetId).slice(0, 60).map((u, i) => ({
+        id: `PROJ-${SimRandom.id(6)}`,
+        fromId: u.id,
+        toId: i % 7 === 3 ? undefined : u.targetId!, // Area fire has no target
+        fromPos: { ...u.position },
+        toPos: { lat: u.position.lat + 0.1, lng: u.position.lng + 0.1 },
+        timestamp: 1_700_000_000_000 + i * 50,
+        isHit: i % 2 === 0,
+        weaponType: i % 5 === 0 ? WeaponType.MISSILE : WeaponType.TRACER,
+        speed: i % 5 === 0 ? 0.05 : 1,
+        progress: SimRandom.next()
+    }));
+
+    return {
+        factions,
+        units,
+        pois,
+        projectiles,
+        explosions: [{ id: 'EXP-1', position: { lat: 10.5, lng: 20.25 }, timestamp: 1_700_000_000_000, size: 'MEDIUM' }],
+        playerResources: { gold: 5000, oil: 2000, intel: 0 },
+        controlGroups: { 1: units.slice(0, 5).map(u => u.id) },
+        territoryControlled: 0.125,
+        gameTick: 1200,
+        gameMode: 'PLAYING',
+        messages: Array.from({ length: 20 }, (_, i) => ({ id: `MSG-${i}`, text: `Unit lost near ${pois[i].name}`, type: 'combat' as const, timestamp: i * 1000 })),
+        difficulty: Difficulty.MEDIUM,
+        scenario: SCENARIOS.WORLD,
+        localPlayerId: 'PLAYER',
+        stateVersion: 4242,
+        hostTick: 1200,
+        rngSeed: 987654321,
+        nukesInFlight: [],
+        mines: [],
+        gameStats: { unitsKilled: 12, unitsLost: 7, citiesCaptured: 3, goldEarned: 15000, startTime: 1_700_000_000_000 }
+    };
+};
+
+// ============================================
+// COMPARISON
+// ============================================
+
+// What the JSON path delivers - the reference for the round trip
+const viaJson = (value: any) => JSON.parse(JSON.stringify(value));
+
+/** First difference between `expected` and `actual`, or null. */
+const diff = (expected: any, actual: any, path: string): string | null => {
+    const key = path.slice(path.lastIndexOf('.') + 1);
+    if (typeof expected === 'number' && typeof actual === 'number') {
+        if (key === 'lat' || key === 'lng') {
+            return Math.abs(expected - actual) <= COORD_TOLERANCE ? null : `${path}: ${expected} vs ${actual}`;
+        }
+        if (key === 'heading') {
+            const delta = Math.abs((((expected - actual) % 360) + 540) % 360 - 180);
+            return delta <= HEADING_TOLERANCE ? null : `${path}: ${expected} vs ${actual}`;
+        }
+        return expected === actual ? null : `${path}: ${expected} vs ${actual}`;
+    }
+    if (expected === null || actual === null || typeof expected !== 'object' || typeof actual !== 'object') {
+        return expected === actual ? null : `${path}: ${JSON.stringify(expected)} vs ${JSON.stringify(actual)}`;
+    }
+    if (Array.isArray(expected) !== Array.isArray(actual)) return `${path}: array vs object`;
+
+    const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+    for (const k of keys) {
+        if (!(k in expected) || !(k in actual)) return `${path}.${k}: missing on one side`;
+        const found = diff(expected[k], actual[k], `${path}.${k}`);
+        if (found) return found;
+    }
+    return null;
+};
+
+const roundTrip = (label: string, msg: NetworkMessage) => {
+    const decoded = decodeWireMessage(encodeWireMessage(msg));
+    const mismatch = diff(viaJson({ epoch: 0, ...msg }), decoded, msg.type);
+    check(`${label} round trip`, !mismatch, mismatch || '');
+};
+
+// ============================================
+// BANDWIDTH
+// ============================================
+
+const jsonBytes = (msg: NetworkMessage) => new TextEncoder().encode(JSON.stringify(msg)).length;
+
+const rows: string[][] = [];
+const measure = (label: string, msg: NetworkMessage) => {
+    const json = jsonBytes(msg);
+    const start = performance.now();
+    const binary = encodeWireMessage(msg);
+    const encodeMs = performance.now() - start;
+    rows.push([label, `${json}`, `${binary.length}`, `${((binary.length / json) * 100).toFixed(1)}%`, encodeMs.toFixed(2)]);
+};
+
+const printTable = () => {
+    const header = ['message', 'JSON B', 'binary B', 'binary/JSON', 'encode ms'];
+    const widths = header.map((h, i) => Math.max(h.length, ...rows.map(r => r[i].length)));
+    const line = (cells: string[]) => cells.map((c, i) => (i === 0 ? c.padEnd(widths[i]) : c.padStart(widths[i]))).join('  ');
+    console.log('\n' + line(header));
+    rows.forEach(r => console.log(line(r)));
+};
+
+const main = () => {
+    // --- Round trips ---
+    const state = buildState(400);
+    const fullState: NetworkMessage = { type: 'FULL_STATE', gameState: state, timestamp: 1_700_000_123_456, epoch: 2 };
+    roundTrip('FULL_STATE (400 units)', fullState);
+    roundTrip('FULL_STATE (empty lists)', { type: 'FULL_STATE', gameState: { ...state, units: [], pois: [], projectiles: [] }, timestamp: 0 });
+    roundTrip('HEARTBEAT', { type: 'HEARTBEAT', timestamp: 1_700_000_123_456, epoch: 1 });
+
+    const unitIds = state.units.slice(0, 12).map(u => u.id);
+    const actions = [
+        createAction('PLAYER', 'MOVE_UNITS', { unitIds, target: { lat: 48.8566, lng: 2.3522 }, modifiers: { shiftKey: false } }),
+        createAction('PLAYER', 'QUEUE_PRODUCTION', { factoryId: state.units[0].id, unitClass: UnitClass.FIGHTER_JET, unitId: 'SPAWN-abc123' }),
+        createAction('AI_1', 'PROPOSE_TREATY', { toFactionId: 'PLAYER', type: 'TRIBUTE', durationTicks: 600, tribute: { payerId: 'AI_1', gold: 12.5, oil: -3 } }),
+        createAction('PLAYER', 'SET_STANCE', { unitIds: [], stance: 'HOLD_POSITION', note: 'ünïcödé ✓', nothing: null })
+    ];
+    actions.forEach(action => roundTrip(`ACTION ${action.actionType}`, { type: 'ACTION', action, epoch: 0 }));
+
+    // Values the enum tables do not know yet still survive
+    const future = buildState(10);
+    future.units[0].unitClass = 'ORBITAL_LASER' as UnitClass;
+    future.projectiles = [{ ...state.projectiles[0], weaponType: 'RAILGUN' as WeaponType }];
+    roundTrip('FULL_STATE with unknown enum values', { type: 'FULL_STATE', gameState: future, timestamp: 1 });
+    roundTrip('ACTION with unknown action type', { type: 'ACTION', action: { ...actions[0], actionType: 'WARP' as any } });
+    roundTrip('ACTION with prediction seq', { type: 'ACTION', action: { ...actions[0], seq: 4242 } });
+
+    const v1 = decodeWireMessage(encodeWireMessage({ type: 'ACTION', action: { ...actions[0], seq: 7 } }, 1));
+    check('version 1 ACTION still readable (without seq)',
+        v1.type === 'ACTION' && v1.action.actionId === actions[0].actionId && v1.action.seq === undefined);
+
+    const decoded = decodeWireMessage(encodeWireMessage(fullState));
+    check('epoch travels in the header', decoded.epoch === 2);
+    if (decoded.type === 'FULL_STATE') {
+        check('unowned POIs stay unowned', decoded.gameState.pois[0].ownerFactionId === undefined);
+        check('projectiles without a target keep toId unset', decoded.gameState.projectiles[3].toId === undefined);
+    }
+    check('FULL_STATE frame under half its JSON size',
+        encodeWireMessage(fullState).length < jsonBytes(fullState) / 2);
+
+    let truncatedRejected = false;
+    try {
+        const frame = encodeWireMessage(fullState);
+        decodeWireMessage(frame.subarray(0, frame.length - 5));
+    } catch {
+        truncatedRejected = true;
+    }
+    check('truncated frame rejected', truncatedRejected);
+
+    let futureVersionRejected = false;
+    try {
+        const frame = encodeWireMessage(fullState).slice();
+        frame[0] = WIRE_VERSION + 1;
+        decodeWireMessage(frame);
+    } catch {
+        futureVersionRejected = true;
+    }
+    check('unknown wire version rejected', futureVersionRejected);
+
+    // --- Negotiation ---
+    check('negotiates the common version', negotiateWireVersion([WIRE_VERSION, WIRE_VERSION + 1]) === WIRE_VERSION);
+    check('negotiates version 1 with a version 1 peer', negotiateWireVersion([1]) === 1);
+    check('falls back to JSON with an older peer', negotiateWireVersion([]) === 0 && negotiateWireVersion(undefined) === 0);
+
+    // --- Bandwidth ---
+    [50, 400, 1000].forEach(count => {
+        measure(`FULL_STATE ${count} units`, { type: 'FULL_STATE', gameState: buildState(count), timestamp: Date.now(), epoch: 0 });
+    });
+    actions.forEach(action => measure(`ACTION ${action.actionType}`, { type: 'ACTION', action, epoch: 0 }));
+    measure('HEARTBEAT', { type: 'HEARTBEAT', timestamp: Date.now(), epoch: 0 });
+    printTable();
+
+    console.log(failures === 0 ? '\n[CODEC] All checks passed' : `\n[CODEC] ${failures} check(s) failed`);
+    process.exit(failures === 0 ? 0 : 1);
+};
+
+main();
@@ -0,0 +1,170 @@
+// ============================================
+// HEADLESS BATTLE ROYALE HOST (Node)
+// Runs PhantomHostService without a browser tab
+// ============================================
+// Same room logic as the in-browser phantom host, with:
+//   - file persistence instead of localStorage (one JSON file per key)
+//   - terrain from the precomputed terrain.bin mask on disk (no canvas)
+//   - PeerJS pointed at a configurable signalling server, e.g. a local
+//     `npx peer --port 9000` stand-in during development, or instead the
+//     WebSocket relay of server/relayServer.ts (--relay ws://host:port)
+//   - custom scenarios from exported .scenario.json files (--scenario, repeatable),
+//     appended to the map rotation
+//
+// PeerJS needs WebRTC + WebSocket globals. Node 22 ships WebSocket; WebRTC
+// comes from a module named with --wrtc (e.g. @roamhq/wrtc). The relay needs
+// neither.
+//
+// Build + run:
+//   npm run host:build
+//   node dist-server/headlessHost.js --peer-host localhost --peer-port 9000 --wrtc @roamhq/wrtc
+//   node dist-server/headlessHost.js --relay ws://localhost:8787
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { PhantomHostService, PhantomHostStorage } from '../services/phantomHostService';
+import { Transport, createPeerJsTransport } from '../services/transport';
+import { createWebSocketTransport } from '../services/webSocketTransport';
+import { TerrainService } from '../services/terrainService';
+import { parseScenarioFile, saveCustomScenario } from '../services/scenarioService';
+
+interface HeadlessOptions {
+    dataDir: string;
+    terrain: string;
+    peerHost?: string;
+    peerPort?: number;
+    peerPath: string;
+    peerSecure: boolean;
+    wrtc?: string;
+    relay?: string;
+    scenarios: string[];
+}
+
+const parseArgs = (argv: string[]): HeadlessOptions => {
+    const options: HeadlessOptions = {
+        dataDir: '.phantom-host',
+        terrain: 'public/terrain.bin',
+        peerPath: '/',
+        peerSecure: false,
+        scenarios: []
+    };
+    for (let i = 0; i < argv.length; i++) {
+        const value = argv[i + 1];
+        switch (argv[i]) {
+            case '--data-dir': options.dataDir = value; i++; break;
+            case '--terrain': options.terrain = value; i++; break;
+            case '--peer-host': options.peerHost = value; i++; break;
+            case '--peer-port': options.peerPort = Number(value); i++; break;
+            case '--peer-path': options.peerPath = value; i++; break;
+            case '--peer-secure': options.peerSecure = true; break;
+            case '--wrtc': options.wrtc = value; i++; break;
+            case '--relay': options.relay = value; i++; break;
+            case '--scenario': options.scenarios.push(value); i++; break;
+            default:
+                console.warn('[HEADLESS] Ignoring unknown option:', argv[i]);
+        }
+    }
+    return options;
+};
+
+/**
+ * localStorage replacement: each key is a JSON file in `dir`.
+ * Writes go through a temp file + rename so a crash never leaves half a save.
+ */
+const createFileStorage = (dir: string): PhantomHostStorage => {
+    fs.mkdirSync(dir, { recursive: true });
+    const fileFor = (key: string) => path.join(dir, `${key}.json`);
+
+    return {
+        load: key => fs.existsSync(fileFor(key)) ? fs.readFileSync(fileFor(key), 'utf8') : null,
+        save: (key, value) => {
+            const tmp = `${fileFor(key)}.tmp`;
+            fs.writeFileSync(tmp, value, 'utf8');
+            fs.renameSync(tmp, fileFor(key));
+        },
+        remove: key => fs.rmSync(fileFor(key), { force: true })
+    };
+};
+
+/**
+ * Provide the browser globals PeerJS touches at construction time.
+ */
+const installPeerGlobals = async (options: HeadlessOptions): Promise<void> => {
+    const g = globalThis as any;
+    if (!g.location) {
+        g.location = { protocol: options.peerSecure ? 'https:' : 'http:', hostname: options.peerHost || 'localhost' };
+    }
+    if (!g.WebSocket) {
+        throw new Error('No global WebSocket - run on Node 22+');
+    }
+    if (!g.RTCPeerConnection) {
+        if (!options.wrtc) {
+            throw new Error('No WebRTC implementation - pass --wrtc <module>');
+        }
+        const wrtc = await import(options.wrtc);
+        const impl = wrtc.default ?? wrtc;
+        g.RTCPeerConnection = impl.RTCPeerConnection;
+        g.RTCSessionDescription = impl.RTCSessionDescription;
+        g.RTCIceCandidate = impl.RTCIceCandidate;
+    }
+};
+
+const main = async () => {
+    const options = parseArgs(process.argv.slice(2));
+
+    // 1. Terrain - the same land/ocean/coast mask the browser client loads
+    TerrainService.loadTerrainMask(fs.readFileSync(options.terrain));
+    console.log('[HEADLESS] Terrain loaded from', options.terrain);
+
+    // 2. Transport - the relay, or PeerJS (Node resolves its CommonJS bundle
+    //    as the module namespace)
+    let createTransport: (id: string) => Transport;
+    if (options.relay) {
+        console.log('[HEADLESS] Using WebSocket relay', options.relay);
+        createTransport = id => createWebSocketTransport(options.relay!, id);
+    } else {
+        await installPeerGlobals(options);
+        const peerjs: any = await import('peerjs');
+        const PeerCtor = peerjs.Peer ?? peerjs.default?.Peer ?? peerjs.default;
+
+        // No --peer-host = the public PeerJS cloud, same as browser hosts
+        const peerOptions = options.peerHost
+            ? { debug: 0, host: options.peerHost, port: options.peerPort || 9000, path: options.peerPath, secure: options.peerSecure }
+            : { debug: 0 };
+        createTransport = id => createPeerJsTransport(id, peerOptions, PeerCtor);
+    }
+
+    PhantomHostService.configure({
+        storage: createFileStorage(options.dataDir),
+        createTransport
+    });
+
+    // 3. Custom scenarios (kept in memory - there is no localStorage library here)
+    const scenarioIds = options.scenarios.map(file => {
+        const scenario = saveCustomScenario(parseScenarioFile(fs.readFileSync(file, 'utf8')));
+        console.log('[HEADLESS] Loaded scenario', scenario.id, `"${scenario.name}"`, 'from', file);
+        return scenario.id;
+    });
+
+    // 4. Host the room
+    const roomId = await PhantomHostService.initialize();
+    console.log('[HEADLESS] Hosting room', roomId, '- state in', path.resolve(options.dataDir));
+
+    const rotation = PhantomHostService.getBRState()?.config.scenarioRotation || [];
+    if (scenarioIds.length > 0) {
+        PhantomHostService.setScenarioRotation([...rotation, ...scenarioIds.filter(id => !rotation.includes(id))]);
+    }
+
+    const stop = () => {
+        console.log('[HEADLESS] Shutting down...');
+        PhantomHostService.shutdown();
+        process.exit(0);
+    };
+    process.on('SIGINT', stop);
+    process.on('SIGTERM', stop);
+};
+
+main().catch(err => {
+    console.error('[HEADLESS] Failed to start:', err);
+    process.exit(1);
+});
@@ -0,0 +1,290 @@
+// ============================================
+// WEBSOCKET RELAY SERVER (Node)
+// Self-hosted stand-in for PeerJS signalling + WebRTC
+// ============================================
+// Peers register an ID over one WebSocket each and the relay forwards their
+// link traffic (protocol: RelayMessage in services/webSocketTransport.ts).
+// Nothing is interpreted - the relay never sees game state, only opaque
+// `data` payloads - so any host/client split works through it, including the
+// headless host (--relay) and host migration.
+//
+// No dependencies: the WebSocket server side (RFC 6455 handshake + framing)
+// is the minimal subset the browser and Node clients use - text frames,
+// fragmentation, ping/pong and close.
+//
+// Build + run:
+//   npm run relay:build
+//   npm run relay:start -- --port 8787
+// then open the game with ?relay=ws://localhost:8787
+
+import http from 'node:http';
+import crypto from 'node:crypto';
+import type { Duplex } from 'node:stream';
+import type { RelayMessage } from '../services/webSocketTransport';
+import { TRANSPORT_CONFIG } from '../constants';
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_FRAME_BYTES = 16 * 1024 * 1024;
+
+const OPCODE = { CONTINUATION: 0x0, TEXT: 0x1, BINARY: 0x2, CLOSE: 0x8, PING: 0x9, PONG: 0xA };
+
+// ============================================
+// WEBSOCKET FRAMING
+// ============================================
+
+const encodeFrame = (opcode: number, payload: Buffer): Buffer => {
+    const length = payload.length;
+    let header: Buffer;
+    if (length < 126) {
+        header = Buffer.from([0x80 | opcode, length]);
+    } else if (length < 65536) {
+        header = Buffer.alloc(4);
+        header[0] = 0x80 | opcode;
+        header[1] = 126;
+        header.writeUInt16BE(length, 2);
+    } else {
+        header = Buffer.alloc(10);
+        header[0] = 0x80 | opcode;
+        header[1] = 127;
+        header.writeBigUInt64BE(BigInt(length), 2);
+    }
+    return Buffer.concat([header, payload]);
+};
+
+/** One upgraded client socket: turns incoming bytes into text messages. */
+class RelaySocket {
+    id = '';
+    private buffer = Buffer.alloc(0);
+    private fragments: Buffer[] = [];
+    private closed = false;
+
+    constructor(private socket: Duplex, private onText: (text: string) => void, private onClose: () => void) {
+        socket.on('data', (chunk: Buffer) => this.receive(chunk));
+        socket.on('close', () => this.finish());
+        socket.on('error', () => this.finish());
+    }
+
+    send(msg: RelayMessage) {
+        if (!this.closed) this.socket.write(encodeFrame(OPCODE.TEXT, Buffer.from(JSON.stringify(msg), 'utf8')));
+    }
+
+    close() {
+        if (this.closed) return;
+        this.socket.write(encodeFrame(OPCODE.CLOSE, Buffer.alloc(0)));
+        this.socket.end();
+        this.finish();
+    }
+
+    private finish() {
+        if (this.closed) return;
+        this.closed = true;
+        this.onClose();
+    }
+
+    private receive(chunk: Buffer) {
+        this.buffer = Buffer.concat([this.buffer, chunk]);
+        while (!this.closed) {
+            const frame = this.readFrame();
+            if (!frame) return;
+            this.handleFrame(frame.fin, frame.opcode, frame.payload);
+        }
+    }
+
+    private readFrame(): { fin: boolean; opcode: number; payload: Buffer } | null {
+        const buf = this.buffer;
+        if (buf.length < 2) return null;
+
+        const fin = (buf[0] & 0x80) !== 0;
+        const opcode = buf[0] & 0x0F;
+        const masked = (buf[1] & 0x80) !== 0;
+        let length = buf[1] & 0x7F;
+        let offset = 2;
+        if (length === 126) {
+            if (buf.length < 4) return null;
+            length = buf.readUInt16BE(2);
+            offset = 4;
+        } else if (length === 127) {
+            if (buf.length < 10) return null;
+            length = Number(buf.readBigUInt64BE(2));
+            offset = 10;
+        }
+        if (length > MAX_FRAME_BYTES) {
+            console.warn('[RELAY] Frame too large from', this.id || 'unregistered socket');
+            this.close();
+            return null;
+        }
+
+        const maskOffset = offset;
+        if (masked) offset += 4;
+        if (buf.length < offset + length) return null;
+
+        const payload = Buffer.from(buf.subarray(offset, offset + length));
+        if (masked) {
+            for (let i = 0; i < payload.length; i++) payload[i] ^= buf[maskOffset + (i % 4)];
+        }
+        this.buffer = buf.subarray(offset + length);
+        return { fin, opcode, payload };
+    }
+
+    private handleFrame(fin: boolean, opcode: number, payload: Buffer) {
+        switch (opcode) {
+            case OPCODE.TEXT:
+            case OPCODE.BINARY:
+            case OPCODE.CONTINUATION:
+                this.fragments.push(payload);
+                if (fin) this.onText(Buffer.concat(this.fragments.splice(0)).toString('utf8'));
+                break;
+            case OPCODE.PING:
+                this.socket.write(encodeFrame(OPCODE.PONG, payload));
+                break;
+            case OPCODE.CLOSE:
+                this.close();
+                break;
+        }
+    }
+}
+
+// ============================================
+// RELAY
+// ============================================
+
+interface Link {
+    from: string;                // Peer that opened the link
+    to: string;
+}
+
+class Relay {
+    private clients = new Map<string, RelaySocket>();
+    private links = new Map<string, Link>();
+
+    /** Serve an upgraded connection. */
+    accept(stream: Duplex) {
+        const socket: RelaySocket = new RelaySocket(stream, text => this.handleText(socket, text), () => this.drop(socket));
+    }
+
+    private handleText(socket: RelaySocket, text: string) {
+        let msg: RelayMessage;
+        try {
+            msg = JSON.parse(text);
+        } catch {
+            console.warn('[RELAY] Unreadable message from', socket.id || 'unregistered socket');
+            return;
+        }
+        if (msg.t === 'hello') this.register(socket, msg.id);
+        else if (socket.id) this.route(socket, msg);
+    }
+
+    private register(socket: RelaySocket, requestedId?: string) {
+        if (socket.id) return;
+        const id = requestedId || `RELAY-${crypto.randomBytes(6).toString('hex')}`;
+        if (this.clients.has(id)) {
+            socket.send({ t: 'error', type: 'unavailable-id', message: `ID ${id} is taken` });
+            socket.close();
+            return;
+        }
+        socket.id = id;
+        this.clients.set(id, socket);
+        socket.send({ t: 'welcome', id });
+        console.log('[RELAY] Registered', id, '-', this.clients.size, 'peers online');
+    }
+
+    private route(socket: RelaySocket, msg: RelayMessage) {
+        switch (msg.t) {
+            case 'connect': {
+                const target = this.clients.get(msg.to);
+                if (!target || this.links.has(msg.cid)) {
+                    socket.send({ t: 'error', type: 'peer-unavailable', message: `Could not connect to peer ${msg.to}`, cid: msg.cid });
+                    return;
+                }
+                this.links.set(msg.cid, { from: socket.id, to: msg.to });
+                target.send({ t: 'connection', from: socket.id, cid: msg.cid });
+                socket.send({ t: 'accept', cid: msg.cid });
+                break;
+            }
+            case 'data': {
+                const other = this.otherEnd(msg.cid, socket.id);
+                if (other) this.clients.get(other)?.send(msg);
+                break;
+            }
+            case 'close': {
+                const other = this.otherEnd(msg.cid, socket.id);
+                if (!other) return;
+                this.links.delete(msg.cid);
+                this.clients.get(other)?.send({ t: 'close', cid: msg.cid });
+                break;
+            }
+        }
+    }
+
+    // The peer on the other side of `cid`, if `id` is on this one
+    private otherEnd(cid: string, id: string): string | null {
+        const link = this.links.get(cid);
+        if (!link) return null;
+        if (link.from === id) return link.to;
+        if (link.to === id) return link.from;
+        return null;
+    }
+
+    private drop(socket: RelaySocket) {
+        if (!socket.id || this.clients.get(socket.id) !== socket) return;
+        this.clients.delete(socket.id);
+        this.links.forEach((link, cid) => {
+            const other = this.otherEnd(cid, socket.id);
+            if (!other) return;
+            this.links.delete(cid);
+            this.clients.get(other)?.send({ t: 'close', cid });
+        });
+        console.log('[RELAY] Dropped', socket.id, '-', this.clients.size, 'peers online');
+    }
+}
+
+/**
+ * Start a relay on `port` (0 = any free port). Resolves with the HTTP server
+ * once it is listening; close() it to stop.
+ */
+export function startRelayServer(port: number): Promise<http.Server> {
+    const relay = new Relay();
+    const server = http.createServer((_req, res) => {
+        res.writeHead(426, { 'Content-Type': 'text/plain' });
+        res.end('WebSocket relay - connect with ws://');
+    });
+
+    server.on('upgrade', (req, socket) => {
+        const key = req.headers['sec-websocket-key'];
+        if (req.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+            socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+            return;
+        }
+        const accept = crypto.createHash('sha1').update(key + WS_GUID).digest('base64');
+        socket.write([
+            'HTTP/1.1 101 Switching Protocols',
+            'Upgrade: websocket',
+            'Connection: Upgrade',
+            `Sec-WebSocket-Accept: ${accept}`,
+            '', ''
+        ].join('\r\n'));
+        relay.accept(socket);
+    });
+
+    return new Promise(resolve => server.listen(port, () => resolve(server)));
+}
+
+const main = async () => {
+    const portArg = process.argv.indexOf('--port');
+    const port = portArg >= 0 ? Number(process.argv[portArg + 1]) : TRANSPORT_CONFIG.RELAY_DEFAULT_PORT;
+    const server = await startRelayServer(port);
+    console.log('[RELAY] Listening on', server.address());
+
+    const stop = () => {
+        console.log('[RELAY] Shutting down...');
+        server.close();
+        process.exit(0);
+    };
+    process.on('SIGINT', stop);
+    process.on('SIGTERM', stop);
+};
+
+// Run only as the entry point - the net harness bundles startRelayServer
+if (/relayServer\.[cm]?js$/.test(process.argv[1] || '')) {
+    main();
+}
@@ -20,6 +20,11 @@ import {
 } from '../constants';
 import { spawnUnit, getDistanceKm } from './gameLogic';
 import { TerrainService } from './terrainService';
+import { SimClock, SimRandom } from './deterministic';
+import { isNavalUnit, getKnownMines, findMineDetour } from './mineService';
+import { isUnitDetectedBy } from './stealthService';
+import { isInSupplyRange, SUPPLY_CONFIG } from './supplyService';
+import { isProducible, findProductionSite, queueProduction } from './productionService';
 
 // =============================================================================
 // CONSTANTS - CRITICAL GAME MECHANICS
@@ -30,6 +35,7 @@ const COMBAT_ENGAGEMENT_RANGE = 50; // Distance to start fighting
 const THREAT_DETECTION_RANGE = 100; // Distance to detect incoming enemies
 const CITY_ATTACK_RANGE = 10;       // Distance to attack a city
 const DEFENSE_PERIMETER = 30;       // How far defenders patrol from city
+const BOT_MAX_QUEUED_ORDERS = 2;    // Don't sink gold into long production queues
 
 // =============================================================================
 // HELPER: CLAMP POSITION TO SCENARIO BOUNDS
@@ -89,18 +95,43 @@ interface BotBrain {
     // NEW: Threat tracking
     threatMap: Map<string, ThreatAssessment>;
     lastThreatCheck: number;
+    // Units pulled back to resupply (released once topped up)
+    resupplying: Set<string>;
 }
 
 // Global bot brains cache (persists across ticks)
 const botBrains: Map<string, BotBrain> = new Map();
 
+/**
+ * Deep copy of every bot brain. Brains live outside GameState, so replay
+ * checkpoints have to carry them to resume the simulation exactly.
+ */
+export function snapshotBotBrains(): Map<string, unknown> {
+    return structuredClone(botBrains) as Map<string, unknown>;
+}
+
+/**
+ * Replace all bot brains with a snapshot taken by snapshotBotBrains().
+ */
+export function restoreBotBrains(snapshot: Map<string, unknown>): void {
+    botBrains.clear();
+    (structuredClone(snapshot) as Map<string, BotBrain>).forEach((brain, id) => botBrains.set(id, brain));
+}
+
+/**
+ * Forget all bot brains (new game / replay start).
+ */
+export function resetBotBrains(): void {
+    botBrains.clear();
+}
+
 // =============================================================================
 // MAIN AI ENTRY POINT
 // =============================================================================
 
 export const updateAdvancedBotAI = (gameState: GameState): GameState => {
     let newState = { ...gameState };
-    const now = Date.now();
+    const now = SimClock.now();
 
     // Process each BOT faction
     for (const faction of newState.factions) {
@@ -108,6 +139,10 @@ export const updateAdvancedBotAI = (gameState: GameState): GameState => {
 
         // Get or create brain for this bot
         let brain = botBrains.get(faction.id);
+        // Simulation clock restarts with every new game - drop stale brains
+        if (brain && brain.lastThinkTime > now) {
+            brain = undefined;
+        }
         if (!brain) {
             brain = createBotBrain(faction.id);
             botBrains.set(faction.id, brain);
@@ -163,7 +198,8 @@ function createBotBrain(factionId: string): BotBrain {
         militaryScore: 0,
         threatLevel: 0,
         threatMap: new Map(),
-        lastThreatCheck: 0
+        lastThreatCheck: 0,
+        resupplying: new Set()
     };
 }
 
@@ -296,8 +332,10 @@ function analyzeGameState(faction: Faction, state: GameState, brain: BotBrain):
         .filter(f => f.id !== faction.id && f.type !== 'NEUTRAL' && isHostile(faction, f.id))
         .map(f => f.id);
 
+    // Bots only know about submarines their sonar has found
     const enemyUnits = state.units.filter(u =>
-        enemyFactionIds.includes(u.factionId) && u.hp > 0
+        enemyFactionIds.includes(u.factionId) && u.hp > 0 &&
+        isUnitDetectedBy(u, faction.id, state.gameTick)
     );
 
     // Check enemy naval/air presence
@@ -479,7 +517,7 @@ function calculateResourceDesires(faction: Faction, state: GameState, myCities:
 // =============================================================================
 
 function updateStrategicPlan(brain: BotBrain, analysis: GameAnalysis, faction: Faction, state: GameState): void {
-    const now = Date.now();
+    const now = SimClock.now();
 
     // Clean up completed/failed task forces
     brain.taskForces = brain.taskForces.filter(tf =>
@@ -537,7 +575,7 @@ function updateStrategicPlan(brain: BotBrain, analysis: GameAnalysis, faction: F
 
         // Create capture task force
         const taskForce: TaskForce = {
-            id: `TF_${Math.random().toString(36).substr(2, 8)}`,
+            id: `TF_${SimRandom.id(8)}`,
             type: 'CAPTURE',
             targetId: neutralCity.id,
             targetPosition: { ...neutralCity.position },
@@ -562,7 +600,7 @@ function updateStrategicPlan(brain: BotBrain, analysis: GameAnalysis, faction: F
         );
         if (!hasDefenseForce) {
             brain.taskForces.push({
-                id: `TF_${Math.random().toString(36).substr(2, 8)}`,
+                id: `TF_${SimRandom.id(8)}`,
                 type: 'DEFENSE',
                 targetId: city.id,
                 targetPosition: { ...city.position },
@@ -599,7 +637,7 @@ function updateStrategicPlan(brain: BotBrain, analysis: GameAnalysis, faction: F
             if (raidTFs.length >= maxRaids) break;
 
             brain.taskForces.push({
-                id: `TF_${Math.random().toString(36).substr(2, 8)}`,
+                id: `TF_${SimRandom.id(8)}`,
                 type: 'RAID',
                 targetId: desire.poiId,
                 targetPosition: { ...desire.position },
@@ -631,7 +669,7 @@ function updateStrategicPlan(brain: BotBrain, analysis: GameAnalysis, faction: F
  */
 function evaluateThreats(brain: BotBrain, analysis: GameAnalysis, faction: Faction, state: GameState): void {
     brain.threatMap.clear();
-    const now = Date.now();
+    const now = SimClock.now();
 
     // Only re-evaluate every 2 seconds to reduce CPU load
     if (now - brain.lastThreatCheck < 2000) return;
@@ -837,7 +875,8 @@ function executeProduction(brain: BotBrain, analysis: GameAnalysis, faction: Fac
     const personality = analysis.personality;
     const maxUnits = faction.maxUnits || 30;
 
-    if (analysis.myUnits.length >= maxUnits) return newState;
+    const queuedUnits = analysis.myUnits.reduce((sum, u) => sum + (u.productionQueue?.length ?? 0), 0);
+    if (analysis.myUnits.length + queuedUnits >= maxUnits) return newState;
 
     // Calculate gold reserve based on personality
     const reserve = faction.gold * (personality.goldReserve || 0.1);
@@ -869,8 +908,8 @@ function executeProduction(brain: BotBrain, analysis: GameAnalysis, faction: Fac
             const targetCity = analysis.myCities[0];
             unitToSpawn = UnitClass.AIRBASE;
             spawnLocation = {
-                lat: targetCity.position.lat + (Math.random() - 0.5) * 0.02,
-                lng: targetCity.position.lng + (Math.random() - 0.5) * 0.02
+                lat: targetCity.position.lat + SimRandom.jitter(0.02),
+                lng: targetCity.position.lng + SimRandom.jitter(0.02)
             };
             console.log(`[BOT AI] ${faction.name}: Building AIRBASE at ${targetCity.name || 'city'}`);
         }
@@ -901,11 +940,11 @@ function executeProduction(brain: BotBrain, analysis: GameAnalysis, faction: Fac
     if (!unitToSpawn && analysis.needsMilitaryBase) {
         const baseCost = UNIT_CONFIG[UnitClass.MILITARY_BASE]?.cost;
         if (baseCost && spendable >= baseCost.gold) {
-            const targetCity = analysis.myCities[Math.floor(Math.random() * analysis.myCities.length)];
+            const targetCity = analysis.myCities[SimRandom.int(analysis.myCities.length)];
             unitToSpawn = UnitClass.MILITARY_BASE;
             spawnLocation = {
-                lat: targetCity.position.lat + (Math.random() - 0.5) * 0.03,
-                lng: targetCity.position.lng + (Math.random() - 0.5) * 0.03
+                lat: targetCity.position.lat + SimRandom.jitter(0.03),
+                lng: targetCity.position.lng + SimRandom.jitter(0.03)
             };
             console.log(`[BOT AI] ${faction.name}: Building MILITARY_BASE`);
         }
@@ -930,7 +969,7 @@ function executeProduction(brain: BotBrain, analysis: GameAnalysis, faction: Fac
     // ================================================================
     if (!unitToSpawn && analysis.myPorts.length > 0 && analysis.needsNavalPower) {
         // Decide which naval unit to build
-        const rand = Math.random();
+        const rand = SimRandom.next();
         if (rand < 0.15 && analysis.myCarriers.length === 0) {
             // Build Aircraft Carrier (powerful mobile airbase)
             const carrierCost = UNIT_CONFIG[UnitClass.AIRCRAFT_CARRIER]?.cost;
@@ -945,42 +984,13 @@ function executeProduction(brain: BotBrain, analysis: GameAnalysis, faction: Fac
             // Build Frigate (cheaper naval option)
             unitToSpawn = UnitClass.FRIGATE;
         }
-
-        // Spawn at port location (water) - IMPROVED
-        if (unitToSpawn && analysis.myPorts.length > 0) {
-            const port = analysis.myPorts[0];
-            // Pass POIs to findNearestWater for better terrain type detection
-            const waterPoint = TerrainService.findNearestWater(port.position.lat, port.position.lng, state.pois);
-
-            // Add randomness but validate spawn location is still water
-            let spawnAttempts = 0;
-            let validSpawn = false;
-            while (!validSpawn && spawnAttempts < 5) {
-                const candidateLat = waterPoint.lat + (Math.random() - 0.5) * 0.02;
-                const candidateLng = waterPoint.lng + (Math.random() - 0.5) * 0.02;
-
-                // Validate this is actually water
-                if (!TerrainService.isPointLand(candidateLat, candidateLng)) {
-                    spawnLocation = { lat: candidateLat, lng: candidateLng };
-                    validSpawn = true;
-                    console.log(`[BOT AI] Naval spawn at (${candidateLat.toFixed(3)}, ${candidateLng.toFixed(3)}) - VALID WATER`);
-                }
-                spawnAttempts++;
-            }
-
-            // Fallback to exact water point if random failed
-            if (!validSpawn) {
-                spawnLocation = waterPoint;
-                console.log(`[BOT AI] Naval spawn fallback to water point`);
-            }
-        }
     }
 
     // ================================================================
     // PRIORITY 4: AIR UNITS (from Airbases)
     // ================================================================
     if (!unitToSpawn && analysis.myAirbases.length > 0 && analysis.needsAirPower) {
-        const rand = Math.random();
+        const rand = SimRandom.next();
         if (rand < 0.2 && analysis.myTransports.length < 2 && analysis.infantryCount >= 3) {
             // Build Troop Transport for rapid infantry deployment
             unitToSpawn = UnitClass.TROOP_TRANSPORT;
@@ -995,15 +1005,6 @@ function executeProduction(brain: BotBrain, analysis: GameAnalysis, faction: Fac
             // Build Heavy Bomber (ground attack)
             unitToSpawn = UnitClass.HEAVY_BOMBER;
         }
-
-        // Spawn at airbase
-        if (unitToSpawn && analysis.myAirbases.length > 0) {
-            const airbase = analysis.myAirbases[0];
-            spawnLocation = {
-                lat: airbase.position.lat + (Math.random() - 0.5) * 0.02,
-                lng: airbase.position.lng + (Math.random() - 0.5) * 0.02
-            };
-        }
     }
 
     // ================================================================
@@ -1012,9 +1013,9 @@ function executeProduction(brain: BotBrain, analysis: GameAnalysis, faction: Fac
     if (!unitToSpawn && analysis.needMoreCombat) {
         // Personality-based combat unit selection
         if (faction.personality === BotPersonality.AGGRESSIVE) {
-            unitToSpawn = Math.random() > 0.5 ? UnitClass.FIGHTER_JET : UnitClass.GROUND_TANK;
+            unitToSpawn = SimRandom.next() > 0.5 ? UnitClass.FIGHTER_JET : UnitClass.GROUND_TANK;
         } else if (faction.personality === BotPersonality.DEFENSIVE) {
-            unitToSpawn = Math.random() > 0.5 ? UnitClass.SAM_LAUNCHER : UnitClass.MISSILE_LAUNCHER;
+            unitToSpawn = SimRandom.next() > 0.5 ? UnitClass.SAM_LAUNCHER : UnitClass.MISSILE_LAUNCHER;
         } else {
             unitToSpawn = UnitClass.GROUND_TANK; // Default to reliable tanks
         }
@@ -1039,20 +1040,32 @@ function executeProduction(brain: BotBrain, analysis: GameAnalysis, faction: Fac
         unitToSpawn = UnitClass.INFANTRY;
         const infCost = UNIT_CONFIG[UnitClass.INFANTRY].cost;
         if (!infCost || spendable < infCost.gold) return newState;
-        spawnLocation = null; // Reset to use city
-    }
-
-    // Default spawn location: random city
-    if (!spawnLocation) {
-        const spawnCity = analysis.myCities[Math.floor(Math.random() * analysis.myCities.length)];
-        spawnLocation = {
-            lat: spawnCity.position.lat + (Math.random() - 0.5) * 0.02,
-            lng: spawnCity.position.lng + (Math.random() - 0.5) * 0.02
-        };
+        spawnLocation = null;
     }
 
     const finalCost = UNIT_CONFIG[unitToSpawn].cost!;
+    const payForOrder = (units: GameUnit[]): GameState => ({
+        ...newState,
+        units,
+        factions: newState.factions.map(f =>
+            f.id === faction.id
+                ? { ...f, gold: f.gold - finalCost.gold, oil: (f.oil || 0) - (finalCost.oil || 0) }
+                : f
+        )
+    });
+
+    // Units go through the same production queues as the player's
+    if (isProducible(unitToSpawn)) {
+        const site = findProductionSite(newState.units, faction.id, unitToSpawn);
+        if (!site || (site.productionQueue?.length ?? 0) >= BOT_MAX_QUEUED_ORDERS) return newState;
+
+        const updated = queueProduction(site, unitToSpawn, `UNIT-${SimRandom.id(9)}`, newState.gameTick);
+        console.log(`[BOT AI] ${faction.name}: Queued ${unitToSpawn} at ${site.unitClass}`);
+        return payForOrder(newState.units.map(u => u.id === site.id ? updated : u));
+    }
 
+    // Structures are placed instantly
+    if (!spawnLocation) return newState;
     const newUnit = spawnUnit(
         unitToSpawn,
         spawnLocation.lat,
@@ -1062,15 +1075,7 @@ function executeProduction(brain: BotBrain, analysis: GameAnalysis, faction: Fac
 
     console.log(`[BOT AI] ${faction.name}: Spawned ${unitToSpawn}`);
 
-    return {
-        ...newState,
-        units: [...newState.units, newUnit],
-        factions: newState.factions.map(f =>
-            f.id === faction.id
-                ? { ...f, gold: f.gold - finalCost.gold, oil: (f.oil || 0) - (finalCost.oil || 0) }
-                : f
-        )
-    };
+    return payForOrder([...newState.units, newUnit]);
 }
 
 // =============================================================================
@@ -1166,8 +1171,8 @@ function executeCommands(brain: BotBrain, analysis: GameAnalysis, faction: Facti
                             destLng = flankPos.lng;
                         } else {
                             // Direct approach with slight randomization
-                            destLat = targetCity.position.lat + (Math.random() - 0.5) * 0.05;
-                            destLng = targetCity.position.lng + (Math.random() - 0.5) * 0.05;
+                            destLat = targetCity.position.lat + SimRandom.jitter(0.05);
+                            destLng = targetCity.position.lng + SimRandom.jitter(0.05);
                         }
 
                         newUnits[flankIdx] = {
@@ -1242,8 +1247,8 @@ function executeCommands(brain: BotBrain, analysis: GameAnalysis, faction: Facti
                     newUnits[unitIdx] = {
                         ...newUnits[unitIdx],
                         destination: {
-                            lat: targetCity.position.lat + (Math.random() - 0.5) * 0.03,
-                            lng: targetCity.position.lng + (Math.random() - 0.5) * 0.03
+                            lat: targetCity.position.lat + SimRandom.jitter(0.03),
+                            lng: targetCity.position.lng + SimRandom.jitter(0.03)
                         },
                         targetId: null
                     };
@@ -1296,8 +1301,8 @@ function executeCommands(brain: BotBrain, analysis: GameAnalysis, faction: Facti
 
             if (nearestInfantry && nearestInfantry.destination) {
                 const clampedDest = clampToScenarioBounds(
-                    nearestInfantry.destination.lat + (Math.random() - 0.5) * 0.02,
-                    nearestInfantry.destination.lng + (Math.random() - 0.5) * 0.02,
+                    nearestInfantry.destination.lat + SimRandom.jitter(0.02),
+                    nearestInfantry.destination.lng + SimRandom.jitter(0.02),
                     state
                 );
                 newUnits[i] = {
@@ -1314,8 +1319,8 @@ function executeCommands(brain: BotBrain, analysis: GameAnalysis, faction: Facti
                 );
                 if (distToHome > DEFENSE_PERIMETER * 2) {
                     const clampedDest = clampToScenarioBounds(
-                        homeCity.position.lat + (Math.random() - 0.5) * 0.05,
-                        homeCity.position.lng + (Math.random() - 0.5) * 0.05,
+                        homeCity.position.lat + SimRandom.jitter(0.05),
+                        homeCity.position.lng + SimRandom.jitter(0.05),
                         state
                     );
                     newUnits[i] = {
@@ -1328,6 +1333,54 @@ function executeCommands(brain: BotBrain, analysis: GameAnalysis, faction: Facti
         }
     }
 
+    // ================================================================
+    // SUPPLY ROUTING - Task force units running dry fall back to the
+    // nearest supply source and rejoin once topped up
+    // ================================================================
+    const taskForceUnitIds = new Set(brain.taskForces.flatMap(tf => tf.unitIds));
+    for (let i = 0; i < newUnits.length; i++) {
+        const unit = newUnits[i];
+        if (unit.factionId !== faction.id || !taskForceUnitIds.has(unit.id)) continue;
+
+        const supply = unit.supply ?? SUPPLY_CONFIG.MAX_SUPPLY;
+        if (supply <= SUPPLY_CONFIG.OUT_OF_SUPPLY_THRESHOLD) {
+            brain.resupplying.add(unit.id);
+        } else if (supply >= SUPPLY_CONFIG.MAX_SUPPLY * 0.75) {
+            brain.resupplying.delete(unit.id);
+        }
+        if (!brain.resupplying.has(unit.id)) continue;
+
+        const status = isInSupplyRange(unit, state.units, state.pois, faction.id);
+        if (!status.sourcePosition) continue;
+        newUnits[i] = status.inSupply
+            // Hold inside the supply radius until topped up
+            ? { ...unit, destination: null }
+            : {
+                ...unit,
+                targetId: null,
+                destination: clampToScenarioBounds(status.sourcePosition.lat, status.sourcePosition.lng, state)
+            };
+    }
+    for (const id of brain.resupplying) {
+        if (!taskForceUnitIds.has(id)) brain.resupplying.delete(id);
+    }
+
+    // ================================================================
+    // NAVAL ROUTING - Steer ships around minefields we know about
+    // ================================================================
+    const knownMines = getKnownMines(state.mines || [], faction.id).filter(m => m.factionId !== faction.id);
+    if (knownMines.length > 0) {
+        for (let i = 0; i < newUnits.length; i++) {
+            const unit = newUnits[i];
+            if (unit.factionId !== faction.id || !unit.destination || !isNavalUnit(unit.unitClass)) continue;
+
+            const detour = findMineDetour(unit.unitClass, unit.position, unit.destination, knownMines, state.pois);
+            if (detour) {
+                newUnits[i] = { ...unit, destination: clampToScenarioBounds(detour.lat, detour.lng, state) };
+            }
+        }
+    }
+
     return { ...state, units: newUnits };
 }
 
@@ -1375,7 +1428,7 @@ function calculateFlankingPosition(
     const baseAngle = unitIndex === 0 ? 0 : Math.PI + (unitIndex / totalUnits) * Math.PI * 2;
 
     // Add some randomness to prevent predictable patterns
-    const angleVariation = (Math.random() - 0.5) * 0.3;
+    const angleVariation = SimRandom.jitter(0.3);
     const finalAngle = baseAngle + angleVariation;
 
     // Convert distance to degrees (approximate: 1 degree ≈ 111km)
@@ -0,0 +1,542 @@
+// ============================================
+// HOST-SIDE ACTION VALIDATION
+// ============================================
+// The host validates every GameAction before applyAction runs it.
+// Rejected actions are answered with an ACTION_REJECTED response and the
+// sender rolls back its optimistic copy (see revertOptimisticAction).
+
+import { GameState, GameUnit, UnitClass, UnitOrderType, POIType, ActionRejectReason } from '../types';
+import { UNIT_CONFIG, NUKE_CONFIG, ACTION_VALIDATION, CARGO_CONFIG, MINE_CONFIG, PRODUCTION_CONFIG, TREATY_CONFIG, TEAM_CONFIG, ORDER_QUEUE_CONFIG } from '../constants';
+import {
+    GameAction, QueueProductionPayload, CancelProductionPayload, SetRallyPointPayload, MoveUnitsPayload, QueueOrdersPayload, AttackTargetPayload, BuildStructurePayload,
+    SelectBasePayload, ClaimPOIPayload, LaunchNukePayload, SetAutoModePayload, SetStancePayload, SetFormationPayload,
+    LoadUnitsPayload, UnloadUnitsPayload, AirdropPayload, LayMinePayload, SweepMinesPayload,
+    ProposeTreatyPayload, RespondTreatyPayload, TransferResourcesPayload
+} from './schemas';
+import { getDistanceKm } from './gameLogic';
+import { TerrainService } from './terrainService';
+import { getCargoCapacity, canCarry } from './cargoService';
+import { isProducible, isProductionSite, canProduceAt } from './productionService';
+import { getDiplomacy } from './diplomacyService';
+import { isAllied } from './teamService';
+import { getGameSettings } from './gameSettings';
+
+// null = action is valid
+export interface ActionRejection {
+    reason: ActionRejectReason;
+    message: string;
+}
+
+const ok: ActionRejection | null = null;
+
+const reject = (reason: ActionRejectReason, message: string): ActionRejection => ({ reason, message });
+
+const STRUCTURE_CLASSES = [
+    UnitClass.COMMAND_CENTER, UnitClass.MILITARY_BASE, UnitClass.AIRBASE,
+    UnitClass.PORT, UnitClass.MISSILE_SILO
+];
+
+const QUEUEABLE_ORDERS: UnitOrderType[] = ['MOVE', 'ATTACK', 'ATTACK_MOVE', 'PATROL', 'LOAD', 'UNLOAD'];
+
+const isFiniteCoord = (lat: unknown, lng: unknown): boolean =>
+    typeof lat === 'number' && typeof lng === 'number' &&
+    Number.isFinite(lat) && Number.isFinite(lng) &&
+    lat >= -90 && lat <= 90 && lng >= -360 && lng <= 360;
+
+const canAfford = (state: GameState, playerId: string, cost?: { gold: number; oil: number }): boolean => {
+    if (!cost) return true;
+    const faction = state.factions.find(f => f.id === playerId);
+    if (!faction) return false;
+    return faction.gold >= (cost.gold || 0) && (faction.oil || 0) >= (cost.oil || 0);
+};
+
+/**
+ * Check that the order targets units the player owns. Missing IDs are
+ * tolerated (units may die while the order is in flight) and foreign units
+ * are ignored by applyAction, but an order must move at least one own unit.
+ */
+const validateOwnedUnits = (state: GameState, playerId: string, unitIds: unknown): ActionRejection | null => {
+    if (!Array.isArray(unitIds) || unitIds.length === 0) {
+        return reject('INVALID_PAYLOAD', 'No units specified');
+    }
+    if (unitIds.length > ACTION_VALIDATION.MAX_UNITS_PER_ACTION) {
+        return reject('INVALID_PAYLOAD', `Too many units (${unitIds.length})`);
+    }
+
+    const unitMap = new Map(state.units.map(u => [u.id, u]));
+    let ownedCount = 0;
+    let foreignUnit: GameUnit | null = null;
+    for (const id of unitIds) {
+        const unit = unitMap.get(id);
+        if (!unit) continue;
+        if (unit.factionId === playerId) ownedCount++;
+        else if (!foreignUnit) foreignUnit = unit;
+    }
+
+    if (ownedCount > 0) return ok;
+    if (foreignUnit) return reject('NOT_OWNER', `Unit ${foreignUnit.id} belongs to ${foreignUnit.factionId}`);
+    return reject('UNKNOWN_ENTITY', 'None of the ordered units exist');
+};
+
+/**
+ * Find a production structure owned by the player.
+ */
+const findOwnedSite = (state: GameState, playerId: string, siteId: unknown): GameUnit | ActionRejection => {
+    const site = state.units.find(u => u.id === siteId);
+    if (!site) return reject('UNKNOWN_ENTITY', `Structure ${siteId} does not exist`);
+    if (site.factionId !== playerId) return reject('NOT_OWNER', 'Structure belongs to another faction');
+    if (!isProductionSite(site)) return reject('INVALID_PAYLOAD', `${site.unitClass} cannot build units`);
+    return site;
+};
+
+/**
+ * Find a transport/carrier owned by the player.
+ */
+const findOwnedTransport = (state: GameState, playerId: string, transportId: unknown): GameUnit | ActionRejection => {
+    const transport = state.units.find(u => u.id === transportId);
+    if (!transport) return reject('UNKNOWN_ENTITY', `Transport ${transportId} does not exist`);
+    if (transport.factionId !== playerId) return reject('NOT_OWNER', 'Transport belongs to another faction');
+    if (getCargoCapacity(transport.unitClass) === 0) {
+        return reject('INVALID_PAYLOAD', `${transport.unitClass} cannot carry units`);
+    }
+    return transport;
+};
+
+const isRejection = (value: GameUnit | ActionRejection): value is ActionRejection => 'reason' in value;
+
+/**
+ * Validate a GameAction against the authoritative state.
+ * Returns null when the action may be applied, otherwise the rejection.
+ * @param senderId Peer that delivered the action (omit for local actions)
+ */
+export function validateAction(state: GameState, action: GameAction, senderId?: string): ActionRejection | null {
+    if (!action || !action.actionType || !action.playerId || !action.payload) {
+        return reject('INVALID_PAYLOAD', 'Malformed action');
+    }
+
+    // A peer may only act for its own faction
+    if (senderId && senderId !== action.playerId) {
+        return reject('UNKNOWN_PLAYER', `Sender ${senderId} cannot act as ${action.playerId}`);
+    }
+
+    const faction = state.factions.find(f => f.id === action.playerId);
+    if (!faction && action.actionType !== 'SELECT_BASE') {
+        return reject('UNKNOWN_PLAYER', `No faction for ${action.playerId}`);
+    }
+
+    switch (action.actionType) {
+        case 'QUEUE_PRODUCTION': {
+            const payload = action.payload as QueueProductionPayload;
+            const stats = UNIT_CONFIG[payload.unitClass];
+            if (!stats || !payload.unitId || !isProducible(payload.unitClass)) {
+                return reject('INVALID_PAYLOAD', 'Invalid production order');
+            }
+            const site = findOwnedSite(state, action.playerId, payload.factoryId);
+            if (isRejection(site)) return site;
+            if (!canProduceAt(site, payload.unitClass)) {
+                return reject('INVALID_PAYLOAD', `${site.unitClass} cannot build ${payload.unitClass}`);
+            }
+            if ((site.productionQueue?.length ?? 0) >= PRODUCTION_CONFIG.MAX_QUEUE_LENGTH) {
+                return reject('INVALID_PAYLOAD', `${site.unitClass} queue is full`);
+            }
+            const idTaken = state.units.some(u => u.id === payload.unitId || u.productionQueue?.some(o => o.unitId === payload.unitId));
+            if (idTaken) {
+                return reject('DUPLICATE_ID', `Unit ID ${payload.unitId} already exists`);
+            }
+            if (!canAfford(state, action.playerId, stats.cost)) {
+                return reject('INSUFFICIENT_FUNDS', `Cannot afford ${payload.unitClass}`);
+            }
+            return ok;
+        }
+
+        case 'CANCEL_PRODUCTION': {
+            const payload = action.payload as CancelProductionPayload;
+            const site = findOwnedSite(state, action.playerId, payload.factoryId);
+            if (isRejection(site)) return site;
+            if (!site.productionQueue?.some(o => o.unitId === payload.unitId)) {
+                return reject('UNKNOWN_ENTITY', `Order ${payload.unitId} is not queued at ${site.unitClass}`);
+            }
+            return ok;
+        }
+
+        case 'SET_RALLY_POINT': {
+            const payload = action.payload as SetRallyPointPayload;
+            const clearing = payload.lat === null && payload.lng === null;
+            if (!clearing && !isFiniteCoord(payload.lat, payload.lng)) {
+                return reject('INVALID_PAYLOAD', 'Invalid rally point');
+            }
+            return validateOwnedUnits(state, action.playerId, payload.factoryIds);
+        }
+
+        case 'BUILD_STRUCTURE': {
+            const payload = action.payload as BuildStructurePayload;
+            const stats = UNIT_CONFIG[payload.structureType];
+            if (!stats || !payload.unitId || !isFiniteCoord(payload.lat, payload.lng)) {
+                return reject('INVALID_PAYLOAD', 'Invalid structure payload');
+            }
+            if (!STRUCTURE_CLASSES.includes(payload.structureType)) {
+                return reject('INVALID_PAYLOAD', `${payload.structureType} is not a structure`);
+            }
+            if (payload.structureType === UnitClass.MISSILE_SILO && !getGameSettings(state).nukesEnabled) {
+                return reject('DISABLED', 'Nuclear weapons are disabled in this game');
+            }
+            if (state.units.some(u => u.id === payload.unitId)) {
+                return reject('DUPLICATE_ID', `Unit ID ${payload.unitId} already exists`);
+            }
+            if (!canAfford(state, action.playerId, stats.cost)) {
+                return reject('INSUFFICIENT_FUNDS', `Cannot afford ${payload.structureType}`);
+            }
+            const playerUnits = state.units.filter(u => u.factionId === action.playerId);
+            if (!TerrainService.isValidPlacement(payload.structureType, payload.lat, payload.lng, state.pois, playerUnits, action.playerId)) {
+                return reject('INVALID_PLACEMENT', `${payload.structureType} placement not allowed here`);
+            }
+            return ok;
+        }
+
+        case 'MOVE_UNITS': {
+            const payload = action.payload as MoveUnitsPayload;
+            if (!isFiniteCoord(payload.targetLat, payload.targetLng)) {
+                return reject('INVALID_PAYLOAD', 'Invalid move target');
+            }
+            return validateOwnedUnits(state, action.playerId, payload.unitIds);
+        }
+
+        case 'QUEUE_ORDERS': {
+            const payload = action.payload as QueueOrdersPayload;
+            const order = payload.order;
+            if (!order || !QUEUEABLE_ORDERS.includes(order.type)) {
+                return reject('INVALID_PAYLOAD', `Unknown order ${order?.type}`);
+            }
+            const notOwned = validateOwnedUnits(state, action.playerId, payload.unitIds);
+            if (notOwned) return notOwned;
+
+            if (order.type === 'ATTACK') {
+                const targetExists = state.units.some(u => u.id === order.targetId) || state.pois.some(p => p.id === order.targetId);
+                if (!targetExists) return reject('UNKNOWN_ENTITY', `Target ${order.targetId} does not exist`);
+            } else if (order.type === 'LOAD') {
+                const transport = findOwnedTransport(state, action.playerId, order.targetId);
+                if (isRejection(transport)) return transport;
+            } else if (!order.position || !isFiniteCoord(order.position.lat, order.position.lng)) {
+                return reject('INVALID_PAYLOAD', 'Invalid order position');
+            }
+            if (order.type === 'UNLOAD' && !state.units.some(u => payload.unitIds.includes(u.id) && getCargoCapacity(u.unitClass) > 0)) {
+                return reject('INVALID_PAYLOAD', 'No selected unit can carry cargo');
+            }
+
+            const full = !payload.replace && state.units.some(u =>
+                payload.unitIds.includes(u.id) && (u.orderQueue?.length || 0) >= ORDER_QUEUE_CONFIG.MAX_ORDERS
+            );
+            if (full) return reject('INVALID_PAYLOAD', `Order queue is full (max ${ORDER_QUEUE_CONFIG.MAX_ORDERS})`);
+            return ok;
+        }
+
+        case 'ATTACK_TARGET': {
+            const payload = action.payload as AttackTargetPayload;
+            const notOwned = validateOwnedUnits(state, action.playerId, payload.attackerIds);
+            if (notOwned) return notOwned;
+            const targetExists = payload.isPoi
+                ? state.pois.some(p => p.id === payload.targetId)
+                : state.units.some(u => u.id === payload.targetId);
+            if (!targetExists) {
+                return reject('UNKNOWN_ENTITY', `Target ${payload.targetId} does not exist`);
+            }
+            return ok;
+        }
+
+        case 'SET_AUTO_MODE': {
+            const payload = action.payload as SetAutoModePayload;
+            if (!['NONE', 'DEFEND', 'ATTACK', 'PATROL'].includes(payload.mode)) {
+                return reject('INVALID_PAYLOAD', `Unknown auto mode ${payload.mode}`);
+            }
+            return validateOwnedUnits(state, action.playerId, payload.unitIds);
+        }
+
+        case 'SET_STANCE': {
+            const payload = action.payload as SetStancePayload;
+            if (!['AGGRESSIVE', 'HOLD_POSITION', 'RETURN_FIRE'].includes(payload.stance)) {
+                return reject('INVALID_PAYLOAD', `Unknown stance ${payload.stance}`);
+            }
+            return validateOwnedUnits(state, action.playerId, payload.unitIds);
+        }
+
+        case 'SET_FORMATION': {
+            const payload = action.payload as SetFormationPayload;
+            if (!isFiniteCoord(payload.centerLat, payload.centerLng)) {
+                return reject('INVALID_PAYLOAD', 'Invalid formation center');
+            }
+            return validateOwnedUnits(state, action.playerId, payload.unitIds);
+        }
+
+        case 'LAUNCH_NUKE': {
+            const payload = action.payload as LaunchNukePayload;
+            if (!payload.nukeId || !isFiniteCoord(payload.targetLat, payload.targetLng)) {
+                return reject('INVALID_PAYLOAD', 'Invalid nuke payload');
+            }
+            if (!getGameSettings(state).nukesEnabled) return reject('DISABLED', 'Nuclear weapons are disabled in this game');
+            const silo = state.units.find(u => u.id === payload.siloId && u.unitClass === UnitClass.MISSILE_SILO);
+            if (!silo) return reject('UNKNOWN_ENTITY', `Silo ${payload.siloId} does not exist`);
+            if (silo.factionId !== action.playerId) return reject('NOT_OWNER', 'Silo belongs to another faction');
+            if (silo.cooldown && silo.cooldown > 0) return reject('ON_COOLDOWN', 'Silo is reloading');
+            if (!canAfford(state, action.playerId, NUKE_CONFIG.LAUNCH_COST)) {
+                return reject('INSUFFICIENT_FUNDS', 'Cannot afford nuclear launch');
+            }
+            const dist = getDistanceKm(silo.position.lat, silo.position.lng, payload.targetLat, payload.targetLng);
+            if (dist > NUKE_CONFIG.MAX_RANGE_KM) {
+                return reject('OUT_OF_RANGE', `Target ${Math.round(dist)}km away (max ${NUKE_CONFIG.MAX_RANGE_KM}km)`);
+            }
+            return ok;
+        }
+
+        case 'SELECT_BASE': {
+            const payload = action.payload as SelectBasePayload;
+            const poi = state.pois.find(p => p.id === payload.poiId);
+            if (!poi || !payload.hqUnitId) return reject('UNKNOWN_ENTITY', `City ${payload.poiId} does not exist`);
+            if (poi.type !== POIType.CITY) return reject('INVALID_PLACEMENT', 'HQ must be placed in a city');
+            if (poi.ownerFactionId && poi.ownerFactionId !== 'NEUTRAL' && poi.ownerFactionId !== action.playerId) {
+                return reject('NOT_OWNER', `${poi.name} is already owned`);
+            }
+            if (state.units.some(u => u.id === payload.hqUnitId)) {
+                return reject('DUPLICATE_ID', `Unit ID ${payload.hqUnitId} already exists`);
+            }
+            return ok;
+        }
+
+        case 'CLAIM_POI': {
+            const payload = action.payload as ClaimPOIPayload;
+            if (payload.factionId !== action.playerId) {
+                return reject('NOT_OWNER', 'Cannot claim POIs for another faction');
+            }
+            if (!state.pois.some(p => p.id === payload.poiId)) {
+                return reject('UNKNOWN_ENTITY', `POI ${payload.poiId} does not exist`);
+            }
+            return ok;
+        }
+
+        case 'LOAD_UNITS': {
+            const payload = action.payload as LoadUnitsPayload;
+            const transport = findOwnedTransport(state, action.playerId, payload.transportId);
+            if (isRejection(transport)) return transport;
+            const notOwned = validateOwnedUnits(state, action.playerId, payload.unitIds);
+            if (notOwned) return notOwned;
+
+            const candidates = state.units.filter(u => payload.unitIds.includes(u.id) && canCarry(transport, u) && !u.isLoaded);
+            if (candidates.length === 0) {
+                return reject('INVALID_PAYLOAD', `No selected unit can board ${transport.unitClass}`);
+            }
+            if ((transport.cargoUnits?.length || 0) >= getCargoCapacity(transport.unitClass)) {
+                return reject('INVALID_PAYLOAD', `${transport.unitClass} is full`);
+            }
+            const inReach = candidates.some(u =>
+                getDistanceKm(u.position.lat, u.position.lng, transport.position.lat, transport.position.lng) <= CARGO_CONFIG.MAX_BOARDING_DISTANCE_KM
+            );
+            if (!inReach) return reject('OUT_OF_RANGE', 'Units are too far from the transport');
+            return ok;
+        }
+
+        case 'UNLOAD_UNITS': {
+            const payload = action.payload as UnloadUnitsPayload;
+            const transport = findOwnedTransport(state, action.playerId, payload.transportId);
+            if (isRejection(transport)) return transport;
+            if (!transport.cargoUnits || transport.cargoUnits.length === 0) {
+                return reject('INVALID_PAYLOAD', `${transport.unitClass} has no cargo`);
+            }
+            const hasTarget = payload.targetLat !== undefined || payload.targetLng !== undefined;
+            if (hasTarget && !isFiniteCoord(payload.targetLat, payload.targetLng)) {
+                return reject('INVALID_PAYLOAD', 'Invalid sortie target');
+            }
+            // Launched aircraft without a target would just land again
+            if (transport.unitClass === UnitClass.AIRCRAFT_CARRIER && !hasTarget) {
+                return reject('INVALID_PAYLOAD', 'Carrier sorties need a target');
+            }
+            return ok;
+        }
+
+        case 'AIRDROP': {
+            const payload = action.payload as AirdropPayload;
+            if (!isFiniteCoord(payload.targetLat, payload.targetLng)) {
+                return reject('INVALID_PAYLOAD', 'Invalid drop zone');
+            }
+            const transport = findOwnedTransport(state, action.playerId, payload.transportId);
+            if (isRejection(transport)) return transport;
+            if (transport.unitClass !== UnitClass.TROOP_TRANSPORT) {
+                return reject('INVALID_PAYLOAD', `${transport.unitClass} cannot airdrop`);
+            }
+            const paratroopers = (transport.cargoUnits || []).some(id => {
+                const unit = state.units.find(u => u.id === id);
+                return !!unit && CARGO_CONFIG.AIRDROP_CLASSES.includes(unit.unitClass);
+            });
+            if (!paratroopers) return reject('INVALID_PAYLOAD', 'No paratroopers aboard');
+            return ok;
+        }
+
+        case 'LAY_MINE': {
+            const payload = action.payload as LayMinePayload;
+            if (!payload.mineId) return reject('INVALID_PAYLOAD', 'Missing mine ID');
+            if ((state.mines || []).some(m => m.id === payload.mineId)) {
+                return reject('DUPLICATE_ID', `Mine ID ${payload.mineId} already exists`);
+            }
+            const layer = state.units.find(u => u.id === payload.layerId);
+            if (!layer || layer.unitClass !== UnitClass.MINELAYER) {
+                return reject('UNKNOWN_ENTITY', `Minelayer ${payload.layerId} does not exist`);
+            }
+            if (layer.factionId !== action.playerId) return reject('NOT_OWNER', 'Minelayer belongs to another faction');
+            if (layer.mineCooldown && layer.mineCooldown > 0) return reject('ON_COOLDOWN', 'Minelayer is reloading');
+            const ownMines = (state.mines || []).filter(m => m.factionId === action.playerId).length;
+            if (ownMines >= MINE_CONFIG.MAX_MINES_PER_FACTION) {
+                return reject('INVALID_PLACEMENT', `Mine limit reached (${MINE_CONFIG.MAX_MINES_PER_FACTION})`);
+            }
+            if (!canAfford(state, action.playerId, MINE_CONFIG.LAY_COST)) {
+                return reject('INSUFFICIENT_FUNDS', 'Cannot afford mine');
+            }
+            return ok;
+        }
+
+        case 'SWEEP_MINES': {
+            const payload = action.payload as SweepMinesPayload;
+            const sweeper = state.units.find(u => u.id === payload.unitId);
+            if (!sweeper || sweeper.unitClass !== UnitClass.DESTROYER) {
+                return reject('UNKNOWN_ENTITY', `Destroyer ${payload.unitId} does not exist`);
+            }
+            if (sweeper.factionId !== action.playerId) return reject('NOT_OWNER', 'Destroyer belongs to another faction');
+            if (sweeper.mineCooldown && sweeper.mineCooldown > 0) return reject('ON_COOLDOWN', 'Minesweep gear is resetting');
+            return ok;
+        }
+
+        case 'PROPOSE_TREATY': {
+            const payload = action.payload as ProposeTreatyPayload;
+            const diplomacy = getDiplomacy(state);
+            if (!payload.proposalId || !(payload.treatyType in TREATY_CONFIG.DEFAULT_DURATION_TICKS)) {
+                return reject('INVALID_PAYLOAD', 'Invalid treaty proposal');
+            }
+            const target = state.factions.find(f => f.id === payload.toFactionId);
+            if (!target || target.id === action.playerId || target.type === 'NEUTRAL') {
+                return reject('UNKNOWN_PLAYER', `Cannot propose a treaty to ${payload.toFactionId}`);
+            }
+            if (!Number.isInteger(payload.durationTicks) ||
+                payload.durationTicks < TREATY_CONFIG.MIN_DURATION_TICKS || payload.durationTicks > TREATY_CONFIG.MAX_DURATION_TICKS) {
+                return reject('INVALID_PAYLOAD', `Invalid treaty duration ${payload.durationTicks}`);
+            }
+            if (payload.treatyType === 'TRIBUTE') {
+                const tribute = payload.tribute;
+                const validAmount = (v: unknown) => Number.isInteger(v) && (v as number) >= 0 && (v as number) <= TREATY_CONFIG.MAX_TRIBUTE_PAYMENT;
+                if (!tribute || ![action.playerId, target.id].includes(tribute.payerId) ||
+                    !validAmount(tribute.gold) || !validAmount(tribute.oil) || tribute.gold + tribute.oil === 0) {
+                    return reject('INVALID_PAYLOAD', 'Invalid tribute terms');
+                }
+            }
+            if (diplomacy.proposals.some(p => p.id === payload.proposalId) || diplomacy.treaties.some(t => t.id === payload.proposalId)) {
+                return reject('DUPLICATE_ID', `Proposal ID ${payload.proposalId} already exists`);
+            }
+            if (diplomacy.proposals.some(p => p.fromFactionId === action.playerId && p.toFactionId === target.id && p.type === payload.treatyType)) {
+                return reject('ON_COOLDOWN', `Already waiting for ${target.name} to answer`);
+            }
+            return ok;
+        }
+
+        case 'ACCEPT_TREATY':
+        case 'REJECT_TREATY': {
+            const payload = action.payload as RespondTreatyPayload;
+            const proposal = getDiplomacy(state).proposals.find(p => p.id === payload.proposalId);
+            if (!proposal) return reject('UNKNOWN_ENTITY', `Proposal ${payload.proposalId} does not exist`);
+            const mayAnswer = proposal.toFactionId === action.playerId ||
+                (action.actionType === 'REJECT_TREATY' && proposal.fromFactionId === action.playerId);
+            if (!mayAnswer) return reject('NOT_OWNER', 'Proposal is addressed to another faction');
+            return ok;
+        }
+
+        case 'TRANSFER_RESOURCES': {
+            const payload = action.payload as TransferResourcesPayload;
+            const validAmount = (v: unknown) => Number.isInteger(v) && (v as number) >= 0 && (v as number) <= TEAM_CONFIG.MAX_TRANSFER;
+            if (!validAmount(payload.gold) || !validAmount(payload.oil) || payload.gold + payload.oil === 0) {
+                return reject('INVALID_PAYLOAD', 'Invalid transfer amount');
+            }
+            if (!state.factions.some(f => f.id === payload.toFactionId) || payload.toFactionId === action.playerId) {
+                return reject('UNKNOWN_PLAYER', `No faction ${payload.toFactionId}`);
+            }
+            if (!isAllied(state, action.playerId, payload.toFactionId)) {
+                return reject('INVALID_PAYLOAD', 'Resources can only be sent to allies');
+            }
+            if (!canAfford(state, action.playerId, { gold: payload.gold, oil: payload.oil })) {
+                return reject('INSUFFICIENT_FUNDS', 'Cannot afford transfer');
+            }
+            return ok;
+        }
+
+        default:
+            return reject('INVALID_PAYLOAD', `Unknown action type ${(action as GameAction).actionType}`);
+    }
+}
+
+// ============================================
+// CLIENT-SIDE ROLLBACK
+// ============================================
+
+/**
+ * Undo the effects of an optimistically applied action that the host rejected.
+ *
+ * `before`/`after` are the states immediately around the optimistic apply;
+ * `current` may already contain later host updates. Only entities the action
+ * touched are reverted - positions/HP keep their current values because the
+ * host kept simulating them.
+ */
+export function revertOptimisticAction(current: GameState, before: GameState, after: GameState, action: GameAction): GameState {
+    const beforeUnits = new Map(before.units.map(u => [u.id, u]));
+    const afterUnits = new Map(after.units.map(u => [u.id, u]));
+
+    // Units created by the action are removed; units it modified get their old orders back
+    const units = current.units
+        .filter(u => !(afterUnits.has(u.id) && !beforeUnits.has(u.id)))
+        .map(u => {
+            const old = beforeUnits.get(u.id);
+            if (!old || old === afterUnits.get(u.id)) return u;
+            return { ...old, position: u.position, heading: u.heading, hp: u.hp, visualPosition: u.visualPosition, visualHeading: u.visualHeading };
+        });
+
+    // POIs the action changed go back to their previous owner
+    const beforePois = new Map(before.pois.map(p => [p.id, p]));
+    const afterPois = new Map(after.pois.map(p => [p.id, p]));
+    const pois = current.pois.map(p => {
+        const old = beforePois.get(p.id);
+        if (!old || old === afterPois.get(p.id)) return p;
+        return { ...p, ownerFactionId: old.ownerFactionId, tier: old.tier };
+    });
+
+    // Refund whatever the optimistic apply deducted
+    const beforeFaction = before.factions.find(f => f.id === action.playerId);
+    const afterFaction = after.factions.find(f => f.id === action.playerId);
+    const goldRefund = (beforeFaction?.gold ?? 0) - (afterFaction?.gold ?? 0);
+    const oilRefund = (beforeFaction?.oil ?? 0) - (afterFaction?.oil ?? 0);
+    const factions = current.factions.map(f => f.id === action.playerId
+        ? { ...f, gold: f.gold + goldRefund, oil: (f.oil || 0) + oilRefund }
+        : f
+    );
+
+    const playerResources = action.playerId === current.localPlayerId
+        ? {
+            ...current.playerResources,
+            gold: current.playerResources.gold + (before.playerResources.gold - after.playerResources.gold),
+            oil: current.playerResources.oil + (before.playerResources.oil - after.playerResources.oil)
+        }
+        : current.playerResources;
+
+    // Nukes launched by the action never left the silo
+    const beforeNukeIds = new Set((before.nukesInFlight || []).map(n => n.id));
+    const addedNukeIds = new Set((after.nukesInFlight || []).filter(n => !beforeNukeIds.has(n.id)).map(n => n.id));
+    const nukesInFlight = (current.nukesInFlight || []).filter(n => !addedNukeIds.has(n.id));
+
+    // Mines laid by the action disappear, mines it swept come back
+    const beforeMineIds = new Set((before.mines || []).map(m => m.id));
+    const afterMineIds = new Set((after.mines || []).map(m => m.id));
+    const currentMineIds = new Set((current.mines || []).map(m => m.id));
+    const mines = [
+        ...(current.mines || []).filter(m => beforeMineIds.has(m.id) || !afterMineIds.has(m.id)),
+        ...(before.mines || []).filter(m => !afterMineIds.has(m.id) && !currentMineIds.has(m.id))
+    ];
+
+    // Treaty actions only touch diplomacy; the host's next sync corrects relations
+    const diplomacy = ['PROPOSE_TREATY', 'ACCEPT_TREATY', 'REJECT_TREATY'].includes(action.actionType)
+        ? before.diplomacy
+        : current.diplomacy;
+
+    return { ...current, units, pois, factions, playerResources, nukesInFlight, mines, diplomacy };
+}
@@ -2,6 +2,8 @@
 import { GameState, Faction, POIType, UnitClass, Difficulty, BotPersonality } from '../types';
 import { AI_CONFIG, UNIT_CONFIG, POI_CONFIG, DIFFICULTY_CONFIG, PERSONALITY_CONFIG } from '../constants';
 import { spawnUnit } from './gameLogic';
+import { SimClock, SimRandom } from './deterministic';
+import { AIDirectorSnapshot } from './schemas';
 
 // AI DIRECTOR: Manages pacing, waves, and overall difficulty
 // This is the "Left 4 Dead" style director that keeps tension high
@@ -20,8 +22,25 @@ export class AIDirector {
         return AIDirector.instance;
     }
 
+    /** Pacing counters (for replays and save games). */
+    public getSnapshot(): AIDirectorSnapshot {
+        return { intensity: this.intensity, lastWaveTime: this.lastWaveTime, waveNumber: this.waveNumber };
+    }
+
+    /** Resume pacing from a snapshot taken by getSnapshot(). */
+    public restore(snapshot: AIDirectorSnapshot): void {
+        this.intensity = snapshot.intensity;
+        this.lastWaveTime = snapshot.lastWaveTime;
+        this.waveNumber = snapshot.waveNumber;
+    }
+
+    /** Pacing for a fresh match. */
+    public reset(): void {
+        this.restore({ intensity: 0, lastWaveTime: 0, waveNumber: 0 });
+    }
+
     public update(gameState: GameState): GameState {
-        const now = Date.now();
+        const now = SimClock.now();
         const config = DIFFICULTY_CONFIG[gameState.difficulty || Difficulty.MEDIUM];
 
         // 1. Track Intensity (based on combat activity)
@@ -33,6 +52,11 @@ export class AIDirector {
         }
 
         // 2. Wave Spawning (Aggressive)
+        // Simulation clock restarts with every new game - reset pacing
+        if (now < this.lastWaveTime) {
+            this.lastWaveTime = 0;
+            this.waveNumber = 0;
+        }
         const timeSinceLastWave = now - this.lastWaveTime;
         const waveInterval = config.WAVE_INTERVAL_MS;
 
@@ -58,13 +82,13 @@ export class AIDirector {
         if (botFactions.length === 0) return gameState;
 
         // Pick a random bot faction
-        const faction = botFactions[Math.floor(Math.random() * botFactions.length)];
+        const faction = botFactions[SimRandom.int(botFactions.length)];
 
         // Find spawn points (faction's cities)
         const myCities = gameState.pois.filter(p => p.ownerFactionId === faction.id && p.type === POIType.CITY);
         if (myCities.length === 0) return gameState;
 
-        const spawnCity = myCities[Math.floor(Math.random() * myCities.length)];
+        const spawnCity = myCities[SimRandom.int(myCities.length)];
 
         // Calculate wave size based on difficulty and time
         const baseSize = gameState.difficulty === Difficulty.EASY ? 2 :
@@ -111,7 +135,7 @@ export class AIDirector {
             );
 
             let unitType: UnitClass;
-            const rand = Math.random();
+            const rand = SimRandom.next();
 
             // Personality-based unit selection
             if (personality === BotPersonality.AGGRESSIVE) {
@@ -141,8 +165,8 @@ export class AIDirector {
                 else unitType = UnitClass.INFANTRY;
             }
 
-            const offsetLat = (Math.random() - 0.5) * 0.05;
-            const offsetLng = (Math.random() - 0.5) * 0.05;
+            const offsetLat = SimRandom.jitter(0.05);
+            const offsetLng = SimRandom.jitter(0.05);
 
             const unit = spawnUnit(unitType, spawnCity.position.lat + offsetLat, spawnCity.position.lng + offsetLng, faction.id);
 
@@ -170,10 +194,10 @@ export class AIDirector {
         // Alert message with personality info
         const personalityName = PERSONALITY_CONFIG[personality]?.name || 'Unknown';
         const newMessages = [...gameState.messages, {
-            id: Math.random().toString(),
+            id: SimRandom.id(),
             text: `[INTEL] ${faction.name} (${personalityName}) is launching an assault! (Wave ${this.waveNumber + 1})`,
             type: 'alert',
-            timestamp: Date.now()
+            timestamp: SimClock.now()
         } as any];
 
         return { ...gameState, units: newUnits, messages: newMessages };
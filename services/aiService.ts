@@ -3,6 +3,8 @@ import { UNIT_CONFIG, POI_CONFIG, DIPLOMACY, AI_CONFIG, GAME_TICK_MS, DIFFICULTY
 import { spawnUnit, getNearbyUnits, getDistanceKm } from './gameLogic';
 import { AIDirector } from './aiDirector';
 import { updateAdvancedBotAI } from './AdvancedBotAI';
+import { SimRandom } from './deterministic';
+import { isUnitDetectedBy } from './stealthService';
 
 // ===========================================
 // SMART AI CONFIGURATION
@@ -83,7 +85,8 @@ const evaluateSituation = (faction: Faction, gameState: GameState): StrategicSit
   const enemyUnits = gameState.units.filter(u =>
     u.factionId !== faction.id &&
     u.factionId !== 'NEUTRAL' &&
-    (faction.relations[u.factionId] || 0) <= DIPLOMACY.WAR_THRESHOLD
+    (faction.relations[u.factionId] || 0) <= DIPLOMACY.WAR_THRESHOLD &&
+    isUnitDetectedBy(u, faction.id, gameState.gameTick)
   );
 
   const neutralCities = gameState.pois.filter(p =>
@@ -281,7 +284,7 @@ const executeSmartProduction = (faction: Faction, gameState: GameState, situatio
         return cost && spendableGold >= cost.gold && (faction.oil || 0) >= (cost.oil || 0);
       });
       if (candidates.length > 0) {
-        unitType = candidates[Math.floor(Math.random() * candidates.length)];
+        unitType = candidates[SimRandom.int(candidates.length)];
         break;
       }
     }
@@ -293,9 +296,9 @@ const executeSmartProduction = (faction: Faction, gameState: GameState, situatio
   if (!cost) return gameState;
 
   // Spawn near a city
-  const spawnCity = situation.myCities[Math.floor(Math.random() * situation.myCities.length)];
-  const offsetLat = (Math.random() - 0.5) * 0.02;
-  const offsetLng = (Math.random() - 0.5) * 0.02;
+  const spawnCity = situation.myCities[SimRandom.int(situation.myCities.length)];
+  const offsetLat = SimRandom.jitter(0.02);
+  const offsetLng = SimRandom.jitter(0.02);
 
   const newUnit = spawnUnit(unitType, spawnCity.position.lat + offsetLat, spawnCity.position.lng + offsetLng, faction.id);
 
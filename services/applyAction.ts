@@ -1,7 +1,14 @@
 import { GameState, UnitClass, POIType, NuclearMissile, Faction } from '../types';
-import { GameAction, SpawnUnitPayload, MoveUnitsPayload, AttackTargetPayload, BuildStructurePayload, SelectBasePayload, ClaimPOIPayload, LaunchNukePayload } from './schemas';
+import { GameAction, QueueProductionPayload, CancelProductionPayload, SetRallyPointPayload, MoveUnitsPayload, QueueOrdersPayload, AttackTargetPayload, SetStancePayload, BuildStructurePayload, SelectBasePayload, ClaimPOIPayload, LaunchNukePayload, LoadUnitsPayload, UnloadUnitsPayload, AirdropPayload, LayMinePayload, SweepMinesPayload, ProposeTreatyPayload, RespondTreatyPayload, TransferResourcesPayload } from './schemas';
+import { canCarry, getFreeCargoSlots, unloadCargo } from './cargoService';
+import { getSweepableMines } from './mineService';
+import { queueProduction, cancelProduction } from './productionService';
+import { getDiplomacy, signTreaty, declineProposal, TREATY_NAMES } from './diplomacyService';
 import { spawnUnit } from './gameLogic';
-import { UNIT_CONFIG, NUKE_CONFIG } from '../constants';
+import { planUnitPath } from './pathfindingService';
+import { CLEARED_ORDERS, getOrderName } from './orderQueueService';
+import { UNIT_CONFIG, NUKE_CONFIG, MINE_CONFIG, TREATY_CONFIG, ORDER_QUEUE_CONFIG } from '../constants';
+import { SimClock, SimRandom, beginActionStep } from './deterministic';
 
 /**
  * Calculate formation positions for units
@@ -94,6 +101,9 @@ function calculateFormationOffsets(
 export function applyAction(state: GameState, action: GameAction): GameState {
     console.log('[APPLY ACTION]', action.actionType, 'from', action.playerId);
 
+    // Clock + PRNG derived from (seed, tick, actionId) so replays match
+    beginActionStep(state, action.actionId);
+
     let nextState = { ...state };
 
     // Helper to deduct resources
@@ -121,27 +131,59 @@ export function applyAction(state: GameState, action: GameAction): GameState {
         }
     };
 
-    switch (action.actionType) {
-        case 'SPAWN_UNIT': {
-            const payload = action.payload as SpawnUnitPayload;
-            const stats = UNIT_CONFIG[payload.unitClass];
+    const refundResources = (refund: { gold: number, oil: number }) => {
+        nextState.factions = nextState.factions.map(f => f.id === action.playerId
+            ? { ...f, gold: f.gold + refund.gold, oil: (f.oil || 0) + refund.oil }
+            : f
+        );
+        if (action.playerId === state.localPlayerId) {
+            nextState.playerResources = {
+                ...nextState.playerResources,
+                gold: nextState.playerResources.gold + refund.gold,
+                oil: nextState.playerResources.oil + refund.oil
+            };
+        }
+    };
 
-            // Deduct Resources
-            if (stats && stats.cost) {
-                deductResources(stats.cost);
+    switch (action.actionType) {
+        case 'QUEUE_PRODUCTION': {
+            const payload = action.payload as QueueProductionPayload;
+            const site = nextState.units.find(u => u.id === payload.factoryId && u.factionId === action.playerId);
+            if (!site) break;
+
+            const cost = UNIT_CONFIG[payload.unitClass]?.cost;
+            if (cost) {
+                deductResources(cost);
             }
 
-            const unit = spawnUnit(
-                payload.unitClass,
-                payload.lat,
-                payload.lng,
-                action.playerId
-            );
-            // Use the pre-generated ID for consistency
-            unit.id = payload.unitId;
+            const updated = queueProduction(site, payload.unitClass, payload.unitId, state.gameTick);
+            nextState.units = nextState.units.map(u => u.id === site.id ? updated : u);
+            console.log('[APPLY ACTION] Queued', payload.unitClass, 'at', site.unitClass, '- queue length:', updated.productionQueue!.length);
+            break;
+        }
+
+        case 'CANCEL_PRODUCTION': {
+            const payload = action.payload as CancelProductionPayload;
+            const site = nextState.units.find(u => u.id === payload.factoryId && u.factionId === action.playerId);
+            const result = site && cancelProduction(site, payload.unitId, state.gameTick);
+            if (!result) break;
+
+            refundResources(result.refund);
+            nextState.units = nextState.units.map(u => u.id === site.id ? result.site : u);
+            console.log('[APPLY ACTION] Production cancelled at', site.unitClass, '- refunded', result.refund.gold, 'gold');
+            break;
+        }
 
-            nextState.units = [...nextState.units, unit];
-            console.log('[APPLY ACTION] Unit spawned:', payload.unitClass, 'total units:', nextState.units.length);
+        case 'SET_RALLY_POINT': {
+            const payload = action.payload as SetRallyPointPayload;
+            const rallyPoint = payload.lat !== null && payload.lng !== null ? { lat: payload.lat, lng: payload.lng } : null;
+            nextState.units = nextState.units.map(u => {
+                if (payload.factoryIds.includes(u.id) && u.factionId === action.playerId) {
+                    return { ...u, rallyPoint };
+                }
+                return u;
+            });
+            console.log('[APPLY ACTION] Rally point', rallyPoint ? 'set' : 'cleared', 'for', payload.factoryIds.length, 'structures');
             break;
         }
 
@@ -149,14 +191,18 @@ export function applyAction(state: GameState, action: GameAction): GameState {
             const payload = action.payload as MoveUnitsPayload;
             nextState.units = nextState.units.map(u => {
                 if (payload.unitIds.includes(u.id) && u.factionId === action.playerId) {
+                    // Route around coastlines / continents (aircraft fly straight)
+                    const path = planUnitPath(u, { lat: payload.targetLat, lng: payload.targetLng });
                     return {
                         ...u,
-                        destination: { lat: payload.targetLat, lng: payload.targetLng },
+                        destination: path ? path.goal : { lat: payload.targetLat, lng: payload.targetLng },
+                        path,
                         targetId: null,
                         isBoosting: payload.isBoosting ?? false,
                         autoMode: 'NONE', // Reset to manual on player command
                         autoTarget: false,
-                        formationOffset: undefined // Clear formation - manual override
+                        formationOffset: undefined, // Clear formation - manual override
+                        ...CLEARED_ORDERS
                     };
                 }
                 return u;
@@ -165,6 +211,41 @@ export function applyAction(state: GameState, action: GameAction): GameState {
             break;
         }
 
+        case 'QUEUE_ORDERS': {
+            const payload = action.payload as QueueOrdersPayload;
+            // processOrderQueues starts the order once everything before it is done
+            nextState.units = nextState.units.map(u => {
+                if (payload.unitIds.includes(u.id) && u.factionId === action.playerId) {
+                    if (payload.replace) {
+                        // Stop what the unit is doing so the order starts this tick
+                        return {
+                            ...u,
+                            ...CLEARED_ORDERS,
+                            orderQueue: [{ ...payload.order }],
+                            destination: null,
+                            path: undefined,
+                            targetId: null,
+                            autoMode: 'NONE',
+                            autoTarget: false,
+                            formationOffset: undefined
+                        };
+                    }
+                    const queue = u.orderQueue || [];
+                    if (queue.length >= ORDER_QUEUE_CONFIG.MAX_ORDERS) return u;
+                    return {
+                        ...u,
+                        orderQueue: [...queue, { ...payload.order }],
+                        autoMode: 'NONE', // Reset to manual on player command
+                        autoTarget: false,
+                        formationOffset: undefined
+                    };
+                }
+                return u;
+            });
+            console.log('[APPLY ACTION]', payload.replace ? 'Ordered' : 'Queued', getOrderName(payload.order), 'for', payload.unitIds.length, 'units');
+            break;
+        }
+
         case 'ATTACK_TARGET': {
             const payload = action.payload as AttackTargetPayload;
             nextState.units = nextState.units.map(u => {
@@ -174,10 +255,12 @@ export function applyAction(state: GameState, action: GameAction): GameState {
                     return {
                         ...u,
                         targetId: payload.targetId,
+                        orderedTargetId: payload.targetId,
                         // Keep destination if unit has formation - it was set by handleTargetCommand
                         destination: u.formationOffset ? u.destination : null,
                         autoMode: 'NONE', // Reset to manual on player command
-                        autoTarget: false
+                        autoTarget: false,
+                        ...CLEARED_ORDERS
                     };
                 }
                 return u;
@@ -238,11 +321,11 @@ export function applyAction(state: GameState, action: GameAction): GameState {
             hq.id = payload.hqUnitId;
 
             // Find and claim POI
-            const poi = nextState.pois.find(p => p.id === payload.poiId);
-            if (poi) {
+            const existingPoi = nextState.pois.find(p => p.id === payload.poiId);
+            if (existingPoi) {
+                // Copy instead of mutating - the previous state must stay intact for rollback
+                const poi = { ...existingPoi, ownerFactionId: action.playerId, tier: 1 }; // Upgrade to capital
                 hq.position = { lat: poi.position.lat, lng: poi.position.lng };
-                poi.ownerFactionId = action.playerId;
-                poi.tier = 1; // Upgrade to capital
 
                 nextState.units = [...nextState.units, hq];
                 nextState.pois = nextState.pois.map(p => p.id === poi.id ? poi : p);
@@ -260,10 +343,10 @@ export function applyAction(state: GameState, action: GameAction): GameState {
                 }
 
                 const message = {
-                    id: Math.random().toString(36),
+                    id: SimRandom.id(),
                     text: `${action.playerId} established HQ at ${poi.name}`,
                     type: 'info' as const,
-                    timestamp: Date.now()
+                    timestamp: SimClock.now()
                 };
                 nextState.messages = [...nextState.messages, message];
                 console.log('[APPLY ACTION] Base selected at', poi.name, 'by', action.playerId);
@@ -292,7 +375,9 @@ export function applyAction(state: GameState, action: GameAction): GameState {
             // Find the silo and set its cooldown
             const silo = nextState.units.find(u => u.id === payload.siloId && u.unitClass === UnitClass.MISSILE_SILO);
             if (silo) {
-                silo.cooldown = NUKE_CONFIG.COOLDOWN_TICKS;
+                nextState.units = nextState.units.map(u =>
+                    u.id === silo.id ? { ...u, cooldown: NUKE_CONFIG.COOLDOWN_TICKS } : u
+                );
 
                 // Create nuclear missile in flight
                 const nuke: NuclearMissile = {
@@ -301,7 +386,7 @@ export function applyAction(state: GameState, action: GameAction): GameState {
                     factionId: action.playerId,
                     fromPos: { lat: silo.position.lat, lng: silo.position.lng },
                     toPos: { lat: payload.targetLat, lng: payload.targetLng },
-                    launchTime: Date.now(),
+                    launchTime: SimClock.now(),
                     flightDuration: NUKE_CONFIG.FLIGHT_TIME_MS,
                     progress: 0
                 };
@@ -310,10 +395,10 @@ export function applyAction(state: GameState, action: GameAction): GameState {
 
                 // Add log message
                 const message = {
-                    id: Math.random().toString(36),
+                    id: SimRandom.id(),
                     text: `☢️ NUCLEAR LAUNCH DETECTED!`,
                     type: 'alert' as const,
-                    timestamp: Date.now()
+                    timestamp: SimClock.now()
                 };
                 nextState.messages = [...nextState.messages, message];
                 console.log('[APPLY ACTION] Nuclear missile launched from silo:', payload.siloId);
@@ -330,7 +415,8 @@ export function applyAction(state: GameState, action: GameAction): GameState {
                         autoMode: payload.mode,
                         homePosition: payload.mode !== 'NONE' ? { ...u.position } : undefined,
                         targetId: null,
-                        destination: null
+                        destination: null,
+                        ...CLEARED_ORDERS
                     };
                 }
                 return u;
@@ -339,6 +425,18 @@ export function applyAction(state: GameState, action: GameAction): GameState {
             break;
         }
 
+        case 'SET_STANCE': {
+            const payload = action.payload as SetStancePayload;
+            nextState.units = nextState.units.map(u => {
+                if (payload.unitIds.includes(u.id) && u.factionId === action.playerId) {
+                    return { ...u, stance: payload.stance === 'AGGRESSIVE' ? undefined : payload.stance };
+                }
+                return u;
+            });
+            console.log('[APPLY ACTION] Stance set:', payload.stance, 'for', payload.unitIds.length, 'units');
+            break;
+        }
+
         case 'SET_FORMATION': {
             const payload = action.payload as {
                 unitIds: string[],
@@ -382,6 +480,221 @@ export function applyAction(state: GameState, action: GameAction): GameState {
             console.log('[APPLY ACTION] Formation applied:', payload.formation, 'for', payload.unitIds.length, 'units');
             break;
         }
+
+        case 'LOAD_UNITS': {
+            const payload = action.payload as LoadUnitsPayload;
+            const transport = nextState.units.find(u => u.id === payload.transportId && u.factionId === action.playerId);
+            if (!transport) break;
+
+            // Units walk/fly to the transport; processCargo loads them on contact
+            let freeSlots = getFreeCargoSlots(transport, nextState.units);
+            const boarding = new Set<string>();
+            nextState.units.forEach(u => {
+                if (freeSlots <= 0 || !payload.unitIds.includes(u.id)) return;
+                if (u.isLoaded || u.boardingTransportId === transport.id || !canCarry(transport, u)) return;
+                boarding.add(u.id);
+                freeSlots--;
+            });
+            if (boarding.size === 0) break;
+
+            nextState.units = nextState.units.map(u => {
+                if (boarding.has(u.id)) {
+                    return {
+                        ...u,
+                        boardingTransportId: transport.id,
+                        destination: { ...transport.position },
+                        targetId: null,
+                        autoMode: 'NONE' as const,
+                        ...CLEARED_ORDERS
+                    };
+                }
+                if (u.id === transport.id) {
+                    return { ...u, transportState: 'LOADING' as const };
+                }
+                return u;
+            });
+            console.log('[APPLY ACTION] Boarding', boarding.size, 'units onto', transport.unitClass, transport.id);
+            break;
+        }
+
+        case 'UNLOAD_UNITS': {
+            const payload = action.payload as UnloadUnitsPayload;
+            const transport = nextState.units.find(u => u.id === payload.transportId && u.factionId === action.playerId);
+            if (!transport) break;
+
+            const sortieTarget = payload.targetLat !== undefined && payload.targetLng !== undefined
+                ? { lat: payload.targetLat, lng: payload.targetLng }
+                : undefined;
+            const result = unloadCargo(nextState.units, transport.id, nextState.pois, { sortieTarget });
+            nextState.units = result.units;
+
+            if (result.unloaded === 0 && transport.cargoUnits && transport.cargoUnits.length > 0) {
+                nextState.messages = [...nextState.messages, {
+                    id: SimRandom.id(),
+                    text: `${transport.unitClass.replace(/_/g, ' ')} cannot unload here`,
+                    type: 'alert' as const,
+                    timestamp: SimClock.now()
+                }];
+            }
+            console.log('[APPLY ACTION] Unloaded', result.unloaded, 'units from', transport.id, '- remaining:', result.remaining);
+            break;
+        }
+
+        case 'AIRDROP': {
+            const payload = action.payload as AirdropPayload;
+            // Transport flies to the drop zone; processCargo drops paratroopers on arrival
+            nextState.units = nextState.units.map(u => {
+                if (u.id === payload.transportId && u.factionId === action.playerId) {
+                    return {
+                        ...u,
+                        transportState: 'DROPPING' as const,
+                        dropZone: { lat: payload.targetLat, lng: payload.targetLng },
+                        destination: { lat: payload.targetLat, lng: payload.targetLng },
+                        targetId: null,
+                        ...CLEARED_ORDERS
+                    };
+                }
+                return u;
+            });
+            console.log('[APPLY ACTION] Airdrop ordered at', payload.targetLat.toFixed(2), payload.targetLng.toFixed(2));
+            break;
+        }
+
+        case 'LAY_MINE': {
+            const payload = action.payload as LayMinePayload;
+            const layer = nextState.units.find(u => u.id === payload.layerId && u.unitClass === UnitClass.MINELAYER);
+            if (!layer || layer.factionId !== action.playerId) break;
+
+            deductResources(MINE_CONFIG.LAY_COST);
+            nextState.units = nextState.units.map(u =>
+                u.id === layer.id ? { ...u, mineCooldown: MINE_CONFIG.LAY_COOLDOWN_TICKS } : u
+            );
+            nextState.mines = [...(nextState.mines || []), {
+                id: payload.mineId,
+                factionId: action.playerId,
+                position: { lat: layer.position.lat, lng: layer.position.lng },
+                layerId: layer.id,
+                laidAt: SimClock.now(),
+                revealedTo: []
+            }];
+            console.log('[APPLY ACTION] Mine laid by', layer.id, 'at', layer.position.lat.toFixed(2), layer.position.lng.toFixed(2));
+            break;
+        }
+
+        case 'SWEEP_MINES': {
+            const payload = action.payload as SweepMinesPayload;
+            const sweeper = nextState.units.find(u => u.id === payload.unitId && u.unitClass === UnitClass.DESTROYER);
+            if (!sweeper || sweeper.factionId !== action.playerId) break;
+
+            const cleared = new Set(getSweepableMines(nextState.mines || [], action.playerId, sweeper.position).map(m => m.id));
+            nextState.mines = (nextState.mines || []).filter(m => !cleared.has(m.id));
+            nextState.units = nextState.units.map(u =>
+                u.id === sweeper.id ? { ...u, mineCooldown: MINE_CONFIG.SWEEP_COOLDOWN_TICKS } : u
+            );
+            nextState.messages = [...nextState.messages, {
+                id: SimRandom.id(),
+                text: cleared.size > 0 ? `Minesweep cleared ${cleared.size} mines` : 'Minesweep found no mines',
+                type: cleared.size > 0 ? 'success' as const : 'info' as const,
+                timestamp: SimClock.now()
+            }];
+            console.log('[APPLY ACTION] Minesweep by', sweeper.id, 'cleared', cleared.size, 'mines');
+            break;
+        }
+
+        case 'PROPOSE_TREATY': {
+            const payload = action.payload as ProposeTreatyPayload;
+            const diplomacy = getDiplomacy(nextState);
+            nextState.diplomacy = {
+                ...diplomacy,
+                proposals: [...diplomacy.proposals, {
+                    id: payload.proposalId,
+                    type: payload.treatyType,
+                    fromFactionId: action.playerId,
+                    toFactionId: payload.toFactionId,
+                    durationTicks: payload.durationTicks,
+                    tribute: payload.treatyType === 'TRIBUTE' ? payload.tribute : undefined,
+                    createdTick: nextState.gameTick,
+                    expiresTick: nextState.gameTick + TREATY_CONFIG.PROPOSAL_TIMEOUT_TICKS
+                }]
+            };
+            if (payload.toFactionId === nextState.localPlayerId) {
+                const from = nextState.factions.find(f => f.id === action.playerId);
+                nextState.messages = [...nextState.messages, {
+                    id: SimRandom.id(),
+                    text: `${TREATY_NAMES[payload.treatyType]} proposed by ${from?.name || action.playerId}`,
+                    type: 'info' as const,
+                    timestamp: SimClock.now()
+                }];
+            }
+            console.log('[APPLY ACTION] Treaty proposed:', payload.treatyType, action.playerId, '->', payload.toFactionId);
+            break;
+        }
+
+        case 'ACCEPT_TREATY': {
+            const payload = action.payload as RespondTreatyPayload;
+            const diplomacy = getDiplomacy(nextState);
+            const proposal = diplomacy.proposals.find(p => p.id === payload.proposalId);
+            if (!proposal || proposal.toFactionId !== action.playerId) break;
+
+            const result = signTreaty(diplomacy, nextState.factions, proposal, nextState.gameTick, (text, type) => {
+                nextState.messages = [...nextState.messages, { id: SimRandom.id(), text, type, timestamp: SimClock.now() }];
+            });
+            nextState.diplomacy = result.diplomacy;
+            nextState.factions = result.factions;
+            console.log('[APPLY ACTION] Treaty signed:', proposal.type, proposal.fromFactionId, '<->', proposal.toFactionId);
+            break;
+        }
+
+        case 'REJECT_TREATY': {
+            const payload = action.payload as RespondTreatyPayload;
+            const diplomacy = getDiplomacy(nextState);
+            const proposal = diplomacy.proposals.find(p => p.id === payload.proposalId);
+            if (!proposal) break;
+
+            nextState.diplomacy = declineProposal(diplomacy, proposal.id);
+            if (proposal.fromFactionId === nextState.localPlayerId && action.playerId !== nextState.localPlayerId) {
+                const by = nextState.factions.find(f => f.id === action.playerId);
+                nextState.messages = [...nextState.messages, {
+                    id: SimRandom.id(),
+                    text: `${by?.name || action.playerId} rejected the ${TREATY_NAMES[proposal.type]}`,
+                    type: 'info' as const,
+                    timestamp: SimClock.now()
+                }];
+            }
+            console.log('[APPLY ACTION] Treaty proposal', proposal.id, action.playerId === proposal.fromFactionId ? 'withdrawn' : 'rejected');
+            break;
+        }
+
+        case 'TRANSFER_RESOURCES': {
+            const payload = action.payload as TransferResourcesPayload;
+            const sender = nextState.factions.find(f => f.id === action.playerId);
+            const recipient = nextState.factions.find(f => f.id === payload.toFactionId);
+            if (!sender || !recipient) break;
+
+            // Never send more than the sender holds
+            const gold = Math.min(payload.gold, sender.gold);
+            const oil = Math.min(payload.oil, sender.oil || 0);
+            deductResources({ gold, oil });
+            nextState.factions = nextState.factions.map(f => f.id === recipient.id
+                ? { ...f, gold: f.gold + gold, oil: (f.oil || 0) + oil }
+                : f
+            );
+            if (recipient.id === nextState.localPlayerId) {
+                nextState.playerResources = {
+                    ...nextState.playerResources,
+                    gold: nextState.playerResources.gold + gold,
+                    oil: nextState.playerResources.oil + oil
+                };
+                nextState.messages = [...nextState.messages, {
+                    id: SimRandom.id(),
+                    text: `${sender.name} sent you ${gold} gold and ${oil} oil`,
+                    type: 'success' as const,
+                    timestamp: SimClock.now()
+                }];
+            }
+            console.log('[APPLY ACTION] Transfer', gold, 'gold /', oil, 'oil from', action.playerId, 'to', recipient.id);
+            break;
+        }
     }
 
     return nextState;
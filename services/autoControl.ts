@@ -1,6 +1,8 @@
-import { GameState, GameUnit, UnitClass, POIType, POI } from '../types';
+import { GameState, GameUnit, UnitClass, UnitStance, POIType, POI } from '../types';
 import { getDistanceKm } from './gameLogic';
 import { UNIT_CONFIG, DIPLOMACY } from '../constants';
+import { SimRandom } from './deterministic';
+import { isUnitDetectedBy } from './stealthService';
 
 // ===========================================
 // AUTO-CONTROL SERVICE
@@ -12,6 +14,31 @@ import { UNIT_CONFIG, DIPLOMACY } from '../constants';
 
 const DEFEND_RADIUS = 80; // km - defend/patrol radius around home
 
+// ===========================================
+// STANCES
+// ===========================================
+// Stances narrow what a unit engages on its own (auto-modes, auto-target,
+// retaliation, attack-move). Targets the player picked are always pursued.
+
+export const getStance = (unit: GameUnit): UnitStance => unit.stance || 'AGGRESSIVE';
+
+/**
+ * May `unit` open fire on `enemy` (distKm away) without being told to?
+ */
+export function mayEngage(unit: GameUnit, enemy: GameUnit, distKm: number): boolean {
+    switch (getStance(unit)) {
+        case 'HOLD_POSITION': return distKm <= unit.range;
+        case 'RETURN_FIRE': return enemy.id === unit.lastAttackerId && distKm <= unit.range;
+        default: return true;
+    }
+}
+
+/**
+ * May `unit` move after `targetId` once it is out of range?
+ */
+export const mayChase = (unit: GameUnit, targetId: string | null | undefined): boolean =>
+    getStance(unit) === 'AGGRESSIVE' || (!!targetId && targetId === unit.orderedTargetId);
+
 // ===========================================
 // FOCUS FIRE SYSTEM
 // ===========================================
@@ -96,11 +123,13 @@ export const processPlayerAutoControl = (gameState: GameState): GameState => {
         // If target still alive, don't reassign (let combat continue)
         if (currentTarget) return;
 
-        // Find all enemies (anyone not on same faction and not pure NEUTRAL)
+        // Find all enemies (anyone not on same faction and not pure NEUTRAL) the stance lets us engage
         const enemies = gameState.units.filter(u =>
             u.factionId !== unit.factionId &&
             u.factionId !== 'NEUTRAL' && // Don't attack pure NEUTRAL
-            u.hp > 0
+            u.hp > 0 &&
+            isUnitDetectedBy(u, unit.factionId, gameState.gameTick) &&
+            mayEngage(unit, u, getDistanceKm(unit.position.lat, unit.position.lng, u.position.lat, u.position.lng))
         );
 
         const unitStats = UNIT_CONFIG[unit.unitClass];
@@ -152,8 +181,8 @@ export const processPlayerAutoControl = (gameState: GameState): GameState => {
                         };
                     } else if (!unit.destination) {
                         // Patrol small area around home only (10-30km)
-                        const angle = Math.random() * Math.PI * 2;
-                        const dist = 10 + Math.random() * 20;
+                        const angle = SimRandom.next() * Math.PI * 2;
+                        const dist = 10 + SimRandom.next() * 20;
                         updatedUnits[unitIdx] = {
                             ...updatedUnits[unitIdx],
                             destination: {
@@ -242,9 +271,9 @@ export const processPlayerAutoControl = (gameState: GameState): GameState => {
                     // Patrol territory - move to a random owned POI or patrol point
                     if (ownedPOIs.length > 0) {
                         // Pick a random owned POI as patrol waypoint
-                        const patrolTarget = ownedPOIs[Math.floor(Math.random() * ownedPOIs.length)];
-                        const offsetLat = (Math.random() - 0.5) * 0.1; // Small offset
-                        const offsetLng = (Math.random() - 0.5) * 0.1;
+                        const patrolTarget = ownedPOIs[SimRandom.int(ownedPOIs.length)];
+                        const offsetLat = SimRandom.jitter(0.1); // Small offset
+                        const offsetLng = SimRandom.jitter(0.1);
                         updatedUnits[unitIdx] = {
                             ...updatedUnits[unitIdx],
                             destination: {
@@ -255,8 +284,8 @@ export const processPlayerAutoControl = (gameState: GameState): GameState => {
                         };
                     } else {
                         // No owned POIs, patrol around home
-                        const angle = Math.random() * Math.PI * 2;
-                        const dist = DEFEND_RADIUS * 0.3 + Math.random() * DEFEND_RADIUS * 0.5;
+                        const angle = SimRandom.next() * Math.PI * 2;
+                        const dist = DEFEND_RADIUS * 0.3 + SimRandom.next() * DEFEND_RADIUS * 0.5;
                         updatedUnits[unitIdx] = {
                             ...updatedUnits[unitIdx],
                             destination: {
@@ -8,6 +8,7 @@
 import { GameState, Faction, POI, POIType, BattleRoyaleState, Scenario, UnitClass } from '../types';
 import { SCENARIOS, FACTION_PRESETS, UNIT_CONFIG } from '../constants';
 import { PhantomHostService } from './phantomHostService';
+import { getScenario } from './scenarioService';
 
 // Callback for when player successfully joins
 type OnJoinSuccessCallback = (gameState: GameState, factionId: string) => void;
@@ -51,7 +52,7 @@ class BattleRoyaleServiceImpl {
         if (!this.state) return null;
         const idx = this.state.currentScenarioIndex % this.state.config.scenarioRotation.length;
         const scenarioId = this.state.config.scenarioRotation[idx];
-        return SCENARIOS[scenarioId as keyof typeof SCENARIOS] || SCENARIOS.WORLD;
+        return getScenario(scenarioId) || SCENARIOS.WORLD;
     }
 
     getRoundTimeRemaining(): number {
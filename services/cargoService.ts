@@ -0,0 +1,226 @@
+// ============================================
+// TRANSPORT & CARRIER CARGO
+// Loading, carrying and unloading units aboard transports/carriers
+// ============================================
+// Loaded units stay in GameState.units with isLoaded=true and ride along at
+// their carrier's position. processGameTick keeps them out of movement,
+// combat, capture and the spatial grid, then calls processCargo once per tick.
+
+import { GameUnit, POI, UnitClass, LogMessage } from '../types';
+import { CARGO_CONFIG } from '../constants';
+import { getDistanceKm } from './gameLogic';
+import { TerrainService } from './terrainService';
+
+type CargoLog = (text: string, type: LogMessage['type']) => void;
+
+/** Max number of units this unit can carry (0 = not a carrier). */
+export function getCargoCapacity(unitClass: UnitClass): number {
+    return CARGO_CONFIG.CAPACITY[unitClass] || 0;
+}
+
+/** Can `unit` ever be carried by `carrier` (class + faction, ignoring capacity/range)? */
+export function canCarry(carrier: GameUnit, unit: GameUnit): boolean {
+    if (carrier.id === unit.id || carrier.factionId !== unit.factionId) return false;
+    const classes = CARGO_CONFIG.CARGO_CLASSES[carrier.unitClass];
+    return !!classes && classes.includes(unit.unitClass);
+}
+
+/** Free slots, counting units already on their way to board. */
+export function getFreeCargoSlots(carrier: GameUnit, units: GameUnit[]): number {
+    const loaded = carrier.cargoUnits?.length || 0;
+    const boarding = units.filter(u => u.boardingTransportId === carrier.id && !u.isLoaded).length;
+    return getCargoCapacity(carrier.unitClass) - loaded - boarding;
+}
+
+const isCarrierClass = (unitClass: UnitClass): boolean => unitClass === UnitClass.AIRCRAFT_CARRIER;
+
+/**
+ * Ground cargo needs dry land under the transport; aircraft can always launch.
+ */
+const canDisembarkAt = (unit: GameUnit, lat: number, lng: number, pois: POI[]): boolean => {
+    if (unit.unitClass === UnitClass.FIGHTER_JET || unit.unitClass === UnitClass.RECON_DRONE) return true;
+    return TerrainService.getTerrainType(lat, lng, pois) !== 'OCEAN';
+};
+
+/**
+ * Take units off a transport/carrier. Returns a new unit list.
+ * @param airdropOnly Only paradrop-capable classes leave (AIRDROP)
+ * @param sortieTarget Carriers: destination for launched aircraft
+ */
+export function unloadCargo(
+    units: GameUnit[],
+    transportId: string,
+    pois: POI[],
+    options: { airdropOnly?: boolean; sortieTarget?: { lat: number; lng: number } } = {}
+): { units: GameUnit[]; unloaded: number; remaining: number } {
+    const transport = units.find(u => u.id === transportId);
+    if (!transport || !transport.cargoUnits || transport.cargoUnits.length === 0) {
+        return { units, unloaded: 0, remaining: 0 };
+    }
+
+    const origin = transport.dropZone && options.airdropOnly ? transport.dropZone : transport.position;
+    const cargoIds = new Set(transport.cargoUnits);
+    const leaving = new Map<string, { lat: number; lng: number }>();
+    const count = transport.cargoUnits.length;
+
+    transport.cargoUnits.forEach((id, index) => {
+        const unit = units.find(u => u.id === id);
+        if (!unit) return;
+        if (options.airdropOnly && !CARGO_CONFIG.AIRDROP_CLASSES.includes(unit.unitClass)) return;
+
+        // Spread units on a ring around the drop point so they don't stack
+        const angle = (index / count) * Math.PI * 2;
+        const pos = {
+            lat: origin.lat + Math.sin(angle) * CARGO_CONFIG.UNLOAD_SPREAD_DEG,
+            lng: origin.lng + Math.cos(angle) * CARGO_CONFIG.UNLOAD_SPREAD_DEG
+        };
+        if (!canDisembarkAt(unit, pos.lat, pos.lng, pois)) return;
+        leaving.set(id, pos);
+    });
+
+    if (leaving.size === 0) {
+        return { units, unloaded: 0, remaining: cargoIds.size };
+    }
+
+    const remainingCargo = transport.cargoUnits.filter(id => !leaving.has(id));
+    const launchesSortie = isCarrierClass(transport.unitClass);
+
+    const nextUnits = units.map(u => {
+        if (u.id === transportId) {
+            return {
+                ...u,
+                cargoUnits: remainingCargo,
+                transportState: remainingCargo.length > 0 ? 'TRANSPORTING' as const : 'IDLE' as const,
+                dropZone: undefined
+            };
+        }
+        const pos = leaving.get(u.id);
+        if (!pos) return u;
+        return {
+            ...u,
+            isLoaded: false,
+            position: pos,
+            visualPosition: pos,
+            destination: launchesSortie && options.sortieTarget ? { ...options.sortieTarget } : null,
+            targetId: null,
+            parentCarrierId: launchesSortie ? transportId : u.parentCarrierId
+        };
+    });
+
+    return { units: nextUnits, unloaded: leaving.size, remaining: remainingCargo.length };
+}
+
+/**
+ * Per-tick cargo step. Call with ALL units (active + loaded) after combat so
+ * carriers killed this tick take their cargo down with them.
+ */
+export function processCargo(units: GameUnit[], pois: POI[], log: CargoLog): GameUnit[] {
+    const byId = new Map<string, GameUnit>();
+    units.forEach(u => byId.set(u.id, u));
+    const update = (id: string, changes: Partial<GameUnit>) => {
+        const unit = byId.get(id);
+        if (unit) byId.set(id, { ...unit, ...changes });
+    };
+
+    // 1. Carriers: destroy cargo of dead carriers, otherwise carry it along
+    units.forEach(carrier => {
+        if (!carrier.cargoUnits || carrier.cargoUnits.length === 0) return;
+
+        if (carrier.hp <= 0) {
+            carrier.cargoUnits.forEach(id => update(id, { hp: 0 }));
+            log(`${carrier.unitClass.replace(/_/g, ' ')} lost with ${carrier.cargoUnits.length} units aboard!`, 'alert');
+            return;
+        }
+
+        carrier.cargoUnits.forEach(id => {
+            if (byId.has(id)) {
+                update(id, { position: { ...carrier.position }, heading: carrier.heading });
+            }
+        });
+        // Forget cargo that no longer exists
+        const present = carrier.cargoUnits.filter(id => byId.has(id));
+        if (present.length !== carrier.cargoUnits.length) {
+            update(carrier.id, { cargoUnits: present });
+        }
+    });
+
+    // Orphaned cargo (carrier vanished without the hp<=0 step above) is lost too
+    units.forEach(u => {
+        if (!u.isLoaded || u.hp <= 0) return;
+        const aboard = units.some(c => c.hp > 0 && c.cargoUnits?.includes(u.id));
+        if (!aboard) update(u.id, { hp: 0 });
+    });
+
+    // 2. Boarding: chase the transport and load when close enough
+    units.forEach(u => {
+        if (!u.boardingTransportId || u.isLoaded || u.hp <= 0) return;
+        const carrier = byId.get(u.boardingTransportId);
+
+        if (!carrier || carrier.hp <= 0 || !canCarry(carrier, u)) {
+            update(u.id, { boardingTransportId: undefined, destination: null });
+            return;
+        }
+
+        const dist = getDistanceKm(u.position.lat, u.position.lng, carrier.position.lat, carrier.position.lng);
+        const loaded = carrier.cargoUnits || [];
+        if (loaded.length >= getCargoCapacity(carrier.unitClass)) {
+            update(u.id, { boardingTransportId: undefined, destination: null });
+            return;
+        }
+
+        if (dist <= CARGO_CONFIG.LOAD_RANGE_KM) {
+            update(u.id, {
+                isLoaded: true,
+                boardingTransportId: undefined,
+                position: { ...carrier.position },
+                destination: null,
+                targetId: null,
+                formationOffset: undefined
+            });
+            update(carrier.id, { cargoUnits: [...loaded, u.id], transportState: 'TRANSPORTING' });
+        } else {
+            update(u.id, { destination: { ...carrier.position } });
+        }
+    });
+
+    // Transports stop waiting once nobody is boarding anymore
+    byId.forEach(carrier => {
+        if (carrier.transportState !== 'LOADING') return;
+        const stillBoarding = units.some(u => byId.get(u.id)?.boardingTransportId === carrier.id);
+        if (!stillBoarding) {
+            update(carrier.id, { transportState: (carrier.cargoUnits?.length || 0) > 0 ? 'TRANSPORTING' : 'IDLE' });
+        }
+    });
+
+    let result = Array.from(byId.values());
+
+    // 3. Airdrops: drop paratroopers once the transport reaches the drop zone
+    result
+        .filter(t => t.hp > 0 && t.transportState === 'DROPPING' && t.dropZone)
+        .forEach(t => {
+            const dist = getDistanceKm(t.position.lat, t.position.lng, t.dropZone!.lat, t.dropZone!.lng);
+            if (dist > CARGO_CONFIG.DROP_ZONE_RADIUS_KM) return;
+
+            const drop = unloadCargo(result, t.id, pois, { airdropOnly: true });
+            result = drop.units.map(u => u.id === t.id
+                ? { ...u, transportState: drop.remaining > 0 ? 'TRANSPORTING' as const : 'IDLE' as const, dropZone: undefined }
+                : u);
+            if (drop.unloaded > 0) {
+                log(`Airdrop complete: ${drop.unloaded} units deployed`, 'success');
+            } else {
+                log('Airdrop aborted: no paratroopers could jump here', 'alert');
+            }
+        });
+
+    // 4. Sorties: idle aircraft return to their carrier
+    result = result.map(u => {
+        if (!u.parentCarrierId || u.isLoaded || u.hp <= 0) return u;
+        if (u.destination || u.targetId || u.boardingTransportId) return u;
+        if (u.autoMode && u.autoMode !== 'NONE') return u;
+        const carrier = byId.get(u.parentCarrierId);
+        if (!carrier || carrier.hp <= 0) return { ...u, parentCarrierId: undefined };
+        return { ...u, boardingTransportId: carrier.id, destination: { ...carrier.position } };
+    });
+
+    return result;
+}
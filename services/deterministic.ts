@@ -0,0 +1,183 @@
+// ============================================
+// DETERMINISTIC SIMULATION CORE
+// Seeded PRNG + tick-based clock for lockstep simulation
+// ============================================
+// Everything that runs inside processGameTick / applyAction must read time
+// from SimClock and randomness from SimRandom - never Date.now() or
+// Math.random(). Given the same initial GameState (including rngSeed) and
+// the same ordered GameAction list, every peer produces the same state.
+
+import { GameState } from '../types';
+import { GAME_TICK_MS } from '../constants';
+
+/**
+ * 32-bit string hash (FNV-1a). Used to derive sub-seeds from IDs.
+ */
+export function hashString(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Mix two 32-bit integers into a new well-distributed seed.
+ */
+export function mixSeed(a: number, b: number): number {
+    let h = (a ^ Math.imul(b + 0x9e3779b9, 0x85ebca6b)) >>> 0;
+    h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+    h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+    return (h ^ (h >>> 16)) >>> 0;
+}
+
+/**
+ * Create a fresh seed for a new game. This is the ONLY place allowed to use
+ * Math.random() - the host calls it once and the seed travels with GameState.
+ */
+export function createGameSeed(): number {
+    return (Math.floor(Math.random() * 0xffffffff) >>> 0) || 1;
+}
+
+// ============================================
+// SEEDED PRNG (mulberry32)
+// ============================================
+
+class SimRandomImpl {
+    private state: number = 1;
+
+    /**
+     * Re-seed the generator. Called at the start of every simulation step so
+     * consumption order inside one step never leaks into the next.
+     */
+    seed(seed: number): void {
+        this.state = seed >>> 0;
+    }
+
+    /** Current internal state (for save games / debugging). */
+    getState(): number {
+        return this.state;
+    }
+
+    /** Uniform float in [0, 1). Drop-in replacement for Math.random(). */
+    next(): number {
+        this.state = (this.state + 0x6d2b79f5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /** Uniform float in [min, max). */
+    range(min: number, max: number): number {
+        return min + this.next() * (max - min);
+    }
+
+    /** Symmetric jitter in [-spread/2, spread/2). Replaces (Math.random() - 0.5) * spread. */
+    jitter(spread: number): number {
+        return (this.next() - 0.5) * spread;
+    }
+
+    /** Uniform integer in [0, maxExclusive). */
+    int(maxExclusive: number): number {
+        return Math.floor(this.next() * maxExclusive);
+    }
+
+    /** Pick a random element. Returns undefined for empty arrays. */
+    pick<T>(items: T[]): T | undefined {
+        if (items.length === 0) return undefined;
+        return items[this.int(items.length)];
+    }
+
+    /** Short base-36 identifier, deterministic for the current seed. */
+    id(length: number = 8): string {
+        let out = '';
+        while (out.length < length) {
+            out += Math.floor(this.next() * 0x100000000).toString(36);
+        }
+        return out.substr(0, length);
+    }
+}
+
+export const SimRandom = new SimRandomImpl();
+
+// ============================================
+// SIMULATION CLOCK
+// ============================================
+// Simulation time is derived from gameTick only: now = tick * GAME_TICK_MS.
+// The presentation helpers map simulation time to the wall clock so
+// renderers can animate explosions etc. between ticks.
+
+class SimClockImpl {
+    private tick: number = 0;
+    private observedTick: number = 0;
+    private observedAt: number = 0;
+
+    /** Set the current simulation tick (called by beginSimulationStep). */
+    setTick(tick: number): void {
+        this.tick = tick;
+    }
+
+    /** Current simulation tick. */
+    getTick(): number {
+        return this.tick;
+    }
+
+    /** Current simulation time in ms. Replaces Date.now() inside the simulation. */
+    now(): number {
+        return this.tick * GAME_TICK_MS;
+    }
+
+    /** Convert a tick count to simulation ms. */
+    ticksToMs(ticks: number): number {
+        return ticks * GAME_TICK_MS;
+    }
+
+    /** Convert simulation ms to whole ticks (rounded up). */
+    msToTicks(ms: number): number {
+        return Math.ceil(ms / GAME_TICK_MS);
+    }
+
+    /**
+     * Record the latest tick seen by this peer (host or client) together with
+     * the wall clock, so presentationNow() can extrapolate between ticks.
+     */
+    observe(tick: number): void {
+        if (tick !== this.observedTick) {
+            this.observedTick = tick;
+            this.observedAt = Date.now();
+        }
+    }
+
+    /**
+     * Simulation time as seen by the renderer. Presentation only - never use
+     * inside the simulation.
+     */
+    presentationNow(): number {
+        const sinceTick = Math.min(Date.now() - this.observedAt, GAME_TICK_MS * 20);
+        return this.observedTick * GAME_TICK_MS + Math.max(0, sinceTick);
+    }
+}
+
+export const SimClock = new SimClockImpl();
+
+/**
+ * Prepare clock and PRNG for one simulation tick.
+ * Must be called before any code that uses SimClock/SimRandom.
+ */
+export function beginSimulationStep(state: GameState): void {
+    SimClock.setTick(state.gameTick);
+    SimClock.observe(state.gameTick);
+    SimRandom.seed(mixSeed(state.rngSeed || 1, state.gameTick));
+}
+
+/**
+ * Prepare clock and PRNG for applying a single action. The sub-seed is
+ * derived from the action ID so the outcome does not depend on how many
+ * actions were applied before it in the same tick.
+ */
+export function beginActionStep(state: GameState, actionId: string): void {
+    SimClock.setTick(state.gameTick);
+    SimRandom.seed(mixSeed(mixSeed(state.rngSeed || 1, state.gameTick), hashString(actionId)));
+}
@@ -0,0 +1,274 @@
+// ============================================
+// DIPLOMACY & TREATIES
+// Any faction can propose an alliance, non-aggression pact, ceasefire or
+// tribute to any other; humans answer in the Sidebar, bots here
+// ============================================
+// Hostility is still decided by Faction.relations (see isHostile). Signing a
+// treaty lifts both sides' relations to TREATY_CONFIG.RELATION_FLOOR and
+// remembers the old values; when the treaty runs out they come back. Firing
+// on a treaty partner breaks every treaty between the two and drops both
+// relations to BETRAYAL_RELATION. All of this runs on the host inside
+// processGameTick / applyAction, so it is deterministic and replayable.
+
+import { DiplomacyState, DiplomaticProposal, Faction, GameState, LogMessage, Treaty, TreatyType } from '../types';
+import { DIPLOMACY, TREATY_CONFIG } from '../constants';
+import { getDistanceKm } from './gameLogic';
+
+type Log = (text: string, type: LogMessage['type']) => void;
+
+export const TREATY_NAMES: Record<TreatyType, string> = {
+    ALLIANCE: 'Alliance',
+    NON_AGGRESSION: 'Non-Aggression Pact',
+    CEASEFIRE: 'Ceasefire',
+    TRIBUTE: 'Tribute'
+};
+
+const EMPTY_DIPLOMACY: DiplomacyState = { proposals: [], treaties: [] };
+
+export const getDiplomacy = (state: Pick<GameState, 'diplomacy'>): DiplomacyState => state.diplomacy ?? EMPTY_DIPLOMACY;
+
+const involves = (treaty: Treaty, a: string, b: string): boolean =>
+    treaty.factionIds.includes(a) && treaty.factionIds.includes(b);
+
+export const getTreatiesBetween = (diplomacy: DiplomacyState, a: string, b: string): Treaty[] =>
+    diplomacy.treaties.filter(t => involves(t, a, b));
+
+const getRelation = (factions: Faction[], from: string, to: string): number =>
+    factions.find(f => f.id === from)?.relations[to] ?? 0;
+
+const nameOf = (factions: Faction[], id: string): string => factions.find(f => f.id === id)?.name || id;
+
+/**
+ * Copy of `factions` with the a->b and b->a relations replaced.
+ */
+function setRelations(factions: Faction[], a: string, b: string, aToB: number, bToA: number): Faction[] {
+    const clamp = (v: number) => Math.max(DIPLOMACY.MIN_RELATION, Math.min(DIPLOMACY.MAX_RELATION, Math.round(v)));
+    return factions.map(f => {
+        if (f.id === a) return { ...f, relations: { ...f.relations, [b]: clamp(aToB) } };
+        if (f.id === b) return { ...f, relations: { ...f.relations, [a]: clamp(bToA) } };
+        return f;
+    });
+}
+
+/** Highest relation floor still guaranteed by `treaties` (null = none). */
+const getRelationFloor = (treaties: Treaty[]): number | null =>
+    treaties.reduce<number | null>((floor, t) => {
+        const f = TREATY_CONFIG.RELATION_FLOOR[t.type];
+        return f === null ? floor : Math.max(floor ?? f, f);
+    }, null);
+
+// ============================================
+// EVALUATION (bots + Sidebar "acceptance chance")
+// ============================================
+
+/**
+ * How much `toId` likes a treaty proposed by `fromId`.
+ * Bots sign when score >= TREATY_CONFIG.BOT_ACCEPT_SCORE[type].
+ */
+export function evaluateTreatyProposal(
+    state: Pick<GameState, 'factions' | 'units'>,
+    fromId: string,
+    toId: string,
+    type: TreatyType,
+    tribute?: DiplomaticProposal['tribute']
+): { accepted: boolean, reason: string, chance: number, score: number } {
+    const from = state.factions.find(f => f.id === fromId);
+    const to = state.factions.find(f => f.id === toId);
+    if (!from || !to) return { accepted: false, reason: 'Faction not found', chance: 0, score: 0 };
+
+    const getPower = (fid: string) => state.units.filter(u => u.factionId === fid).reduce((acc, u) => acc + u.attack, 0);
+    const ratio = getPower(fromId) / (getPower(toId) + 1);
+    const threshold = TREATY_CONFIG.BOT_ACCEPT_SCORE[type];
+    let score = 0;
+
+    if (type === 'TRIBUTE') {
+        // Being paid is always welcome; paying only under pressure
+        score = tribute?.payerId === fromId ? 50 : ratio > 2 ? 20 : -50;
+    } else {
+        // 1. Relations
+        score += getRelation(state.factions, toId, fromId) * 0.5;
+
+        // 2. Power Balance
+        if (ratio > 0.8 && ratio < 1.5) score += 20;
+        else if (ratio > 3.0) score -= 10;
+        else if (ratio < 0.2) score -= 20;
+
+        // A stronger enemy offering to stop is hard to refuse
+        if (type === 'CEASEFIRE' && ratio > 1.5) score += 20;
+
+        // 3. Distance
+        const fromUnits = state.units.filter(u => u.factionId === fromId);
+        const toUnits = state.units.filter(u => u.factionId === toId);
+        const isNear = fromUnits.some(a => toUnits.some(b =>
+            getDistanceKm(a.position.lat, a.position.lng, b.position.lat, b.position.lng) < 500
+        ));
+        if (isNear) score += 10;
+
+        // 4. Common Enemies
+        const fromEnemies = Object.keys(from.relations).filter(id => from.relations[id] < DIPLOMACY.WAR_THRESHOLD);
+        const toEnemies = Object.keys(to.relations).filter(id => to.relations[id] < DIPLOMACY.WAR_THRESHOLD);
+        score += fromEnemies.filter(id => id !== toId && toEnemies.includes(id)).length * 25;
+    }
+
+    const chance = Math.min(100, Math.max(0, score - threshold + 50));
+    if (score >= threshold) return { accepted: true, reason: 'Strategic interests align.', chance, score };
+    if (score >= threshold - 30) return { accepted: false, reason: 'Not enough benefit for us.', chance, score };
+    return { accepted: false, reason: 'Our interests conflict.', chance, score };
+}
+
+// ============================================
+// PROPOSALS & SIGNING
+// ============================================
+
+/**
+ * Sign a proposal: adds (or renews) the treaty and lifts relations.
+ */
+export function signTreaty(diplomacy: DiplomacyState, factions: Faction[], proposal: DiplomaticProposal, tick: number, log: Log): { diplomacy: DiplomacyState, factions: Faction[] } {
+    const { fromFactionId: a, toFactionId: b, type } = proposal;
+    const existing = diplomacy.treaties.find(t => t.type === type && involves(t, a, b));
+    const before: [number, number] = existing
+        ? (existing.factionIds[0] === a ? existing.relationsBefore : [existing.relationsBefore[1], existing.relationsBefore[0]])
+        : [getRelation(factions, a, b), getRelation(factions, b, a)];
+
+    const treaty: Treaty = {
+        id: proposal.id,
+        type,
+        factionIds: [a, b],
+        tribute: proposal.tribute,
+        startedTick: tick,
+        endsTick: tick + proposal.durationTicks,
+        relationsBefore: before
+    };
+
+    const floor = TREATY_CONFIG.RELATION_FLOOR[type];
+    let nextFactions = factions;
+    if (floor !== null) {
+        nextFactions = setRelations(factions, a, b,
+            Math.max(getRelation(factions, a, b), floor),
+            Math.max(getRelation(factions, b, a), floor));
+    }
+
+    log(`🤝 ${TREATY_NAMES[type]} signed by ${nameOf(factions, a)} and ${nameOf(factions, b)}` +
+        ` (relations ${getRelation(nextFactions, a, b)}/${getRelation(nextFactions, b, a)})`, 'success');
+
+    return {
+        diplomacy: {
+            proposals: diplomacy.proposals.filter(p => p.id !== proposal.id),
+            treaties: [...diplomacy.treaties.filter(t => t !== existing), treaty]
+        },
+        factions: nextFactions
+    };
+}
+
+/**
+ * Drop a proposal (rejected, withdrawn or lapsed).
+ */
+export function declineProposal(diplomacy: DiplomacyState, proposalId: string): DiplomacyState {
+    return { ...diplomacy, proposals: diplomacy.proposals.filter(p => p.id !== proposalId) };
+}
+
+/**
+ * End a treaty and restore the relations it lifted, unless another treaty
+ * between the same pair still holds them up.
+ */
+function endTreaty(diplomacy: DiplomacyState, factions: Faction[], treaty: Treaty, log: Log, reason: string): { diplomacy: DiplomacyState, factions: Faction[] } {
+    const [a, b] = treaty.factionIds;
+    const treaties = diplomacy.treaties.filter(t => t.id !== treaty.id);
+    let nextFactions = factions;
+
+    if (TREATY_CONFIG.RELATION_FLOOR[treaty.type] !== null) {
+        const floor = getRelationFloor(treaties.filter(t => involves(t, a, b)));
+        const [aToB, bToA] = treaty.relationsBefore;
+        nextFactions = setRelations(factions, a, b,
+            floor === null ? aToB : Math.max(aToB, floor),
+            floor === null ? bToA : Math.max(bToA, floor));
+    }
+
+    log(`📜 ${TREATY_NAMES[treaty.type]} between ${nameOf(factions, a)} and ${nameOf(factions, b)} ${reason}` +
+        ` (relations ${getRelation(nextFactions, a, b)}/${getRelation(nextFactions, b, a)})`, 'info');
+
+    return { diplomacy: { ...diplomacy, treaties }, factions: nextFactions };
+}
+
+// ============================================
+// SIMULATION
+// ============================================
+
+/**
+ * Per-tick diplomacy upkeep (host): lapsed proposals, bot answers,
+ * tribute payments and treaty expiry.
+ */
+export function processDiplomacy(diplomacy: DiplomacyState, factions: Faction[], state: Pick<GameState, 'units'>, tick: number, log: Log): { diplomacy: DiplomacyState, factions: Faction[] } {
+    if (diplomacy.proposals.length === 0 && diplomacy.treaties.length === 0) return { diplomacy, factions };
+    let result = { diplomacy, factions };
+
+    // 1. Tribute - paid every TRIBUTE_INTERVAL_TICKS, defaulting ends the treaty
+    for (const treaty of diplomacy.treaties) {
+        if (treaty.type !== 'TRIBUTE' || !treaty.tribute) continue;
+        const elapsed = tick - treaty.startedTick;
+        if (elapsed <= 0 || elapsed % TREATY_CONFIG.TRIBUTE_INTERVAL_TICKS !== 0) continue;
+
+        const { payerId, gold, oil } = treaty.tribute;
+        const payeeId = treaty.factionIds[0] === payerId ? treaty.factionIds[1] : treaty.factionIds[0];
+        const payer = result.factions.find(f => f.id === payerId);
+        if (!payer || payer.gold < gold || (payer.oil || 0) < oil) {
+            result = endTreaty(result.diplomacy, result.factions, treaty, log, 'collapsed - tribute unpaid');
+            continue;
+        }
+        result.factions = result.factions.map(f => {
+            if (f.id === payerId) return { ...f, gold: f.gold - gold, oil: (f.oil || 0) - oil };
+            if (f.id === payeeId) return { ...f, gold: f.gold + gold, oil: (f.oil || 0) + oil };
+            return f;
+        });
+    }
+
+    if (tick % TREATY_CONFIG.UPDATE_INTERVAL_TICKS !== 0) return result;
+
+    // 2. Expiry
+    for (const treaty of result.diplomacy.treaties) {
+        if (treaty.endsTick <= tick) {
+            result = endTreaty(result.diplomacy, result.factions, treaty, log, 'expired');
+        }
+    }
+
+    // 3. Proposals - bots answer, unanswered ones lapse
+    for (const proposal of result.diplomacy.proposals) {
+        const recipient = result.factions.find(f => f.id === proposal.toFactionId);
+        if (recipient && (recipient.type === 'BOT' || recipient.type === 'AI')) {
+            const verdict = evaluateTreatyProposal({ factions: result.factions, units: state.units },
+                proposal.fromFactionId, proposal.toFactionId, proposal.type, proposal.tribute);
+            if (verdict.accepted) {
+                result = signTreaty(result.diplomacy, result.factions, proposal, tick, log);
+            } else {
+                log(`${recipient.name} rejected the ${TREATY_NAMES[proposal.type]}: ${verdict.reason}`, 'info');
+                result.diplomacy = declineProposal(result.diplomacy, proposal.id);
+            }
+        } else if (proposal.expiresTick <= tick) {
+            result.diplomacy = declineProposal(result.diplomacy, proposal.id);
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Attacks break every treaty between attacker and victim.
+ * @param attacks [attackerFactionId, victimFactionId] pairs seen this tick
+ */
+export function breakTreatiesOnAttack(diplomacy: DiplomacyState, factions: Faction[], attacks: Iterable<[string, string]>, log: Log): { diplomacy: DiplomacyState, factions: Faction[] } {
+    let result = { diplomacy, factions };
+    for (const [attacker, victim] of attacks) {
+        const broken = getTreatiesBetween(result.diplomacy, attacker, victim);
+        if (broken.length === 0) continue;
+
+        result = {
+            diplomacy: { ...result.diplomacy, treaties: result.diplomacy.treaties.filter(t => !broken.includes(t)) },
+            factions: setRelations(result.factions, attacker, victim,
+                Math.min(getRelation(result.factions, attacker, victim), TREATY_CONFIG.BETRAYAL_RELATION),
+                Math.min(getRelation(result.factions, victim, attacker), TREATY_CONFIG.BETRAYAL_RELATION))
+        };
+        log(`⚔️ ${nameOf(factions, attacker)} attacked ${nameOf(factions, victim)} - ` +
+            `${broken.map(t => TREATY_NAMES[t.type]).join(', ')} broken (relations ${TREATY_CONFIG.BETRAYAL_RELATION})`, 'alert');
+    }
+    return result;
+}
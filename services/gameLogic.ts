@@ -1,11 +1,24 @@
 
-import { GameState, GameUnit, Faction, Projectile, POIType, UnitClass, POI, LogMessage, WeaponType, Explosion, NuclearMissile } from '../types';
-import { DIPLOMACY, POI_CONFIG, UNIT_CONFIG, AI_CONFIG, WEAPON_MAPPING, TIER_MULTIPLIER, NUKE_CONFIG, COOLDOWN_CONFIG, DAMAGE_MODIFIERS } from '../constants';
+import { GameState, GameUnit, Faction, Projectile, POIType, UnitClass, POI, LogMessage, WeaponType, Explosion, NuclearMissile, Scenario, UnitPath } from '../types';
+import { DIPLOMACY, POI_CONFIG, UNIT_CONFIG, AI_CONFIG, WEAPON_MAPPING, TIER_MULTIPLIER, NUKE_CONFIG, COOLDOWN_CONFIG, DAMAGE_MODIFIERS, STEALTH_CONFIG, PATHFINDING_CONFIG, VICTORY_CONFIG } from '../constants';
 import { updateAI } from './aiService';
 import { TerrainService } from './terrainService';
 import { Intent } from './schemas';
-import { GameAction, SpawnUnitPayload, MoveUnitsPayload, AttackTargetPayload, BuildStructurePayload, SelectBasePayload, ClaimPOIPayload } from './schemas';
-import { processPlayerAutoControl } from './autoControl';
+import { GameAction, MoveUnitsPayload, AttackTargetPayload, BuildStructurePayload, SelectBasePayload, ClaimPOIPayload } from './schemas';
+import { processPlayerAutoControl, getStance, mayChase } from './autoControl';
+import { SimClock, SimRandom, beginSimulationStep } from './deterministic';
+import { processCargo } from './cargoService';
+import { processMines } from './mineService';
+import { updateSonarContacts, isUnitDetectedBy, isStealthUnit } from './stealthService';
+import { updateSupplyLevels, applySupplyAttrition, getSupplyModifiers, SUPPLY_CONFIG } from './supplyService';
+import { isProducible, findProductionSite, queueProduction, processProduction } from './productionService';
+import { processDiplomacy, breakTreatiesOnAttack } from './diplomacyService';
+import { getWinningCoalition } from './teamService';
+import { planUnitPath, isPathFor } from './pathfindingService';
+import { processOrderQueues, CLEARED_ORDERS } from './orderQueueService';
+import { getGameSettings, isVictoryConditionEnabled } from './gameSettings';
+import { processVictoryConditions, describeVictory } from './victoryService';
+import { applySeatIntents, processDisconnectedSeats } from './reconnectService';
 
 // OPTIMIZATION: Pre-calculate constants
 const DEG2RAD = Math.PI / 180;
@@ -42,7 +55,7 @@ const getRelation = (f1: Faction, f2Id: string): number => {
     return f1.relations[f2Id] || 0;
 };
 
-const isHostile = (f1: Faction, f2Id: string): boolean => {
+export const isHostile = (f1: Faction, f2Id: string): boolean => {
     if (f1.id === f2Id) return false;
     // Only skip pure NEUTRAL (cities without defenders), not NEUTRAL_DEFENDER units
     if (f2Id === 'NEUTRAL') return false;
@@ -74,53 +87,10 @@ const canAttack = (attacker: GameUnit, defenderClass: UnitClass | 'CITY'): boole
 
 // Logging Helper
 const logEvent = (msgs: LogMessage[], text: string, type: LogMessage['type']) => {
-    msgs.push({ id: Math.random().toString(36), text, type, timestamp: Date.now() });
+    msgs.push({ id: SimRandom.id(), text, type, timestamp: SimClock.now() });
     if (msgs.length > 20) msgs.shift();
 };
 
-export const evaluateAllianceRequest = (gameState: GameState, targetFactionId: string): { accepted: boolean, reason: string, chance: number } => {
-    const targetFaction = gameState.factions.find(f => f.id === targetFactionId);
-    const playerFaction = gameState.factions.find(f => f.id === 'PLAYER');
-
-    if (!targetFaction || !playerFaction) return { accepted: false, reason: 'Faction not found', chance: 0 };
-
-    const getPower = (fid: string) => gameState.units.filter(u => u.factionId === fid).reduce((acc, u) => acc + u.attack, 0);
-    const playerPower = getPower('PLAYER');
-    const aiPower = getPower(targetFactionId);
-
-    let score = 0;
-    // 1. Relations
-    score += (getRelation(targetFaction, 'PLAYER') * 0.5);
-
-    // 2. Power Balance
-    const ratio = playerPower / (aiPower + 1);
-    if (ratio > 0.8 && ratio < 1.5) score += 20;
-    else if (ratio > 3.0) score -= 10;
-    else if (ratio < 0.2) score -= 20;
-
-    // 3. Distance
-    let minDist = Infinity;
-    gameState.units.filter(u => u.factionId === 'PLAYER').forEach(pu => {
-        gameState.units.filter(u => u.factionId === targetFactionId).forEach(au => {
-            const d = getDistanceKm(pu.position.lat, pu.position.lng, au.position.lat, au.position.lng);
-            if (d < minDist) minDist = d;
-        });
-    });
-    if (minDist < 500) score += 10;
-
-    // 4. Common Enemies
-    const playerEnemies = Object.keys(playerFaction.relations).filter(id => playerFaction.relations[id] < DIPLOMACY.WAR_THRESHOLD);
-    const aiEnemies = Object.keys(targetFaction.relations).filter(id => targetFaction.relations[id] < DIPLOMACY.WAR_THRESHOLD);
-    const commonEnemies = playerEnemies.filter(id => aiEnemies.includes(id));
-    score += (commonEnemies.length * 25);
-
-    const chance = Math.min(100, Math.max(0, score + 50));
-
-    if (score >= 40) return { accepted: true, reason: 'Strategic interests align.', chance };
-    if (score >= 10) return { accepted: false, reason: 'Not enough benefit for us.', chance };
-    return { accepted: false, reason: 'Our interests conflict.', chance };
-};
-
 // --- STEERING BEHAVIORS FOR PATHFINDING ---
 const calculateSteering = (unit: GameUnit, neighbors: GameUnit[], pois: POI[]): { lat: number, lng: number } => {
     let steerLat = 0;
@@ -273,14 +243,14 @@ class ProjectilePool {
                 progress: 0
             };
         }
-        p.id = Math.random().toString(36);
+        p.id = SimRandom.id();
         p.fromId = fromId;
         p.toId = toId;
         p.fromPos.lat = fromPos.lat;
         p.fromPos.lng = fromPos.lng;
         p.toPos.lat = toPos.lat;
         p.toPos.lng = toPos.lng;
-        p.timestamp = Date.now();
+        p.timestamp = SimClock.now();
         p.isHit = false;
         p.weaponType = weaponType;
         p.speed = weaponType === WeaponType.MISSILE ? 0.05 : 1;
@@ -297,7 +267,7 @@ const projectilePool = new ProjectilePool();
 export const spawnUnit = (type: UnitClass, lat: number, lng: number, factionId: string = 'PLAYER'): GameUnit => {
     const stats = UNIT_CONFIG[type];
     return {
-        id: `SPAWN-${Math.random().toString(36).substr(2, 6)}`,
+        id: `SPAWN-${SimRandom.id(6)}`,
         unitClass: type,
         factionId: factionId,
         position: { lat, lng },
@@ -308,10 +278,182 @@ export const spawnUnit = (type: UnitClass, lat: number, lng: number, factionId:
     };
 };
 
+export interface MovementStep {
+    position: { lat: number; lng: number };
+    heading: number;
+    destination: { lat: number; lng: number } | null | undefined;
+    path: UnitPath | undefined;
+}
+
+/**
+ * One tick of movement towards `destination`, following `path` where it leads
+ * there. Shared by processGameTick and client-side prediction (see
+ * simulateMovement). Expects the spatial grid to hold `units`.
+ */
+const moveUnit = (
+    unit: GameUnit,
+    destination: { lat: number; lng: number } | null | undefined,
+    path: UnitPath | undefined,
+    heading: number,
+    units: GameUnit[],
+    pois: POI[],
+    scenarioBounds: Scenario['bounds'] | undefined
+): MovementStep => {
+    let newLat = unit.position.lat;
+    let newLng = unit.position.lng;
+    let newHeading = heading;
+    let currentDestination = destination;
+
+    if (currentDestination) {
+        const distToDest = getDistanceKm(unit.position.lat, unit.position.lng, currentDestination.lat, currentDestination.lng);
+        const boostMultiplier = unit.isBoosting ? 2.0 : 1.0;
+
+        // === FORMATION SPEED SYNC ===
+        // If unit is in formation, move at the speed of the slowest unit in the group
+        let effectiveSpeed = unit.speed;
+        if (unit.formationOffset) {
+            // Find nearby units that are also in formation (likely same group)
+            const nearbyFormationUnits = units.filter(u =>
+                u.id !== unit.id &&
+                u.formationOffset &&
+                u.factionId === unit.factionId &&
+                Math.abs(u.position.lat - unit.position.lat) < 0.3 &&
+                Math.abs(u.position.lng - unit.position.lng) < 0.3
+            );
+
+            if (nearbyFormationUnits.length > 0) {
+                // Move at speed of slowest unit in formation
+                const allSpeeds = [unit.speed, ...nearbyFormationUnits.map(u => u.speed)];
+                effectiveSpeed = Math.min(...allSpeeds);
+            }
+        }
+
+        // Out-of-supply units slow down
+        effectiveSpeed *= getSupplyModifiers(unit).speedModifier;
+
+        const speedFactor = 0.008 * effectiveSpeed * boostMultiplier;
+        const moveDistKm = speedFactor * 111;
+
+        if (distToDest <= moveDistKm || distToDest < 0.5) {
+            currentDestination = null;
+            if (unit.isBoosting) unit.isBoosting = false;
+        } else {
+            // Follow the planned route while it still leads to this destination
+            let steerTarget = currentDestination;
+            if (isPathFor(path, currentDestination)) {
+                const reachKm = Math.max(moveDistKm, PATHFINDING_CONFIG.WAYPOINT_REACHED_KM);
+                let next = 0;
+                while (next < path.waypoints.length - 1 &&
+                    getDistanceKm(unit.position.lat, unit.position.lng, path.waypoints[next].lat, path.waypoints[next].lng) <= reachKm) {
+                    next++;
+                }
+                if (next > 0) path = { ...path, waypoints: path.waypoints.slice(next) };
+                steerTarget = path.waypoints[0];
+            }
+
+            // Basic Heading
+            let bearing = getBearing(unit.position.lat, unit.position.lng, steerTarget.lat, steerTarget.lng);
+
+            // --- APPLY STEERING BEHAVIORS ---
+            // OPTIMIZATION: Use Spatial Grid for neighbors with shared buffer
+            const nearbyUnits = spatialGrid.getNearby(unit.position.lat, unit.position.lng);
+
+            // Filter in place using a loop to avoid allocation
+            const neighbors: GameUnit[] = [];
+            for (let j = 0; j < nearbyUnits.length; j++) {
+                const u = nearbyUnits[j];
+                if (u.id !== unit.id &&
+                    Math.abs(u.position.lat - unit.position.lat) < 0.05 &&
+                    Math.abs(u.position.lng - unit.position.lng) < 0.05) {
+                    neighbors.push(u);
+                }
+            }
+
+            const steering = calculateSteering(unit, neighbors, pois);
+
+            // Convert heading to vector
+            let rads = bearing * (Math.PI / 180);
+            let vx = Math.cos(rads) * speedFactor; // Lat velocity
+            let vy = Math.sin(rads) * speedFactor; // Lng velocity
+
+            // Add steering force
+            vx += steering.lat * 0.05;
+            vy += steering.lng * 0.05;
+
+            // Re-normalize velocity to speed
+            const currentSpeed = Math.sqrt(vx * vx + vy * vy);
+            if (currentSpeed > 0) {
+                vx = (vx / currentSpeed) * speedFactor;
+                vy = (vy / currentSpeed) * speedFactor;
+            }
+
+            const proposedLat = unit.position.lat + vx;
+            const proposedLng = unit.position.lng + vy;
+
+            // Recalculate heading based on actual vector
+            newHeading = (Math.atan2(vy, vx) * (180 / Math.PI) + 360) % 360;
+
+            // SCENARIO BOUNDS CHECK
+            const bounds = scenarioBounds || { minLat: -85, maxLat: 85, minLng: -180, maxLng: 180 };
+            const inBounds = proposedLat >= bounds.minLat && proposedLat <= bounds.maxLat &&
+                proposedLng >= bounds.minLng && proposedLng <= bounds.maxLng;
+
+            // TERRAIN CHECK (Hard Stop)
+            if (inBounds && TerrainService.isValidMove(unit.unitClass, proposedLat, proposedLng, pois)) {
+                newLat = proposedLat;
+                newLng = proposedLng;
+            } else if (inBounds && !isPathFor(path, currentDestination)) {
+                // Blocked by terrain - plan a route around it and retry next tick
+                path = planUnitPath(unit, currentDestination);
+                if (path) {
+                    currentDestination = path.goal;
+                } else {
+                    currentDestination = null;
+                }
+            } else {
+                // Stuck even on the planned route
+                currentDestination = null;
+            }
+        }
+    } else {
+        if (unit.isBoosting) unit.isBoosting = false;
+    }
+
+    return { position: { lat: newLat, lng: newLng }, heading: newHeading, destination: currentDestination, path };
+};
+
+/**
+ * Client-side prediction: advance the units `predicate` picks by one tick of
+ * the host's movement code. Nothing else is simulated - combat, capture and
+ * production stay with the host. Loaded cargo is skipped, as in processGameTick.
+ */
+export const simulateMovement = (state: GameState, predicate: (unit: GameUnit) => boolean): GameUnit[] => {
+    spatialGrid.clear();
+    for (let i = 0; i < state.units.length; i++) {
+        if (!state.units[i].isLoaded) spatialGrid.add(state.units[i]);
+    }
+
+    return state.units.map(unit => {
+        if (unit.hp <= 0 || unit.isLoaded || !predicate(unit)) return unit;
+        const moving = { ...unit };
+        const step = moveUnit(moving, unit.destination, unit.path, unit.heading, state.units, state.pois, state.scenario?.bounds);
+        return {
+            ...moving,
+            position: step.position,
+            heading: step.heading,
+            destination: step.destination,
+            path: isPathFor(step.path, step.destination) ? step.path : undefined
+        };
+    });
+};
+
 export const processGameTick = (currentState: GameState, intents: Intent[] = [], isHost: boolean = true): GameState => {
     // Skip game tick during selection phase
     if (currentState.gameMode === 'SELECTION') return currentState;
 
+    // Seed PRNG + clock from the tick so every peer simulates identically
+    beginSimulationStep(currentState);
+
     // Shallow copies are still needed for React state immutability at the top level
     // But we can optimize the internal operations
     let nextUnits = [...currentState.units];
@@ -332,7 +474,7 @@ export const processGameTick = (currentState: GameState, intents: Intent[] = [],
                     // Find a random neutral city
                     const availableCities = nextPOIs.filter(p => !p.ownerFactionId || p.ownerFactionId === 'NEUTRAL');
                     if (availableCities.length > 0) {
-                        const city = availableCities[Math.floor(Math.random() * availableCities.length)];
+                        const city = availableCities[SimRandom.int(availableCities.length)];
 
                         // Claim City
                         city.ownerFactionId = faction.id;
@@ -360,6 +502,20 @@ export const processGameTick = (currentState: GameState, intents: Intent[] = [],
             case 'SPAWN': {
                 console.log('[GAME LOGIC] Processing SPAWN intent:', intent.unitClass, 'for', intent.clientId, 'at', intent.lat, intent.lng);
 
+                // Units are queued at the nearest suitable structure, same as QUEUE_PRODUCTION
+                if (isProducible(intent.unitClass)) {
+                    const cost = UNIT_CONFIG[intent.unitClass].cost || { gold: 0, oil: 0 };
+                    const faction = factions.find(f => f.id === intent.clientId);
+                    const site = findProductionSite(nextUnits, intent.clientId, intent.unitClass, { lat: intent.lat, lng: intent.lng });
+                    if (!faction || !site || faction.gold < cost.gold || (faction.oil || 0) < (cost.oil || 0)) break;
+
+                    faction.gold -= cost.gold;
+                    faction.oil = (faction.oil || 0) - (cost.oil || 0);
+                    const updated = queueProduction(site, intent.unitClass, `UNIT-${SimRandom.id(9)}`, currentState.gameTick);
+                    nextUnits = nextUnits.map(u => u.id === site.id ? updated : u);
+                    break;
+                }
+
                 const unit = spawnUnit(intent.unitClass, intent.lat, intent.lng, intent.clientId);
 
                 // CRITICAL: If spawning a COMMAND_CENTER (HQ), claim the nearest city
@@ -405,10 +561,12 @@ export const processGameTick = (currentState: GameState, intents: Intent[] = [],
                 intent.unitIds.forEach(id => {
                     const unit = nextUnits.find(u => u.id === id);
                     if (unit && unit.factionId === intent.clientId) {
-                        unit.destination = { lat: intent.lat, lng: intent.lng };
+                        unit.path = planUnitPath(unit, { lat: intent.lat, lng: intent.lng });
+                        unit.destination = unit.path ? unit.path.goal : { lat: intent.lat, lng: intent.lng };
                         unit.targetId = null; // Clear target when moving manually
                         unit.autoMode = 'NONE'; // Reset auto-mode on manual command
                         unit.autoTarget = false;
+                        Object.assign(unit, CLEARED_ORDERS);
                     }
                 });
                 break;
@@ -417,9 +575,11 @@ export const processGameTick = (currentState: GameState, intents: Intent[] = [],
                 const attacker = nextUnits.find(u => u.id === intent.attackerId);
                 if (attacker && attacker.factionId === intent.clientId) {
                     attacker.targetId = intent.targetId;
+                    attacker.orderedTargetId = intent.targetId;
                     attacker.destination = null; // Clear move dest
                     attacker.autoMode = 'NONE'; // Reset auto-mode on manual command
                     attacker.autoTarget = false;
+                    Object.assign(attacker, CLEARED_ORDERS);
                 }
                 break;
             }
@@ -450,9 +610,16 @@ export const processGameTick = (currentState: GameState, intents: Intent[] = [],
         }
     }
 
+    // CARGO: Units aboard transports/carriers sit out movement, combat and capture
+    // until processCargo() carries, unloads or destroys them below
+    const loadedUnits = nextUnits.filter(u => u.isLoaded);
+    if (loadedUnits.length > 0) {
+        nextUnits = nextUnits.filter(u => !u.isLoaded);
+    }
+
     // OPTIMIZATION: Manage Projectiles with Pool
     const nextProjectiles: Projectile[] = [];
-    const newExplosions: Explosion[] = currentState.explosions.filter(e => Date.now() - e.timestamp < 1000);
+    const newExplosions: Explosion[] = currentState.explosions.filter(e => SimClock.now() - e.timestamp < 1000);
 
     for (let i = 0; i < currentState.projectiles.length; i++) {
         const p = currentState.projectiles[i];
@@ -464,9 +631,9 @@ export const processGameTick = (currentState: GameState, intents: Intent[] = [],
                 p.isHit = true;
                 // Create explosion
                 newExplosions.push({
-                    id: Math.random().toString(36),
+                    id: SimRandom.id(),
                     position: p.toPos,
-                    timestamp: Date.now(),
+                    timestamp: SimClock.now(),
                     size: 'SMALL'
                 });
                 projectilePool.release(p);
@@ -483,9 +650,9 @@ export const processGameTick = (currentState: GameState, intents: Intent[] = [],
         if (p.progress >= 1) {
             p.isHit = true;
             newExplosions.push({
-                id: Math.random().toString(36),
+                id: SimRandom.id(),
                 position: p.toPos,
-                timestamp: Date.now(),
+                timestamp: SimClock.now(),
                 size: p.weaponType === WeaponType.MISSILE ? 'MEDIUM' : 'SMALL'
             });
             projectilePool.release(p);
@@ -518,7 +685,7 @@ export const processGameTick = (currentState: GameState, intents: Intent[] = [],
     const nukesInFlight = currentState.nukesInFlight || [];
 
     for (const nuke of nukesInFlight) {
-        const elapsed = Date.now() - nuke.launchTime;
+        const elapsed = SimClock.now() - nuke.launchTime;
         nuke.progress = Math.min(1, elapsed / nuke.flightDuration);
 
         if (nuke.progress >= 1) {
@@ -527,9 +694,9 @@ export const processGameTick = (currentState: GameState, intents: Intent[] = [],
 
             // Create massive nuclear explosion
             newExplosions.push({
-                id: `NUKE-${Math.random().toString(36)}`,
+                id: `NUKE-${SimRandom.id()}`,
                 position: impactPos,
-                timestamp: Date.now(),
+                timestamp: SimClock.now(),
                 size: 'NUCLEAR'
             });
 
@@ -585,6 +752,22 @@ export const processGameTick = (currentState: GameState, intents: Intent[] = [],
         }
     }
 
+    // PRODUCTION: Finished orders roll out of their structures
+    nextUnits = processProduction(nextUnits, currentState.gameTick, (unit, site) => {
+        if (unit.factionId === currentState.localPlayerId) {
+            logEvent(messages, `${unit.unitClass.replace(/_/g, ' ')} ready at ${site.unitClass.replace(/_/g, ' ')}`, 'info');
+        }
+    });
+
+    // SONAR: Refresh submarine contacts before anything picks targets
+    nextUnits = updateSonarContacts(nextUnits);
+
+    // SUPPLY: Levels refresh periodically, attrition bites every tick
+    if (currentState.gameTick % SUPPLY_CONFIG.UPDATE_INTERVAL_TICKS === 0) {
+        nextUnits = updateSupplyLevels(nextUnits, nextPOIs);
+    }
+    nextUnits = applySupplyAttrition(nextUnits);
+
     // BUILD SPATIAL GRID
     // OPTIMIZATION: Use the persistent grid
     spatialGrid.clear();
@@ -611,9 +794,10 @@ export const processGameTick = (currentState: GameState, intents: Intent[] = [],
         let newHeading = unit.heading;
         let currentDestination = unit.destination;
         let targetId = unit.targetId;
+        let path = unit.path;
 
-        // RETALIATION LOGIC
-        if (!targetId && !currentDestination && unit.lastAttackerId) {
+        // RETALIATION LOGIC (only AGGRESSIVE units go after their attacker)
+        if (!targetId && !currentDestination && unit.lastAttackerId && getStance(unit) === 'AGGRESSIVE') {
             const attacker = nextUnits.find(u => u.id === unit.lastAttackerId);
             const unitFaction = factions.find(f => f.id === unit.factionId);
             if (attacker && attacker.hp > 0 && unitFaction && isHostile(unitFaction, attacker.factionId)) {
@@ -630,6 +814,7 @@ export const processGameTick = (currentState: GameState, intents: Intent[] = [],
 
             // If target dead/gone/captured, clear
             if (
+                (!targetUnit && !targetPOI) ||
                 (targetUnit && targetUnit.hp <= 0) ||
                 (targetPOI && targetPOI.ownerFactionId === unit.factionId)
             ) {
@@ -637,7 +822,11 @@ export const processGameTick = (currentState: GameState, intents: Intent[] = [],
                 currentDestination = null;
             } else if (targetPos) {
                 const dist = getDistanceKm(unit.position.lat, unit.position.lng, targetPos.lat, targetPos.lng);
-                if (dist > unit.range * 0.8) {
+                const chases = mayChase(unit, targetId);
+                if (!chases && dist > unit.range) {
+                    // Out of reach and the stance forbids chasing - let it go
+                    targetId = null;
+                } else if (chases && dist > unit.range * 0.8) {
                     // FORMATION PRESERVATION: If unit has a formation offset, calculate destination
                     // relative to target position instead of going directly to target
                     if (unit.formationOffset) {
@@ -658,96 +847,12 @@ export const processGameTick = (currentState: GameState, intents: Intent[] = [],
         }
 
         // B. MOVEMENT & PATHFINDING
-        if (currentDestination) {
-            const distToDest = getDistanceKm(unit.position.lat, unit.position.lng, currentDestination.lat, currentDestination.lng);
-            const boostMultiplier = unit.isBoosting ? 2.0 : 1.0;
-
-            // === FORMATION SPEED SYNC ===
-            // If unit is in formation, move at the speed of the slowest unit in the group
-            let effectiveSpeed = unit.speed;
-            if (unit.formationOffset) {
-                // Find nearby units that are also in formation (likely same group)
-                const nearbyFormationUnits = nextUnits.filter(u =>
-                    u.id !== unit.id &&
-                    u.formationOffset &&
-                    u.factionId === unit.factionId &&
-                    Math.abs(u.position.lat - unit.position.lat) < 0.3 &&
-                    Math.abs(u.position.lng - unit.position.lng) < 0.3
-                );
-
-                if (nearbyFormationUnits.length > 0) {
-                    // Move at speed of slowest unit in formation
-                    const allSpeeds = [unit.speed, ...nearbyFormationUnits.map(u => u.speed)];
-                    effectiveSpeed = Math.min(...allSpeeds);
-                }
-            }
-
-            const speedFactor = 0.008 * effectiveSpeed * boostMultiplier;
-            const moveDistKm = speedFactor * 111;
-
-            if (distToDest <= moveDistKm || distToDest < 0.5) {
-                currentDestination = null;
-                if (unit.isBoosting) unit.isBoosting = false;
-            } else {
-                // Basic Heading
-                let bearing = getBearing(unit.position.lat, unit.position.lng, currentDestination.lat, currentDestination.lng);
-
-                // --- APPLY STEERING BEHAVIORS ---
-                // OPTIMIZATION: Use Spatial Grid for neighbors with shared buffer
-                const nearbyUnits = spatialGrid.getNearby(unit.position.lat, unit.position.lng);
-
-                // Filter in place using a loop to avoid allocation
-                const neighbors: GameUnit[] = [];
-                for (let j = 0; j < nearbyUnits.length; j++) {
-                    const u = nearbyUnits[j];
-                    if (u.id !== unit.id &&
-                        Math.abs(u.position.lat - unit.position.lat) < 0.05 &&
-                        Math.abs(u.position.lng - unit.position.lng) < 0.05) {
-                        neighbors.push(u);
-                    }
-                }
-
-                const steering = calculateSteering(unit, neighbors, nextPOIs);
-
-                // Convert heading to vector
-                let rads = bearing * (Math.PI / 180);
-                let vx = Math.cos(rads) * speedFactor; // Lat velocity
-                let vy = Math.sin(rads) * speedFactor; // Lng velocity
-
-                // Add steering force
-                vx += steering.lat * 0.05;
-                vy += steering.lng * 0.05;
-
-                // Re-normalize velocity to speed
-                const currentSpeed = Math.sqrt(vx * vx + vy * vy);
-                if (currentSpeed > 0) {
-                    vx = (vx / currentSpeed) * speedFactor;
-                    vy = (vy / currentSpeed) * speedFactor;
-                }
-
-                const proposedLat = unit.position.lat + vx;
-                const proposedLng = unit.position.lng + vy;
-
-                // Recalculate heading based on actual vector
-                newHeading = (Math.atan2(vy, vx) * (180 / Math.PI) + 360) % 360;
-
-                // SCENARIO BOUNDS CHECK
-                const bounds = currentState.scenario?.bounds || { minLat: -85, maxLat: 85, minLng: -180, maxLng: 180 };
-                const inBounds = proposedLat >= bounds.minLat && proposedLat <= bounds.maxLat &&
-                    proposedLng >= bounds.minLng && proposedLng <= bounds.maxLng;
-
-                // TERRAIN CHECK (Hard Stop)
-                if (inBounds && TerrainService.isValidMove(unit.unitClass, proposedLat, proposedLng, nextPOIs)) {
-                    newLat = proposedLat;
-                    newLng = proposedLng;
-                } else {
-                    // Stuck? 
-                    currentDestination = null;
-                }
-            }
-        } else {
-            if (unit.isBoosting) unit.isBoosting = false;
-        }
+        const step = moveUnit(unit, currentDestination, path, newHeading, nextUnits, nextPOIs, currentState.scenario?.bounds);
+        newLat = step.position.lat;
+        newLng = step.position.lng;
+        newHeading = step.heading;
+        currentDestination = step.destination;
+        path = step.path;
 
         // Create new unit object only if changed?
         // For now, we always create a new one to be safe with React, but we avoided the .map overhead
@@ -756,14 +861,23 @@ export const processGameTick = (currentState: GameState, intents: Intent[] = [],
             position: { lat: newLat, lng: newLng },
             heading: newHeading,
             destination: currentDestination,
-            targetId: targetId
+            targetId: targetId,
+            path: isPathFor(path, currentDestination) ? path : undefined
         });
     }
 
     // Replace nextUnits with the updated list
     nextUnits = updatedUnits;
 
+    // Re-index the moved copies - auto-acquire below must damage the live units, not last tick's
+    spatialGrid.clear();
+    for (let i = 0; i < nextUnits.length; i++) {
+        spatialGrid.add(nextUnits[i]);
+    }
+
     // 2. COMBAT RESOLUTION & CITY CAPTURE VIA ATTACK
+    // Attacker/victim faction pairs - firing on a treaty partner breaks the treaty
+    const attackPairs = new Map<string, [string, string]>();
     for (let i = 0; i < nextUnits.length; i++) {
         const u1 = nextUnits[i];
         if (u1.hp <= 0) continue;
@@ -799,7 +913,8 @@ export const processGameTick = (currentState: GameState, intents: Intent[] = [],
                     }
                 }
 
-                let damage = baseDamage * damageModifier;
+                // Low supply saps attack strength
+                let damage = baseDamage * damageModifier * getSupplyModifiers(u1).attackModifier;
 
                 // ========== TERRAIN COMBAT BONUSES ==========
                 // Units defending in cities get +25% defense (damage reduction)
@@ -831,6 +946,10 @@ export const processGameTick = (currentState: GameState, intents: Intent[] = [],
 
                 // Apply Damage
                 target.hp -= damage;
+                const victimId = 'unitClass' in target ? target.factionId : target.ownerFactionId;
+                if (victimId && victimId !== u1.factionId) {
+                    attackPairs.set(`${u1.factionId}|${victimId}`, [u1.factionId, victimId]);
+                }
 
                 // --- CITY & RESOURCE CAPTURE LOGIC ---
                 if ('type' in target) {
@@ -907,6 +1026,11 @@ export const processGameTick = (currentState: GameState, intents: Intent[] = [],
 
                 u1.cooldown = COOLDOWN_CONFIG[u1.unitClass] || 10; // Unit-specific fire rate
 
+                // Firing gives a submarine's position away for a few seconds
+                if (isStealthUnit(u1)) {
+                    u1.revealedUntilTick = currentState.gameTick + STEALTH_CONFIG.FIRING_REVEAL_TICKS;
+                }
+
                 // If unit, mark retaliation
                 if (!('type' in target)) {
                     (target as GameUnit).lastAttackerId = u1.id;
@@ -925,6 +1049,8 @@ export const processGameTick = (currentState: GameState, intents: Intent[] = [],
                 // FRIENDLY FIRE PREVENTION: Cannot attack same faction
                 if (targetUnit.factionId === u1.factionId) {
                     u1.targetId = null; // Clear invalid target
+                } else if (!isUnitDetectedBy(targetUnit, u1.factionId, currentState.gameTick)) {
+                    u1.targetId = null; // Submarine slipped away - contact lost
                 } else if (canAttack(u1, targetUnit.unitClass)) {
                     hasFired = tryFire(targetUnit);
                 }
@@ -944,6 +1070,8 @@ export const processGameTick = (currentState: GameState, intents: Intent[] = [],
                 if (u2.id === u1.id || u2.hp <= 0) continue;
                 if (u1.factionId === u2.factionId) continue;
                 if (!isHostile(u1Faction, u2.factionId)) continue;
+                if (!isUnitDetectedBy(u2, u1.factionId, currentState.gameTick)) continue;
+                if (getStance(u1) === 'RETURN_FIRE' && u2.id !== u1.lastAttackerId) continue;
 
                 if (canAttack(u1, u2.unitClass)) {
                     if (tryFire(u2)) {
@@ -954,7 +1082,7 @@ export const processGameTick = (currentState: GameState, intents: Intent[] = [],
             }
 
             // Then Cities (Siege Logic)
-            if (!hasFired && canAttack(u1, 'CITY')) {
+            if (!hasFired && canAttack(u1, 'CITY') && getStance(u1) !== 'RETURN_FIRE') {
                 for (const poi of nextPOIs) {
                     // CRITICAL: Check if this unit should NOT attack this POI (e.g., NEUTRAL_DEFENDER guarding NEUTRAL city)
                     if (shouldNotAttackPOI(u1, poi)) continue;
@@ -1001,10 +1129,10 @@ export const processGameTick = (currentState: GameState, intents: Intent[] = [],
 
                 // Add capture message
                 messages.push({
-                    id: Math.random().toString(36),
+                    id: SimRandom.id(),
                     text: `[CAPTURE] ${poi.name} captured by ${newOwner}!`,
                     type: 'alert',
-                    timestamp: Date.now()
+                    timestamp: SimClock.now()
                 } as any);
 
                 return {
@@ -1023,8 +1151,34 @@ export const processGameTick = (currentState: GameState, intents: Intent[] = [],
         return poi;
     });
 
+    // 3b. NAVAL MINES - detection, detonations, lay/sweep cooldowns
+    const mineResult = processMines(nextUnits, currentState.mines || [], factions, {
+        log: (text, type) => logEvent(messages, text, type),
+        explode: (position) => newExplosions.push({ id: SimRandom.id(), position, timestamp: SimClock.now(), size: 'LARGE' })
+    });
+    nextUnits = mineResult.units;
+
+    // 3c. CARGO - carry/board/airdrop, and sink cargo with destroyed carriers
+    if (loadedUnits.length > 0 || nextUnits.some(u => u.boardingTransportId || u.parentCarrierId || u.transportState === 'DROPPING')) {
+        nextUnits = processCargo([...nextUnits, ...loadedUnits], nextPOIs, (text, type) => logEvent(messages, text, type));
+    }
+
+    // 3d. COMMAND QUEUES - attack-move engagements, then start the next queued order
+    nextUnits = processOrderQueues(nextUnits, { pois: nextPOIs, factions, tick: currentState.gameTick }, (text, type) => logEvent(messages, text, type));
+
+    // 3e. DIPLOMACY - broken treaties, tribute, expiry, bot answers to proposals
+    let diplomacy = currentState.diplomacy;
+    if (diplomacy) {
+        const log = (text: string, type: LogMessage['type']) => logEvent(messages, text, type);
+        let result = breakTreatiesOnAttack(diplomacy, factions, attackPairs.values(), log);
+        result = processDiplomacy(result.diplomacy, result.factions, { units: nextUnits }, currentState.gameTick, log);
+        diplomacy = result.diplomacy;
+        factions = result.factions;
+    }
+
     // 4. RESOURCE GEN & DEFEAT CHECK
     const isResourceTick = currentState.gameTick % 40 === 0;
+    const { incomeMultiplier } = getGameSettings(currentState);
 
     // Update Factions (Income + Defeat)
     factions = factions.map(faction => {
@@ -1057,8 +1211,8 @@ export const processGameTick = (currentState: GameState, intents: Intent[] = [],
 
             return {
                 ...faction,
-                gold: faction.gold + goldIncome,
-                oil: (faction.oil || 0) + oilIncome
+                gold: faction.gold + Math.floor(goldIncome * incomeMultiplier),
+                oil: (faction.oil || 0) + Math.floor(oilIncome * incomeMultiplier)
             };
         }
         return faction;
@@ -1088,48 +1242,58 @@ export const processGameTick = (currentState: GameState, intents: Intent[] = [],
         gameTick: currentState.gameTick + 1,
         messages: messages,
         gameStats: currentState.gameStats,
-        nukesInFlight: nextNukes
+        nukesInFlight: nextNukes,
+        mines: mineResult.mines,
+        diplomacy
     };
 
     // VICTORY/DEFEAT CHECK (Every 60 ticks = ~2 seconds)
-    if (isHost && currentState.gameTick % 60 === 0 && !currentState.gameResult) {
+    // Keeps running after the local player falls so an allied coalition can still win
+    if (isHost && currentState.gameTick % VICTORY_CONFIG.CHECK_INTERVAL_TICKS === 0 && !currentState.winnerFactionIds) {
         const localId = currentState.localPlayerId;
 
         // Check Player Status
         const playerHasUnits = nextState.units.some(u => u.factionId === localId);
         const playerHasCities = nextState.pois.some(p => p.ownerFactionId === localId && p.type === POIType.CITY);
 
-        // Check Enemy Status
-        const enemyFactions = nextState.factions.filter(f => f.type === 'BOT' && f.id !== localId);
-        const enemiesRemaining = enemyFactions.filter(f => {
-            const hasUnits = nextState.units.some(u => u.factionId === f.id);
-            const hasCities = nextState.pois.some(p => p.ownerFactionId === f.id && p.type === POIType.CITY);
-            return hasUnits || hasCities;
-        });
-
-        // DEFEAT: Player has no units AND no cities
-        if (!playerHasUnits && !playerHasCities) {
+        // Check Enemy Status - won once every survivor is allied with every other
+        const winners = isVictoryConditionEnabled(currentState, 'ELIMINATION') ? getWinningCoalition(nextState) : null;
+
+        // Lobby victory conditions (capitals, territory, hill, economic, time limit)
+        const checked = processVictoryConditions(nextState);
+        nextState = { ...nextState, victory: checked.victory };
+        const outcome = winners ? { condition: 'ELIMINATION' as const, winners } : checked.outcome;
+
+        // VICTORY: All enemies eliminated (for every surviving ally) or another condition met
+        if (outcome) {
+            const won = outcome.winners.includes(localId);
+            const reason = describeVictory(outcome.condition, getGameSettings(currentState));
+            const text = won
+                ? `🏆 VICTORY - ${outcome.winners.length > 1 ? 'Your coalition' : 'You'} ${reason}!`
+                : `💀 DEFEAT - ${outcome.winners.map(id => factions.find(f => f.id === id)?.name || id).join(' & ')} ${reason}!`;
             nextState = {
                 ...nextState,
-                gameResult: 'DEFEAT',
+                gameResult: won ? 'VICTORY' : 'DEFEAT',
+                winnerFactionIds: outcome.winners,
+                victory: { ...checked.victory, endedBy: outcome.condition },
                 messages: [...nextState.messages, {
-                    id: Math.random().toString(36),
-                    text: '💀 DEFEAT - All your forces have been eliminated!',
+                    id: SimRandom.id(),
+                    text,
                     type: 'alert',
-                    timestamp: Date.now()
+                    timestamp: SimClock.now()
                 } as any]
             };
         }
-        // VICTORY: All enemies eliminated
-        else if (enemiesRemaining.length === 0 && enemyFactions.length > 0) {
+        // DEFEAT: Player has no units AND no cities
+        else if (!playerHasUnits && !playerHasCities && !currentState.gameResult) {
             nextState = {
                 ...nextState,
-                gameResult: 'VICTORY',
+                gameResult: 'DEFEAT',
                 messages: [...nextState.messages, {
-                    id: Math.random().toString(36),
-                    text: '🏆 VICTORY - You have achieved global domination!',
+                    id: SimRandom.id(),
+                    text: '💀 DEFEAT - All your forces have been eliminated!',
                     type: 'alert',
-                    timestamp: Date.now()
+                    timestamp: SimClock.now()
                 } as any]
             };
         }
@@ -1140,6 +1304,13 @@ export const processGameTick = (currentState: GameState, intents: Intent[] = [],
         nextState = processPlayerAutoControl(nextState);
     }
 
+    // Hold / hand back seats of dropped players, then forfeit the ones that
+    // did not reconnect in time - HOST ONLY
+    if (isHost) {
+        nextState = applySeatIntents(nextState, intents);
+        nextState = processDisconnectedSeats(nextState);
+    }
+
     // Throttle AI Update (every 5 ticks) - HOST ONLY
     if (isHost && currentState.gameTick % 5 === 0) {
         nextState = updateAI(nextState);
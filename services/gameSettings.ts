@@ -0,0 +1,127 @@
+// ============================================
+// CUSTOM GAME SETUP
+// Starting conditions, bots and rule toggles picked in the lobby
+// ============================================
+// The lobby edits a GameSettings object (LobbyState.settings). The host turns
+// it into factions when the match starts, sends it along with START_GAME and
+// keeps it in GameState.settings, where the simulation reads the income
+// multiplier, the nuke switch and the victory conditions (see victoryService).
+// Games started without settings (Battle Royale, older replays) play with
+// DEFAULT_GAME_SETTINGS.
+
+import { GameSettings, GameState, GameUnit, UnitClass, BotPersonality, BotPersonalityChoice, VictoryCondition } from '../types';
+import { DEFAULT_GAME_SETTINGS, GAME_SETTINGS_LIMITS } from '../constants';
+import { spawnUnit } from './gameLogic';
+
+const clamp = (value: unknown, min: number, max: number, fallback: number): number =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+const PERSONALITY_CHOICES: BotPersonalityChoice[] = ['RANDOM', ...Object.values(BotPersonality)];
+export const VICTORY_CONDITIONS: VictoryCondition[] = ['ELIMINATION', 'CAPITALS', 'TERRITORY', 'KING_OF_THE_HILL', 'ECONOMIC', 'TIME_LIMIT'];
+export const VICTORY_CONDITION_NAMES: Record<VictoryCondition, string> = {
+    ELIMINATION: 'Elimination',
+    CAPITALS: 'Capitals',
+    TERRITORY: 'Territory',
+    KING_OF_THE_HILL: 'King of the Hill',
+    ECONOMIC: 'Economic',
+    TIME_LIMIT: 'Time Limit'
+};
+
+/** Settings in force for this match. */
+export const getGameSettings = (state: Pick<GameState, 'settings'>): GameSettings =>
+    state.settings || DEFAULT_GAME_SETTINGS;
+
+/**
+ * Clamp/fill settings that came from the lobby or over the network so every
+ * field is present and within GAME_SETTINGS_LIMITS.
+ */
+export function normalizeGameSettings(raw: Partial<GameSettings> | undefined): GameSettings {
+    const d = DEFAULT_GAME_SETTINGS;
+    if (!raw) return d;
+
+    const startingUnits: GameSettings['startingUnits'] = {};
+    Object.entries(raw.startingUnits || {}).forEach(([unitClass, count]) => {
+        if (!Object.values(UnitClass).includes(unitClass as UnitClass)) return;
+        const n = Math.floor(clamp(count, 0, GAME_SETTINGS_LIMITS.MAX_STARTING_UNITS, 0));
+        if (n > 0) startingUnits[unitClass as UnitClass] = n;
+    });
+
+    const resourceScale: Record<string, number> = {};
+    Object.entries(raw.resourceScale || {}).forEach(([slotId, scale]) => {
+        if (GAME_SETTINGS_LIMITS.RESOURCE_SCALES.includes(scale) && scale !== 1) resourceScale[slotId] = scale;
+    });
+
+    const victoryConditions = (raw.victoryConditions || []).filter(c => VICTORY_CONDITIONS.includes(c));
+    const vp = raw.victoryParams || d.victoryParams;
+    const dp = d.victoryParams;
+    const limits = GAME_SETTINGS_LIMITS;
+
+    return {
+        startingGold: Math.floor(clamp(raw.startingGold, 0, GAME_SETTINGS_LIMITS.MAX_STARTING_GOLD, d.startingGold)),
+        startingOil: Math.floor(clamp(raw.startingOil, 0, GAME_SETTINGS_LIMITS.MAX_STARTING_OIL, d.startingOil)),
+        startingUnits: raw.startingUnits ? startingUnits : d.startingUnits,
+        resourceScale,
+        botCount: Math.floor(clamp(raw.botCount, 0, GAME_SETTINGS_LIMITS.MAX_BOTS, d.botCount)),
+        botPersonalities: (raw.botPersonalities || []).map(p => PERSONALITY_CHOICES.includes(p) ? p : 'RANDOM'),
+        incomeMultiplier: clamp(raw.incomeMultiplier, 0, Math.max(...GAME_SETTINGS_LIMITS.INCOME_MULTIPLIERS), d.incomeMultiplier),
+        nukesEnabled: raw.nukesEnabled ?? d.nukesEnabled,
+        fogOfWar: raw.fogOfWar ?? d.fogOfWar,
+        victoryConditions: victoryConditions.length > 0 ? victoryConditions : d.victoryConditions,
+        victoryParams: {
+            capitalCount: Math.floor(clamp(vp.capitalCount, 1, limits.MAX_CAPITAL_COUNT, dp.capitalCount)),
+            capitalHoldMinutes: clamp(vp.capitalHoldMinutes, 0, limits.MAX_HOLD_MINUTES, dp.capitalHoldMinutes),
+            territoryPercent: clamp(vp.territoryPercent, 1, 100, dp.territoryPercent),
+            hillPoiId: typeof vp.hillPoiId === 'string' ? vp.hillPoiId : undefined,
+            hillHoldMinutes: clamp(vp.hillHoldMinutes, 0, limits.MAX_HOLD_MINUTES, dp.hillHoldMinutes),
+            economicGold: Math.floor(clamp(vp.economicGold, 1, limits.MAX_ECONOMIC_GOLD, dp.economicGold)),
+            timeLimitMinutes: clamp(vp.timeLimitMinutes, 1, limits.MAX_TIME_LIMIT_MINUTES, dp.timeLimitMinutes)
+        }
+    };
+}
+
+/**
+ * Gold/oil a faction starts with, after its per-faction scale.
+ * @param slotId lobby slot ID ('PLAYER' offline, peer ID online, BOT_<i>)
+ */
+export function getStartingResources(settings: GameSettings, slotId: string): { gold: number; oil: number } {
+    const scale = settings.resourceScale?.[slotId] ?? 1;
+    return {
+        gold: Math.floor(settings.startingGold * scale),
+        oil: Math.floor(settings.startingOil * scale)
+    };
+}
+
+/** The personality picked for bot slot `index`, rolling RANDOM slots. */
+export function resolveBotPersonality(settings: GameSettings, index: number): BotPersonality {
+    const choice = settings.botPersonalities[index];
+    if (choice && choice !== 'RANDOM') return choice;
+    const personalities = Object.values(BotPersonality);
+    return personalities[Math.floor(Math.random() * personalities.length)];
+}
+
+/**
+ * Starting army (without the HQ) scattered around a faction's capital.
+ * Host-only: positions are jittered with Math.random like the HQ spawn.
+ */
+export function createStartingArmy(factionId: string, at: { lat: number; lng: number }, settings: GameSettings): GameUnit[] {
+    const units: GameUnit[] = [];
+    const stamp = Date.now();
+    Object.entries(settings.startingUnits).forEach(([unitClass, count]) => {
+        for (let i = 0; i < (count || 0); i++) {
+            const unit = spawnUnit(
+                unitClass as UnitClass,
+                at.lat + (Math.random() - 0.5) * 0.04,
+                at.lng + (Math.random() - 0.5) * 0.04,
+                factionId
+            );
+            unit.id = `${unitClass}-${factionId}-${i}-${stamp}`;
+            unit.heading = Math.random() * 360;
+            units.push(unit);
+        }
+    });
+    return units;
+}
+
+/** Is `condition` one of the ways this match can be won? */
+export const isVictoryConditionEnabled = (state: Pick<GameState, 'settings'>, condition: VictoryCondition): boolean =>
+    getGameSettings(state).victoryConditions.includes(condition);
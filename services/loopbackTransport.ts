@@ -0,0 +1,160 @@
+// ============================================
+// LOOPBACK TRANSPORT
+// Several simulated peers in one process
+// ============================================
+// A LoopbackNetwork is the "internet" for any number of in-process peers:
+// messages are copied (so nothing is shared by reference) and delivered
+// after a configurable latency, optionally with jitter and packet loss. Peers
+// can crash - everything to and from them is silently dropped, the way a
+// frozen tab or dead link behaves - and come back. Used by
+// scripts/netHarness.ts to run real NetworkService instances without the
+// PeerJS broker.
+
+import { Transport, TransportConnection, TransportError, TransportEvents, TransportFactory } from './transport';
+
+export interface LoopbackOptions {
+    latencyMs: number;
+    jitterMs: number;            // Extra random delay, 0..jitterMs (messages may arrive out of order)
+    lossRate: number;            // 0..1 - share of data messages dropped
+}
+
+const DEFAULT_OPTIONS: LoopbackOptions = { latencyMs: 5, jitterMs: 0, lossRate: 0 };
+
+class LoopbackConnection implements TransportConnection {
+    open = false;
+    remote: LoopbackConnection | null = null;
+    private events = new TransportEvents();
+
+    constructor(private network: LoopbackNetwork, private owner: string, public readonly peer: string) { }
+
+    on(event: string, listener: (...args: any[]) => void) {
+        this.events.on(event, listener);
+    }
+
+    send(data: any) {
+        const remote = this.remote;
+        if (!this.open || !remote || !this.network.canDeliver(this.owner, this.peer)) return;
+        if (Math.random() < this.network.options.lossRate) return;
+        const copy = data instanceof Uint8Array ? data.slice() : JSON.parse(JSON.stringify(data));
+        this.network.later(() => {
+            if (remote.open && this.network.canDeliver(this.owner, this.peer)) remote.emit('data', copy);
+        });
+    }
+
+    close() {
+        if (!this.open) return;
+        this.open = false;
+        this.emit('close');
+        const remote = this.remote;
+        if (remote?.open) {
+            this.network.later(() => {
+                if (!remote.open) return;
+                remote.open = false;
+                remote.emit('close');
+            });
+        }
+    }
+
+    emit(event: string, ...args: any[]) {
+        this.events.emit(event, ...args);
+    }
+}
+
+class LoopbackPeer implements Transport {
+    private events = new TransportEvents();
+    private connections: LoopbackConnection[] = [];
+
+    constructor(private network: LoopbackNetwork, public readonly id: string) { }
+
+    on(event: string, listener: (...args: any[]) => void) {
+        this.events.on(event, listener);
+    }
+
+    emit(event: string, ...args: any[]) {
+        this.events.emit(event, ...args);
+    }
+
+    connect(peerId: string): TransportConnection {
+        const local = new LoopbackConnection(this.network, this.id, peerId);
+        this.network.later(() => {
+            const target = this.network.getPeer(peerId);
+            if (!target || !this.network.canDeliver(this.id, peerId)) {
+                const err: TransportError = { type: 'peer-unavailable', message: `${peerId} unreachable` };
+                local.emit('error', err);
+                return;
+            }
+            const remote = new LoopbackConnection(this.network, peerId, this.id);
+            local.remote = remote;
+            remote.remote = local;
+            this.connections.push(local);
+            target.accept(remote);
+            local.open = remote.open = true;
+            remote.emit('open');
+            local.emit('open');
+        });
+        return local;
+    }
+
+    accept(conn: LoopbackConnection) {
+        this.connections.push(conn);
+        this.emit('connection', conn);
+    }
+
+    destroy() {
+        this.connections.forEach(conn => conn.close());
+        this.connections = [];
+        this.network.release(this.id);
+    }
+}
+
+export class LoopbackNetwork {
+    readonly options: LoopbackOptions;
+    private peers = new Map<string, LoopbackPeer>();
+    private down = new Set<string>();
+    private nextId = 0;
+
+    constructor(options: Partial<LoopbackOptions> = {}) {
+        this.options = { ...DEFAULT_OPTIONS, ...options };
+    }
+
+    /** Transport factory for NetworkService / PhantomHostService.configure(). */
+    readonly createTransport: TransportFactory = id => {
+        const peerId = id || `LOOP-${++this.nextId}`;
+        const peer = new LoopbackPeer(this, peerId);
+        this.later(() => {
+            if (this.peers.has(peerId)) {
+                peer.emit('error', { type: 'unavailable-id', message: `ID ${peerId} is taken` });
+                return;
+            }
+            this.peers.set(peerId, peer);
+            peer.emit('open', peerId);
+        });
+        return peer;
+    };
+
+    /** Drop everything to and from `id` until revive(). */
+    crash(id: string) {
+        this.down.add(id);
+    }
+
+    revive(id: string) {
+        this.down.delete(id);
+    }
+
+    canDeliver(from: string, to: string): boolean {
+        return !this.down.has(from) && !this.down.has(to);
+    }
+
+    getPeer(id: string): LoopbackPeer | undefined {
+        return this.peers.get(id);
+    }
+
+    release(id: string) {
+        this.peers.delete(id);
+    }
+
+    later(deliver: () => void) {
+        const { latencyMs, jitterMs } = this.options;
+        setTimeout(deliver, latencyMs + (jitterMs > 0 ? Math.random() * jitterMs : 0));
+    }
+}
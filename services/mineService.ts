@@ -0,0 +1,169 @@
+// ============================================
+// NAVAL MINE WARFARE
+// Minefields laid by MINELAYER, spotted by DESTROYER / RECON_DRONE
+// ============================================
+// Mines live in GameState.mines. Every peer has the full list, but the
+// renderer only draws a mine for its owner and for factions in revealedTo.
+
+import { GameUnit, NavalMine, Faction, UnitClass, POI, LogMessage } from '../types';
+import { MINE_CONFIG } from '../constants';
+import { getDistanceKm, isHostile } from './gameLogic';
+import { TerrainService } from './terrainService';
+
+const NAVAL_CLASSES = [
+    UnitClass.DESTROYER, UnitClass.FRIGATE, UnitClass.BATTLESHIP, UnitClass.AIRCRAFT_CARRIER,
+    UnitClass.SUBMARINE, UnitClass.PATROL_BOAT, UnitClass.MINELAYER
+];
+
+export const isNavalUnit = (unitClass: UnitClass): boolean => NAVAL_CLASSES.includes(unitClass);
+
+/**
+ * Mines a faction knows about: its own plus enemy mines it has spotted.
+ */
+export function getKnownMines(mines: NavalMine[], factionId: string): NavalMine[] {
+    return mines.filter(m => m.factionId === factionId || m.revealedTo.includes(factionId));
+}
+
+interface MineEvents {
+    log: (text: string, type: LogMessage['type']) => void;
+    explode: (position: { lat: number; lng: number }) => void;
+}
+
+/**
+ * Per-tick mine step: cooldowns, detection and detonations.
+ * Returns new arrays; units hit this tick keep their hp <= 0 for the caller to remove.
+ */
+export function processMines(
+    units: GameUnit[],
+    mines: NavalMine[],
+    factions: Faction[],
+    events: MineEvents
+): { units: GameUnit[]; mines: NavalMine[] } {
+    // Ability cooldowns tick down even when no mines are on the map
+    let nextUnits = units.map(u => (u.mineCooldown && u.mineCooldown > 0) ? { ...u, mineCooldown: u.mineCooldown - 1 } : u);
+    if (mines.length === 0) return { units: nextUnits, mines };
+
+    const factionMap = new Map(factions.map(f => [f.id, f]));
+    const spotters = nextUnits.filter(u => u.hp > 0 && !u.isLoaded && MINE_CONFIG.DETECTION_RANGE_KM[u.unitClass]);
+    const ships = nextUnits.filter(u => u.hp > 0 && !u.isLoaded && isNavalUnit(u.unitClass));
+    const damage = new Map<string, number>();
+    const nextMines: NavalMine[] = [];
+
+    for (const mine of mines) {
+        const owner = factionMap.get(mine.factionId);
+
+        // 1. Detection - hostile DESTROYER / RECON_DRONE in range charts the mine
+        let revealedTo = mine.revealedTo;
+        for (const spotter of spotters) {
+            if (spotter.factionId === mine.factionId || revealedTo.includes(spotter.factionId)) continue;
+            const range = MINE_CONFIG.DETECTION_RANGE_KM[spotter.unitClass]!;
+            if (getDistanceKm(spotter.position.lat, spotter.position.lng, mine.position.lat, mine.position.lng) <= range) {
+                revealedTo = [...revealedTo, spotter.factionId];
+            }
+        }
+
+        // 2. Detonation - first hostile ship inside the trigger radius
+        const victim = ships.find(s =>
+            s.factionId !== mine.factionId &&
+            (!owner || isHostile(owner, s.factionId)) &&
+            getDistanceKm(s.position.lat, s.position.lng, mine.position.lat, mine.position.lng) <= MINE_CONFIG.TRIGGER_RADIUS_KM
+        );
+        if (victim) {
+            damage.set(victim.id, (damage.get(victim.id) || 0) + MINE_CONFIG.DAMAGE);
+            events.explode(mine.position);
+            events.log(`${victim.unitClass.replace(/_/g, ' ')} struck a naval mine!`, 'alert');
+            continue;
+        }
+
+        nextMines.push(revealedTo === mine.revealedTo ? mine : { ...mine, revealedTo });
+    }
+
+    if (damage.size > 0) {
+        nextUnits = nextUnits.map(u => damage.has(u.id) ? { ...u, hp: u.hp - damage.get(u.id)!, lastAttackerId: null } : u);
+    }
+
+    return { units: nextUnits, mines: nextMines };
+}
+
+/**
+ * Mines a DESTROYER at `position` clears: every hostile mine within sweep range.
+ */
+export function getSweepableMines(mines: NavalMine[], factionId: string, position: { lat: number; lng: number }): NavalMine[] {
+    return mines.filter(m =>
+        m.factionId !== factionId &&
+        getDistanceKm(position.lat, position.lng, m.position.lat, m.position.lng) <= MINE_CONFIG.SWEEP_RANGE_KM
+    );
+}
+
+// ============================================
+// ROUTING AROUND MINEFIELDS
+// ============================================
+
+/**
+ * Distance (km) from point P to segment AB, on a local flat projection.
+ * Also returns the side of AB that P lies on (+1 left, -1 right).
+ */
+const distanceToSegmentKm = (
+    p: { lat: number; lng: number },
+    a: { lat: number; lng: number },
+    b: { lat: number; lng: number }
+): { dist: number; side: number } => {
+    const kx = 111 * Math.cos(a.lat * Math.PI / 180);
+    const ky = 111;
+    const bx = (b.lng - a.lng) * kx, by = (b.lat - a.lat) * ky;
+    const px = (p.lng - a.lng) * kx, py = (p.lat - a.lat) * ky;
+    const len2 = bx * bx + by * by;
+    const t = len2 === 0 ? 0 : Math.max(0, Math.min(1, (px * bx + py * by) / len2));
+    const dx = px - t * bx, dy = py - t * by;
+    return { dist: Math.sqrt(dx * dx + dy * dy), side: (bx * py - by * px) >= 0 ? 1 : -1 };
+};
+
+/**
+ * If the straight route from `from` to `to` runs through a known minefield,
+ * return a water waypoint that skirts the closest blocking mine. Returns null
+ * when the route is clear (or no detour is possible).
+ */
+export function findMineDetour(
+    unitClass: UnitClass,
+    from: { lat: number; lng: number },
+    to: { lat: number; lng: number },
+    knownMines: NavalMine[],
+    pois: POI[]
+): { lat: number; lng: number } | null {
+    let blocking: NavalMine | null = null;
+    let blockingSide = 1;
+    let nearest = Infinity;
+
+    for (const mine of knownMines) {
+        const { dist, side } = distanceToSegmentKm(mine.position, from, to);
+        if (dist > MINE_CONFIG.AVOID_RADIUS_KM) continue;
+        const fromDist = getDistanceKm(from.lat, from.lng, mine.position.lat, mine.position.lng);
+        if (fromDist < nearest) {
+            nearest = fromDist;
+            blocking = mine;
+            blockingSide = side;
+        }
+    }
+    if (!blocking) return null;
+
+    // Pass on the opposite side of the route from the mine, perpendicular to the heading
+    const kx = 111 * Math.cos(from.lat * Math.PI / 180);
+    const dx = (to.lng - from.lng) * kx;
+    const dy = (to.lat - from.lat) * 111;
+    const len = Math.sqrt(dx * dx + dy * dy) || 1;
+    const clearance = MINE_CONFIG.AVOID_RADIUS_KM * 1.5;
+
+    for (const side of [-blockingSide, blockingSide]) {
+        // Left normal of the route is (-dy, dx)
+        const nx = (-dy / len) * side;
+        const ny = (dx / len) * side;
+        const waypoint = {
+            lat: blocking.position.lat + (ny * clearance) / 111,
+            lng: blocking.position.lng + (nx * clearance) / kx
+        };
+        if (TerrainService.isValidMove(unitClass, waypoint.lat, waypoint.lng, pois)) {
+            return waypoint;
+        }
+    }
+    return null;
+}
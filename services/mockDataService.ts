@@ -1,6 +1,7 @@
 
-import { Faction, GameUnit, RealWorldData, UnitClass, POI, POIType } from '../types';
-import { AIR_MAPPING, SEA_MAPPING, UNIT_CONFIG, DEFAULT_AIR_CLASS, DEFAULT_SEA_CLASS, FACTION_PRESETS, POI_CONFIG } from '../constants';
+import { Faction, GameUnit, GameSettings, RealWorldData, UnitClass, POI, POIType } from '../types';
+import { AIR_MAPPING, SEA_MAPPING, UNIT_CONFIG, DEFAULT_AIR_CLASS, DEFAULT_SEA_CLASS, FACTION_PRESETS, POI_CONFIG, DEFAULT_GAME_SETTINGS } from '../constants';
+import { getStartingResources, resolveBotPersonality } from './gameSettings';
 
 const PLANE_TYPES = ['B747', 'A380', 'B737', 'A320', 'C172', 'PC12', 'B777', 'A340'];
 const SHIP_TYPES = ['Cargo', 'Tanker', 'Fishing', 'Tug', 'Passenger', 'Pleasure Craft'];
@@ -310,7 +311,7 @@ export const generateRandomResources = (
   return resources;
 };
 
-export const fetchWorldData = async (centerLat: number, centerLng: number, radiusKm: number): Promise<{ units: GameUnit[], pois: POI[], factions: Faction[] }> => {
+export const fetchWorldData = async (centerLat: number, centerLng: number, radiusKm: number, settings: GameSettings = DEFAULT_GAME_SETTINGS): Promise<{ units: GameUnit[], pois: POI[], factions: Faction[] }> => {
   const units: GameUnit[] = [];
   const pois: POI[] = [];
   const factions: Faction[] = [];
@@ -321,8 +322,7 @@ export const fetchWorldData = async (centerLat: number, centerLng: number, radiu
     name: 'Global Command (You)',
     color: '#3b82f6',
     type: 'PLAYER',
-    gold: 5000, // BALANCED STARTING RESOURCES (was 50000)
-    oil: 1500,  // (was 10000)
+    ...getStartingResources(settings, 'PLAYER'),
     relations: {}
   });
 
@@ -336,9 +336,8 @@ export const fetchWorldData = async (centerLat: number, centerLng: number, radiu
     relations: { 'PLAYER': 0 }
   });
 
-  // CHAOS MODE: 40 AI FACTIONS (Massive Density)
-  const aiCount = 40;
-  for (let i = 0; i < aiCount; i++) {
+  // AI FACTIONS (count, personalities and resources from the game settings)
+  for (let i = 0; i < settings.botCount; i++) {
     const preset = FACTION_PRESETS[i + 1] || { name: `Warlord ${i}`, color: `#${Math.floor(Math.random() * 16777215).toString(16)}` };
     const id = `AI_${i}`;
 
@@ -347,8 +346,8 @@ export const fetchWorldData = async (centerLat: number, centerLng: number, radiu
       name: preset.name,
       color: preset.color,
       type: 'AI',
-      gold: 5000, // BALANCED STARTING RESOURCES (was 50000)
-      oil: 1500,  // (was 10000)
+      ...getStartingResources(settings, `BOT_${i}`),
+      personality: resolveBotPersonality(settings, i),
       relations: { 'PLAYER': -50 }, // Dislike player by default
       aggression: 0.8 + Math.random() * 0.2, // VERY AGGRESSIVE (0.8 - 1.0)
       lastAiUpdate: 0,
@@ -410,7 +409,7 @@ export const fetchWorldData = async (centerLat: number, centerLng: number, radiu
 
     let ownerId = 'NEUTRAL';
     // 30% chance to be owned by a random AI (leaves 70% for neutral city defenders)
-    if (Math.random() < 0.3) {
+    if (aiFactions.length > 0 && Math.random() < 0.3) {
       const randomAI = aiFactions[Math.floor(Math.random() * aiFactions.length)];
       ownerId = randomAI.id;
     }
@@ -491,8 +490,7 @@ export const fetchWorldData = async (centerLat: number, centerLng: number, radiu
     };
 
     let assignedFaction = 'NEUTRAL';
-    if (Math.random() < 0.6) {
-      const aiFactions = factions.filter(f => f.type === 'AI');
+    if (aiFactions.length > 0 && Math.random() < 0.6) {
       const randomAI = aiFactions[Math.floor(Math.random() * aiFactions.length)];
       assignedFaction = randomAI.id;
     }
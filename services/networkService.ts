@@ -1,6 +1,10 @@
-import Peer, { DataConnection } from 'peerjs';
-import { GameState, LobbyState, NetworkRequest, NetworkResponse } from '../types';
-import { GameAction, NetworkMessage, ActionMessage, FullStateMessage } from './schemas';
+import { GameState, LobbyState, NetworkRequest, NetworkResponse, GameSettings, Scenario } from '../types';
+import { GameAction, NetworkMessage, ActionMessage, FullStateMessage, StateDelta, ResyncRequestMessage, NewHostMessage, HostCandidateMessage, PeerListMessage, EpochStamp, HelloMessage } from './schemas';
+import { StateSyncEncoder } from './stateSync';
+import { STATE_SYNC_CONFIG, RECONNECT_CONFIG } from '../constants';
+import { createSessionToken } from './reconnectService';
+import { Transport, TransportConnection, createDefaultTransport } from './transport';
+import { SUPPORTED_WIRE_VERSIONS, decodeWireMessage, encodeWireMessage, isBinaryEncodable, isBinaryFrame, negotiateWireVersion } from './wireCodec';
 
 // ============================================
 // REAL-TIME P2P NETWORK SERVICE
@@ -11,23 +15,69 @@ import { GameAction, NetworkMessage, ActionMessage, FullStateMessage } from './s
 export type NetworkEvent =
     | { type: 'CONNECT', peerId: string }
     | { type: 'DISCONNECT', peerId: string }
-    | { type: 'ACTION', action: GameAction }
+    | { type: 'ACTION', action: GameAction, fromPeerId: string }
     | { type: 'FULL_STATE', gameState: GameState, timestamp: number }
+    | { type: 'STATE_DELTA', delta: StateDelta, timestamp: number }
     | { type: 'LOBBY_UPDATE', state: LobbyState }
-    | { type: 'START_GAME', scenarioId: string, factions: any[], pois: any[] }
+    | { type: 'START_GAME', scenarioId: string, factions: any[], pois: any[], rngSeed?: number, settings?: GameSettings, scenario?: Scenario }
     | { type: 'REQUEST', request: NetworkRequest, fromPeerId: string }
     | { type: 'RESPONSE', response: NetworkResponse };
 
 type EventHandler = (event: NetworkEvent) => void;
 
-class NetworkServiceImpl {
-    private peer: Peer | null = null;
-    private conns: DataConnection[] = [];
+// The transport can be swapped out, e.g. for the loopback network in
+// scripts/netHarness.ts (see services/transport.ts)
+export interface NetworkPlatform {
+    createTransport: () => Transport;
+}
+
+const browserPlatform: NetworkPlatform = {
+    createTransport: () => createDefaultTransport()
+};
+
+// Messages only a host sends - one from a newer epoch identifies the new host
+const HOST_MESSAGE_TYPES = ['FULL_STATE', 'STATE_DELTA', 'LOBBY_UPDATE', 'START_GAME', 'RESPONSE', 'HEARTBEAT', 'PEER_LIST'];
+
+// Client copy of the seat granted by a host (see reconnectService)
+export interface SessionInfo {
+    hostId: string;
+    token: string;
+    factionId: string;
+}
+
+const loadSession = (): SessionInfo | null => {
+    try {
+        if (typeof sessionStorage === 'undefined') return null;
+        const raw = sessionStorage.getItem(RECONNECT_CONFIG.STORAGE_KEY);
+        return raw ? JSON.parse(raw) : null;
+    } catch {
+        return null;
+    }
+};
+
+const storeSession = (session: SessionInfo | null) => {
+    try {
+        if (typeof sessionStorage === 'undefined') return;
+        if (session) sessionStorage.setItem(RECONNECT_CONFIG.STORAGE_KEY, JSON.stringify(session));
+        else sessionStorage.removeItem(RECONNECT_CONFIG.STORAGE_KEY);
+    } catch {
+        // Private mode / quota - reconnecting still works while the tab stays open
+    }
+};
+
+// Exported for the migration harness; the app uses the NetworkService singleton
+export class NetworkServiceImpl {
+    private transport: Transport | null = null;
+    private platform: NetworkPlatform = browserPlatform;
+    private conns: TransportConnection[] = [];
     private handlers: EventHandler[] = [];
 
     public myPeerId: string = '';
     private _isHost: boolean = false;  // Private backing field
-    public hostConn: DataConnection | null = null;
+    public hostConn: TransportConnection | null = null;
+
+    // Wire format agreed with each connection through HELLO (0 / missing = JSON)
+    private wireVersions = new Map<TransportConnection, number>();
 
     // Action deduplication (prevent processing same action twice)
     private processedActions = new Set<string>();
@@ -35,18 +85,32 @@ class NetworkServiceImpl {
     // State versioning for authoritative sync
     private _stateVersion: number = 0;
 
+    // Delta sync: host-side baseline, client-side resync throttle
+    private syncEncoder = new StateSyncEncoder();
+    private lastResyncRequest: number = 0;
+
+    // Reconnect: host-side seat tokens, client-side granted seat
+    private sessions = new Map<string, string>();      // token -> faction ID
+    private factionPeers = new Map<string, string>();  // faction ID -> peer, once reclaimed by REJOIN
+    private _session: SessionInfo | null = loadSession();
+    private rejoinTimer: ReturnType<typeof setTimeout> | null = null;
+
     // ============================================
     // HOST MIGRATION & HEARTBEAT SYSTEM
     // ============================================
     private heartbeatInterval: ReturnType<typeof setInterval> | null = null;
     private lastHostHeartbeat: number = Date.now();
     private orderedPeers: string[] = []; // For deterministic backup host selection
-    private lastKnownState: GameState | null = null;
-    private onHostMigration: ((newHostId: string) => void) | null = null;
-    private hostMigrationInProgress: boolean = false; // Mutex for host migration
+    private lastKnownState: GameState | null = null; // Freshest host state we hold (clients)
+    private onHostMigration: ((newHostId: string, previousHostId: string) => void) | null = null;
+    private _hostEpoch: number = 0;         // Bumped by every election, stamped on every message
+    private currentHostId: string = '';
+    private election: { epoch: number; candidates: Map<string, number>; timer: ReturnType<typeof setTimeout> } | null = null;
+    private lastElectionEpoch: number = 0;
 
     private static readonly HOST_TIMEOUT_MS = 5000; // 5 seconds to declare host dead
     private static readonly HEARTBEAT_INTERVAL_MS = 1000; // Send heartbeat every second
+    private static readonly ELECTION_WINDOW_MS = 1500; // Collect candidates this long before deciding
 
     // ============================================
     // HOST STATUS - SINGLE SOURCE OF TRUTH
@@ -84,37 +148,52 @@ class NetworkServiceImpl {
         return this._stateVersion;
     }
 
+    /**
+     * Replace the transport. Call before initialize().
+     */
+    configure(platform: Partial<NetworkPlatform>) {
+        this.platform = { ...this.platform, ...platform };
+    }
+
+    /**
+     * Current host epoch (0 until the first host migration)
+     */
+    get hostEpoch(): number {
+        return this._hostEpoch;
+    }
+
     initialize(onReady: (id: string) => void) {
-        if (this.peer) return;
+        if (this.transport) return;
 
-        this.peer = new Peer({ debug: 0 });
+        this.transport = this.platform.createTransport();
 
-        this.peer.on('open', (id) => {
+        this.transport.on('open', (id) => {
             this.myPeerId = id;
             console.log('[NETWORK] Peer initialized:', id);
             onReady(id);
         });
 
-        this.peer.on('connection', (conn) => {
+        this.transport.on('connection', (conn) => {
             console.log('[NETWORK] Incoming connection:', conn.peer);
             this.handleConnection(conn);
         });
 
-        this.peer.on('error', (err) => {
+        this.transport.on('error', (err) => {
             console.error('[NETWORK] Peer error:', err);
         });
     }
 
     connect(hostId: string, timeoutMs: number = 10000): Promise<boolean> {
         return new Promise((resolve) => {
-            if (!this.peer) {
+            if (!this.transport) {
                 console.error('[NETWORK] Cannot connect - peer not initialized');
                 resolve(false);
                 return;
             }
             console.log('[NETWORK] Connecting to host:', hostId);
-            const conn = this.peer.connect(hostId, { reliable: true });
+            const conn = this.transport.connect(hostId);
             this.hostConn = conn;
+            this.currentHostId = hostId;
 
             let resolved = false;
             const timeout = setTimeout(() => {
@@ -149,7 +228,7 @@ class NetworkServiceImpl {
         });
     }
 
-    private handleConnection(conn: DataConnection) {
+    private handleConnection(conn: TransportConnection) {
         const existingIdx = this.conns.findIndex(c => c.peer === conn.peer);
         if (existingIdx !== -1) {
             console.warn('[NETWORK] Duplicate connection, replacing:', conn.peer);
@@ -161,19 +240,43 @@ class NetworkServiceImpl {
 
         conn.on('open', () => {
             console.log('[NETWORK] Connection established:', conn.peer);
+            const hello: HelloMessage = { type: 'HELLO', wireVersions: SUPPORTED_WIRE_VERSIONS };
+            this.sendTo(conn, hello);
+            if (this._isHost) {
+                this.registerPeerForMigration(conn.peer);
+                this.broadcastPeerList();
+            }
             this.notify({ type: 'CONNECT', peerId: conn.peer });
         });
 
         conn.on('data', (data: any) => {
-            this.handleMessage(data, conn);
+            if (!isBinaryFrame(data)) {
+                this.handleMessage(data, conn);
+                return;
+            }
+            let msg: NetworkMessage;
+            try {
+                msg = decodeWireMessage(data);
+            } catch (err) {
+                console.warn('[NETWORK] Dropped unreadable binary frame from', conn.peer, err);
+                return;
+            }
+            this.handleMessage(msg, conn);
         });
 
         conn.on('close', () => {
             console.log('[NETWORK] Connection closed:', conn.peer);
             this.conns = this.conns.filter(c => c !== conn);
+            this.wireVersions.delete(conn);
             if (this.hostConn === conn) this.hostConn = null;
+            // A replaced duplicate closing is not the peer leaving
+            if (this.conns.some(c => c.peer === conn.peer)) return;
             this.cleanupDisconnectedPlayer(conn.peer);
+            if (this._isHost) this.broadcastPeerList();
             this.notify({ type: 'DISCONNECT', peerId: conn.peer });
+            if (!this._isHost && this._session?.hostId === conn.peer) {
+                this.scheduleRejoin(Date.now() + RECONNECT_CONFIG.GRACE_SECONDS * 1000);
+            }
         });
 
         conn.on('error', (err) => {
@@ -200,20 +303,52 @@ class NetworkServiceImpl {
     }
 
 
-    private handleMessage(msg: NetworkMessage, conn: DataConnection) {
+    private handleMessage(msg: NetworkMessage, conn: TransportConnection) {
         // Validate message structure before processing
         if (!msg || typeof msg !== 'object' || !msg.type) {
             console.warn('[NETWORK] Invalid message received - missing type:', msg);
             return;
         }
 
-        const validTypes = ['ACTION', 'FULL_STATE', 'LOBBY_UPDATE', 'START_GAME',
-            'REQUEST', 'RESPONSE', 'HEARTBEAT', 'NEW_HOST'];
+        const validTypes = ['ACTION', 'FULL_STATE', 'STATE_DELTA', 'RESYNC_REQUEST', 'LOBBY_UPDATE', 'START_GAME',
+            'REQUEST', 'RESPONSE', 'HEARTBEAT', 'NEW_HOST', 'HOST_CANDIDATE', 'PEER_LIST', 'HELLO'];
         if (!validTypes.includes(msg.type)) {
             console.warn('[NETWORK] Unknown message type:', msg.type);
             return;
         }
 
+        // Wire format is agreed per connection, whatever the epoch
+        if (msg.type === 'HELLO') {
+            const version = negotiateWireVersion(msg.wireVersions);
+            this.wireVersions.set(conn, version);
+            console.log('[NETWORK] Wire format with', conn.peer + ':', version ? `binary v${version}` : 'JSON');
+            return;
+        }
+
+        // Election messages carry the epoch they are about - see handleElectionMessage
+        if (msg.type === 'NEW_HOST' || msg.type === 'HOST_CANDIDATE') {
+            this.handleElectionMessage(msg, conn);
+            return;
+        }
+
+        const epoch = msg.epoch ?? 0;
+        if (msg.type === 'START_GAME') {
+            this._hostEpoch = epoch;
+            this.lastElectionEpoch = epoch;
+        } else if (epoch < this._hostEpoch) {
+            console.warn('[NETWORK] Dropped', msg.type, 'from', conn.peer, '- stale epoch', epoch, '<', this._hostEpoch);
+            return;
+        }
+        if (epoch > this._hostEpoch) {
+            // The match moved on to a newer host without us (missed NEW_HOST)
+            if (HOST_MESSAGE_TYPES.includes(msg.type)) {
+                this.followHost(conn, epoch);
+            } else if (this._isHost) {
+                this.stepDown(epoch);
+                return;
+            }
+        }
+
         switch (msg.type) {
             case 'ACTION':
                 // Validate action structure
@@ -238,7 +373,7 @@ class NetworkServiceImpl {
                 }
 
                 console.log('[NETWORK] Action received:', msg.action.actionType, 'from', msg.action.playerId);
-                this.notify({ type: 'ACTION', action: msg.action });
+                this.notify({ type: 'ACTION', action: msg.action, fromPeerId: conn.peer });
                 break;
 
             case 'FULL_STATE':
@@ -246,17 +381,42 @@ class NetworkServiceImpl {
                 this.notify({ type: 'FULL_STATE', gameState: msg.gameState, timestamp: msg.timestamp });
                 break;
 
+            case 'STATE_DELTA':
+                if (!msg.delta || typeof msg.delta.baseVersion !== 'number') {
+                    console.warn('[NETWORK] Invalid STATE_DELTA message - missing delta');
+                    return;
+                }
+                this.notify({ type: 'STATE_DELTA', delta: msg.delta, timestamp: msg.timestamp });
+                break;
+
+            case 'RESYNC_REQUEST': {
+                // Host only: answer with a keyframe of the last synced state
+                if (!this._isHost) return;
+                const keyframe = this.syncEncoder.createKeyframe();
+                console.log('[NETWORK] Resync requested by', conn.peer, 'at version', msg.lastVersion);
+                if (keyframe && conn.open) this.sendTo(conn, keyframe);
+                break;
+            }
+
             case 'LOBBY_UPDATE':
                 this.notify({ type: 'LOBBY_UPDATE', state: msg.payload });
                 break;
 
             case 'START_GAME':
+                // Watch the host from now on - silence starts an election
+                if (!this._isHost) {
+                    this.lastHostHeartbeat = Date.now();
+                    this.startHeartbeat();
+                }
                 // Ensure all required fields are passed
                 this.notify({
                     type: 'START_GAME',
                     scenarioId: msg.payload.scenarioId,
                     factions: msg.payload.factions,
-                    pois: msg.payload.pois || []
+                    pois: msg.payload.pois || [],
+                    rngSeed: msg.payload.rngSeed,
+                    settings: msg.payload.settings,
+                    scenario: msg.payload.scenario
                 });
                 break;
 
@@ -265,6 +425,14 @@ class NetworkServiceImpl {
                 break;
 
             case 'RESPONSE':
+                if (msg.payload?.type === 'SESSION_TOKEN') {
+                    this._session = { hostId: conn.peer, token: msg.payload.token, factionId: msg.payload.factionId };
+                    storeSession(this._session);
+                    console.log('[NETWORK] Session granted for faction', msg.payload.factionId);
+                } else if (msg.payload?.type === 'REJOIN_RESULT' && !msg.payload.accepted) {
+                    console.warn('[NETWORK] Rejoin refused:', msg.payload.message);
+                    this.clearSession();
+                }
                 this.notify({ type: 'RESPONSE', response: msg.payload });
                 break;
 
@@ -273,19 +441,9 @@ class NetworkServiceImpl {
                 this.handleHeartbeat(msg.timestamp);
                 break;
 
-            case 'NEW_HOST':
-                // A new host has been elected after migration
-                console.log('[NETWORK] New host announced:', msg.hostId);
-                if (msg.hostId !== this.myPeerId) {
-                    // Find connection to new host
-                    const newHostConn = this.conns.find(c => c.peer === msg.hostId);
-                    if (newHostConn) {
-                        this.hostConn = newHostConn;
-                        this._isHost = false;
-                    }
-                }
-                this.lastHostHeartbeat = Date.now();
-                this.startHeartbeat();
+            case 'PEER_LIST':
+                // Electorate for the next host election
+                this.orderedPeers = msg.peers.filter(p => p !== this.myPeerId).sort();
                 break;
         }
     }
@@ -304,17 +462,19 @@ class NetworkServiceImpl {
         const msg: ActionMessage = { type: 'ACTION', action };
 
         // CLIENT: Make sure action reaches host via hostConn
-        if (!this._isHost && this.hostConn && this.hostConn.open) {
-            console.log('[NETWORK] Client sending action to host:', action.actionType);
-            this.hostConn.send(msg);
-            return; // Clients only send to host
+        if (!this._isHost) {
+            if (this.hostConn && this.hostConn.open) {
+                console.log('[NETWORK] Client sending action to host:', action.actionType);
+                this.sendTo(this.hostConn, msg);
+            }
+            return; // Clients only send to host (none while a host is being elected)
         }
 
         // HOST: Broadcast to all connected clients
         console.log('[NETWORK] Host broadcasting action:', action.actionType, 'to', this.conns.length, 'peers');
         this.conns.forEach(conn => {
             if (conn.open) {
-                conn.send(msg);
+                this.sendTo(conn, msg);
             }
         });
     }
@@ -333,29 +493,72 @@ class NetworkServiceImpl {
         console.log('[NETWORK] Broadcasting full state to', this.conns.length, 'peers');
         this.conns.forEach(conn => {
             if (conn.open) {
-                conn.send(msg);
+                this.sendTo(conn, msg);
+            }
+        });
+    }
+
+    /**
+     * Broadcast state using delta compression.
+     * Sends a FULL_STATE keyframe periodically and STATE_DELTA in between.
+     * `gameState.stateVersion` must already be the new version.
+     */
+    broadcastStateSync(gameState: GameState) {
+        const msg = this.syncEncoder.encode(gameState);
+
+        this.conns.forEach(conn => {
+            if (conn.open) {
+                this.sendTo(conn, msg);
             }
         });
     }
 
+    /**
+     * Reset the delta baseline (new game). Next sync is a keyframe.
+     */
+    resetStateSync() {
+        this.syncEncoder.reset();
+    }
+
+    /**
+     * Client: ask the host for a keyframe after detecting a version gap.
+     * Throttled so a burst of unusable deltas only triggers one request.
+     */
+    requestResync(lastVersion: number) {
+        if (this._isHost || !this.hostConn || !this.hostConn.open) return;
+
+        const now = Date.now();
+        if (now - this.lastResyncRequest < STATE_SYNC_CONFIG.RESYNC_COOLDOWN_MS) return;
+        this.lastResyncRequest = now;
+
+        console.log('[NETWORK] Requesting resync from host, last version:', lastVersion);
+        const msg: ResyncRequestMessage = { type: 'RESYNC_REQUEST', lastVersion };
+        this.sendTo(this.hostConn, msg);
+    }
+
     /**
      * Send lobby update (legacy support)
      */
     sendLobbyUpdate(state: LobbyState) {
         const msg = { type: 'LOBBY_UPDATE' as const, payload: state };
         this.conns.forEach(conn => {
-            if (conn.open) conn.send(msg);
+            if (conn.open) this.sendTo(conn, msg);
         });
     }
 
     /**
      * Start game signal (legacy support)
      */
-    startGame(scenarioId: string, factions: any[], pois: any[]) {
-        const msg = { type: 'START_GAME' as const, payload: { scenarioId, factions, pois } };
+    startGame(scenarioId: string, factions: any[], pois: any[], rngSeed?: number, settings?: GameSettings, scenario?: Scenario) {
+        const msg = { type: 'START_GAME' as const, payload: { scenarioId, factions, pois, rngSeed, settings, scenario } };
+        // A new match starts over at epoch 0
+        this._hostEpoch = 0;
+        this.lastElectionEpoch = 0;
         this.conns.forEach(conn => {
-            if (conn.open) conn.send(msg);
+            if (conn.open) this.sendTo(conn, msg);
         });
+        this.broadcastPeerList();
+        this.startHeartbeat();
     }
 
     // ============================================
@@ -374,7 +577,7 @@ class NetworkServiceImpl {
 
         if (this.hostConn && this.hostConn.open) {
             console.log('[NETWORK] Client sending request to host:', request.type);
-            this.hostConn.send({ type: 'REQUEST', payload: request });
+            this.sendTo(this.hostConn, { type: 'REQUEST', payload: request });
         } else {
             // CONNECTION NOT READY - This is a critical failure case
             console.error('[NETWORK] CRITICAL: Cannot send request - host connection not open!',
@@ -389,7 +592,7 @@ class NetworkServiceImpl {
                 setTimeout(() => {
                     if (this.hostConn && this.hostConn.open) {
                         console.log('[NETWORK] Retry succeeded, sending request');
-                        this.hostConn.send({ type: 'REQUEST', payload: request });
+                        this.sendTo(this.hostConn, { type: 'REQUEST', payload: request });
                     } else {
                         console.error('[NETWORK] Retry FAILED - connection still not open');
                     }
@@ -405,11 +608,117 @@ class NetworkServiceImpl {
         // Send to all clients
         this.conns.forEach(conn => {
             if (conn.open) {
-                conn.send({ type: 'RESPONSE', payload: response });
+                this.sendTo(conn, { type: 'RESPONSE', payload: response });
             }
         });
     }
 
+    /**
+     * Host: send a response to one peer only
+     */
+    sendResponse(peerId: string, response: NetworkResponse) {
+        const conn = this.conns.find(c => c.peer === peerId && c.open);
+        if (conn) this.sendTo(conn, { type: 'RESPONSE', payload: response });
+    }
+
+    /**
+     * Host: send one peer a FULL_STATE (rejoin) - the keyframe of the last
+     * synced state, so following deltas apply, or `gameState` before the first sync
+     */
+    sendFullState(peerId: string, gameState: GameState) {
+        const conn = this.conns.find(c => c.peer === peerId && c.open);
+        if (!conn) return;
+        const msg: FullStateMessage = this.syncEncoder.createKeyframe() || { type: 'FULL_STATE', gameState, timestamp: Date.now() };
+        this.sendTo(conn, msg);
+    }
+
+    // ============================================
+    // RECONNECT - SESSION TOKENS & REJOIN
+    // ============================================
+
+    /** Client: the seat this tab was granted, if any (kept across reloads). */
+    get session(): SessionInfo | null {
+        return this._session;
+    }
+
+    clearSession() {
+        if (this.rejoinTimer) {
+            clearTimeout(this.rejoinTimer);
+            this.rejoinTimer = null;
+        }
+        this._session = null;
+        storeSession(null);
+    }
+
+    /**
+     * Host: grant a joining peer a token that can later reclaim `factionId`
+     */
+    issueSession(peerId: string, factionId: string) {
+        const token = createSessionToken();
+        this.sessions.set(token, factionId);
+        this.sendResponse(peerId, { type: 'SESSION_TOKEN', token, factionId });
+    }
+
+    /**
+     * Host: forget every token and reclaimed seat (new match)
+     */
+    resetSessions() {
+        this.sessions.clear();
+        this.factionPeers.clear();
+    }
+
+    /**
+     * Host: bind `peerId` to the faction a REJOIN token belongs to.
+     * Returns the faction ID, or null for an unknown token.
+     */
+    claimSession(token: string, peerId: string): string | null {
+        const factionId = this.sessions.get(token);
+        if (!factionId) return null;
+        this.factionPeers.set(factionId, peerId);
+        console.log('[NETWORK] Peer', peerId, 'reclaimed faction', factionId);
+        return factionId;
+    }
+
+    /**
+     * Host: the faction a peer plays. Peers play the faction named after them
+     * until it is reclaimed by another peer; returns null for such a superseded peer.
+     */
+    factionForPeer(peerId: string): string | null {
+        for (const [factionId, current] of this.factionPeers) {
+            if (current === peerId) return factionId;
+        }
+        return this.factionPeers.has(peerId) ? null : peerId;
+    }
+
+    /**
+     * Client: reconnect to the host of our session and ask for our seat back.
+     * Resolves once the REJOIN request is sent; the answer is a REJOIN_RESULT response.
+     */
+    async rejoin(): Promise<boolean> {
+        const session = this._session;
+        if (!session || !this.transport || !this.myPeerId) return false;
+
+        console.log('[NETWORK] Rejoining host', session.hostId, 'as', session.factionId);
+        const connected = await this.connect(session.hostId);
+        if (!connected) return false;
+        this.sendRequest({ type: 'REJOIN', peerId: this.myPeerId, token: session.token });
+        return true;
+    }
+
+    private scheduleRejoin(deadline: number) {
+        if (this.rejoinTimer) return;
+        this.rejoinTimer = setTimeout(async () => {
+            this.rejoinTimer = null;
+            if (!this._session || this.hostConn?.open) return;
+            if (await this.rejoin()) return;
+            if (Date.now() < deadline) {
+                this.scheduleRejoin(deadline);
+            } else {
+                console.warn('[NETWORK] Gave up reconnecting to host');
+            }
+        }, RECONNECT_CONFIG.RETRY_INTERVAL_MS);
+    }
+
     // ============================================
     // EVENT SUBSCRIPTION
     // ============================================
@@ -430,23 +739,44 @@ class NetworkServiceImpl {
         this.stopHeartbeat();
         this.conns.forEach(c => c.close());
         this.conns = [];
-        if (this.peer) {
-            this.peer.destroy();
-            this.peer = null;
+        this.wireVersions.clear();
+        if (this.transport) {
+            this.transport.destroy();
+            this.transport = null;
         }
         this.processedActions.clear();
         // Reset state for clean reconnection
         this._isHost = false;
         this._stateVersion = 0;
+        this.syncEncoder.reset();
         this.hostConn = null;
         this.myPeerId = '';
         this.orderedPeers = [];
         this.lastKnownState = null;
+        if (this.election) clearTimeout(this.election.timer);
+        this.election = null;
+        this._hostEpoch = 0;
+        this.lastElectionEpoch = 0;
+        this.currentHostId = '';
+        // Leaving on purpose gives the seat up
+        this.clearSession();
+        this.sessions.clear();
+        this.factionPeers.clear();
     }
 
     // ============================================
     // HEARTBEAT & HOST MIGRATION
     // ============================================
+    // The host sends HEARTBEAT every second. A client that hears nothing for
+    // HOST_TIMEOUT_MS starts an election for the next epoch: it connects to the
+    // other players (PEER_LIST) and sends HOST_CANDIDATE with the stateVersion
+    // of the freshest host state it holds. After ELECTION_WINDOW_MS the peer
+    // with the highest version (then the lowest peer ID) wins and announces
+    // itself with NEW_HOST; everyone else follows it. A host that is still
+    // alive answers a candidate by re-announcing itself in the new epoch.
+    //
+    // Messages from an older epoch are dropped, and a host that sees a newer
+    // epoch steps down, so two hosts cannot both keep driving the match.
 
     /**
      * Start heartbeat system for host failure detection
@@ -460,14 +790,14 @@ class NetworkServiceImpl {
                 // Host: Send heartbeat to all clients
                 const msg = { type: 'HEARTBEAT' as const, timestamp: Date.now() };
                 this.conns.forEach(c => {
-                    if (c.open) c.send(msg);
+                    if (c.open) this.sendTo(c, msg);
                 });
-            } else {
+            } else if (!this.election) {
                 // Client: Check if host is still alive
                 const timeSinceLastHeartbeat = Date.now() - this.lastHostHeartbeat;
                 if (timeSinceLastHeartbeat > NetworkServiceImpl.HOST_TIMEOUT_MS) {
-                    console.warn('[NETWORK] Host heartbeat timeout! Initiating host migration...');
-                    this.initiateHostMigration();
+                    console.warn('[NETWORK] Host heartbeat timeout! Starting host election...');
+                    this.startElection(Math.max(this._hostEpoch, this.lastElectionEpoch) + 1);
                 }
             }
         }, NetworkServiceImpl.HEARTBEAT_INTERVAL_MS);
@@ -486,14 +816,15 @@ class NetworkServiceImpl {
     }
 
     /**
-     * Update the last known game state (for migration)
+     * Update the last known game state (for migration).
+     * Clients call this with every host state they apply.
      */
     updateLastKnownState(state: GameState) {
         this.lastKnownState = state;
     }
 
     /**
-     * Register a peer in the ordered list for deterministic host selection
+     * Register a peer in the ordered list for deterministic backup host selection
      */
     registerPeerForMigration(peerId: string) {
         if (!this.orderedPeers.includes(peerId)) {
@@ -504,75 +835,183 @@ class NetworkServiceImpl {
     }
 
     /**
-     * Set callback for when host migration occurs
+     * Set callback for when the host changes (this peer may be the new host or the one stepping down)
      */
-    setHostMigrationCallback(callback: (newHostId: string) => void) {
+    setHostMigrationCallback(callback: ((newHostId: string, previousHostId: string) => void) | null) {
         this.onHostMigration = callback;
     }
 
+    private broadcastPeerList() {
+        const msg: PeerListMessage = { type: 'PEER_LIST', peers: this.conns.filter(c => c.open).map(c => c.peer) };
+        this.conns.forEach(c => {
+            if (c.open) this.sendTo(c, msg);
+        });
+    }
+
+    // Version of the freshest host state this peer could resume from
+    private get candidateVersion(): number {
+        return Math.max(this._stateVersion, this.lastKnownState?.stateVersion ?? 0);
+    }
+
     /**
-     * Initiate host migration when current host is detected as disconnected
-     * Uses deterministic peer ordering - first peer in sorted list becomes new host
+     * Open (or join) the election for `epoch`: bid to every other player,
+     * connecting to the ones we have no connection to yet.
      */
-    private initiateHostMigration() {
-        // Prevent concurrent migrations (race condition fix)
-        if (this.hostMigrationInProgress) {
-            console.log('[NETWORK] Host migration already in progress, skipping');
-            return;
+    private startElection(epoch: number) {
+        if (this.election) {
+            if (this.election.epoch >= epoch) return;
+            clearTimeout(this.election.timer);
         }
-        this.hostMigrationInProgress = true;
+        this.lastElectionEpoch = epoch;
 
-        // Stop checking for heartbeats
-        this.stopHeartbeat();
+        const failedHost = this.currentHostId;
+        this.orderedPeers = this.orderedPeers.filter(p => p !== failedHost);
+        if (this.hostConn?.peer === failedHost) this.hostConn = null;
 
-        // Remove old host from ordered peers
-        if (this.hostConn) {
-            this.orderedPeers = this.orderedPeers.filter(p => p !== this.hostConn?.peer);
-        }
+        this.election = {
+            epoch,
+            candidates: new Map([[this.myPeerId, this.candidateVersion]]),
+            timer: setTimeout(() => this.concludeElection(epoch), NetworkServiceImpl.ELECTION_WINDOW_MS)
+        };
+        console.log('[NETWORK] Election for epoch', epoch, '- electorate:', this.orderedPeers, 'my version:', this.candidateVersion);
 
-        // Determine new host (first in deterministic order)
-        // Include self in the ordering
-        const allPeers = [...this.orderedPeers, this.myPeerId].sort();
-        const newHostId = allPeers[0];
+        const bid: HostCandidateMessage = { type: 'HOST_CANDIDATE', peerId: this.myPeerId, stateVersion: this.candidateVersion };
+        this.orderedPeers.forEach(peerId => {
+            const existing = this.conns.find(c => c.peer === peerId && c.open);
+            if (existing) {
+                this.sendTo(existing, bid, epoch);
+                return;
+            }
+            if (!this.transport) return;
+            const conn = this.transport.connect(peerId);
+            this.handleConnection(conn);
+            conn.on('open', () => {
+                if (this.election?.epoch === epoch) this.sendTo(conn, bid, epoch);
+            });
+        });
+    }
 
-        console.log('[NETWORK] Host migration - candidates:', allPeers, 'new host:', newHostId);
+    private concludeElection(epoch: number) {
+        if (!this.election || this.election.epoch !== epoch) return;
 
-        if (newHostId === this.myPeerId) {
-            // I am the new host!
-            console.log('[NETWORK] I am the new host!');
-            this._isHost = true;
-            this.hostConn = null;
+        const [winner] = [...this.election.candidates.entries()]
+            .sort(([idA, versionA], [idB, versionB]) => versionB - versionA || idA.localeCompare(idB));
+        this.election = null;
+        console.log('[NETWORK] Election for epoch', epoch, 'won by', winner[0], 'at version', winner[1]);
 
-            // Broadcast that I'm the new host
-            const msg = { type: 'NEW_HOST' as const, hostId: this.myPeerId };
-            this.conns.forEach(c => {
-                if (c.open) c.send(msg);
-            });
+        if (winner[0] === this.myPeerId) {
+            this.becomeHost(epoch);
+        } else {
+            // Wait for its NEW_HOST; silence starts the next election
+            this.lastHostHeartbeat = Date.now();
+            this.currentHostId = winner[0];
+        }
+    }
 
-            // Broadcast full state to resync all clients
-            if (this.lastKnownState) {
-                setTimeout(() => {
-                    this.broadcastFullState(this.lastKnownState!);
-                }, 500);
-            }
+    private becomeHost(epoch: number) {
+        const previousHostId = this.currentHostId;
+        console.log('[NETWORK] I am the new host! Epoch:', epoch);
+        this._hostEpoch = epoch;
+        this._isHost = true;
+        this.hostConn = null;
+        this.currentHostId = this.myPeerId;
+        this._stateVersion = this.candidateVersion;
+        this.syncEncoder.reset(); // Next sync is a keyframe
 
-            // Restart heartbeat as host
-            this.startHeartbeat();
-        } else {
-            // Wait for new host announcement
-            console.log('[NETWORK] Waiting for new host:', newHostId);
-            this.lastHostHeartbeat = Date.now(); // Reset timeout
+        const msg: NewHostMessage = { type: 'NEW_HOST', hostId: this.myPeerId, stateVersion: this._stateVersion };
+        this.conns.forEach(c => {
+            if (c.open) this.sendTo(c, msg);
+        });
+
+        // Resync everyone to the freshest state straight away
+        if (this.lastKnownState) {
+            this.broadcastFullState({ ...this.lastKnownState, stateVersion: this._stateVersion });
         }
 
-        // Notify callback if set
-        if (this.onHostMigration) {
-            this.onHostMigration(newHostId);
+        this.startHeartbeat();
+        if (this.onHostMigration) this.onHostMigration(this.myPeerId, previousHostId);
+    }
+
+    /**
+     * Accept the sender of `conn` as host of `epoch`.
+     */
+    private followHost(conn: TransportConnection, epoch: number) {
+        const previousHostId = this.currentHostId;
+        const wasHost = this._isHost;
+        if (this.election) {
+            clearTimeout(this.election.timer);
+            this.election = null;
         }
+        this._hostEpoch = epoch;
+        this.lastElectionEpoch = Math.max(this.lastElectionEpoch, epoch);
+        this._isHost = false;
+        this.hostConn = conn;
+        this.currentHostId = conn.peer;
+        this.lastHostHeartbeat = Date.now();
+        if (wasHost) console.warn('[NETWORK] Stepping down - host of epoch', epoch, 'is', conn.peer);
+        console.log('[NETWORK] Following host', conn.peer, 'epoch', epoch);
 
-        // Reset migration flag after a delay to allow for completion
-        setTimeout(() => {
-            this.hostMigrationInProgress = false;
-        }, 5000);
+        this.startHeartbeat();
+        if (previousHostId !== conn.peer && this.onHostMigration) this.onHostMigration(conn.peer, previousHostId);
+    }
+
+    /**
+     * A newer epoch exists but we do not know its host yet: stop acting as
+     * host and wait for it (or elect again if it never shows up).
+     */
+    private stepDown(epoch: number) {
+        console.warn('[NETWORK] Stepping down - saw epoch', epoch, 'while hosting', this._hostEpoch);
+        const previousHostId = this.currentHostId;
+        this._hostEpoch = epoch;
+        this.lastElectionEpoch = Math.max(this.lastElectionEpoch, epoch);
+        this._isHost = false;
+        this.hostConn = null;
+        this.currentHostId = '';
+        this.lastHostHeartbeat = Date.now();
+        this.startHeartbeat();
+        if (this.onHostMigration) this.onHostMigration('', previousHostId);
+    }
+
+    private handleElectionMessage(msg: (NewHostMessage | HostCandidateMessage) & EpochStamp, conn: TransportConnection) {
+        const epoch = msg.epoch ?? 0;
+
+        if (msg.type === 'HOST_CANDIDATE') {
+            if (this._isHost && epoch > this._hostEpoch) {
+                // Still here - claim the new epoch ourselves, our state is the freshest there is
+                console.log('[NETWORK] Candidate', msg.peerId, 'started an election while we are alive - re-announcing');
+                this._hostEpoch = epoch;
+                this.lastElectionEpoch = epoch;
+                const announce: NewHostMessage = { type: 'NEW_HOST', hostId: this.myPeerId, stateVersion: this._stateVersion };
+                this.conns.forEach(c => {
+                    if (c.open) this.sendTo(c, announce);
+                });
+                return;
+            }
+            if (epoch <= this._hostEpoch) {
+                // Straggler from a settled election - point it at the host
+                if (this._isHost) this.sendTo(conn, { type: 'NEW_HOST', hostId: this.myPeerId, stateVersion: this._stateVersion } as NewHostMessage);
+                return;
+            }
+            if (!this.election || this.election.epoch < epoch) this.startElection(epoch);
+            if (this.election && this.election.epoch === epoch) {
+                this.election.candidates.set(msg.peerId, msg.stateVersion);
+            }
+            return;
+        }
+
+        // NEW_HOST
+        if (msg.hostId === this.myPeerId || epoch < this._hostEpoch) return;
+        if (epoch === this._hostEpoch && this._isHost) {
+            // Two hosts in one epoch - the fresher state (then lower peer ID) keeps it
+            const theyWin = msg.stateVersion > this._stateVersion ||
+                (msg.stateVersion === this._stateVersion && msg.hostId < this.myPeerId);
+            if (!theyWin) {
+                this.sendTo(conn, { type: 'NEW_HOST', hostId: this.myPeerId, stateVersion: this._stateVersion } as NewHostMessage);
+                return;
+            }
+        }
+        if (this.election && this.election.epoch > epoch) return;
+        this.followHost(conn, epoch);
     }
 
     /**
@@ -582,6 +1021,20 @@ class NetworkServiceImpl {
         this.lastHostHeartbeat = Date.now();
     }
 
+    /**
+     * Send with our host epoch stamped on (or `epoch`, for election messages),
+     * in the binary wire format when the connection agreed on one
+     */
+    private sendTo(conn: TransportConnection, msg: NetworkMessage | object, epoch: number = this._hostEpoch) {
+        const stamped = { ...msg, epoch } as NetworkMessage;
+        const version = this.wireVersions.get(conn);
+        if (version && isBinaryEncodable(stamped)) {
+            conn.send(encodeWireMessage(stamped, version));
+        } else {
+            conn.send(stamped);
+        }
+    }
+
     // ============================================
     // HELPER METHODS
     // ============================================
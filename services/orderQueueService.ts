@@ -0,0 +1,187 @@
+// ============================================
+// COMMAND QUEUES
+// Shift-queued move / attack / attack-move / patrol / load / unload chains
+// ============================================
+// A unit works through its chain one order at a time: the order being
+// carried out is kept in GameUnit.activeOrder and drives the usual
+// destination/targetId/boardingTransportId fields, the rest wait in
+// GameUnit.orderQueue. Once the unit goes idle the active order is finished
+// and the next one starts. PATROL never finishes on its own - it bounces
+// between where it started and its point (engaging hostiles on the way, like
+// ATTACK_MOVE) until the player gives a new command. Any non-queued command throws the whole chain away.
+
+import { GameUnit, UnitOrder, POI, Faction, LogMessage } from '../types';
+import { getDistanceKm, isHostile } from './gameLogic';
+import { planUnitPath } from './pathfindingService';
+import { canCarry, getFreeCargoSlots, unloadCargo } from './cargoService';
+import { isStealthUnit, isUnitDetectedBy } from './stealthService';
+import { mayEngage } from './autoControl';
+
+type OrderLog = (text: string, type: LogMessage['type']) => void;
+
+interface OrderContext {
+    pois: POI[];
+    factions: Faction[];
+    tick: number;
+}
+
+const ORDER_NAMES: Record<UnitOrder['type'], string> = {
+    MOVE: 'Move',
+    ATTACK: 'Attack',
+    ATTACK_MOVE: 'Attack-move',
+    PATROL: 'Patrol',
+    LOAD: 'Board',
+    UNLOAD: 'Unload'
+};
+
+/** Label for UI/log output, e.g. "Attack-move". */
+export const getOrderName = (order: UnitOrder): string => ORDER_NAMES[order.type];
+
+/** Does the unit have an active or queued order? */
+export const hasOrders = (unit: GameUnit): boolean =>
+    !!unit.activeOrder || (unit.orderQueue?.length || 0) > 0;
+
+/** Fields that drop a unit's whole command chain (spread into non-queued commands). */
+export const CLEARED_ORDERS: Pick<GameUnit, 'activeOrder' | 'orderQueue'> = { activeOrder: null, orderQueue: undefined };
+
+/**
+ * Where the order sends the unit, if it has a fixed point (used for path
+ * previews). ATTACK/LOAD follow their target and resolve it from `lookup`.
+ */
+export function getOrderPosition(order: UnitOrder, lookup: (id: string) => { lat: number; lng: number } | undefined): { lat: number; lng: number } | undefined {
+    if (order.position) return order.position;
+    return order.targetId ? lookup(order.targetId) : undefined;
+}
+
+const moveTo = (unit: GameUnit, to: { lat: number; lng: number }): Partial<GameUnit> => {
+    const path = planUnitPath(unit, to);
+    return { destination: path ? path.goal : { ...to }, path, targetId: null };
+};
+
+const isIdle = (unit: GameUnit): boolean => !unit.destination && !unit.targetId && !unit.boardingTransportId;
+
+/**
+ * Fields that start `order`, or null when it can no longer be carried out
+ * (target gone, transport full...).
+ */
+function startOrder(unit: GameUnit, order: UnitOrder, units: GameUnit[], ctx: OrderContext): Partial<GameUnit> | null {
+    switch (order.type) {
+        case 'MOVE':
+        case 'ATTACK_MOVE':
+        case 'UNLOAD':
+            return order.position ? { ...moveTo(unit, order.position), activeOrder: order } : null;
+
+        case 'PATROL': {
+            if (!order.position) return null;
+            const leg = { ...order, patrolFrom: order.patrolFrom || { ...unit.position } };
+            return { ...moveTo(unit, order.position), activeOrder: leg };
+        }
+
+        case 'ATTACK': {
+            const target = units.find(u => u.id === order.targetId);
+            const poi = ctx.pois.find(p => p.id === order.targetId);
+            if (target ? target.hp <= 0 : !poi || poi.ownerFactionId === unit.factionId) return null;
+            return { targetId: order.targetId, orderedTargetId: order.targetId, destination: null, path: undefined, activeOrder: order };
+        }
+
+        case 'LOAD': {
+            const transport = units.find(u => u.id === order.targetId);
+            if (!transport || transport.hp <= 0 || !canCarry(transport, unit)) return null;
+            if (getFreeCargoSlots(transport, units) <= 0) return null;
+            return {
+                boardingTransportId: transport.id,
+                destination: { ...transport.position },
+                path: undefined,
+                targetId: null,
+                activeOrder: order
+            };
+        }
+    }
+    return null;
+}
+
+// Nearest hostile this unit can see, shoot at from where it stands and its stance lets it engage
+function findTargetOfOpportunity(unit: GameUnit, units: GameUnit[], ctx: OrderContext): GameUnit | null {
+    const faction = ctx.factions.find(f => f.id === unit.factionId);
+    if (!faction || unit.attack <= 0) return null;
+
+    let best: GameUnit | null = null;
+    let bestDist = unit.range;
+    for (const other of units) {
+        if (other.hp <= 0 || other.isLoaded || !isHostile(faction, other.factionId)) continue;
+        if (isStealthUnit(other) && !isUnitDetectedBy(other, unit.factionId, ctx.tick)) continue;
+        const dist = getDistanceKm(unit.position.lat, unit.position.lng, other.position.lat, other.position.lng);
+        if (dist <= bestDist && mayEngage(unit, other, dist)) {
+            best = other;
+            bestDist = dist;
+        }
+    }
+    return best;
+}
+
+/**
+ * Per-tick command queue step: attack-moving units engage hostiles in range,
+ * idle units finish their active order and start the next one. Call after
+ * combat and cargo so cleared targets and finished boardings are visible.
+ */
+export function processOrderQueues(units: GameUnit[], ctx: OrderContext, log: OrderLog): GameUnit[] {
+    if (!units.some(hasOrders)) return units;
+
+    let result = units;
+    const update = (id: string, changes: Partial<GameUnit>) => {
+        result = result.map(u => u.id === id ? { ...u, ...changes } : u);
+    };
+
+    units.forEach(original => {
+        if (!hasOrders(original)) return;
+        const unit = result.find(u => u.id === original.id);
+        if (!unit || unit.hp <= 0 || unit.isLoaded) return;
+        const active = unit.activeOrder;
+
+        // ATTACK-MOVE / PATROL: break off to fight, then pick the march up again
+        if ((active?.type === 'ATTACK_MOVE' || active?.type === 'PATROL') && !unit.targetId) {
+            const enemy = findTargetOfOpportunity(unit, result, ctx);
+            if (enemy) {
+                update(unit.id, {
+                    targetId: enemy.id,
+                    destination: null,
+                    path: undefined,
+                    activeOrder: { type: 'ATTACK', targetId: enemy.id },
+                    orderQueue: [active, ...(unit.orderQueue || [])]
+                });
+                return;
+            }
+        }
+
+        if (!isIdle(unit)) return;
+
+        // Finish the active order
+        if (active?.type === 'PATROL' && active.position && active.patrolFrom) {
+            const back = { ...active, position: active.patrolFrom, patrolFrom: active.position };
+            update(unit.id, { ...moveTo(unit, back.position), activeOrder: back });
+            return;
+        }
+        if (active?.type === 'UNLOAD' && (unit.cargoUnits?.length || 0) > 0) {
+            // Carriers launch their aircraft over the unload point
+            const unloaded = unloadCargo(result, unit.id, ctx.pois, { sortieTarget: active.position });
+            result = unloaded.units;
+            if (unloaded.unloaded === 0) {
+                log(`${unit.unitClass.replace(/_/g, ' ')} cannot unload here`, 'alert');
+            }
+        }
+
+        // Start the next order that can still be carried out
+        const queue = [...(unit.orderQueue || [])];
+        let next: Partial<GameUnit> | null = null;
+        while (queue.length > 0 && !next) {
+            next = startOrder(unit, queue.shift()!, result, ctx);
+        }
+        if (next) {
+            update(unit.id, { ...next, orderQueue: queue.length > 0 ? queue : undefined });
+        } else {
+            update(unit.id, CLEARED_ORDERS);
+        }
+    });
+
+    return result;
+}
@@ -0,0 +1,373 @@
+// ============================================
+// PATHFINDING
+// A* over a coarse navigation grid built from the terrain mask
+// ============================================
+// Three movement domains: LAND (ground units, may use coast), SEA (ships,
+// ocean + coast) and AIR (straight line, never planned). Each domain gets a
+// PATHFINDING_CONFIG.CELL_DEG grid the first time it is needed; a cell is
+// passable when its centre or one of its quadrant points is, and that point
+// becomes the cell's waypoint. Cells are grouped into connected regions so an
+// unreachable goal (an island for a tank, inland for a ship) is snapped to the
+// closest reachable cell instead of searching the whole globe. Routes are
+// cached per (domain, start cell, goal cell) and string-pulled to a handful
+// of waypoints.
+// Paths depend only on terrain.bin, so host, clients and replays agree.
+// Without the mask (GeoJSON fallback) no paths are planned and units move in
+// straight lines as before.
+
+import { GameUnit, UnitClass, UnitPath } from '../types';
+import { PATHFINDING_CONFIG } from '../constants';
+import { TerrainService } from './terrainService';
+import { getDistanceKm } from './gameLogic';
+
+export type MovementDomain = 'LAND' | 'SEA' | 'AIR';
+
+type LatLng = { lat: number; lng: number };
+
+const SEA_CLASSES = [UnitClass.DESTROYER, UnitClass.FRIGATE, UnitClass.BATTLESHIP, UnitClass.AIRCRAFT_CARRIER, UnitClass.SUBMARINE, UnitClass.PATROL_BOAT, UnitClass.MINELAYER];
+const LAND_CLASSES = [UnitClass.GROUND_TANK, UnitClass.INFANTRY, UnitClass.MISSILE_LAUNCHER, UnitClass.SAM_LAUNCHER, UnitClass.MOBILE_COMMAND_CENTER];
+
+/** Which grid a unit class moves on (mirrors TerrainService.isValidMove). */
+export function getMovementDomain(unitClass: UnitClass): MovementDomain {
+    if (SEA_CLASSES.includes(unitClass)) return 'SEA';
+    if (LAND_CLASSES.includes(unitClass)) return 'LAND';
+    return 'AIR';
+}
+
+// ============================================
+// NAVIGATION GRID
+// ============================================
+
+interface NavGrid {
+    width: number;
+    height: number;
+    cellDeg: number;
+    anchors: Uint8Array;   // 0 = blocked, otherwise 1 + index into ANCHOR_OFFSETS
+    regions: Int32Array;   // Connected region per cell (-1 = blocked)
+}
+
+// Sample points inside a cell, as fractions of the cell size (centre first)
+const ANCHOR_OFFSETS: [number, number][] = [[0.5, 0.5], [0.25, 0.25], [0.25, 0.75], [0.75, 0.25], [0.75, 0.75]];
+
+// 8-neighbourhood
+const DX = [1, -1, 0, 0, 1, 1, -1, -1];
+const DY = [0, 0, 1, -1, 1, -1, 1, -1];
+
+const grids = new Map<MovementDomain, NavGrid>();
+const routeCache = new Map<string, number[] | null>();
+
+const isPassable = (domain: MovementDomain, lat: number, lng: number): boolean => {
+    const terrain = TerrainService.getTerrainType(lat, lng, []);
+    return domain === 'SEA' ? terrain !== 'LAND' : terrain !== 'OCEAN';
+};
+
+function buildNavGrid(domain: MovementDomain): NavGrid {
+    const cellDeg = PATHFINDING_CONFIG.CELL_DEG;
+    const width = Math.round(360 / cellDeg);
+    const height = Math.round(180 / cellDeg);
+    const anchors = new Uint8Array(width * height);
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            for (let k = 0; k < ANCHOR_OFFSETS.length; k++) {
+                const lat = 90 - (y + ANCHOR_OFFSETS[k][1]) * cellDeg;
+                const lng = -180 + (x + ANCHOR_OFFSETS[k][0]) * cellDeg;
+                if (isPassable(domain, lat, lng)) {
+                    anchors[y * width + x] = k + 1;
+                    break;
+                }
+            }
+        }
+    }
+
+    // Flood-fill connected regions
+    const regions = new Int32Array(width * height).fill(-1);
+    const stack: number[] = [];
+    let region = 0;
+    for (let start = 0; start < anchors.length; start++) {
+        if (!anchors[start] || regions[start] !== -1) continue;
+        regions[start] = region;
+        stack.push(start);
+        while (stack.length > 0) {
+            const cell = stack.pop()!;
+            const cx = cell % width;
+            const cy = (cell - cx) / width;
+            for (let d = 0; d < 8; d++) {
+                const ny = cy + DY[d];
+                if (ny < 0 || ny >= height) continue;
+                const n = ny * width + ((cx + DX[d] + width) % width);
+                if (anchors[n] && regions[n] === -1) {
+                    regions[n] = region;
+                    stack.push(n);
+                }
+            }
+        }
+        region++;
+    }
+
+    console.log(`[PATHFINDING] ${domain} grid ${width}x${height}, ${region} regions`);
+    return { width, height, cellDeg, anchors, regions };
+}
+
+const getNavGrid = (domain: MovementDomain): NavGrid => {
+    let grid = grids.get(domain);
+    if (!grid) {
+        grid = buildNavGrid(domain);
+        grids.set(domain, grid);
+    }
+    return grid;
+};
+
+const cellOf = (grid: NavGrid, lat: number, lng: number): number => {
+    const normLng = ((((lng + 180) % 360) + 360) % 360);
+    const x = Math.min(grid.width - 1, Math.floor(normLng / grid.cellDeg));
+    const y = Math.max(0, Math.min(grid.height - 1, Math.floor((90 - lat) / grid.cellDeg)));
+    return y * grid.width + x;
+};
+
+/** The passable point a route through `cell` aims for. */
+const anchorOf = (grid: NavGrid, cell: number): LatLng => {
+    const x = cell % grid.width;
+    const y = (cell - x) / grid.width;
+    const [fx, fy] = ANCHOR_OFFSETS[Math.max(0, grid.anchors[cell] - 1)];
+    return { lat: 90 - (y + fy) * grid.cellDeg, lng: -180 + (x + fx) * grid.cellDeg };
+};
+
+/**
+ * Closest cell (ring search) that is passable and, if given, inside `region`.
+ */
+function findNearestCell(grid: NavGrid, cell: number, region?: number): number | null {
+    const ok = (c: number) => grid.anchors[c] !== 0 && (region === undefined || grid.regions[c] === region);
+    if (ok(cell)) return cell;
+
+    const cx = cell % grid.width;
+    const cy = (cell - cx) / grid.width;
+    for (let r = 1; r <= PATHFINDING_CONFIG.SNAP_RADIUS_CELLS; r++) {
+        let best: number | null = null;
+        let bestDist = Infinity;
+        for (let dy = -r; dy <= r; dy++) {
+            const y = cy + dy;
+            if (y < 0 || y >= grid.height) continue;
+            for (let dx = -r; dx <= r; dx++) {
+                if (Math.abs(dx) !== r && Math.abs(dy) !== r) continue; // Ring only
+                const c = y * grid.width + ((cx + dx + grid.width) % grid.width);
+                const dist = dx * dx + dy * dy;
+                if (ok(c) && (dist < bestDist || (dist === bestDist && c < best!))) {
+                    best = c;
+                    bestDist = dist;
+                }
+            }
+        }
+        if (best !== null) return best;
+    }
+    return null;
+}
+
+// ============================================
+// A* SEARCH
+// ============================================
+
+/**
+ * Cell route from `start` to `goal` (both passable, same region), or null
+ * when the search budget runs out.
+ */
+function searchRoute(grid: NavGrid, start: number, goal: number): number[] | null {
+    const size = grid.width * grid.height;
+    const gScore = new Float64Array(size).fill(Infinity);
+    const cameFrom = new Int32Array(size).fill(-1);
+    const closed = new Uint8Array(size);
+    const goalPos = anchorOf(grid, goal);
+
+    // Binary min-heap on (f, cell) - cell index breaks ties deterministically
+    const heapCells: number[] = [];
+    const heapF: number[] = [];
+    const less = (i: number, j: number) => heapF[i] < heapF[j] || (heapF[i] === heapF[j] && heapCells[i] < heapCells[j]);
+    const swap = (i: number, j: number) => {
+        [heapCells[i], heapCells[j]] = [heapCells[j], heapCells[i]];
+        [heapF[i], heapF[j]] = [heapF[j], heapF[i]];
+    };
+    const push = (cell: number, f: number) => {
+        heapCells.push(cell);
+        heapF.push(f);
+        let i = heapCells.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (!less(i, parent)) break;
+            swap(i, parent);
+            i = parent;
+        }
+    };
+    const pop = (): number => {
+        const top = heapCells[0];
+        const lastCell = heapCells.pop()!;
+        const lastF = heapF.pop()!;
+        if (heapCells.length > 0) {
+            heapCells[0] = lastCell;
+            heapF[0] = lastF;
+            let i = 0;
+            for (;;) {
+                const l = 2 * i + 1;
+                const r = l + 1;
+                let m = i;
+                if (l < heapCells.length && less(l, m)) m = l;
+                if (r < heapCells.length && less(r, m)) m = r;
+                if (m === i) break;
+                swap(i, m);
+                i = m;
+            }
+        }
+        return top;
+    };
+
+    const heuristic = (cell: number) => {
+        const p = anchorOf(grid, cell);
+        return getDistanceKm(p.lat, p.lng, goalPos.lat, goalPos.lng);
+    };
+
+    gScore[start] = 0;
+    push(start, heuristic(start));
+    let expansions = 0;
+
+    while (heapCells.length > 0) {
+        const cell = pop();
+        if (cell === goal) {
+            const route = [cell];
+            for (let c = cameFrom[cell]; c !== -1; c = cameFrom[c]) route.push(c);
+            return route.reverse();
+        }
+        if (closed[cell]) continue;
+        closed[cell] = 1;
+        if (++expansions > PATHFINDING_CONFIG.MAX_EXPANSIONS) {
+            console.warn('[PATHFINDING] Search budget exhausted');
+            return null;
+        }
+
+        const cx = cell % grid.width;
+        const cy = (cell - cx) / grid.width;
+        const from = anchorOf(grid, cell);
+        for (let d = 0; d < 8; d++) {
+            const ny = cy + DY[d];
+            if (ny < 0 || ny >= grid.height) continue;
+            const n = ny * grid.width + ((cx + DX[d] + grid.width) % grid.width);
+            if (!grid.anchors[n] || closed[n]) continue;
+
+            const to = anchorOf(grid, n);
+            const tentative = gScore[cell] + getDistanceKm(from.lat, from.lng, to.lat, to.lng);
+            if (tentative < gScore[n]) {
+                gScore[n] = tentative;
+                cameFrom[n] = cell;
+                push(n, tentative + heuristic(n));
+            }
+        }
+    }
+    return null;
+}
+
+/**
+ * Can a unit go straight from `a` to `b` without leaving passable cells?
+ */
+function hasLineOfSight(grid: NavGrid, a: LatLng, b: LatLng): boolean {
+    let dLng = b.lng - a.lng;
+    if (dLng > 180) dLng -= 360;
+    if (dLng < -180) dLng += 360;
+    const dLat = b.lat - a.lat;
+    const steps = Math.ceil(Math.max(Math.abs(dLat), Math.abs(dLng)) / (grid.cellDeg / 2));
+    for (let i = 1; i < steps; i++) {
+        const t = i / steps;
+        if (!grid.anchors[cellOf(grid, a.lat + dLat * t, a.lng + dLng * t)]) return false;
+    }
+    return true;
+}
+
+/**
+ * Drop every waypoint that can be skipped in a straight line. Legs stay
+ * under MAX_LEG_KM so the great-circle heading units steer by stays close to
+ * the checked line.
+ */
+function smoothRoute(grid: NavGrid, from: LatLng, points: LatLng[]): LatLng[] {
+    const result: LatLng[] = [];
+    let current = from;
+    let i = 0;
+    while (i < points.length) {
+        let furthest = i;
+        for (let j = points.length - 1; j > i; j--) {
+            const legKm = getDistanceKm(current.lat, current.lng, points[j].lat, points[j].lng);
+            if (legKm <= PATHFINDING_CONFIG.MAX_LEG_KM && hasLineOfSight(grid, current, points[j])) {
+                furthest = j;
+                break;
+            }
+        }
+        result.push(points[furthest]);
+        current = points[furthest];
+        i = furthest + 1;
+    }
+    return result;
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Waypoints from `from` to `to` for a domain; the last waypoint is where the
+ * unit will actually end up (the goal, or the closest reachable point to it).
+ * AIR always gets [to]; null = no route (or no terrain mask loaded).
+ */
+export function findPath(domain: MovementDomain, from: LatLng, to: LatLng): LatLng[] | null {
+    if (domain === 'AIR') return [to];
+    if (!TerrainService.hasTerrainMask()) return null;
+
+    // Ships sent inland head for the nearest water instead
+    let goal = to;
+    if (domain === 'SEA' && TerrainService.isPointLand(goal.lat, goal.lng)) {
+        goal = TerrainService.findNearestWater(goal.lat, goal.lng);
+    }
+
+    const grid = getNavGrid(domain);
+    const startCell = findNearestCell(grid, cellOf(grid, from.lat, from.lng));
+    if (startCell === null) return null;
+    const region = grid.regions[startCell];
+
+    const wantedGoalCell = cellOf(grid, goal.lat, goal.lng);
+    const goalCell = findNearestCell(grid, wantedGoalCell, region);
+    if (goalCell === null) return null;
+    if (goalCell !== wantedGoalCell) goal = anchorOf(grid, goalCell);
+    if (goalCell === startCell) return [goal];
+
+    const key = `${domain}:${startCell}:${goalCell}`;
+    let route: number[] | null;
+    if (routeCache.has(key)) {
+        route = routeCache.get(key)!;
+        // Refresh LRU position
+        routeCache.delete(key);
+        routeCache.set(key, route);
+    } else {
+        route = searchRoute(grid, startCell, goalCell);
+        routeCache.set(key, route);
+        if (routeCache.size > PATHFINDING_CONFIG.CACHE_SIZE) {
+            routeCache.delete(routeCache.keys().next().value!);
+        }
+    }
+    if (!route) return null;
+
+    // Intermediate cells + exact goal, then string-pull
+    const points = route.slice(1, -1).map(cell => anchorOf(grid, cell));
+    points.push(goal);
+    return smoothRoute(grid, from, points);
+}
+
+/**
+ * Plan a route for `unit` to `to`. Undefined when no planning is needed
+ * (aircraft, direct line of travel) or possible.
+ */
+export function planUnitPath(unit: GameUnit, to: LatLng): UnitPath | undefined {
+    const waypoints = findPath(getMovementDomain(unit.unitClass), unit.position, to);
+    if (!waypoints || waypoints.length === 0) return undefined;
+    const goal = waypoints[waypoints.length - 1];
+    if (waypoints.length === 1 && goal.lat === to.lat && goal.lng === to.lng) return undefined;
+    return { goal, waypoints };
+}
+
+/** Is `path` still the plan for this destination? */
+export const isPathFor = (path: UnitPath | undefined, destination: LatLng | null | undefined): path is UnitPath =>
+    !!path && !!destination && path.goal.lat === destination.lat && path.goal.lng === destination.lng;
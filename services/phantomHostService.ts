@@ -6,16 +6,48 @@
  * simulation with bots and handles player connections/disconnections.
  */
 
-import Peer, { DataConnection } from 'peerjs';
-import { GameState, Faction, POI, UnitClass, BattleRoyaleState, BattleRoyaleConfig, POIType, Difficulty } from '../types';
-import { FACTION_PRESETS, SCENARIOS, UNIT_CONFIG } from '../constants';
+import { GameState, Faction, POI, UnitClass, BattleRoyaleState, BattleRoyaleConfig, POIType, Difficulty, Scenario } from '../types';
+import { FACTION_PRESETS, SCENARIOS, UNIT_CONFIG, RECONNECT_CONFIG } from '../constants';
 import { processGameTick } from './gameLogic';
+import { createGameSeed } from './deterministic';
+import { StateSyncEncoder } from './stateSync';
 import { getMockCities } from './mockDataService';
+import { calculateScore } from './victoryService';
+import { getScenario, buildScenarioMap, getScenarioInfo } from './scenarioService';
+import { createSessionToken } from './reconnectService';
+import { Transport, TransportConnection, createDefaultTransport } from './transport';
 
 // Fixed room ID for global Battle Royale - everyone joins the same room
 const FIXED_ROOM_ID = 'TACTIC-OPS-BR-GLOBAL';
 const STORAGE_KEY = 'TACTIC_OPS_BR_STATE';
 
+// ============================================
+// PLATFORM HOOKS
+// ============================================
+// By default the phantom host lives in a browser tab (localStorage + the
+// default transport). The headless Node entry (server/headlessHost.ts) swaps in
+// file persistence and a Node PeerJS or relay transport through configure().
+
+export interface PhantomHostStorage {
+    load(key: string): string | null;
+    save(key: string, value: string): void;
+    remove(key: string): void;
+}
+
+export interface PhantomHostPlatform {
+    storage: PhantomHostStorage;
+    createTransport: (id: string) => Transport;
+}
+
+const browserPlatform: PhantomHostPlatform = {
+    storage: {
+        load: key => localStorage.getItem(key),
+        save: (key, value) => localStorage.setItem(key, value),
+        remove: key => localStorage.removeItem(key)
+    },
+    createTransport: id => createDefaultTransport(id)
+};
+
 const DEFAULT_BR_CONFIG: BattleRoyaleConfig = {
     maxPlayers: 20,
     minBots: 2,
@@ -25,14 +57,26 @@ const DEFAULT_BR_CONFIG: BattleRoyaleConfig = {
 };
 
 class PhantomHostServiceImpl {
-    private phantomPeer: Peer | null = null;
-    private connections: DataConnection[] = [];
+    private phantomPeer: Transport | null = null;
+    private connections: TransportConnection[] = [];
     private gameState: GameState | null = null;
     private brState: BattleRoyaleState | null = null;
     private gameLoopInterval: NodeJS.Timeout | null = null;
     private isActive: boolean = false;
     private roomId: string = FIXED_ROOM_ID;
     private saveInterval: NodeJS.Timeout | null = null;
+    private syncEncoder = new StateSyncEncoder();
+    private stateVersion: number = 0;
+    private platform: PhantomHostPlatform = browserPlatform;
+    // Reconnect: token -> seat; a dropped player's faction is bot-run until reclaimed or expired
+    private sessions = new Map<string, { factionId: string; disconnectedAt?: number }>();
+
+    /**
+     * Replace storage and/or the transport. Call before initialize().
+     */
+    configure(platform: Partial<PhantomHostPlatform>): void {
+        this.platform = { ...this.platform, ...platform };
+    }
 
     // ============================================
     // INITIALIZATION
@@ -40,7 +84,7 @@ class PhantomHostServiceImpl {
 
     /**
      * Initialize the phantom host with a fixed room ID
-     * Uses localStorage to persist state across page loads
+     * Persists state through the platform storage (localStorage by default)
      */
     async initialize(roomId?: string): Promise<string> {
         if (this.isActive) {
@@ -50,12 +94,12 @@ class PhantomHostServiceImpl {
 
         this.roomId = FIXED_ROOM_ID; // Always use fixed room ID
 
-        // Try to restore state from localStorage
+        // Try to restore state from storage
         const restored = this.restoreState();
 
         return new Promise((resolve, reject) => {
             // Create phantom peer with fixed ID
-            this.phantomPeer = new Peer(this.roomId, { debug: 0 });
+            this.phantomPeer = this.platform.createTransport(this.roomId);
 
             this.phantomPeer.on('open', (id) => {
                 console.log('[PHANTOM] Phantom host initialized with ID:', id);
@@ -81,7 +125,7 @@ class PhantomHostServiceImpl {
             this.phantomPeer.on('error', (err) => {
                 console.error('[PHANTOM] Peer error:', err);
                 // If ID is taken, another tab is hosting - we just use local state
-                if ((err as any).type === 'unavailable-id') {
+                if (err.type === 'unavailable-id') {
                     console.log('[PHANTOM] Room already exists, using local state');
                     this.isActive = true;
                     if (!restored) {
@@ -98,7 +142,7 @@ class PhantomHostServiceImpl {
     }
 
     /**
-     * Save state to localStorage for persistence
+     * Save state to platform storage for persistence
      * Includes size checks and fallback on failure
      */
     private saveState(): void {
@@ -134,9 +178,9 @@ class PhantomHostServiceImpl {
                 console.warn('[PHANTOM] State too large, further trimming...');
                 state.gameState.messages = [];
                 state.gameState.units = state.gameState.units.slice(-200); // Keep last 200 units
-                localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+                this.platform.storage.save(STORAGE_KEY, JSON.stringify(state));
             } else {
-                localStorage.setItem(STORAGE_KEY, serialized);
+                this.platform.storage.save(STORAGE_KEY, serialized);
             }
         } catch (e) {
             console.error('[PHANTOM] Failed to save state:', e);
@@ -154,7 +198,7 @@ class PhantomHostServiceImpl {
                     },
                     savedAt: Date.now()
                 };
-                localStorage.setItem(STORAGE_KEY + '_MINIMAL', JSON.stringify(minimalState));
+                this.platform.storage.save(STORAGE_KEY + '_MINIMAL', JSON.stringify(minimalState));
                 console.log('[PHANTOM] Saved minimal fallback state');
             } catch (e2) {
                 console.error('[PHANTOM] Even minimal save failed:', e2);
@@ -163,11 +207,11 @@ class PhantomHostServiceImpl {
     }
 
     /**
-     * Restore state from localStorage
+     * Restore state from platform storage
      */
     private restoreState(): boolean {
         try {
-            const saved = localStorage.getItem(STORAGE_KEY);
+            const saved = this.platform.storage.load(STORAGE_KEY);
             if (!saved) return false;
 
             const state = JSON.parse(saved);
@@ -176,7 +220,7 @@ class PhantomHostServiceImpl {
             const age = Date.now() - state.savedAt;
             if (age > 10 * 60 * 1000) {
                 console.log('[PHANTOM] Saved state too old, starting fresh');
-                localStorage.removeItem(STORAGE_KEY);
+                this.platform.storage.remove(STORAGE_KEY);
                 return false;
             }
 
@@ -293,26 +337,11 @@ class PhantomHostServiceImpl {
     private initializeGameState(): void {
         if (!this.brState) return;
 
-        const scenarioId = this.brState.config.scenarioRotation[this.brState.currentScenarioIndex];
-        const scenario = SCENARIOS[scenarioId as keyof typeof SCENARIOS] || SCENARIOS.WORLD;
+        // New round - next sync must be a keyframe
+        this.syncEncoder.reset();
 
-        // Get cities for this scenario
-        let cities = getMockCities();
-        if (scenario.bounds) {
-            cities = cities.filter(city =>
-                city.position.lat >= scenario.bounds.minLat &&
-                city.position.lat <= scenario.bounds.maxLat &&
-                city.position.lng >= scenario.bounds.minLng &&
-                city.position.lng <= scenario.bounds.maxLng
-            );
-        }
-
-        // Reset city ownership
-        cities.forEach(city => {
-            if (city.type === POIType.CITY) {
-                city.ownerFactionId = undefined as any;
-            }
-        });
+        const scenarioId = this.brState.config.scenarioRotation[this.brState.currentScenarioIndex];
+        const scenario: Scenario = getScenario(scenarioId) || SCENARIOS.WORLD;
 
         // Create bot factions
         const botFactions: Faction[] = [];
@@ -330,11 +359,32 @@ class PhantomHostServiceImpl {
             });
         }
 
-        // Assign random cities to bots
-        const shuffledCities = [...cities.filter(c => c.type === POIType.CITY)]
+        // Get cities for this scenario - custom scenarios hand their slots to the bots
+        const scenarioMap = scenario.custom ? buildScenarioMap(scenario, botFactions) : null;
+        let cities = scenarioMap ? scenarioMap.pois : getMockCities();
+        if (scenario.bounds) {
+            cities = cities.filter(city =>
+                city.position.lat >= scenario.bounds.minLat &&
+                city.position.lat <= scenario.bounds.maxLat &&
+                city.position.lng >= scenario.bounds.minLng &&
+                city.position.lng <= scenario.bounds.maxLng
+            );
+        }
+
+        // Reset city ownership
+        if (!scenarioMap) {
+            cities.forEach(city => {
+                if (city.type === POIType.CITY) {
+                    city.ownerFactionId = undefined as any;
+                }
+            });
+        }
+
+        // Assign random cities to bots (bots given a city by the scenario keep it)
+        const shuffledCities = [...cities.filter(c => c.type === POIType.CITY && !c.ownerFactionId)]
             .sort(() => Math.random() - 0.5);
 
-        const units: any[] = [];
+        const units: any[] = scenarioMap ? [...scenarioMap.units] : [];
 
         // Add phantom host as a "player" to track it (ONLY ONCE - outside the loop!)
         this.brState!.players.push({
@@ -345,9 +395,11 @@ class PhantomHostServiceImpl {
             isPhantomHost: true
         });
 
+        let nextCity = 0;
         botFactions.forEach((bot, idx) => {
-            if (idx < shuffledCities.length) {
-                const city = shuffledCities[idx];
+            const hasBase = cities.some(c => c.type === POIType.CITY && c.ownerFactionId === bot.id);
+            if (!hasBase && nextCity < shuffledCities.length) {
+                const city = shuffledCities[nextCity++];
                 city.ownerFactionId = bot.id;
                 city.tier = 1;
 
@@ -418,11 +470,13 @@ class PhantomHostServiceImpl {
             gameMode: 'PLAYING',
             messages: [],
             difficulty: Difficulty.MEDIUM,
-            scenario,
+            scenario: getScenarioInfo(scenario),
             localPlayerId: 'PHANTOM', // Phantom is running the simulation
             stateVersion: 0,
             hostTick: 0,
-            nukesInFlight: []
+            rngSeed: createGameSeed(),
+            nukesInFlight: [],
+            mines: []
         };
 
         console.log('[PHANTOM] Game initialized with', botFactions.length, 'bots on scenario:', scenarioId);
@@ -471,15 +525,10 @@ class PhantomHostServiceImpl {
 
         // Calculate winner if not instant win
         if (!winnerId) {
-            const scores = this.gameState.factions.map(f => {
-                const cities = this.gameState!.pois.filter(
-                    p => p.type === POIType.CITY && p.ownerFactionId === f.id
-                ).length;
-                return {
-                    factionId: f.id,
-                    score: cities * 1000 + f.gold + f.oil
-                };
-            }).sort((a, b) => b.score - a.score);
+            const scores = this.gameState.factions.map(f => ({
+                factionId: f.id,
+                score: calculateScore(f, this.gameState!.pois)
+            })).sort((a, b) => b.score - a.score);
 
             winnerId = scores[0]?.factionId || 'NONE';
             reason = 'SCORE';
@@ -529,7 +578,7 @@ class PhantomHostServiceImpl {
     // CONNECTION HANDLING
     // ============================================
 
-    private handlePlayerConnection(conn: DataConnection): void {
+    private handlePlayerConnection(conn: TransportConnection): void {
         this.connections.push(conn);
 
         conn.on('open', () => {
@@ -565,16 +614,22 @@ class PhantomHostServiceImpl {
         });
     }
 
-    private handleMessage(msg: any, conn: DataConnection): void {
+    private handleMessage(msg: any, conn: TransportConnection): void {
         if (msg.type === 'BR_JOIN_REQUEST') {
             this.handleJoinRequest(msg, conn);
+        } else if (msg.type === 'REQUEST' && msg.payload?.type === 'REJOIN') {
+            this.handleRejoin(msg.payload.token, conn);
+        } else if (msg.type === 'RESYNC_REQUEST') {
+            // Client missed a delta - send a keyframe of the last synced state
+            const keyframe = this.syncEncoder.createKeyframe();
+            if (keyframe && conn.open) conn.send(keyframe);
         } else if (msg.type === 'ACTION') {
             // Apply player action to game state
             // (Handled by game loop)
         }
     }
 
-    private handleJoinRequest(msg: any, conn: DataConnection): void {
+    private handleJoinRequest(msg: any, conn: TransportConnection): void {
         if (!this.gameState || !this.brState) return;
 
         const { option, targetCityId, botFactionId } = msg;
@@ -620,6 +675,8 @@ class PhantomHostServiceImpl {
                     tookOverBot: true
                 });
 
+                this.issueSession(conn, conn.peer);
+
                 // Send full state to the new player
                 conn.send({
                     type: 'FULL_STATE',
@@ -688,6 +745,8 @@ class PhantomHostServiceImpl {
                     tookOverBot: false
                 });
 
+                this.issueSession(conn, conn.peer);
+
                 // Send full state
                 conn.send({
                     type: 'FULL_STATE',
@@ -698,6 +757,47 @@ class PhantomHostServiceImpl {
         }
     }
 
+    private issueSession(conn: TransportConnection, factionId: string): void {
+        const token = createSessionToken();
+        this.sessions.set(token, { factionId });
+        conn.send({ type: 'RESPONSE', payload: { type: 'SESSION_TOKEN', token, factionId } });
+    }
+
+    /**
+     * A dropped player reclaims their faction from the bot minding it, if the
+     * grace window has not run out and nobody took the bot over meanwhile.
+     */
+    private handleRejoin(token: string, conn: TransportConnection): void {
+        if (!this.gameState || !this.brState) return;
+
+        const session = this.sessions.get(token);
+        const expired = session?.disconnectedAt !== undefined &&
+            Date.now() - session.disconnectedAt > RECONNECT_CONFIG.GRACE_SECONDS * 1000;
+        const player = session && this.brState.players.find(p => p.factionId === session.factionId && !p.isPhantomHost);
+        const faction = session && this.gameState.factions.find(f => f.id === session.factionId);
+
+        if (!session || expired || !player || !faction) {
+            if (expired) this.sessions.delete(token);
+            console.log('[PHANTOM] Refused rejoin from', conn.peer);
+            conn.send({ type: 'RESPONSE', payload: { type: 'REJOIN_RESULT', accepted: false, message: 'Your seat in this round is no longer available' } });
+            return;
+        }
+
+        faction.type = 'PLAYER';
+        player.isBot = false;
+        player.peerId = conn.peer;
+        session.disconnectedAt = undefined;
+
+        console.log('[PHANTOM] Player', conn.peer, 'rejoined as', faction.id);
+
+        conn.send({ type: 'RESPONSE', payload: { type: 'REJOIN_RESULT', accepted: true, factionId: faction.id } });
+        conn.send({
+            type: 'FULL_STATE',
+            gameState: this.gameState,
+            timestamp: Date.now()
+        });
+    }
+
     private handlePlayerDisconnect(peerId: string): void {
         if (!this.gameState || !this.brState) return;
 
@@ -716,6 +816,11 @@ class PhantomHostServiceImpl {
         player.isBot = true;
         player.peerId = `BOT_${Date.now()}`;
 
+        // The bot only minds the faction until the player rejoins (see handleRejoin)
+        this.sessions.forEach(session => {
+            if (session.factionId === player.factionId) session.disconnectedAt = Date.now();
+        });
+
         console.log('[PHANTOM] Player disconnected, converted to bot:', player.factionId);
 
         // Ensure minimum bots
@@ -789,11 +894,14 @@ class PhantomHostServiceImpl {
     private broadcastGameState(): void {
         if (!this.gameState) return;
 
-        const msg = {
-            type: 'FULL_STATE',
-            gameState: this.gameState,
-            timestamp: Date.now()
+        // Delta compressed: periodic FULL_STATE keyframes, STATE_DELTA in between
+        this.stateVersion++;
+        this.gameState = {
+            ...this.gameState,
+            stateVersion: this.stateVersion,
+            hostTick: this.gameState.gameTick
         };
+        const msg = this.syncEncoder.encode(this.gameState);
 
         this.connections.forEach(conn => {
             if (conn.open) {
@@ -830,6 +938,25 @@ class PhantomHostServiceImpl {
         return this.gameState;
     }
 
+    /**
+     * Replace the map rotation (built-in or custom scenario IDs, see
+     * scenarioService). Unknown IDs are dropped; the current round keeps
+     * playing and the next one continues from its place in the new list.
+     */
+    setScenarioRotation(scenarioIds: string[]): void {
+        if (!this.brState) return;
+        const rotation = scenarioIds.filter(id => getScenario(id));
+        if (rotation.length === 0) return;
+
+        const current = this.gameState?.scenario?.id;
+        const index = current ? rotation.indexOf(current) : -1;
+        this.brState.config.scenarioRotation = rotation;
+        // Not in the new list: next round starts from the top
+        this.brState.currentScenarioIndex = index >= 0 ? index : rotation.length - 1;
+        this.saveState();
+        console.log('[PHANTOM] Scenario rotation:', rotation.join(', '));
+    }
+
     /**
      * Sync player's game state back to PhantomHost
      * This ensures buildings, damage, and other changes persist
@@ -858,10 +985,17 @@ class PhantomHostServiceImpl {
     }
 
     shutdown(): void {
+        // Persist the room one last time so the next host picks it up
+        this.saveState();
+
         if (this.gameLoopInterval) {
             clearInterval(this.gameLoopInterval);
             this.gameLoopInterval = null;
         }
+        if (this.saveInterval) {
+            clearInterval(this.saveInterval);
+            this.saveInterval = null;
+        }
 
         this.connections.forEach(conn => conn.close());
         this.connections = [];
@@ -0,0 +1,137 @@
+// ============================================
+// CLIENT-SIDE PREDICTION
+// Clients move their own units ahead of the host and reconcile on sync
+// ============================================
+// Every action a client sends carries a per-player sequence number
+// (GameAction.seq). The host applies it and records the highest seq it has
+// applied for that player in GameState.actionAcks, which reaches the client
+// with the next FULL_STATE / STATE_DELTA.
+//
+// Between syncs the client runs the host's own movement code
+// (simulateMovement in gameLogic) for its units, so orders take effect at
+// once. The predicted state is only ever shown: the client also keeps the
+// host's state as last received, and STATE_DELTAs - which only carry what
+// changed on the host - apply to that copy. The result replaces the
+// prediction, with the actions the host has not acknowledged yet applied on
+// top of it again, in seq order. Whatever still differs shows as a visual
+// offset on the unit that shrinks every tick instead of a jump.
+//
+// Hosts that do not acknowledge (the Battle Royale phantom host, older
+// builds) leave actionAcks unset; nothing is replayed then, the client shows
+// the host's state as it arrives and pending actions time out.
+
+import { GameState, GameUnit } from '../types';
+import { PREDICTION_CONFIG } from '../constants';
+import { GameAction } from './schemas';
+import { applyAction } from './applyAction';
+import { simulateMovement } from './gameLogic';
+
+/** An action the client applied optimistically, until the host confirms or rejects it. */
+export interface PendingAction {
+    action: GameAction;
+    before: GameState;
+    after: GameState;
+    sentAt: number;
+}
+
+// ============================================
+// HOST
+// ============================================
+
+/** HOST: note that `action` has been applied, for its sender's reconciliation. */
+export function acknowledgeAction(state: GameState, action: GameAction): GameState {
+    if (!action.seq || (state.actionAcks?.[action.playerId] ?? 0) >= action.seq) return state;
+    return { ...state, actionAcks: { ...state.actionAcks, [action.playerId]: action.seq } };
+}
+
+// ============================================
+// CLIENT
+// ============================================
+
+/** Highest seq the host has applied for `playerId` (0 = none yet). */
+export function getAcknowledgedSeq(state: GameState, playerId: string): number {
+    return state.actionAcks?.[playerId] ?? 0;
+}
+
+/**
+ * CLIENT: replay the local player's unacknowledged actions on top of fresh
+ * authoritative state. Acknowledged entries are removed from `pending`.
+ */
+export function reconcileWithHost(authoritative: GameState, pending: Map<string, PendingAction>, localPlayerId: string): GameState {
+    if (!authoritative.actionAcks) return authoritative;
+
+    const acked = getAcknowledgedSeq(authoritative, localPlayerId);
+    const replay: GameAction[] = [];
+    pending.forEach((entry, id) => {
+        if (!entry.action.seq) return;
+        if (entry.action.seq <= acked) pending.delete(id);
+        else replay.push(entry.action);
+    });
+
+    return replay
+        .sort((a, b) => a.seq! - b.seq!)
+        .reduce((state, action) => applyAction(state, action), authoritative);
+}
+
+/**
+ * CLIENT: carry what is drawn for each unit over from the state on screen to
+ * one rebuilt from host state, so corrections glide (see predictUnits).
+ */
+export function carryPresentation(rebuilt: GameState, shown: GameState): GameState {
+    const shownUnits = new Map(shown.units.map(u => [u.id, u]));
+    return {
+        ...rebuilt,
+        units: rebuilt.units.map(unit => {
+            const previous = shownUnits.get(unit.id);
+            if (!previous?.visualPosition) return unit;
+            return { ...unit, visualPosition: previous.visualPosition, visualHeading: previous.visualHeading };
+        })
+    };
+}
+
+const wrapDegrees = (delta: number) => delta > 180 ? delta - 360 : delta < -180 ? delta + 360 : delta;
+
+/**
+ * CLIENT: one tick of presentation. The local player's units move with the
+ * host's movement code and their visual error decays; everyone else's units
+ * glide towards their last authoritative position.
+ */
+export function predictUnits(state: GameState): GameUnit[] {
+    const localPlayerId = state.localPlayerId;
+    const predicted = simulateMovement(state, unit => unit.factionId === localPlayerId && !!unit.destination);
+    const keep = 1 - PREDICTION_CONFIG.CORRECTION_RATE;
+
+    return predicted.map((unit, i) => {
+        const previous = state.units[i];
+        const visual = unit.visualPosition ?? previous.position;
+        const visualHeading = unit.visualHeading ?? unit.heading;
+
+        if (unit.factionId !== localPlayerId) {
+            const lerp = PREDICTION_CONFIG.REMOTE_LERP;
+            return {
+                ...unit,
+                visualPosition: {
+                    lat: visual.lat + (unit.position.lat - visual.lat) * lerp,
+                    lng: visual.lng + (unit.position.lng - visual.lng) * lerp
+                },
+                visualHeading: visualHeading + wrapDegrees(unit.heading - visualHeading) * lerp
+            };
+        }
+
+        // Offset between what is drawn and where the unit was - carried along
+        // with the unit's own movement, and shrinking
+        const offsetLat = visual.lat - previous.position.lat;
+        const offsetLng = visual.lng - previous.position.lng;
+        if (Math.abs(offsetLat) > PREDICTION_CONFIG.SNAP_DISTANCE || Math.abs(offsetLng) > PREDICTION_CONFIG.SNAP_DISTANCE) {
+            return { ...unit, visualPosition: { ...unit.position }, visualHeading: unit.heading };
+        }
+        return {
+            ...unit,
+            visualPosition: {
+                lat: unit.position.lat + offsetLat * keep,
+                lng: unit.position.lng + offsetLng * keep
+            },
+            visualHeading: unit.heading - wrapDegrees(unit.heading - visualHeading) * keep
+        };
+    });
+}
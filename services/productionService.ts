@@ -0,0 +1,157 @@
+// ============================================
+// PRODUCTION QUEUES
+// Units are built over time at structures instead of appearing instantly
+// ============================================
+// Ground units come out of COMMAND_CENTER / MILITARY_BASE, aircraft out of
+// AIRBASE and ships out of PORT (PRODUCTION_CONFIG.SITES). Gold/oil is paid
+// when an order is queued and refunded if it is cancelled; orders are lost
+// with their structure. Only the head of a queue is in progress - progress is
+// derived from its startedTick, so queues don't change every tick.
+// Players (QUEUE_PRODUCTION) and bots (executeProduction) both go through
+// queueProduction(); processProduction() finishes orders inside processGameTick.
+
+import { GameUnit, ProductionOrder, UnitClass } from '../types';
+import { PRODUCTION_CONFIG, UNIT_CONFIG } from '../constants';
+import { spawnUnit, getDistanceKm } from './gameLogic';
+import { TerrainService } from './terrainService';
+import { SimRandom } from './deterministic';
+
+const AIR_CLASSES = [UnitClass.FIGHTER_JET, UnitClass.HEAVY_BOMBER, UnitClass.HELICOPTER, UnitClass.RECON_DRONE, UnitClass.TROOP_TRANSPORT];
+const SEA_CLASSES = [UnitClass.DESTROYER, UnitClass.FRIGATE, UnitClass.SUBMARINE, UnitClass.AIRCRAFT_CARRIER, UnitClass.BATTLESHIP, UnitClass.PATROL_BOAT, UnitClass.MINELAYER];
+const GROUND_CLASSES = [UnitClass.INFANTRY, UnitClass.SPECIAL_FORCES, UnitClass.GROUND_TANK, UnitClass.MISSILE_LAUNCHER, UnitClass.SAM_LAUNCHER, UnitClass.MOBILE_COMMAND_CENTER];
+
+/**
+ * Structure classes that can build `unitClass` (empty = not producible, e.g. structures).
+ */
+export function getProductionSiteClasses(unitClass: UnitClass): UnitClass[] {
+    if (GROUND_CLASSES.includes(unitClass)) return PRODUCTION_CONFIG.SITES.GROUND;
+    if (AIR_CLASSES.includes(unitClass)) return PRODUCTION_CONFIG.SITES.AIR;
+    if (SEA_CLASSES.includes(unitClass)) return PRODUCTION_CONFIG.SITES.SEA;
+    return [];
+}
+
+export const isProducible = (unitClass: UnitClass): boolean => getProductionSiteClasses(unitClass).length > 0;
+
+export const isProductionSite = (unit: GameUnit): boolean =>
+    [...PRODUCTION_CONFIG.SITES.GROUND, ...PRODUCTION_CONFIG.SITES.AIR, ...PRODUCTION_CONFIG.SITES.SEA].includes(unit.unitClass);
+
+export const canProduceAt = (site: GameUnit, unitClass: UnitClass): boolean =>
+    site.hp > 0 && getProductionSiteClasses(unitClass).includes(site.unitClass);
+
+export const getBuildTicks = (unitClass: UnitClass): number =>
+    PRODUCTION_CONFIG.BUILD_TICKS[unitClass] ?? PRODUCTION_CONFIG.DEFAULT_BUILD_TICKS;
+
+/**
+ * Best structure of `factionId` to build `unitClass`: shortest queue first,
+ * then closest to `near` (if given), then lowest ID so every peer agrees.
+ */
+export function findProductionSite(units: GameUnit[], factionId: string, unitClass: UnitClass, near?: { lat: number; lng: number }): GameUnit | null {
+    const sites = units.filter(u => u.factionId === factionId && canProduceAt(u, unitClass) &&
+        (u.productionQueue?.length ?? 0) < PRODUCTION_CONFIG.MAX_QUEUE_LENGTH);
+    if (sites.length === 0) return null;
+
+    const distance = (u: GameUnit) => near ? getDistanceKm(near.lat, near.lng, u.position.lat, u.position.lng) : 0;
+    return sites.sort((a, b) =>
+        (a.productionQueue?.length ?? 0) - (b.productionQueue?.length ?? 0) ||
+        distance(a) - distance(b) ||
+        a.id.localeCompare(b.id)
+    )[0];
+}
+
+/**
+ * Append an order to a structure's queue. Returns the updated structure;
+ * the caller pays UNIT_CONFIG cost (stored on the order for refunds).
+ */
+export function queueProduction(site: GameUnit, unitClass: UnitClass, unitId: string, tick: number): GameUnit {
+    const queue = site.productionQueue || [];
+    const cost = UNIT_CONFIG[unitClass].cost || { gold: 0, oil: 0 };
+    const order: ProductionOrder = {
+        unitId,
+        unitClass,
+        buildTicks: getBuildTicks(unitClass),
+        startedTick: queue.length === 0 ? tick : undefined,
+        cost: { gold: cost.gold || 0, oil: cost.oil || 0 }
+    };
+    return { ...site, productionQueue: [...queue, order] };
+}
+
+/**
+ * Remove an order. Returns the updated structure and what to refund, or null
+ * if the order is not in this queue.
+ */
+export function cancelProduction(site: GameUnit, unitId: string, tick: number): { site: GameUnit; refund: { gold: number; oil: number } } | null {
+    const queue = site.productionQueue || [];
+    const index = queue.findIndex(o => o.unitId === unitId);
+    if (index === -1) return null;
+
+    const order = queue[index];
+    const remaining = queue.filter((_, i) => i !== index);
+    // The next order starts now if the one in progress was cancelled
+    if (index === 0 && remaining.length > 0) {
+        remaining[0] = { ...remaining[0], startedTick: tick };
+    }
+    const ratio = PRODUCTION_CONFIG.CANCEL_REFUND_RATIO;
+    return {
+        site: { ...site, productionQueue: remaining.length > 0 ? remaining : undefined },
+        refund: { gold: Math.floor(order.cost.gold * ratio), oil: Math.floor(order.cost.oil * ratio) }
+    };
+}
+
+/**
+ * 0-1 progress of an order at `tick` (0 for orders still waiting).
+ */
+export function getOrderProgress(order: ProductionOrder, tick: number): number {
+    if (order.startedTick === undefined) return 0;
+    return Math.max(0, Math.min(1, (tick - order.startedTick) / order.buildTicks));
+}
+
+/**
+ * Where a finished unit appears: ships on the nearest water, everything else
+ * scattered around the structure.
+ */
+function getExitPosition(site: GameUnit, unitClass: UnitClass): { lat: number; lng: number } {
+    const spread = PRODUCTION_CONFIG.EXIT_SPREAD_DEG;
+    if (!SEA_CLASSES.includes(unitClass)) {
+        return {
+            lat: site.position.lat + SimRandom.jitter(spread),
+            lng: site.position.lng + SimRandom.jitter(spread)
+        };
+    }
+
+    const water = TerrainService.findNearestWater(site.position.lat, site.position.lng);
+    for (let attempt = 0; attempt < 5; attempt++) {
+        const candidate = { lat: water.lat + SimRandom.jitter(0.02), lng: water.lng + SimRandom.jitter(0.02) };
+        if (!TerrainService.isPointLand(candidate.lat, candidate.lng)) return candidate;
+    }
+    return water;
+}
+
+/**
+ * Finish every queue head whose build time is up. Returns the same array when
+ * nothing completed; otherwise updated structures plus the new units.
+ * `onComplete` is told about each finished unit (event log / audio).
+ */
+export function processProduction(units: GameUnit[], tick: number, onComplete?: (unit: GameUnit, site: GameUnit) => void): GameUnit[] {
+    const finished: GameUnit[] = [];
+    const updatedSites = new Map<string, GameUnit>();
+
+    for (const site of units) {
+        const order = site.productionQueue?.[0];
+        if (!order || site.hp <= 0 || getOrderProgress(order, tick) < 1) continue;
+
+        const position = getExitPosition(site, order.unitClass);
+        const unit = spawnUnit(order.unitClass, position.lat, position.lng, site.factionId);
+        unit.id = order.unitId;
+        if (site.rallyPoint) unit.destination = { ...site.rallyPoint };
+        finished.push(unit);
+
+        const remaining = site.productionQueue!.slice(1);
+        if (remaining.length > 0) remaining[0] = { ...remaining[0], startedTick: tick };
+        const updatedSite = { ...site, productionQueue: remaining.length > 0 ? remaining : undefined };
+        updatedSites.set(site.id, updatedSite);
+        onComplete?.(unit, updatedSite);
+    }
+
+    if (finished.length === 0) return units;
+    return [...units.map(u => updatedSites.get(u.id) ?? u), ...finished];
+}
@@ -0,0 +1,129 @@
+// ============================================
+// RECONNECT & REJOIN
+// Dropped multiplayer clients keep their seat for a grace window
+// ============================================
+// When a client's connection closes the host freezes that faction instead of
+// giving it away: it stays a PLAYER faction (no bot orders it around, its units
+// still defend themselves through their auto modes) until
+// Faction.disconnectedUntil. Every joining client is handed a session token
+// (NetworkService.issueSession); sending it back in a REJOIN request reclaims
+// the seat from any peer ID, e.g. after a page reload. Seats nobody reclaims in
+// time are neutralized, as a disconnect used to do straight away.
+//
+// The Battle Royale phantom host gives frozen seats to a bot instead and only
+// uses the token / grace window part.
+
+import { GameState, LogMessage } from '../types';
+import { RECONNECT_CONFIG, GAME_TICK_MS } from '../constants';
+import { Intent } from './schemas';
+
+const GRACE_TICKS = Math.round((RECONNECT_CONFIG.GRACE_SECONDS * 1000) / GAME_TICK_MS);
+
+/** Unguessable token identifying one player's seat for the rest of the match. */
+export function createSessionToken(): string {
+    if (typeof crypto.randomUUID === 'function') {
+        return crypto.randomUUID();
+    }
+    // randomUUID needs a secure context - a LAN host served over plain HTTP
+    // only has getRandomValues
+    const bytes = crypto.getRandomValues(new Uint8Array(16));
+    return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+const seatMessage = (state: GameState, factionId: string, text: string, type: LogMessage['type']): LogMessage => ({
+    id: `SEAT-${factionId}-${state.gameTick}-${type}`,
+    text,
+    type,
+    timestamp: state.gameTick * GAME_TICK_MS
+});
+
+/**
+ * Freeze a human faction whose connection dropped. Does nothing for unknown
+ * or non-human factions, or ones already waiting for their player.
+ */
+export function markDisconnected(state: GameState, factionId: string): GameState {
+    const faction = state.factions.find(f => f.id === factionId);
+    if (!faction || faction.type !== 'PLAYER' || faction.disconnectedUntil !== undefined) return state;
+
+    console.log('[RECONNECT] Holding seat of', factionId, 'for', RECONNECT_CONFIG.GRACE_SECONDS, 's');
+    return {
+        ...state,
+        factions: state.factions.map(f => f.id === factionId ? { ...f, disconnectedUntil: state.gameTick + GRACE_TICKS } : f),
+        messages: [...state.messages, seatMessage(state, factionId,
+            `📡 ${faction.name} lost connection - holding their forces for ${RECONNECT_CONFIG.GRACE_SECONDS}s`, 'alert')].slice(-20)
+    };
+}
+
+/** Give a frozen faction back to its (reconnected) player. */
+export function markReconnected(state: GameState, factionId: string): GameState {
+    const faction = state.factions.find(f => f.id === factionId);
+    if (!faction || faction.disconnectedUntil === undefined) return state;
+
+    console.log('[RECONNECT] Seat reclaimed:', factionId);
+    return {
+        ...state,
+        factions: state.factions.map(f => {
+            if (f.id !== factionId) return f;
+            const { disconnectedUntil, ...rest } = f;
+            return rest;
+        }),
+        messages: [...state.messages, seatMessage(state, factionId, `📡 ${faction.name} reconnected`, 'success')].slice(-20)
+    };
+}
+
+/**
+ * Host, every tick: apply the seat changes the network layer queued
+ * (PLAYER_DISCONNECTED / PLAYER_REJOINED intents).
+ */
+export function applySeatIntents(state: GameState, intents: Intent[]): GameState {
+    return intents.reduce((next, intent) => {
+        if (intent.type === 'PLAYER_DISCONNECTED') return markDisconnected(next, intent.clientId);
+        if (intent.type === 'PLAYER_REJOINED') return markReconnected(next, intent.clientId);
+        return next;
+    }, state);
+}
+
+/**
+ * Hand a faction's forces to neutral defenders and release its POIs, removing
+ * the faction from play.
+ */
+export function neutralizeFaction(state: GameState, factionId: string): GameState {
+    console.log('[RECONNECT] Neutralized',
+        state.units.filter(u => u.factionId === factionId).length, 'units and',
+        state.pois.filter(p => p.ownerFactionId === factionId).length, 'POIs of', factionId);
+
+    return {
+        ...state,
+        units: state.units.map(u =>
+            u.factionId === factionId
+                ? {
+                    ...u,
+                    factionId: 'NEUTRAL_DEFENDER',
+                    autoMode: 'DEFEND' as const,
+                    homePosition: { ...u.position },
+                    targetId: null,
+                    destination: null
+                }
+                : u
+        ),
+        factions: state.factions.filter(f => f.id !== factionId),
+        pois: state.pois.map(p => p.ownerFactionId === factionId ? { ...p, ownerFactionId: 'NEUTRAL' } : p)
+    };
+}
+
+/**
+ * Host, every tick: forfeit seats whose grace window ran out.
+ */
+export function processDisconnectedSeats(state: GameState): GameState {
+    const expired = state.factions.filter(f => f.disconnectedUntil !== undefined && state.gameTick >= f.disconnectedUntil);
+    if (expired.length === 0) return state;
+
+    return expired.reduce((next, faction) => {
+        const neutralized = neutralizeFaction(next, faction.id);
+        return {
+            ...neutralized,
+            messages: [...neutralized.messages, seatMessage(next, faction.id,
+                `📡 ${faction.name} did not return - their forces stand down`, 'alert')].slice(-20)
+        };
+    }, state);
+}
@@ -0,0 +1,294 @@
+// ============================================
+// REPLAY RECORDING & PLAYBACK
+// Host records the match, anyone can watch it back from the main menu
+// ============================================
+// The simulation is deterministic (see deterministic.ts), so a replay is just
+// the first PLAYING state plus every GameAction the host applied, tagged with
+// the tick it was applied on, and the host intents (peer drop-outs) each tick
+// ran with. Playback re-runs applyAction/processGameTick.
+// Simulation state outside GameState - bot brains and AIDirector pacing - is
+// borrowed while a replay plays and reset afterwards.
+
+import { GameState, GameUnit } from '../types';
+import { REPLAY_CONFIG } from '../constants';
+import { GameAction, Intent, ReplayFile, ReplayActionEntry, ReplayIntentEntry, AIDirectorSnapshot } from './schemas';
+import { processGameTick } from './gameLogic';
+import { applyAction } from './applyAction';
+import { snapshotBotBrains, restoreBotBrains, resetBotBrains } from './AdvancedBotAI';
+import { AIDirector } from './aiDirector';
+
+// Presentation-only unit fields - never part of a replay
+const VISUAL_FIELDS: (keyof GameUnit)[] = ['visualPosition', 'visualHeading', 'lastServerUpdate'];
+
+/**
+ * Copy of a state with client-side presentation data removed.
+ */
+function stripPresentation(state: GameState): GameState {
+    return {
+        ...state,
+        units: state.units.map(u => {
+            const clean = { ...u };
+            VISUAL_FIELDS.forEach(field => delete clean[field]);
+            return clean;
+        }),
+        gameMode: state.gameMode === 'PLACING_STRUCTURE' ? 'PLAYING' : state.gameMode,
+        placementType: null,
+        isClient: false,
+        gameResult: null
+    };
+}
+
+// ============================================
+// RECORDER (host only)
+// ============================================
+
+class ReplayRecorderImpl {
+    private armed = false;
+    private initialState: GameState | null = null;
+    private director: AIDirectorSnapshot | null = null;
+    private actions: ReplayActionEntry[] = [];
+    private intents: ReplayIntentEntry[] = [];
+    private finished: ReplayFile | null = null;
+
+    /** Prepare a fresh recording; it starts on the first simulated tick. */
+    arm(): void {
+        this.armed = true;
+        this.initialState = null;
+        this.director = null;
+        this.actions = [];
+        this.intents = [];
+        this.finished = null;
+    }
+
+    /** Drop any recording (games that are not replayable, e.g. Battle Royale). */
+    disarm(): void {
+        this.armed = false;
+        this.initialState = null;
+        this.director = null;
+        this.finished = null;
+    }
+
+    get isRecording(): boolean {
+        return this.armed && this.initialState !== null;
+    }
+
+    /**
+     * Called by the host right before processGameTick(state, intents).
+     * The first call captures the initial state.
+     */
+    recordTick(state: GameState, intents: Intent[]): void {
+        if (!this.armed) return;
+        if (!this.initialState) {
+            this.initialState = JSON.parse(JSON.stringify(stripPresentation(state)));
+            this.director = AIDirector.getInstance().getSnapshot();
+            console.log('[REPLAY] Recording started at tick', state.gameTick);
+        }
+        if (intents.length > 0) {
+            this.intents.push([state.gameTick, JSON.parse(JSON.stringify(intents))]);
+        }
+    }
+
+    /** Called by the host after validating and applying an action. */
+    recordAction(tick: number, action: GameAction): void {
+        if (!this.isRecording) return;
+        this.actions.push([tick, action.actionType, action.playerId, JSON.parse(JSON.stringify(action.payload ?? null)), action.actionId]);
+    }
+
+    /** Close the recording (match over). Returns the finished replay, if any. */
+    finish(endTick: number): ReplayFile | null {
+        if (this.finished) return this.finished;
+        if (!this.isRecording) return null;
+
+        this.finished = {
+            version: REPLAY_CONFIG.FORMAT_VERSION,
+            recordedAt: Date.now(),
+            scenarioId: this.initialState!.scenario.id,
+            localPlayerId: this.initialState!.localPlayerId,
+            endTick,
+            initialState: this.initialState!,
+            director: this.director!,
+            actions: this.actions,
+            intents: this.intents
+        };
+        this.armed = false;
+        console.log('[REPLAY] Recording finished:', this.actions.length, 'actions over', endTick, 'ticks');
+        return this.finished;
+    }
+
+    /** Last finished replay (for the victory screen download button). */
+    getFinished(): ReplayFile | null {
+        return this.finished;
+    }
+}
+
+export const ReplayRecorder = new ReplayRecorderImpl();
+
+// ============================================
+// FILES
+// ============================================
+
+/**
+ * Offer a replay as a file download.
+ */
+export function downloadReplay(replay: ReplayFile): void {
+    const blob = new Blob([JSON.stringify(replay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const stamp = new Date(replay.recordedAt).toISOString().slice(0, 16).replace(/[:T]/g, '-');
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `tacticops-${replay.scenarioId.toLowerCase()}-${stamp}.replay.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Parse a replay file. Throws with a readable message if it is not one.
+ */
+export function parseReplay(text: string): ReplayFile {
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('Not a replay file (invalid JSON)');
+    }
+    if (!data || !data.initialState || !Array.isArray(data.actions) || typeof data.endTick !== 'number') {
+        throw new Error('Not a replay file');
+    }
+    if (data.version !== REPLAY_CONFIG.FORMAT_VERSION) {
+        throw new Error(`Unsupported replay version ${data.version} (expected ${REPLAY_CONFIG.FORMAT_VERSION})`);
+    }
+    return { ...data, intents: Array.isArray(data.intents) ? data.intents : [] };
+}
+
+// ============================================
+// PLAYER
+// ============================================
+
+interface ReplayCheckpoint {
+    tick: number;
+    state: GameState;
+    actionIndex: number;
+    intentIndex: number;
+    brains: Map<string, unknown>;
+    director: AIDirectorSnapshot;
+}
+
+/**
+ * Re-simulates a replay. Checkpoints are captured every
+ * REPLAY_CONFIG.CHECKPOINT_INTERVAL_TICKS as playback passes them, so seeking
+ * backwards only re-runs the ticks since the nearest earlier checkpoint.
+ */
+export class ReplayPlayer {
+    readonly replay: ReplayFile;
+    private state: GameState;
+    private actionIndex = 0;
+    private intentIndex = 0;
+    private checkpoints: ReplayCheckpoint[] = [];
+
+    constructor(replay: ReplayFile) {
+        this.replay = replay;
+        resetBotBrains();
+        AIDirector.getInstance().restore(replay.director);
+        this.state = structuredClone(replay.initialState);
+        this.saveCheckpoint();
+    }
+
+    get currentState(): GameState {
+        return this.state;
+    }
+
+    get tick(): number {
+        return this.state.gameTick;
+    }
+
+    get startTick(): number {
+        return this.replay.initialState.gameTick;
+    }
+
+    get endTick(): number {
+        return this.replay.endTick;
+    }
+
+    get isAtEnd(): boolean {
+        return this.state.gameTick >= this.replay.endTick;
+    }
+
+    getCheckpointTicks(): number[] {
+        return this.checkpoints.map(c => c.tick);
+    }
+
+    /** Simulate up to `ticks` ticks forward. Returns how many actually ran. */
+    advance(ticks: number): number {
+        let ran = 0;
+        while (ran < ticks && !this.isAtEnd) {
+            this.step();
+            ran++;
+        }
+        return ran;
+    }
+
+    /** Jump to `tick` (clamped to the replay), restoring a checkpoint if needed. */
+    seek(tick: number): void {
+        const target = Math.max(this.startTick, Math.min(this.endTick, Math.floor(tick)));
+
+        let checkpoint: ReplayCheckpoint | null = null;
+        for (const c of this.checkpoints) {
+            if (c.tick <= target) checkpoint = c;
+        }
+        // Restore when going back, or when a checkpoint lets us skip ahead
+        if (checkpoint && (target < this.state.gameTick || checkpoint.tick > this.state.gameTick)) {
+            this.state = structuredClone(checkpoint.state);
+            this.actionIndex = checkpoint.actionIndex;
+            this.intentIndex = checkpoint.intentIndex;
+            restoreBotBrains(checkpoint.brains);
+            AIDirector.getInstance().restore(checkpoint.director);
+        }
+
+        this.advance(target - this.state.gameTick);
+    }
+
+    /** Release global simulation state borrowed by playback. */
+    dispose(): void {
+        resetBotBrains();
+        AIDirector.getInstance().reset();
+    }
+
+    private step(): void {
+        const tick = this.state.gameTick;
+        const { actions, intents } = this.replay;
+
+        // Actions were applied between ticks, on the state about to be simulated
+        let state = this.state;
+        while (this.actionIndex < actions.length && actions[this.actionIndex][0] <= tick) {
+            const [, actionType, playerId, payload, actionId] = actions[this.actionIndex++];
+            state = applyAction(state, { actionType, playerId, payload, actionId, timestamp: 0 });
+        }
+
+        let tickIntents: Intent[] = [];
+        while (this.intentIndex < intents.length && intents[this.intentIndex][0] <= tick) {
+            tickIntents = tickIntents.concat(intents[this.intentIndex++][1]);
+        }
+
+        state = processGameTick(state, tickIntents, true);
+        if (state.gameMode === 'PLACING_STRUCTURE') state = { ...state, gameMode: 'PLAYING' };
+        this.state = state;
+
+        if (state.gameTick % REPLAY_CONFIG.CHECKPOINT_INTERVAL_TICKS === 0) {
+            this.saveCheckpoint();
+        }
+    }
+
+    private saveCheckpoint(): void {
+        const tick = this.state.gameTick;
+        if (this.checkpoints.some(c => c.tick === tick)) return;
+        this.checkpoints.push({
+            tick,
+            state: structuredClone(this.state),
+            actionIndex: this.actionIndex,
+            intentIndex: this.intentIndex,
+            brains: snapshotBotBrains(),
+            director: AIDirector.getInstance().getSnapshot()
+        });
+        this.checkpoints.sort((a, b) => a.tick - b.tick);
+    }
+}
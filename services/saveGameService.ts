@@ -0,0 +1,197 @@
+// ============================================
+// SAVE GAMES
+// Named save slots for single-player and hosted matches, in IndexedDB
+// ============================================
+// Only the host saves: its GameState is authoritative, and the AI state that
+// lives outside GameState (AdvancedBotAI brains, AIDirector pacing) is
+// captured with it. Loading always resumes as a local host - see
+// prepareLoadedState for what happens to the other human seats.
+//
+// Two object stores written in one transaction: `summaries` (small, listed by
+// the Load Game screen) and `saves` (everything). Older saves are upgraded by
+// migrateSaveGame on load.
+
+import { GameState, BotPersonality } from '../types';
+import { SAVE_GAME_CONFIG, GAME_TICK_MS } from '../constants';
+import { SaveGame, SaveGameSummary } from './schemas';
+import { snapshotBotBrains } from './AdvancedBotAI';
+import { AIDirector } from './aiDirector';
+
+const SUMMARY_STORE = 'summaries';
+const SAVE_STORE = 'saves';
+
+// Upgrades from version N to N + 1. Add one whenever SCHEMA_VERSION is bumped.
+const MIGRATIONS: Record<number, (save: any) => any> = {};
+
+/**
+ * Bring a stored save up to SAVE_GAME_CONFIG.SCHEMA_VERSION.
+ * Throws with a readable message if it cannot be.
+ */
+export function migrateSaveGame(raw: any): SaveGame {
+    if (!raw || !raw.state || typeof raw.version !== 'number') {
+        throw new Error('Save game is damaged');
+    }
+    if (raw.version > SAVE_GAME_CONFIG.SCHEMA_VERSION) {
+        throw new Error(`Save game is from a newer version (${raw.version})`);
+    }
+    let save = raw;
+    while (save.version < SAVE_GAME_CONFIG.SCHEMA_VERSION) {
+        const migrate = MIGRATIONS[save.version];
+        if (!migrate) throw new Error(`No upgrade path for save game version ${save.version}`);
+        save = { ...migrate(save), version: save.version + 1 };
+        console.log('[SAVE] Migrated save', save.id, 'to version', save.version);
+    }
+    return {
+        ...save,
+        botBrains: save.botBrains instanceof Map ? save.botBrains : new Map(),
+        director: save.director || { intensity: 0, lastWaveTime: 0, waveNumber: 0 }
+    };
+}
+
+/**
+ * Snapshot of the running match (host-side) as a save called `name`.
+ * Pass `id` to overwrite an existing slot.
+ */
+export function createSaveGame(name: string, state: GameState, id?: string): SaveGame {
+    const localFaction = state.factions.find(f => f.id === state.localPlayerId);
+    return {
+        id: id || `SAVE-${Date.now().toString(36)}`,
+        name: name.trim().slice(0, SAVE_GAME_CONFIG.MAX_NAME_LENGTH) || 'Unnamed save',
+        version: SAVE_GAME_CONFIG.SCHEMA_VERSION,
+        savedAt: Date.now(),
+        scenarioName: state.scenario?.name || 'Unknown',
+        factionName: localFaction?.name || state.localPlayerId,
+        gameTick: state.gameTick,
+        humanPlayers: state.factions.filter(f => f.type === 'PLAYER').length,
+        // JSON round trip drops anything IndexedDB cannot clone (and shares nothing with live state)
+        state: {
+            ...JSON.parse(JSON.stringify(state)),
+            gameMode: state.gameMode === 'PLACING_STRUCTURE' ? 'PLAYING' : state.gameMode,
+            placementType: null
+        },
+        botBrains: snapshotBotBrains(),
+        director: AIDirector.getInstance().getSnapshot()
+    };
+}
+
+/**
+ * GameState to resume from a loaded save. The loader becomes the host; human
+ * seats of other players (hosted matches) are handed to bots, since those
+ * players are not connected any more.
+ */
+export function prepareLoadedState(save: SaveGame): GameState {
+    const { state } = save;
+    return {
+        ...state,
+        isClient: false,
+        placementType: null,
+        stateVersion: 0,
+        factions: state.factions.map(f =>
+            f.type === 'PLAYER' && f.id !== state.localPlayerId
+                ? { ...f, type: 'BOT' as const, ready: true, personality: f.personality || BotPersonality.TACTICAL, strategicGoals: [], threatMemory: [], disconnectedUntil: undefined }
+                : f
+        )
+    };
+}
+
+/** "Europe · Atlantic Coalition · 12:05 in · hosted" - one line for save lists. */
+export function describeSave(summary: SaveGameSummary): string {
+    const seconds = Math.floor((summary.gameTick * GAME_TICK_MS) / 1000);
+    const played = `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')} in`;
+    return [summary.scenarioName, summary.factionName, played, summary.humanPlayers > 1 ? 'hosted' : '']
+        .filter(Boolean).join(' · ');
+}
+
+// ============================================
+// STORAGE
+// ============================================
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error || new Error('Save transaction aborted'));
+    });
+
+const toSummary = (save: SaveGame): SaveGameSummary => ({
+    id: save.id,
+    name: save.name,
+    version: save.version,
+    savedAt: save.savedAt,
+    scenarioName: save.scenarioName,
+    factionName: save.factionName,
+    gameTick: save.gameTick,
+    humanPlayers: save.humanPlayers
+});
+
+class SaveGameServiceImpl {
+    private db: Promise<IDBDatabase> | null = null;
+
+    get isAvailable(): boolean {
+        return typeof indexedDB !== 'undefined';
+    }
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.isAvailable) return Promise.reject(new Error('Save games need IndexedDB'));
+        if (!this.db) {
+            this.db = new Promise((resolve, reject) => {
+                const request = indexedDB.open(SAVE_GAME_CONFIG.DB_NAME, SAVE_GAME_CONFIG.DB_VERSION);
+                request.onupgradeneeded = () => {
+                    const db = request.result;
+                    if (!db.objectStoreNames.contains(SUMMARY_STORE)) db.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+                    if (!db.objectStoreNames.contains(SAVE_STORE)) db.createObjectStore(SAVE_STORE, { keyPath: 'id' });
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+            // Let the next call retry if opening failed
+            this.db.catch(() => { this.db = null; });
+        }
+        return this.db;
+    }
+
+    /** Every save slot, newest first. */
+    async list(): Promise<SaveGameSummary[]> {
+        const db = await this.open();
+        const tx = db.transaction(SUMMARY_STORE, 'readonly');
+        const summaries = await requestToPromise(tx.objectStore(SUMMARY_STORE).getAll() as IDBRequest<SaveGameSummary[]>);
+        return summaries.sort((a, b) => b.savedAt - a.savedAt);
+    }
+
+    /** Write (or overwrite, by ID) a save slot. */
+    async save(save: SaveGame): Promise<SaveGameSummary> {
+        const db = await this.open();
+        const tx = db.transaction([SUMMARY_STORE, SAVE_STORE], 'readwrite');
+        const summary = toSummary(save);
+        tx.objectStore(SUMMARY_STORE).put(summary);
+        tx.objectStore(SAVE_STORE).put(save);
+        await transactionDone(tx);
+        console.log('[SAVE] Saved', save.id, `"${save.name}"`, 'at tick', save.gameTick);
+        return summary;
+    }
+
+    /** Read a save slot, migrated to the current schema version. */
+    async load(id: string): Promise<SaveGame> {
+        const db = await this.open();
+        const tx = db.transaction(SAVE_STORE, 'readonly');
+        const raw = await requestToPromise(tx.objectStore(SAVE_STORE).get(id));
+        if (!raw) throw new Error('Save game not found');
+        return migrateSaveGame(raw);
+    }
+
+    async remove(id: string): Promise<void> {
+        const db = await this.open();
+        const tx = db.transaction([SUMMARY_STORE, SAVE_STORE], 'readwrite');
+        tx.objectStore(SUMMARY_STORE).delete(id);
+        tx.objectStore(SAVE_STORE).delete(id);
+        await transactionDone(tx);
+    }
+}
+
+export const SaveGameService = new SaveGameServiceImpl();
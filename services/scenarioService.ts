@@ -0,0 +1,315 @@
+// ============================================
+// CUSTOM SCENARIOS
+// Scenario editor data: files, the local library and match setup
+// ============================================
+// Built-in scenarios (SCENARIOS) are just bounds over the generated city list.
+// Custom ones carry their own POIs and pre-placed units, owned by faction
+// *slots* rather than faction IDs so one file works for any lobby: slot i is
+// the i-th PLAYER/BOT faction of the match (lobby players first, then bots).
+// Custom scenarios live in localStorage on the machine that made or imported
+// them; only that machine can host them. Clients get the map through
+// START_GAME / state sync like any other match.
+
+import { Scenario, ScenarioPOI, ScenarioUnit, POI, POIType, GameUnit, Faction, UnitClass } from '../types';
+import { SCENARIOS, SCENARIO_CONFIG, POI_CONFIG, UNIT_CONFIG } from '../constants';
+import { ScenarioFile } from './schemas';
+import { getMockCities } from './mockDataService';
+import { TerrainService } from './terrainService';
+import { spawnUnit } from './gameLogic';
+
+const WORLD_BOUNDS: Scenario['bounds'] = { minLat: -85, maxLat: 85, minLng: -180, maxLng: 180 };
+const POI_TYPES = Object.values(POIType);
+const UNIT_CLASSES = Object.values(UnitClass);
+
+const makeId = (prefix: string): string =>
+    `${prefix}${Date.now().toString(36)}${Math.floor(Math.random() * 1296).toString(36)}`.toUpperCase();
+
+// ============================================
+// LIBRARY
+// ============================================
+
+let library: Scenario[] | null = null;
+
+const hasStorage = (): boolean => typeof localStorage !== 'undefined';
+
+const loadLibrary = (): Scenario[] => {
+    if (library) return library;
+    library = [];
+    if (!hasStorage()) return library;
+    try {
+        const saved = JSON.parse(localStorage.getItem(SCENARIO_CONFIG.STORAGE_KEY) || '[]');
+        if (Array.isArray(saved)) {
+            saved.forEach(raw => {
+                try {
+                    library!.push(validateScenario(raw));
+                } catch (err) {
+                    console.warn('[SCENARIO] Dropping unreadable saved scenario:', err);
+                }
+            });
+        }
+    } catch (err) {
+        console.error('[SCENARIO] Failed to load scenario library:', err);
+    }
+    return library;
+};
+
+const persistLibrary = (): void => {
+    if (!hasStorage()) return;
+    try {
+        localStorage.setItem(SCENARIO_CONFIG.STORAGE_KEY, JSON.stringify(loadLibrary()));
+    } catch (err) {
+        console.error('[SCENARIO] Failed to save scenario library:', err);
+    }
+};
+
+/** Scenarios made or imported on this machine. */
+export const getCustomScenarios = (): Scenario[] => [...loadLibrary()];
+
+/** Built-in theaters followed by the custom scenarios. */
+export const getAllScenarios = (): Scenario[] => [...Object.values(SCENARIOS), ...loadLibrary()];
+
+/** Built-in or custom scenario by ID. */
+export const getScenario = (id: string): Scenario | undefined =>
+    getAllScenarios().find(s => s.id === id);
+
+/** Add or replace (by ID) a custom scenario in the library. */
+export function saveCustomScenario(scenario: Scenario): Scenario {
+    const valid = validateScenario(scenario);
+    const scenarios = loadLibrary();
+    const index = scenarios.findIndex(s => s.id === valid.id);
+    if (index >= 0) scenarios[index] = valid;
+    else scenarios.push(valid);
+    persistLibrary();
+    console.log('[SCENARIO] Saved', valid.id, valid.name);
+    return valid;
+}
+
+export function deleteCustomScenario(id: string): void {
+    library = loadLibrary().filter(s => s.id !== id);
+    persistLibrary();
+}
+
+// ============================================
+// EDITING
+// ============================================
+
+/**
+ * Editable copy of `base`. Built-in theaters are seeded with their share of
+ * the generated cities and rigs; custom scenarios are copied as they are.
+ */
+export function createScenarioDraft(base?: Scenario): Scenario {
+    if (base?.custom) return JSON.parse(JSON.stringify(base));
+
+    const bounds = base?.bounds || WORLD_BOUNDS;
+    const pois: ScenarioPOI[] = getMockCities()
+        .filter(p => isInBounds(p.position, bounds))
+        .map(p => ({ id: p.id, type: p.type, name: p.name, position: { ...p.position }, tier: p.tier, isCoastal: p.isCoastal, hp: p.maxHp }));
+
+    return {
+        id: makeId(SCENARIO_CONFIG.ID_PREFIX),
+        name: base ? `${base.name} (Custom)` : 'New Scenario',
+        bounds: { ...bounds },
+        custom: true,
+        pois,
+        units: []
+    };
+}
+
+/** New POI at `position` with the type's default HP. */
+export function createScenarioPoi(type: POIType, position: { lat: number; lng: number }): ScenarioPOI {
+    const names: Record<POIType, string> = { [POIType.CITY]: 'City', [POIType.OIL_RIG]: 'Oil Rig', [POIType.GOLD_MINE]: 'Gold Mine' };
+    return {
+        id: makeId(`${type}-`),
+        type,
+        name: `New ${names[type]}`,
+        position,
+        tier: type === POIType.CITY ? 3 : undefined,
+        isCoastal: type === POIType.CITY && TerrainService.isReady() ? TerrainService.isNearCoast(position.lat, position.lng) : undefined,
+        hp: POI_CONFIG[type].defaultHp
+    };
+}
+
+/** New full-health unit or structure for faction slot `slot`. */
+export const createScenarioUnit = (unitClass: UnitClass, slot: number, position: { lat: number; lng: number }): ScenarioUnit =>
+    ({ id: makeId('SU-'), unitClass, slot, position });
+
+/** Smallest bounds (plus `margin` degrees) around every POI and unit. */
+export function fitScenarioBounds(scenario: Scenario, margin = 2): Scenario['bounds'] {
+    const points = [...(scenario.pois || []), ...(scenario.units || [])].map(p => p.position);
+    if (points.length === 0) return { ...WORLD_BOUNDS };
+    return {
+        minLat: Math.max(WORLD_BOUNDS.minLat, Math.min(...points.map(p => p.lat)) - margin),
+        maxLat: Math.min(WORLD_BOUNDS.maxLat, Math.max(...points.map(p => p.lat)) + margin),
+        minLng: Math.max(WORLD_BOUNDS.minLng, Math.min(...points.map(p => p.lng)) - margin),
+        maxLng: Math.min(WORLD_BOUNDS.maxLng, Math.max(...points.map(p => p.lng)) + margin)
+    };
+}
+
+const isInBounds = (position: { lat: number; lng: number }, bounds: Scenario['bounds']): boolean =>
+    position.lat >= bounds.minLat && position.lat <= bounds.maxLat &&
+    position.lng >= bounds.minLng && position.lng <= bounds.maxLng;
+
+// ============================================
+// VALIDATION & FILES
+// ============================================
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const readPosition = (raw: any, what: string): { lat: number; lng: number } => {
+    if (!raw || !isFiniteNumber(raw.lat) || !isFiniteNumber(raw.lng) || Math.abs(raw.lat) > 90 || Math.abs(raw.lng) > 180) {
+        throw new Error(`${what} has an invalid position`);
+    }
+    return { lat: raw.lat, lng: raw.lng };
+};
+
+const readSlot = (raw: unknown, what: string): number => {
+    if (!Number.isInteger(raw) || (raw as number) < 0 || (raw as number) >= SCENARIO_CONFIG.MAX_SLOTS) {
+        throw new Error(`${what} belongs to an invalid faction slot (0-${SCENARIO_CONFIG.MAX_SLOTS - 1})`);
+    }
+    return raw as number;
+};
+
+/**
+ * Check a scenario from a file, storage or the editor and return a clean
+ * copy (custom ID, clamped tiers/HP). Throws with a readable message.
+ */
+export function validateScenario(raw: any): Scenario {
+    if (!raw || typeof raw !== 'object') throw new Error('Not a scenario');
+
+    const name = typeof raw.name === 'string' ? raw.name.trim().slice(0, 60) : '';
+    if (!name) throw new Error('Scenario needs a name');
+
+    const b = raw.bounds;
+    if (!b || ![b.minLat, b.maxLat, b.minLng, b.maxLng].every(isFiniteNumber) || b.minLat >= b.maxLat || b.minLng >= b.maxLng) {
+        throw new Error('Scenario bounds are invalid (min must be below max)');
+    }
+    const bounds = {
+        minLat: Math.max(WORLD_BOUNDS.minLat, b.minLat), maxLat: Math.min(WORLD_BOUNDS.maxLat, b.maxLat),
+        minLng: Math.max(WORLD_BOUNDS.minLng, b.minLng), maxLng: Math.min(WORLD_BOUNDS.maxLng, b.maxLng)
+    };
+
+    const rawPois: any[] = Array.isArray(raw.pois) ? raw.pois : [];
+    const rawUnits: any[] = Array.isArray(raw.units) ? raw.units : [];
+    if (rawPois.length > SCENARIO_CONFIG.MAX_POIS) throw new Error(`Too many POIs (max ${SCENARIO_CONFIG.MAX_POIS})`);
+    if (rawUnits.length > SCENARIO_CONFIG.MAX_UNITS) throw new Error(`Too many units (max ${SCENARIO_CONFIG.MAX_UNITS})`);
+
+    const ids = new Set<string>();
+    const uniqueId = (id: unknown, fallbackPrefix: string): string => {
+        const clean = typeof id === 'string' && id && !ids.has(id) ? id : makeId(fallbackPrefix);
+        ids.add(clean);
+        return clean;
+    };
+
+    const pois: ScenarioPOI[] = rawPois.map((p, i) => {
+        const what = `POI #${i + 1}`;
+        if (!POI_TYPES.includes(p?.type)) throw new Error(`${what} has an unknown type`);
+        const type = p.type as POIType;
+        return {
+            id: uniqueId(p.id, `${type}-`),
+            type,
+            name: typeof p.name === 'string' && p.name.trim() ? p.name.trim().slice(0, 40) : `${type} ${i + 1}`,
+            position: readPosition(p.position, what),
+            tier: type === POIType.CITY ? Math.min(3, Math.max(1, Math.round(isFiniteNumber(p.tier) ? p.tier : 3))) : undefined,
+            isCoastal: p.isCoastal === true ? true : undefined,
+            hp: isFiniteNumber(p.hp) && p.hp > 0 ? Math.round(p.hp) : POI_CONFIG[type].defaultHp,
+            ownerSlot: p.ownerSlot === undefined || p.ownerSlot === null ? undefined : readSlot(p.ownerSlot, what)
+        };
+    });
+    if (!pois.some(p => p.type === POIType.CITY)) throw new Error('Scenario needs at least one city');
+
+    const units: ScenarioUnit[] = rawUnits.map((u, i) => {
+        const what = `Unit #${i + 1}`;
+        if (!UNIT_CLASSES.includes(u?.unitClass)) throw new Error(`${what} has an unknown unit class`);
+        const maxHp = UNIT_CONFIG[u.unitClass as UnitClass].maxHp;
+        return {
+            id: uniqueId(u.id, 'SU-'),
+            unitClass: u.unitClass,
+            slot: readSlot(u.slot, what),
+            position: readPosition(u.position, what),
+            hp: isFiniteNumber(u.hp) && u.hp > 0 && u.hp < maxHp ? Math.round(u.hp) : undefined
+        };
+    });
+
+    const id = typeof raw.id === 'string' && raw.id.startsWith(SCENARIO_CONFIG.ID_PREFIX) ? raw.id : makeId(SCENARIO_CONFIG.ID_PREFIX);
+    return { id, name, bounds, custom: true, pois, units };
+}
+
+/**
+ * Save `scenario` as a .scenario.json download (browser only).
+ */
+export function downloadScenario(scenario: Scenario): void {
+    const file: ScenarioFile = { version: SCENARIO_CONFIG.FORMAT_VERSION, exportedAt: Date.now(), scenario: validateScenario(scenario) };
+    const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const slug = scenario.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'scenario';
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `tacticops-${slug}.scenario.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Parse a scenario file. Throws with a readable message if it is not one.
+ */
+export function parseScenarioFile(text: string): Scenario {
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('Not a scenario file (invalid JSON)');
+    }
+    if (!data || typeof data.version !== 'number' || !data.scenario) {
+        throw new Error('Not a scenario file');
+    }
+    if (data.version !== SCENARIO_CONFIG.FORMAT_VERSION) {
+        throw new Error(`Unsupported scenario version ${data.version} (expected ${SCENARIO_CONFIG.FORMAT_VERSION})`);
+    }
+    return validateScenario(data.scenario);
+}
+
+// ============================================
+// MATCH SETUP
+// ============================================
+
+/** Scenario without its map data - what GameState, the lobby and START_GAME carry. */
+export const getScenarioInfo = (scenario: Scenario): Scenario =>
+    scenario.custom
+        ? { id: scenario.id, name: scenario.name, bounds: scenario.bounds, custom: true }
+        : scenario;
+
+/** Faction ID per scenario slot: the match's PLAYER and BOT factions in order. */
+export const getSlotFactionIds = (factions: Faction[]): string[] =>
+    factions.filter(f => f.type === 'PLAYER' || f.type === 'BOT').map(f => f.id);
+
+/**
+ * POIs and pre-placed units of a custom scenario for a match between
+ * `factions` (host-only). Slots with no faction leave their POIs unclaimed
+ * and their units out.
+ */
+export function buildScenarioMap(scenario: Scenario, factions: Faction[]): { pois: POI[]; units: GameUnit[] } {
+    const slotIds = getSlotFactionIds(factions);
+
+    const pois: POI[] = (scenario.pois || []).map(p => ({
+        id: p.id,
+        type: p.type,
+        name: p.name,
+        position: { ...p.position },
+        ownerFactionId: p.ownerSlot !== undefined ? slotIds[p.ownerSlot] : undefined,
+        tier: p.tier,
+        isCoastal: p.isCoastal,
+        hp: p.hp,
+        maxHp: p.hp
+    }));
+
+    const units: GameUnit[] = (scenario.units || [])
+        .filter(u => slotIds[u.slot] !== undefined)
+        .map(u => {
+            const unit = spawnUnit(u.unitClass, u.position.lat, u.position.lng, slotIds[u.slot]);
+            unit.id = u.id;
+            if (u.hp !== undefined) unit.hp = Math.min(unit.maxHp, u.hp);
+            return unit;
+        });
+
+    return { pois, units };
+}
@@ -1,4 +1,4 @@
-import { UnitClass, GameState, NetworkRequest, NetworkResponse } from '../types';
+import { UnitClass, UnitOrder, UnitStance, TreatyType, TributeTerms, GameState, GameUnit, POI, Faction, Projectile, Explosion, LogMessage, NuclearMissile, NetworkRequest, NetworkResponse, GameSettings, Scenario } from '../types';
 
 // ============================================
 // REAL-TIME P2P MULTIPLAYER SYSTEM
@@ -8,15 +8,28 @@ import { UnitClass, GameState, NetworkRequest, NetworkResponse } from '../types'
 // Target latency: <100ms (network RTT only)
 
 export type GameActionType =
-    | 'SPAWN_UNIT'
+    | 'QUEUE_PRODUCTION'
+    | 'CANCEL_PRODUCTION'
+    | 'SET_RALLY_POINT'
     | 'MOVE_UNITS'
+    | 'QUEUE_ORDERS'
     | 'ATTACK_TARGET'
     | 'BUILD_STRUCTURE'
     | 'SELECT_BASE'
     | 'CLAIM_POI'
     | 'LAUNCH_NUKE'
     | 'SET_AUTO_MODE'
-    | 'SET_FORMATION';
+    | 'SET_STANCE'
+    | 'SET_FORMATION'
+    | 'LOAD_UNITS'
+    | 'UNLOAD_UNITS'
+    | 'AIRDROP'
+    | 'LAY_MINE'
+    | 'SWEEP_MINES'
+    | 'PROPOSE_TREATY'
+    | 'ACCEPT_TREATY'
+    | 'REJECT_TREATY'
+    | 'TRANSFER_RESOURCES';
 
 // Core action structure - simple and fast
 export interface GameAction {
@@ -25,15 +38,25 @@ export interface GameAction {
     payload: any;               // Action-specific data
     timestamp: number;          // When it happened (for ordering)
     actionId: string;           // Unique ID to prevent duplicates
+    seq?: number;               // Per-player order for client prediction (acked via GameState.actionAcks)
 }
 
 // Specific action payloads for type safety
-export interface SpawnUnitPayload {
+export interface QueueProductionPayload {
+    factoryId: string;   // COMMAND_CENTER / MILITARY_BASE / AIRBASE / PORT
     unitClass: UnitClass;
-    lat: number;
-    lng: number;
-    unitId: string;  // Pre-generated ID for consistency
-    factionId?: string; // Optional: defaults to action.playerId
+    unitId: string;      // Pre-generated ID for consistency
+}
+
+export interface CancelProductionPayload {
+    factoryId: string;
+    unitId: string;      // Order to cancel (refunded)
+}
+
+export interface SetRallyPointPayload {
+    factoryIds: string[];
+    lat: number | null;  // null clears the rally point
+    lng: number | null;
 }
 
 export interface MoveUnitsPayload {
@@ -43,6 +66,13 @@ export interface MoveUnitsPayload {
     isBoosting?: boolean;
 }
 
+// Shift-click: append to the units' command chains instead of replacing them
+export interface QueueOrdersPayload {
+    unitIds: string[];
+    order: UnitOrder;
+    replace?: boolean;   // Plain (unqueued) command, e.g. attack-move: drop the chain and start now
+}
+
 export interface AttackTargetPayload {
     attackerIds: string[];
     targetId: string;
@@ -79,6 +109,11 @@ export interface SetAutoModePayload {
     mode: 'NONE' | 'DEFEND' | 'ATTACK' | 'PATROL';
 }
 
+export interface SetStancePayload {
+    unitIds: string[];
+    stance: UnitStance;
+}
+
 export interface SetFormationPayload {
     unitIds: string[];
     formation: 'NONE' | 'LINE' | 'COLUMN' | 'WEDGE' | 'SQUARE' | 'CIRCLE' | 'SPREAD';
@@ -87,16 +122,133 @@ export interface SetFormationPayload {
     facingAngle: number;
 }
 
+// Cargo action payloads (transports + carriers)
+export interface LoadUnitsPayload {
+    transportId: string;
+    unitIds: string[];   // Units ordered to board (or aircraft to recover)
+}
+
+export interface UnloadUnitsPayload {
+    transportId: string;
+    targetLat?: number;  // Carriers: sortie destination for launched aircraft
+    targetLng?: number;
+}
+
+export interface AirdropPayload {
+    transportId: string;
+    targetLat: number;   // Drop zone
+    targetLng: number;
+}
+
+// Naval mine warfare payloads
+export interface LayMinePayload {
+    layerId: string;     // MINELAYER dropping the mine at its current position
+    mineId: string;
+}
+
+export interface SweepMinesPayload {
+    unitId: string;      // DESTROYER clearing mines around itself
+}
+
+// Diplomacy payloads
+export interface ProposeTreatyPayload {
+    proposalId: string;  // Pre-generated, becomes the treaty ID
+    toFactionId: string;
+    treatyType: TreatyType;
+    durationTicks: number;
+    tribute?: TributeTerms;
+}
+
+export interface RespondTreatyPayload {
+    proposalId: string;  // ACCEPT/REJECT by the recipient; REJECT by the proposer withdraws
+}
+
+export interface TransferResourcesPayload {
+    toFactionId: string; // Must be an ally (team or ALLIANCE treaty)
+    gold: number;
+    oil: number;
+}
+
+// ============================================
+// REPLAY FILES
+// ============================================
+// Initial PLAYING state + every action the host applied, tagged with the
+// tick it was applied on. Actions are stored as tuples to keep files small.
+
+/** AIDirector pacing - simulation state that lives outside GameState. */
+export interface AIDirectorSnapshot {
+    intensity: number;
+    lastWaveTime: number;
+    waveNumber: number;
+}
+
+export type ReplayActionEntry = [tick: number, actionType: GameActionType, playerId: string, payload: any, actionId: string];
+export type ReplayIntentEntry = [tick: number, intents: Intent[]];
+
+export interface ReplayFile {
+    version: number;
+    recordedAt: number;          // Wall clock (ms) when recording finished
+    scenarioId: string;
+    localPlayerId: string;       // Whose match this was
+    endTick: number;
+    initialState: GameState;
+    director: AIDirectorSnapshot; // AIDirector pacing at the initial state
+    actions: ReplayActionEntry[];
+    intents: ReplayIntentEntry[];
+}
+
+// ============================================
+// SAVE GAMES
+// ============================================
+// A saved single-player/hosted match: the full GameState plus the AI state
+// that lives outside it. Stored in IndexedDB (structured clone), so the bot
+// brain Maps/Sets are kept as they are. The summary is stored separately so
+// the Load Game list does not read every state.
+
+export interface SaveGameSummary {
+    id: string;
+    name: string;
+    version: number;             // SAVE_GAME_CONFIG.SCHEMA_VERSION when written
+    savedAt: number;             // Wall clock (ms)
+    scenarioName: string;
+    factionName: string;         // The saving player's faction
+    gameTick: number;
+    humanPlayers: number;        // > 1 = hosted multiplayer match
+}
+
+export interface SaveGame extends SaveGameSummary {
+    state: GameState;
+    botBrains: Map<string, unknown>;
+    director: AIDirectorSnapshot;
+}
+
+// ============================================
+// SCENARIO FILES
+// ============================================
+// What the scenario editor exports/imports: one custom Scenario with its
+// POIs and pre-placed units.
+
+export interface ScenarioFile {
+    version: number;
+    exportedAt: number;          // Wall clock (ms)
+    scenario: Scenario;
+}
+
 // Network message types
 export type NetworkMessageType =
     | 'ACTION'           // GameAction broadcast
-    | 'FULL_STATE'       // Complete state sync (resync/join)
+    | 'FULL_STATE'       // Complete state sync (keyframe/resync/join)
+    | 'STATE_DELTA'      // Changes since the previous sync (keyed by stateVersion)
+    | 'RESYNC_REQUEST'   // Client -> Host: version gap detected, send a keyframe
     | 'LOBBY_UPDATE'     // Lobby changes
     | 'START_GAME'       // Game start signal
     | 'REQUEST'          // Client -> Host request
     | 'RESPONSE'         // Host -> Client response
     | 'HEARTBEAT'        // Host alive signal
-    | 'NEW_HOST';        // Host migration announcement
+    | 'NEW_HOST'         // Host migration announcement
+    | 'HOST_CANDIDATE'   // Host election: a peer's bid, with how fresh its state is
+    | 'PEER_LIST'        // Host -> Clients: who else is in the match (election electorate)
+    | 'HELLO';           // Both ends on connect: wire formats this peer can read
 
 export interface ActionMessage {
     type: 'ACTION';
@@ -109,6 +261,62 @@ export interface FullStateMessage {
     timestamp: number;
 }
 
+// ============================================
+// DELTA STATE SYNC
+// ============================================
+// Host sends STATE_DELTA between periodic FULL_STATE keyframes.
+// A delta only applies on top of baseVersion - on mismatch the client
+// sends RESYNC_REQUEST and waits for the next keyframe.
+
+export interface UnitDelta {
+    id: string;
+    changes: Partial<GameUnit>;  // Only fields that changed
+    cleared?: string[];          // Fields that became undefined (lost in JSON otherwise)
+}
+
+export interface POIDelta {
+    id: string;
+    ownerFactionId?: string;
+    hp?: number;
+    maxHp?: number;
+    tier?: number;
+}
+
+export interface StateDelta {
+    baseVersion: number;         // Version this delta applies on top of
+    stateVersion: number;        // Version after applying
+    hostTick: number;
+    gameTick: number;
+
+    unitsAdded: GameUnit[];
+    unitsUpdated: UnitDelta[];
+    unitsRemoved: string[];
+    poisAdded: POI[];
+    poisChanged: POIDelta[];
+    factionsChanged: Faction[];
+    factionsRemoved: string[];
+    messagesAdded: LogMessage[];
+
+    // Short-lived collections are small - sent whole
+    projectiles: Projectile[];
+    explosions: Explosion[];
+    nukesInFlight: NuclearMissile[];
+
+    // Changed top-level scalars (gameMode, gameResult, gameStats, ...)
+    meta: Partial<GameState>;
+}
+
+export interface StateDeltaMessage {
+    type: 'STATE_DELTA';
+    delta: StateDelta;
+    timestamp: number;
+}
+
+export interface ResyncRequestMessage {
+    type: 'RESYNC_REQUEST';
+    lastVersion: number;
+}
+
 export interface LobbyUpdateMessage {
     type: 'LOBBY_UPDATE';
     payload: any;
@@ -120,6 +328,9 @@ export interface StartGameMessage {
         scenarioId: string;
         factions: any[];
         pois: any[];  // POIs are required for client initialization
+        rngSeed?: number; // Deterministic simulation seed chosen by host
+        settings?: GameSettings; // Custom game setup from the lobby
+        scenario?: Scenario;     // Custom scenario info (without map data) - clients may not have it
     };
 }
 
@@ -133,26 +344,68 @@ export interface ResponseMessage {
     payload: NetworkResponse;
 }
 
-// Host Migration Messages
+// ============================================
+// HOST MIGRATION
+// ============================================
+// Every message carries the sender's host epoch: 0 for the original host, +1
+// for each election. Peers drop messages from an epoch older than their own,
+// so a host that was written off cannot keep driving the match (see
+// NetworkService - HEARTBEAT & HOST MIGRATION).
+
+export interface EpochStamp {
+    epoch?: number;              // Missing = 0
+}
+
 export interface HeartbeatMessage {
     type: 'HEARTBEAT';
     timestamp: number;
 }
 
+// Sent by the winner of an election (stamped with the new epoch)
 export interface NewHostMessage {
     type: 'NEW_HOST';
     hostId: string;
+    stateVersion: number;        // Breaks ties if two peers claim the same epoch
+}
+
+// Stamped with the epoch being elected
+export interface HostCandidateMessage {
+    type: 'HOST_CANDIDATE';
+    peerId: string;
+    stateVersion: number;        // Latest host state this peer holds - the freshest wins
+}
+
+export interface PeerListMessage {
+    type: 'PEER_LIST';
+    peers: string[];
+}
+
+// ============================================
+// WIRE FORMAT NEGOTIATION
+// ============================================
+// Always JSON. Each side lists the binary wire versions it reads
+// (services/wireCodec.ts); the highest common one is used on that connection.
+
+export interface HelloMessage {
+    type: 'HELLO';
+    wireVersions: number[];
 }
 
-export type NetworkMessage =
+export type NetworkMessage = EpochStamp & (
     | ActionMessage
     | FullStateMessage
+    | StateDeltaMessage
+    | ResyncRequestMessage
     | LobbyUpdateMessage
     | StartGameMessage
     | RequestMessage
     | ResponseMessage
     | HeartbeatMessage
-    | NewHostMessage;
+    | NewHostMessage
+    | HostCandidateMessage
+    | PeerListMessage
+    | HelloMessage
+);
 
 // Helper to create action with unique ID
 export function createAction(
@@ -171,7 +424,7 @@ export function createAction(
 
 // Legacy Intent Interface (for processGameTick compatibility)
 export interface Intent {
-    type: 'SPAWN' | 'MOVE' | 'ATTACK' | 'BUILD_STRUCTURE' | 'SET_TARGET' | 'CHEAT_RESOURCES' | 'LAUNCH_NUKE';
+    type: 'SPAWN' | 'MOVE' | 'ATTACK' | 'BUILD_STRUCTURE' | 'SET_TARGET' | 'CHEAT_RESOURCES' | 'LAUNCH_NUKE' | 'PLAYER_DISCONNECTED' | 'PLAYER_REJOINED';
     clientId: string;
     unitClass?: UnitClass;
     lat?: number;
@@ -0,0 +1,287 @@
+// ============================================
+// DELTA STATE SYNC
+// Host-side encoder and client-side decoder for STATE_DELTA messages
+// ============================================
+// The host keeps a snapshot of the last state it sent. Each sync it either
+// sends a FULL_STATE keyframe (every KEYFRAME_INTERVAL syncs, or when it has
+// no baseline yet) or a STATE_DELTA with only what changed since the snapshot.
+
+import { GameState, GameUnit, POI } from '../types';
+import { STATE_SYNC_CONFIG } from '../constants';
+import { FullStateMessage, StateDeltaMessage, StateDelta, UnitDelta, POIDelta } from './schemas';
+
+// Client-only interpolation fields - never sent, never overwritten by deltas
+const LOCAL_UNIT_FIELDS = new Set(['visualPosition', 'visualHeading', 'lastServerUpdate']);
+
+// Top-level GameState fields synced through delta.meta when they change
+const META_FIELDS: (keyof GameState)[] = [
+    'gameMode', 'gameResult', 'gameStats', 'territoryControlled', 'difficulty',
+    'scenario', 'startTime', 'pendingBotFactions', 'rngSeed', 'mines', 'diplomacy', 'winnerFactionIds', 'settings', 'victory',
+    'actionAcks'
+];
+
+const MAX_MESSAGES = 20;
+
+/**
+ * Structural equality for the plain JSON-like values found in GameState.
+ */
+const isEqual = (a: any, b: any): boolean => {
+    if (a === b) return true;
+    if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') return false;
+    if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+    const keysA = Object.keys(a);
+    const keysB = Object.keys(b);
+    if (keysA.length !== keysB.length) return false;
+    for (const key of keysA) {
+        if (!isEqual(a[key], b[key])) return false;
+    }
+    return true;
+};
+
+const diffUnit = (prev: GameUnit, next: GameUnit): UnitDelta | null => {
+    const changes: Record<string, any> = {};
+    const cleared: string[] = [];
+    let changed = false;
+
+    for (const key of Object.keys(next)) {
+        if (LOCAL_UNIT_FIELDS.has(key)) continue;
+        const value = (next as any)[key];
+        if (value === undefined) continue;
+        if (!isEqual((prev as any)[key], value)) {
+            changes[key] = value;
+            changed = true;
+        }
+    }
+    for (const key of Object.keys(prev)) {
+        if (LOCAL_UNIT_FIELDS.has(key)) continue;
+        if ((prev as any)[key] !== undefined && (next as any)[key] === undefined) {
+            cleared.push(key);
+            changed = true;
+        }
+    }
+
+    if (!changed) return null;
+    return cleared.length > 0 ? { id: next.id, changes, cleared } : { id: next.id, changes };
+};
+
+const diffPoi = (prev: POI, next: POI): POIDelta | null => {
+    if (prev.ownerFactionId === next.ownerFactionId && prev.hp === next.hp &&
+        prev.maxHp === next.maxHp && prev.tier === next.tier) {
+        return null;
+    }
+    return { id: next.id, ownerFactionId: next.ownerFactionId, hp: next.hp, maxHp: next.maxHp, tier: next.tier };
+};
+
+/**
+ * Compute the changes between two authoritative states.
+ */
+export function createStateDelta(prev: GameState, next: GameState, baseVersion: number, stateVersion: number): StateDelta {
+    // Units
+    const prevUnits = new Map(prev.units.map(u => [u.id, u]));
+    const nextUnitIds = new Set<string>();
+    const unitsAdded: GameUnit[] = [];
+    const unitsUpdated: UnitDelta[] = [];
+
+    for (const unit of next.units) {
+        nextUnitIds.add(unit.id);
+        const before = prevUnits.get(unit.id);
+        if (!before) {
+            unitsAdded.push(unit);
+            continue;
+        }
+        const delta = diffUnit(before, unit);
+        if (delta) unitsUpdated.push(delta);
+    }
+    const unitsRemoved = prev.units.filter(u => !nextUnitIds.has(u.id)).map(u => u.id);
+
+    // POIs - ownership/HP only (positions and names never change mid-game)
+    const prevPois = new Map(prev.pois.map(p => [p.id, p]));
+    const poisAdded: POI[] = [];
+    const poisChanged: POIDelta[] = [];
+    for (const poi of next.pois) {
+        const before = prevPois.get(poi.id);
+        if (!before) {
+            poisAdded.push(poi);
+            continue;
+        }
+        const delta = diffPoi(before, poi);
+        if (delta) poisChanged.push(delta);
+    }
+
+    // Factions - few and small, send whole when anything changed
+    const prevFactions = new Map(prev.factions.map(f => [f.id, f]));
+    const nextFactionIds = new Set(next.factions.map(f => f.id));
+    const factionsChanged = next.factions.filter(f => !isEqual(prevFactions.get(f.id), f));
+    const factionsRemoved = prev.factions.filter(f => !nextFactionIds.has(f.id)).map(f => f.id);
+
+    // Messages - only the ones the client has not seen yet
+    const prevMessageIds = new Set(prev.messages.map(m => m.id));
+    const messagesAdded = next.messages.filter(m => !prevMessageIds.has(m.id));
+
+    const meta: Partial<GameState> = {};
+    for (const key of META_FIELDS) {
+        if (!isEqual(prev[key], next[key])) {
+            (meta as any)[key] = next[key];
+        }
+    }
+
+    return {
+        baseVersion,
+        stateVersion,
+        hostTick: next.gameTick,
+        gameTick: next.gameTick,
+        unitsAdded,
+        unitsUpdated,
+        unitsRemoved,
+        poisAdded,
+        poisChanged,
+        factionsChanged,
+        factionsRemoved,
+        messagesAdded,
+        projectiles: next.projectiles,
+        explosions: next.explosions,
+        nukesInFlight: next.nukesInFlight || [],
+        meta
+    };
+}
+
+/**
+ * Apply a delta on top of a client state. The caller must check
+ * state.stateVersion === delta.baseVersion first (see isDeltaApplicable).
+ * Local interpolation fields on existing units are preserved.
+ */
+export function applyStateDelta(state: GameState, delta: StateDelta): GameState {
+    const now = Date.now();
+    const removed = new Set(delta.unitsRemoved);
+    const updates = new Map(delta.unitsUpdated.map(u => [u.id, u]));
+
+    const units: GameUnit[] = [];
+    for (const unit of state.units) {
+        if (removed.has(unit.id)) continue;
+        const update = updates.get(unit.id);
+        if (!update) {
+            units.push(unit);
+            continue;
+        }
+        const merged: any = { ...unit, ...update.changes, lastServerUpdate: now };
+        update.cleared?.forEach(key => { delete merged[key]; });
+        units.push(merged);
+    }
+    for (const unit of delta.unitsAdded) {
+        units.push({
+            ...unit,
+            visualPosition: { lat: unit.position.lat, lng: unit.position.lng },
+            visualHeading: unit.heading,
+            lastServerUpdate: now
+        });
+    }
+
+    const poiChanges = new Map(delta.poisChanged.map(p => [p.id, p]));
+    let pois = poiChanges.size === 0 ? state.pois : state.pois.map(p => {
+        const change = poiChanges.get(p.id);
+        return change ? { ...p, ...change } : p;
+    });
+    if (delta.poisAdded.length > 0) {
+        pois = [...pois, ...delta.poisAdded];
+    }
+
+    const factionChanges = new Map(delta.factionsChanged.map(f => [f.id, f]));
+    const removedFactions = new Set(delta.factionsRemoved);
+    const factions = state.factions
+        .filter(f => !removedFactions.has(f.id))
+        .map(f => factionChanges.get(f.id) || f);
+    delta.factionsChanged.forEach(f => {
+        if (!state.factions.some(existing => existing.id === f.id)) factions.push(f);
+    });
+
+    const messages = delta.messagesAdded.length === 0
+        ? state.messages
+        : [...state.messages, ...delta.messagesAdded].slice(-MAX_MESSAGES);
+
+    return {
+        ...state,
+        ...delta.meta,
+        units,
+        pois,
+        factions,
+        messages,
+        projectiles: delta.projectiles,
+        explosions: delta.explosions,
+        nukesInFlight: delta.nukesInFlight,
+        gameTick: delta.gameTick,
+        hostTick: delta.hostTick,
+        stateVersion: delta.stateVersion
+    };
+}
+
+/**
+ * A delta can only be applied to the exact version it was computed against.
+ */
+export function isDeltaApplicable(state: GameState, delta: StateDelta): boolean {
+    return state.stateVersion === delta.baseVersion;
+}
+
+// ============================================
+// HOST-SIDE ENCODER
+// ============================================
+
+/**
+ * Tracks the last state sent to peers and decides between keyframes and deltas.
+ * One instance per authoritative host (NetworkService, PhantomHostService).
+ */
+export class StateSyncEncoder {
+    private snapshot: GameState | null = null;
+    private syncsSinceKeyframe: number = 0;
+
+    constructor(private keyframeInterval: number = STATE_SYNC_CONFIG.KEYFRAME_INTERVAL) { }
+
+    /**
+     * Encode the next sync message. `state.stateVersion` must already be the
+     * new version for this sync.
+     */
+    encode(state: GameState): FullStateMessage | StateDeltaMessage {
+        const previous = this.snapshot;
+        const sendKeyframe = !previous || this.syncsSinceKeyframe >= this.keyframeInterval;
+
+        // Snapshot must be a copy - the simulation mutates some objects in place
+        this.snapshot = cloneState(state);
+
+        if (sendKeyframe) {
+            this.syncsSinceKeyframe = 0;
+            return { type: 'FULL_STATE', gameState: state, timestamp: Date.now() };
+        }
+
+        this.syncsSinceKeyframe++;
+        return {
+            type: 'STATE_DELTA',
+            delta: createStateDelta(previous!, state, previous!.stateVersion, state.stateVersion),
+            timestamp: Date.now()
+        };
+    }
+
+    /**
+     * Keyframe of the last synced state, for clients that requested a resync.
+     */
+    createKeyframe(): FullStateMessage | null {
+        if (!this.snapshot) return null;
+        return { type: 'FULL_STATE', gameState: this.snapshot, timestamp: Date.now() };
+    }
+
+    /** Drop the baseline (new game / new round). Next encode sends a keyframe. */
+    reset(): void {
+        this.snapshot = null;
+        this.syncsSinceKeyframe = 0;
+    }
+}
+
+const cloneState = (state: GameState): GameState => ({
+    ...state,
+    units: structuredClone(state.units),
+    pois: structuredClone(state.pois),
+    factions: structuredClone(state.factions),
+    messages: [...state.messages],
+    projectiles: structuredClone(state.projectiles),
+    explosions: [...state.explosions],
+    nukesInFlight: structuredClone(state.nukesInFlight || [])
+});
@@ -0,0 +1,58 @@
+// ============================================
+// SUBMARINE STEALTH & SONAR
+// Submarines are invisible to enemy targeting unless detected
+// ============================================
+// A submarine is visible to a faction when:
+//   - the faction owns it,
+//   - a DESTROYER/FRIGATE of that faction has it inside sonar range, or
+//   - it fired recently (revealedUntilTick) - then everyone sees it.
+// processGameTick refreshes detectedBy once per tick before combat; targeting,
+// bots and the renderer all go through isUnitDetectedBy().
+
+import { GameUnit, UnitClass } from '../types';
+import { STEALTH_CONFIG } from '../constants';
+import { getDistanceKm } from './gameLogic';
+
+export const isStealthUnit = (unit: GameUnit): boolean => unit.unitClass === UnitClass.SUBMARINE;
+
+/**
+ * Can `factionId` see (and therefore target) this unit at `tick`?
+ */
+export function isUnitDetectedBy(unit: GameUnit, factionId: string, tick: number): boolean {
+    if (!isStealthUnit(unit) || unit.factionId === factionId) return true;
+    if (unit.revealedUntilTick !== undefined && unit.revealedUntilTick > tick) return true;
+    return !!unit.detectedBy && unit.detectedBy.includes(factionId);
+}
+
+/**
+ * Recompute sonar contacts for every submarine. Returns a new array; only
+ * submarines whose contact list changed get a new object.
+ */
+export function updateSonarContacts(units: GameUnit[]): GameUnit[] {
+    const subs = units.filter(u => isStealthUnit(u) && u.hp > 0);
+    if (subs.length === 0) return units;
+
+    const sonars = units.filter(u => u.hp > 0 && !u.isLoaded && STEALTH_CONFIG.SONAR_RANGE_KM[u.unitClass]);
+    const contacts = new Map<string, string[]>();
+
+    for (const sub of subs) {
+        const detectedBy: string[] = [];
+        for (const sonar of sonars) {
+            if (sonar.factionId === sub.factionId || detectedBy.includes(sonar.factionId)) continue;
+            const range = STEALTH_CONFIG.SONAR_RANGE_KM[sonar.unitClass]!;
+            if (getDistanceKm(sonar.position.lat, sonar.position.lng, sub.position.lat, sub.position.lng) <= range) {
+                detectedBy.push(sonar.factionId);
+            }
+        }
+        contacts.set(sub.id, detectedBy);
+    }
+
+    return units.map(u => {
+        const detectedBy = contacts.get(u.id);
+        if (!detectedBy) return u;
+        const previous = u.detectedBy || [];
+        const unchanged = previous.length === detectedBy.length && previous.every(id => detectedBy.includes(id));
+        if (unchanged) return u;
+        return { ...u, detectedBy: detectedBy.length > 0 ? detectedBy : undefined };
+    });
+}
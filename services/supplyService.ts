@@ -2,6 +2,10 @@
 // SUPPLY LINE MECHANICS
 // Units far from supply sources gradually lose effectiveness
 // ============================================
+// Supply sources: owned cities and COMMAND_CENTERs (base radius), MILITARY_BASEs
+// (base + bonus radius) and AIRCRAFT_CARRIERs (carrier radius, supplies anything
+// nearby). processGameTick refreshes levels every UPDATE_INTERVAL_TICKS; attack
+// and speed penalties come from getSupplyModifiers().
 
 import { GameUnit, POI, POIType, UnitClass } from '../types';
 
@@ -10,6 +14,7 @@ const SUPPLY_CONFIG = {
     BASE_SUPPLY_RADIUS_KM: 150,      // Larger supply radius (was 100)
     MILITARY_BASE_BONUS_KM: 75,      // Bonus radius from military bases (was 50)
     CARRIER_SUPPLY_RADIUS_KM: 100,   // Aircraft carriers supply nearby units (was 80)
+    UPDATE_INTERVAL_TICKS: 20,       // Supply levels are recomputed every N ticks (~0.6s)
 
     // Attrition settings - ENABLED
     OUT_OF_SUPPLY_THRESHOLD: 25,     // When supply drops below 25%, attrition begins (was 0 = disabled)
@@ -18,12 +23,22 @@ const SUPPLY_CONFIG = {
     SPEED_PENALTY_PERCENT: 20,       // Speed reduction when low supply (was 30)
 
     // Supply recovery
-    SUPPLY_RECOVERY_RATE: 3,         // Supply restored per tick in supply range (was 2)
+    SUPPLY_RECOVERY_RATE: 3,         // Supply restored per update in supply range (was 2)
     MAX_SUPPLY: 100                  // Maximum supply level
 };
 
-// Extend GameUnit with supply (add to types.ts if needed)
-type UnitWithSupply = GameUnit & { supply?: number };
+// Structures are supply sources themselves and never run dry
+const NON_CONSUMING_CLASSES = [
+    UnitClass.COMMAND_CENTER, UnitClass.MOBILE_COMMAND_CENTER, UnitClass.MILITARY_BASE,
+    UnitClass.AIRBASE, UnitClass.PORT, UnitClass.MISSILE_SILO
+];
+
+interface SupplySource {
+    name: string;
+    factionId: string;
+    position: { lat: number; lng: number };
+    radius: number;
+}
 
 /**
  * Calculate distance between two points in km.
@@ -36,121 +51,121 @@ function getDistanceKm(lat1: number, lng1: number, lat2: number, lng2: number):
 }
 
 /**
- * Check if a unit is within supply range of any friendly supply source.
+ * Does this unit consume supply? Structures, neutral garrisons and units
+ * riding inside a transport don't.
  */
-export function isInSupplyRange(
-    unit: GameUnit,
-    allUnits: GameUnit[],
-    pois: POI[],
-    factionId: string
-): { inSupply: boolean; nearestSource: string; distance: number } {
-    let nearestSource = '';
-    let nearestDistance = Infinity;
-
-    // Check distance to friendly cities (primary supply)
-    const friendlyCities = pois.filter(
-        p => p.ownerFactionId === factionId && p.type === POIType.CITY
-    );
+export function needsSupply(unit: GameUnit): boolean {
+    if (unit.isLoaded) return false;
+    if (unit.factionId === 'NEUTRAL' || unit.factionId === 'NEUTRAL_DEFENDER') return false;
+    return !NON_CONSUMING_CLASSES.includes(unit.unitClass);
+}
 
-    for (const city of friendlyCities) {
-        const dist = getDistanceKm(
-            unit.position.lat, unit.position.lng,
-            city.position.lat, city.position.lng
-        );
-        if (dist < nearestDistance) {
-            nearestDistance = dist;
-            nearestSource = city.name || 'City';
-        }
+/**
+ * Every supply source on the map, optionally limited to one faction.
+ */
+function collectSupplySources(allUnits: GameUnit[], pois: POI[], factionId?: string): SupplySource[] {
+    const sources: SupplySource[] = [];
+    const owned = (id: string | undefined) => !!id && (factionId ? id === factionId : true);
+
+    // Friendly cities (primary supply)
+    for (const city of pois) {
+        if (city.type !== POIType.CITY || !owned(city.ownerFactionId)) continue;
+        if (city.ownerFactionId === 'NEUTRAL') continue;
+        sources.push({
+            name: city.name || 'City',
+            factionId: city.ownerFactionId!,
+            position: city.position,
+            radius: SUPPLY_CONFIG.BASE_SUPPLY_RADIUS_KM
+        });
     }
 
-    // Check distance to Command Centers/HQ
-    const friendlyHQs = allUnits.filter(
-        u => u.factionId === factionId &&
-            u.unitClass === UnitClass.COMMAND_CENTER &&
-            u.hp > 0
-    );
-
-    for (const hq of friendlyHQs) {
-        const dist = getDistanceKm(
-            unit.position.lat, unit.position.lng,
-            hq.position.lat, hq.position.lng
-        );
-        if (dist < nearestDistance) {
-            nearestDistance = dist;
-            nearestSource = 'HQ';
+    for (const u of allUnits) {
+        if (u.hp <= 0 || u.isLoaded || !owned(u.factionId)) continue;
+        let name: string;
+        let radius: number;
+        if (u.unitClass === UnitClass.COMMAND_CENTER) {
+            name = 'HQ';
+            radius = SUPPLY_CONFIG.BASE_SUPPLY_RADIUS_KM;
+        } else if (u.unitClass === UnitClass.MILITARY_BASE) {
+            // Military Bases extend supply further
+            name = 'Military Base';
+            radius = SUPPLY_CONFIG.BASE_SUPPLY_RADIUS_KM + SUPPLY_CONFIG.MILITARY_BASE_BONUS_KM;
+        } else if (u.unitClass === UnitClass.AIRCRAFT_CARRIER) {
+            name = 'Carrier';
+            radius = SUPPLY_CONFIG.CARRIER_SUPPLY_RADIUS_KM;
+        } else {
+            continue;
         }
+        sources.push({ name, factionId: u.factionId, position: u.position, radius });
     }
 
-    // Check Military Bases (extended supply)
-    const militaryBases = allUnits.filter(
-        u => u.factionId === factionId &&
-            u.unitClass === UnitClass.MILITARY_BASE &&
-            u.hp > 0
-    );
+    return sources;
+}
+
+/**
+ * Closest source (by edge distance) that covers `unit`, or the nearest one when
+ * none does.
+ */
+function resolveSupply(unit: GameUnit, sources: SupplySource[]): {
+    inSupply: boolean;
+    nearestSource: string;
+    distance: number;
+    sourcePosition: { lat: number; lng: number } | null;
+} {
+    let best: SupplySource | null = null;
+    let bestDistance = Infinity;
+    let bestCovered = false;
 
-    for (const base of militaryBases) {
+    for (const source of sources) {
+        if (source.factionId !== unit.factionId) continue;
         const dist = getDistanceKm(
             unit.position.lat, unit.position.lng,
-            base.position.lat, base.position.lng
+            source.position.lat, source.position.lng
         );
-        const effectiveRange = SUPPLY_CONFIG.BASE_SUPPLY_RADIUS_KM + SUPPLY_CONFIG.MILITARY_BASE_BONUS_KM;
-        if (dist < effectiveRange && dist < nearestDistance) {
-            nearestDistance = dist;
-            nearestSource = 'Military Base';
+        const covered = dist <= source.radius;
+        // A covering source always wins over an uncovering one
+        if ((covered && !bestCovered) || (covered === bestCovered && dist < bestDistance)) {
+            best = source;
+            bestDistance = dist;
+            bestCovered = covered;
         }
     }
 
-    // Check Aircraft Carriers for air units
-    if (isAirUnit(unit)) {
-        const carriers = allUnits.filter(
-            u => u.factionId === factionId &&
-                u.unitClass === UnitClass.AIRCRAFT_CARRIER &&
-                u.hp > 0
-        );
-
-        for (const carrier of carriers) {
-            const dist = getDistanceKm(
-                unit.position.lat, unit.position.lng,
-                carrier.position.lat, carrier.position.lng
-            );
-            if (dist < SUPPLY_CONFIG.CARRIER_SUPPLY_RADIUS_KM && dist < nearestDistance) {
-                nearestDistance = dist;
-                nearestSource = 'Carrier';
-            }
-        }
-    }
-
-    const inSupply = nearestDistance <= SUPPLY_CONFIG.BASE_SUPPLY_RADIUS_KM;
-
-    return { inSupply, nearestSource, distance: nearestDistance };
+    return {
+        inSupply: bestCovered,
+        nearestSource: best ? best.name : '',
+        distance: bestDistance,
+        sourcePosition: best ? best.position : null
+    };
 }
 
 /**
- * Check if a unit is an air unit.
+ * Check if a unit is within supply range of any friendly supply source.
  */
-function isAirUnit(unit: GameUnit): boolean {
-    return [
-        UnitClass.FIGHTER_JET,
-        UnitClass.HEAVY_BOMBER,
-        UnitClass.HELICOPTER,
-        UnitClass.RECON_DRONE,
-        UnitClass.TROOP_TRANSPORT
-    ].includes(unit.unitClass);
+export function isInSupplyRange(
+    unit: GameUnit,
+    allUnits: GameUnit[],
+    pois: POI[],
+    factionId: string
+): { inSupply: boolean; nearestSource: string; distance: number; sourcePosition: { lat: number; lng: number } | null } {
+    return resolveSupply({ ...unit, factionId }, collectSupplySources(allUnits, pois, factionId));
 }
 
 /**
  * Update supply levels for all units.
- * Call this each game tick.
+ * Call this every SUPPLY_CONFIG.UPDATE_INTERVAL_TICKS.
  */
 export function updateSupplyLevels(
     units: GameUnit[],
     pois: POI[]
 ): GameUnit[] {
+    const sources = collectSupplySources(units, pois);
+
     return units.map(unit => {
-        const unitWithSupply = unit as UnitWithSupply;
-        const currentSupply = unitWithSupply.supply ?? SUPPLY_CONFIG.MAX_SUPPLY;
+        if (!needsSupply(unit) || unit.hp <= 0) return unit;
+        const currentSupply = unit.supply ?? SUPPLY_CONFIG.MAX_SUPPLY;
 
-        const supplyStatus = isInSupplyRange(unit, units, pois, unit.factionId);
+        const supplyStatus = resolveSupply(unit, sources);
 
         let newSupply: number;
         if (supplyStatus.inSupply) {
@@ -160,11 +175,12 @@ export function updateSupplyLevels(
                 currentSupply + SUPPLY_CONFIG.SUPPLY_RECOVERY_RATE
             );
         } else {
-            // Lose supply when out of range
+            // Lose supply when out of range (no sources at all = maximum drain)
             const distanceFactor = Math.min(2, supplyStatus.distance / SUPPLY_CONFIG.BASE_SUPPLY_RADIUS_KM);
             newSupply = Math.max(0, currentSupply - (1 * distanceFactor));
         }
 
+        if (newSupply === currentSupply && unit.supply !== undefined) return unit;
         return { ...unit, supply: newSupply };
     });
 }
@@ -174,8 +190,8 @@ export function updateSupplyLevels(
  */
 export function applySupplyAttrition(units: GameUnit[]): GameUnit[] {
     return units.map(unit => {
-        const unitWithSupply = unit as UnitWithSupply;
-        const supply = unitWithSupply.supply ?? SUPPLY_CONFIG.MAX_SUPPLY;
+        if (!needsSupply(unit)) return unit;
+        const supply = unit.supply ?? SUPPLY_CONFIG.MAX_SUPPLY;
 
         if (supply <= SUPPLY_CONFIG.OUT_OF_SUPPLY_THRESHOLD) {
             // Apply HP loss
@@ -187,6 +203,34 @@ export function applySupplyAttrition(units: GameUnit[]): GameUnit[] {
     });
 }
 
+/**
+ * Supply lines for one faction's units: from the source feeding each unit (or
+ * the nearest one it is cut off from) to the unit itself.
+ */
+export function getSupplyLines(
+    units: GameUnit[],
+    pois: POI[],
+    factionId: string
+): { unitId: string; from: { lat: number; lng: number }; to: { lat: number; lng: number }; inSupply: boolean; color: string }[] {
+    const sources = collectSupplySources(units, pois, factionId);
+    if (sources.length === 0) return [];
+
+    const lines = [];
+    for (const unit of units) {
+        if (unit.factionId !== factionId || unit.hp <= 0 || !needsSupply(unit)) continue;
+        const status = resolveSupply(unit, sources);
+        if (!status.sourcePosition) continue;
+        lines.push({
+            unitId: unit.id,
+            from: status.sourcePosition,
+            to: unit.position,
+            inSupply: status.inSupply,
+            color: getSupplyStatusColor(unit)
+        });
+    }
+    return lines;
+}
+
 /**
  * Get combat modifiers based on supply level.
  */
@@ -195,8 +239,7 @@ export function getSupplyModifiers(unit: GameUnit): {
     speedModifier: number;
     isLowSupply: boolean;
 } {
-    const unitWithSupply = unit as UnitWithSupply;
-    const supply = unitWithSupply.supply ?? SUPPLY_CONFIG.MAX_SUPPLY;
+    const supply = unit.supply ?? SUPPLY_CONFIG.MAX_SUPPLY;
 
     const supplyPercent = supply / SUPPLY_CONFIG.MAX_SUPPLY;
 
@@ -218,8 +261,7 @@ export function getSupplyModifiers(unit: GameUnit): {
  * Get supply status color for UI display.
  */
 export function getSupplyStatusColor(unit: GameUnit): string {
-    const unitWithSupply = unit as UnitWithSupply;
-    const supply = unitWithSupply.supply ?? SUPPLY_CONFIG.MAX_SUPPLY;
+    const supply = unit.supply ?? SUPPLY_CONFIG.MAX_SUPPLY;
     const percent = supply / SUPPLY_CONFIG.MAX_SUPPLY;
 
     if (percent >= 0.75) return '#22c55e'; // Green - fully supplied
@@ -0,0 +1,83 @@
+// ============================================
+// TEAMS & ALLIED PLAY
+// Shared vision, resource transfers and coalition victory
+// ============================================
+// Two factions are allies when they were put on the same team in the lobby
+// (Faction.teamId, permanent) or have an ALLIANCE treaty in force (see
+// diplomacyService). Allies share fog-of-war reveal, submarine contacts and
+// mine sightings, may send each other gold/oil (TRANSFER_RESOURCES), and win
+// together: the game ends once every surviving faction is allied with every
+// other survivor.
+
+import { Faction, GameState, POIType } from '../types';
+import { TEAM_CONFIG } from '../constants';
+import { getDiplomacy } from './diplomacyService';
+
+type AllianceView = Pick<GameState, 'factions' | 'diplomacy'>;
+
+// Factions that can win or lose (cities/neutral defenders never do)
+const isContender = (faction: Faction): boolean =>
+    faction.type === 'PLAYER' || faction.type === 'BOT' || faction.type === 'AI';
+
+/**
+ * Set Faction.teamId and fully allied relations from the lobby's team picks.
+ * @param teams slot ID -> team number (0 / missing = free-for-all)
+ */
+export function applyLobbyTeams(factions: Faction[], teams: Record<string, number> = {}): Faction[] {
+    const teamOf = (id: string) => teams[id] ? `TEAM_${teams[id]}` : undefined;
+    return factions.map(f => {
+        const teamId = teamOf(f.id);
+        if (!teamId) return f;
+        const relations = { ...f.relations };
+        factions.forEach(other => {
+            if (other.id !== f.id && teamOf(other.id) === teamId) relations[other.id] = TEAM_CONFIG.TEAM_RELATION;
+        });
+        return { ...f, teamId, relations };
+    });
+}
+
+/**
+ * Same lobby team or an ALLIANCE treaty in force.
+ */
+export function isAllied(state: AllianceView, a: string, b: string): boolean {
+    if (a === b) return true;
+    const fa = state.factions.find(f => f.id === a);
+    const fb = state.factions.find(f => f.id === b);
+    if (fa?.teamId && fa.teamId === fb?.teamId) return true;
+    return getDiplomacy(state).treaties.some(t =>
+        t.type === 'ALLIANCE' && t.factionIds.includes(a) && t.factionIds.includes(b)
+    );
+}
+
+/** Every faction allied with `factionId` (not including itself). */
+export const getAllies = (state: AllianceView, factionId: string): string[] =>
+    state.factions.filter(f => f.id !== factionId && isAllied(state, factionId, f.id)).map(f => f.id);
+
+/** Contenders that still have units or cities. */
+export const getSurvivors = (state: Pick<GameState, 'factions' | 'units' | 'pois'>): string[] =>
+    state.factions.filter(isContender).filter(f =>
+        state.units.some(u => u.factionId === f.id) ||
+        state.pois.some(p => p.ownerFactionId === f.id && p.type === POIType.CITY)
+    ).map(f => f.id);
+
+/**
+ * Surviving factions when they are all allied with each other and at least
+ * one contender has been eliminated; null while the game goes on.
+ */
+export function getWinningCoalition(state: Pick<GameState, 'factions' | 'diplomacy' | 'units' | 'pois'>): string[] | null {
+    const contenders = state.factions.filter(isContender);
+    const survivors = getSurvivors(state);
+
+    if (survivors.length === 0 || survivors.length === contenders.length) return null;
+    const united = survivors.every(a => survivors.every(b => isAllied(state, a, b)));
+    return united ? survivors : null;
+}
+
+/**
+ * This client's result: coalition membership when the game was won by a
+ * coalition, otherwise whatever the host decided.
+ */
+export function getLocalGameResult(state: Pick<GameState, 'gameResult' | 'winnerFactionIds'>, localPlayerId: string): GameState['gameResult'] {
+    if (state.winnerFactionIds) return state.winnerFactionIds.includes(localPlayerId) ? 'VICTORY' : 'DEFEAT';
+    return state.gameResult;
+}
@@ -0,0 +1,137 @@
+// ============================================
+// TERRAIN MASK
+// Precomputed land / ocean / coast grid, shared by browser, worker and Node
+// ============================================
+// public/terrain.bin is generated from public/world.geojson by
+// `npm run terrain:build` (scripts/buildTerrainMask.ts). The grid is a fixed
+// equirectangular raster of the whole globe: column 0 starts at lng -180,
+// row 0 starts at lat +90. Each cell holds two bits:
+//   bit 0 - cell centre is land
+//   bit 1 - cell touches the other medium (an 8-neighbour differs) = COAST
+// Lookups are plain integer math, so every platform gets identical answers.
+//
+// File layout (little endian):
+//   u32 magic 'TMSK' | u16 version | u16 width | u16 height | u16 reserved
+//   then run-length pairs until width*height cells: u8 cell value, varint run
+
+export type TerrainType = 'LAND' | 'OCEAN' | 'COAST';
+
+export const TERRAIN_MASK_MAGIC = 0x4b534d54; // 'TMSK'
+export const TERRAIN_MASK_VERSION = 1;
+const HEADER_BYTES = 12;
+
+export const TERRAIN_CELL_LAND = 1;
+export const TERRAIN_CELL_COAST = 2;
+
+export class TerrainMask {
+    readonly width: number;
+    readonly height: number;
+    // 4 cells per byte, 2 bits each
+    private readonly cells: Uint8Array;
+
+    constructor(width: number, height: number, cells?: Uint8Array) {
+        this.width = width;
+        this.height = height;
+        this.cells = cells ?? new Uint8Array(Math.ceil((width * height) / 4));
+    }
+
+    /**
+     * Read a terrain.bin file. Throws if the buffer is not a terrain mask.
+     */
+    static decode(buffer: ArrayBuffer | Uint8Array): TerrainMask {
+        const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+        const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        if (bytes.byteLength < HEADER_BYTES || view.getUint32(0, true) !== TERRAIN_MASK_MAGIC) {
+            throw new Error('Not a terrain mask file');
+        }
+        const version = view.getUint16(4, true);
+        if (version !== TERRAIN_MASK_VERSION) {
+            throw new Error(`Unsupported terrain mask version ${version} (expected ${TERRAIN_MASK_VERSION})`);
+        }
+
+        const mask = new TerrainMask(view.getUint16(6, true), view.getUint16(8, true));
+        const total = mask.width * mask.height;
+        let offset = HEADER_BYTES;
+        let index = 0;
+
+        while (index < total) {
+            if (offset >= bytes.byteLength) throw new Error('Terrain mask is truncated');
+            const value = bytes[offset++];
+            let run = 0;
+            let shift = 0;
+            let byte: number;
+            do {
+                byte = bytes[offset++];
+                run += (byte & 0x7f) * 2 ** shift;
+                shift += 7;
+            } while (byte & 0x80);
+
+            const end = Math.min(total, index + run);
+            if (value !== 0) {
+                for (; index < end; index++) mask.setIndex(index, value);
+            } else {
+                index = end;
+            }
+        }
+        return mask;
+    }
+
+    /**
+     * Serialize to the terrain.bin format (see header comment).
+     */
+    encode(): Uint8Array {
+        const total = this.width * this.height;
+        const out: number[] = [];
+        let index = 0;
+        while (index < total) {
+            const value = this.getIndex(index);
+            let run = 1;
+            while (index + run < total && this.getIndex(index + run) === value) run++;
+            out.push(value);
+            let remaining = run;
+            do {
+                const byte = remaining & 0x7f;
+                remaining = Math.floor(remaining / 128);
+                out.push(remaining > 0 ? byte | 0x80 : byte);
+            } while (remaining > 0);
+            index += run;
+        }
+
+        const bytes = new Uint8Array(HEADER_BYTES + out.length);
+        const view = new DataView(bytes.buffer);
+        view.setUint32(0, TERRAIN_MASK_MAGIC, true);
+        view.setUint16(4, TERRAIN_MASK_VERSION, true);
+        view.setUint16(6, this.width, true);
+        view.setUint16(8, this.height, true);
+        bytes.set(out, HEADER_BYTES);
+        return bytes;
+    }
+
+    getIndex(index: number): number {
+        return (this.cells[index >> 2] >> ((index & 3) * 2)) & 3;
+    }
+
+    setIndex(index: number, value: number): void {
+        const shift = (index & 3) * 2;
+        const byte = index >> 2;
+        this.cells[byte] = (this.cells[byte] & ~(3 << shift)) | ((value & 3) << shift);
+    }
+
+    /** Cell index for a coordinate; longitude wraps, latitude clamps. */
+    indexOf(lat: number, lng: number): number {
+        const normLng = ((((lng + 180) % 360) + 360) % 360);
+        const x = Math.min(this.width - 1, Math.floor((normLng / 360) * this.width));
+        const y = Math.max(0, Math.min(this.height - 1, Math.floor(((90 - lat) / 180) * this.height)));
+        return y * this.width + x;
+    }
+
+    isLand(lat: number, lng: number): boolean {
+        return (this.getIndex(this.indexOf(lat, lng)) & TERRAIN_CELL_LAND) !== 0;
+    }
+
+    getType(lat: number, lng: number): TerrainType {
+        const cell = this.getIndex(this.indexOf(lat, lng));
+        if (cell & TERRAIN_CELL_COAST) return 'COAST';
+        return cell & TERRAIN_CELL_LAND ? 'LAND' : 'OCEAN';
+    }
+}
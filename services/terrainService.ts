@@ -1,67 +1,59 @@
 import { POI, POIType, UnitClass, GameUnit } from "../types";
 import * as d3 from 'd3';
 import { isPointInFactionTerritory } from './territoryService';
+import { TerrainMask, TerrainType } from './terrainMask';
 
-// Cache for the GeoJSON data
+// World GeoJSON (map rendering) and the precomputed land/ocean/coast mask
+// (simulation lookups, see terrainMask.ts)
 let worldGeoJson: any = null;
+let terrainMask: TerrainMask | null = null;
 let isLoading = false;
 
-// CACHE & OPTIMIZATION - HIGHER RESOLUTION
-const TERRAIN_WIDTH = 4096;
-const TERRAIN_HEIGHT = 2048;
-let terrainCtx: CanvasRenderingContext2D | null = null;
-
-// CRITICAL: Store the projection used for rasterization so we can use it for lookups
-let terrainProjection: d3.GeoProjection | null = null;
-
-// Spatial Cache
-const terrainTypeCache = new Map<string, 'LAND' | 'OCEAN' | 'COAST'>();
+// Spatial Cache - only used by the GeoJSON fallback when terrain.bin is missing
+const terrainTypeCache = new Map<string, TerrainType>();
 
 const CACHE_PRECISION = 100;
 const getCacheKey = (lat: number, lng: number) => {
     return `${Math.round(lat * CACHE_PRECISION)},${Math.round(lng * CACHE_PRECISION)}`;
 };
 
-// Load the GeoJSON once
-const loadGeoJson = async () => {
+/**
+ * Drop features that wrongly contain [0, 0] (inverted rings cover the whole globe).
+ * Shared with the terrain mask build script so both see the same polygons.
+ */
+export const cleanWorldGeoJson = (rawData: any) => {
+    if (rawData.type === 'FeatureCollection' && Array.isArray(rawData.features)) {
+        rawData.features = rawData.features.filter((feature: any) => {
+            return !d3.geoContains(feature, [0, 0]);
+        });
+    }
+    return rawData;
+};
+
+// Load the GeoJSON + terrain mask once. Both are published together so
+// isReady() means "renderable and simulatable".
+const loadTerrainData = async () => {
     if (worldGeoJson || isLoading) return;
     isLoading = true;
     try {
-        const response = await fetch('/world.geojson');
-        if (response.ok) {
-            const rawData = await response.json();
-
-            if (rawData.type === 'FeatureCollection' && Array.isArray(rawData.features)) {
-                rawData.features = rawData.features.filter((feature: any) => {
-                    return !d3.geoContains(feature, [0, 0]);
-                });
-            }
-
-            worldGeoJson = rawData;
-
-            const canvas = document.createElement('canvas');
-            canvas.width = TERRAIN_WIDTH;
-            canvas.height = TERRAIN_HEIGHT;
-            const ctx = canvas.getContext('2d', { willReadFrequently: true });
-
-            if (ctx) {
-                ctx.fillStyle = '#000000';
-                ctx.fillRect(0, 0, TERRAIN_WIDTH, TERRAIN_HEIGHT);
-                ctx.fillStyle = '#FFFFFF';
-
-                // Create and STORE the projection
-                terrainProjection = d3.geoEquirectangular()
-                    .fitSize([TERRAIN_WIDTH, TERRAIN_HEIGHT], worldGeoJson);
-                const path = d3.geoPath().projection(terrainProjection).context(ctx);
-
-                ctx.beginPath();
-                path(worldGeoJson);
-                ctx.fill();
-
-                terrainCtx = ctx;
-                console.log("Terrain Rasterized @ 4096x2048 with stored projection");
+        const [geoResponse, maskResponse] = await Promise.all([
+            fetch('/world.geojson'),
+            fetch('/terrain.bin')
+        ]);
+        if (!geoResponse.ok) return;
+
+        const rawData = await geoResponse.json();
+        if (maskResponse.ok) {
+            try {
+                terrainMask = TerrainMask.decode(await maskResponse.arrayBuffer());
+                console.log(`[TERRAIN] Mask loaded @ ${terrainMask.width}x${terrainMask.height}`);
+            } catch (e) {
+                console.warn('[TERRAIN] Ignoring terrain.bin:', e);
             }
+        } else {
+            console.warn('[TERRAIN] terrain.bin missing (npm run terrain:build) - using slow GeoJSON lookups');
         }
+        worldGeoJson = cleanWorldGeoJson(rawData);
     } catch (e) {
         console.error("Error loading terrain data", e);
     } finally {
@@ -69,7 +61,11 @@ const loadGeoJson = async () => {
     }
 };
 
-loadGeoJson();
+// Browsers fetch on startup. Headless hosts (no DOM) read terrain.bin from
+// disk and call TerrainService.loadTerrainMask().
+if (typeof document !== 'undefined') {
+    loadTerrainData();
+}
 
 const getDistanceKm = (lat1: number, lon1: number, lat2: number, lon2: number) => {
     const R = 6371;
@@ -80,38 +76,22 @@ const getDistanceKm = (lat1: number, lon1: number, lat2: number, lon2: number) =
 };
 
 export const TerrainService = {
-    isReady: () => !!worldGeoJson,
+    isReady: () => !!terrainMask || !!worldGeoJson,
+    hasTerrainMask: () => !!terrainMask,
     getWorldData: () => worldGeoJson,
 
-    isPointLand: (lat: number, lng: number): boolean => {
-        // Use the stored projection if available (same one used for rasterization)
-        if (terrainCtx && terrainProjection) {
-            // Normalize longitude to -180 to 180 range
-            let normLng = lng;
-            while (normLng > 180) normLng -= 360;
-            while (normLng < -180) normLng += 360;
-
-            // Clamp latitude to valid range
-            const normLat = Math.max(-85, Math.min(85, lat));
-
-            // CRITICAL FIX: Use the SAME projection that was used to rasterize!
-            const projected = terrainProjection([normLng, normLat]);
-            if (!projected) return false;
-
-            const x = Math.floor(projected[0]);
-            const y = Math.floor(projected[1]);
-
-            // Ensure we're within canvas bounds
-            const safeX = Math.max(0, Math.min(TERRAIN_WIDTH - 1, x));
-            const safeY = Math.max(0, Math.min(TERRAIN_HEIGHT - 1, y));
+    /**
+     * Use an already-read terrain.bin (headless hosts, workers).
+     * Throws if the buffer is not a terrain mask.
+     */
+    loadTerrainMask: (buffer: ArrayBuffer | Uint8Array): void => {
+        terrainMask = TerrainMask.decode(buffer);
+        terrainTypeCache.clear();
+    },
 
-            try {
-                const pixel = terrainCtx.getImageData(safeX, safeY, 1, 1).data;
-                return pixel[0] > 128;
-            } catch (e) {
-                console.warn('[TERRAIN] Failed to read pixel at', safeX, safeY);
-                return false;
-            }
+    isPointLand: (lat: number, lng: number): boolean => {
+        if (terrainMask) {
+            return terrainMask.isLand(lat, lng);
         }
         if (worldGeoJson) {
             return d3.geoContains(worldGeoJson, [lng, lat]);
@@ -119,7 +99,10 @@ export const TerrainService = {
         return false;
     },
 
-    getTerrainType: (lat: number, lng: number, pois: POI[]): 'LAND' | 'OCEAN' | 'COAST' => {
+    getTerrainType: (lat: number, lng: number, pois: POI[]): TerrainType => {
+        // Coast cells are precomputed in the mask (8-neighbour rule, ~10km cells)
+        if (terrainMask) return terrainMask.getType(lat, lng);
+
         const key = getCacheKey(lat, lng);
         if (terrainTypeCache.has(key)) return terrainTypeCache.get(key)!;
 
@@ -153,7 +136,7 @@ export const TerrainService = {
         const landCount = neighbors.filter(n => n).length;
         const oceanCount = neighbors.filter(n => !n).length;
 
-        let result: 'LAND' | 'OCEAN' | 'COAST';
+        let result: TerrainType;
 
         // Determine terrain type based on current point and neighbors
         if (isLand) {
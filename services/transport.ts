@@ -0,0 +1,104 @@
+// ============================================
+// NETWORK TRANSPORT
+// What NetworkService and PhantomHostService need from a peer network
+// ============================================
+// Peers have string IDs and open reliable, ordered, bidirectional connections
+// to each other by ID - the PeerJS model. Three backends implement it:
+//   - PeerJS (WebRTC through the PeerJS broker) - the default, below
+//   - loopback: simulated peers in one process (services/loopbackTransport.ts)
+//   - WebSocket relay for self-hosted servers (services/webSocketTransport.ts,
+//     server/relayServer.ts) - picked in the browser with ?relay=wss://host:port
+//
+// Messages are plain JSON-compatible objects or binary frames (Uint8Array,
+// see services/wireCodec.ts); binary may arrive as any ArrayBuffer view.
+
+import Peer, { PeerOptions } from 'peerjs';
+import { TRANSPORT_CONFIG } from '../constants';
+import { createWebSocketTransport } from './webSocketTransport';
+
+export interface TransportError {
+    type: string;                // 'unavailable-id', 'peer-unavailable', 'network', ... (PeerJS error types)
+    message: string;
+}
+
+/** One connection to a remote peer. */
+export interface TransportConnection {
+    readonly peer: string;       // Remote peer ID
+    readonly open: boolean;
+    send(data: any): void;
+    close(): void;
+    on(event: 'open' | 'close', listener: () => void): void;
+    on(event: 'data', listener: (data: any) => void): void;
+    on(event: 'error', listener: (err: TransportError) => void): void;
+}
+
+/** This peer's endpoint on the network. */
+export interface Transport {
+    on(event: 'open', listener: (id: string) => void): void;
+    on(event: 'connection', listener: (conn: TransportConnection) => void): void;
+    on(event: 'error', listener: (err: TransportError) => void): void;
+    connect(peerId: string): TransportConnection;
+    destroy(): void;
+}
+
+/** Creates this peer's endpoint; `id` = fixed peer ID (random when missing). */
+export type TransportFactory = (id?: string) => Transport;
+
+/**
+ * Listener bookkeeping for the in-house backends (used by composition -
+ * the backends import this module, which imports them back).
+ */
+export class TransportEvents {
+    private listeners = new Map<string, Array<(...args: any[]) => void>>();
+
+    on(event: string, listener: (...args: any[]) => void) {
+        this.listeners.set(event, [...(this.listeners.get(event) || []), listener]);
+    }
+
+    emit(event: string, ...args: any[]) {
+        (this.listeners.get(event) || []).forEach(listener => listener(...args));
+    }
+}
+
+// ============================================
+// PEERJS BACKEND
+// ============================================
+
+const wrapDataConnection = (conn: any): TransportConnection => ({
+    get peer() { return conn.peer; },
+    get open() { return conn.open; },
+    send: data => conn.send(data),
+    close: () => conn.close(),
+    on: (event: string, listener: (...args: any[]) => void) => { conn.on(event, listener); }
+});
+
+/**
+ * PeerJS endpoint. `PeerClass` lets Node callers pass the constructor they
+ * resolved from the CommonJS bundle (see server/headlessHost.ts).
+ */
+export function createPeerJsTransport(id?: string, options: PeerOptions = { debug: 0 }, PeerClass: typeof Peer = Peer): Transport {
+    const peer = id ? new PeerClass(id, options) : new PeerClass(options);
+    return {
+        on: (event: string, listener: (...args: any[]) => void) => {
+            if (event === 'connection') peer.on('connection', conn => listener(wrapDataConnection(conn)));
+            else peer.on(event as any, listener);
+        },
+        connect: peerId => wrapDataConnection(peer.connect(peerId, { reliable: true })),
+        destroy: () => peer.destroy()
+    };
+}
+
+/**
+ * Browser default: the WebSocket relay named in the page URL
+ * (?relay=wss://host:port), otherwise PeerJS.
+ */
+export const createDefaultTransport: TransportFactory = id => {
+    const relayUrl = typeof location !== 'undefined'
+        ? new URLSearchParams(location.search).get(TRANSPORT_CONFIG.RELAY_URL_PARAM)
+        : null;
+    if (relayUrl) {
+        console.log('[TRANSPORT] Using WebSocket relay', relayUrl);
+        return createWebSocketTransport(relayUrl, id);
+    }
+    return createPeerJsTransport(id);
+};
@@ -0,0 +1,255 @@
+// ============================================
+// VICTORY CONDITIONS
+// Capitals, territory, king of the hill, economic and time-limit wins
+// ============================================
+// Elimination is still decided by teamService.getWinningCoalition; the other
+// conditions picked in the lobby (GameSettings.victoryConditions) are checked
+// here by the host every VICTORY_CONFIG.CHECK_INTERVAL_TICKS. Allies pool
+// their capitals, territory and gold and win together. Hold conditions
+// (capitals, king of the hill) remember in VictoryState.holdSince when a side
+// started meeting the target - losing it for one check restarts the clock.
+
+import { GameState, GameSettings, POI, POIType, GameUnit, VictoryCondition, VictoryState, Faction } from '../types';
+import { GAME_TICK_MS, VICTORY_CONFIG } from '../constants';
+import { calculateVoronoiCells } from './territoryService';
+import { getAllies, getSurvivors } from './teamService';
+import { getGameSettings, VICTORY_CONDITION_NAMES } from './gameSettings';
+
+type VictoryView = Pick<GameState, 'factions' | 'diplomacy' | 'units' | 'pois' | 'gameTick' | 'settings' | 'victory'>;
+
+export interface VictoryOutcome {
+    condition: VictoryCondition;
+    winners: string[];
+}
+
+// One HUD row per enabled condition
+export interface VictoryProgress {
+    condition: VictoryCondition;
+    name: string;
+    progress: number; // 0..1
+    detail: string;
+}
+
+export const minutesToTicks = (minutes: number): number => Math.round((minutes * 60000) / GAME_TICK_MS);
+
+const formatTicks = (ticks: number): string => {
+    const seconds = Math.max(0, Math.ceil((ticks * GAME_TICK_MS) / 1000));
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const isCapital = (p: POI): boolean => p.type === POIType.CITY && p.tier === VICTORY_CONFIG.CAPITAL_TIER;
+
+/**
+ * Default king-of-the-hill site: the capital nearest the middle of all cities
+ * on the map (any city if there are no capitals). Deterministic, so host and
+ * clients agree without syncing.
+ */
+export function pickHillPoi(pois: POI[]): string | undefined {
+    const cities = pois.filter(p => p.type === POIType.CITY);
+    if (cities.length === 0) return undefined;
+    const lat = cities.reduce((sum, c) => sum + c.position.lat, 0) / cities.length;
+    const lng = cities.reduce((sum, c) => sum + c.position.lng, 0) / cities.length;
+    const candidates = cities.some(isCapital) ? cities.filter(isCapital) : cities;
+    const dist = (p: POI) => (p.position.lat - lat) ** 2 + (p.position.lng - lng) ** 2;
+    return candidates.reduce((best, c) => dist(c) < dist(best) ? c : best).id;
+}
+
+/** Fresh bookkeeping for a match on `pois`. */
+export function initVictoryState(pois: POI[], settings: GameSettings): VictoryState {
+    const designated = settings.victoryParams.hillPoiId;
+    return {
+        hillPoiId: designated && pois.some(p => p.id === designated) ? designated : pickHillPoi(pois),
+        holdSince: {},
+        territory: {}
+    };
+}
+
+const getVictoryState = (state: Pick<GameState, 'victory' | 'pois' | 'settings'>): VictoryState =>
+    state.victory || initVictoryState(state.pois, getGameSettings(state));
+
+// Spherical area of a [lat, lng] ring, in steradians (winding-independent)
+const ringArea = (ring: [number, number][]): number => {
+    const rad = Math.PI / 180;
+    let area = 0;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        area += (ring[i][1] - ring[j][1]) * rad * (Math.sin(ring[j][0] * rad) + Math.sin(ring[i][0] * rad));
+    }
+    return Math.abs(area / 2);
+};
+
+/**
+ * Share of the map each faction controls (0..1), by area of its Voronoi
+ * territory cells.
+ */
+export function calculateTerritoryShares(pois: POI[], units: GameUnit[]): Record<string, number> {
+    const areas: Record<string, number> = {};
+    let total = 0;
+    calculateVoronoiCells(pois, units).forEach(cell => {
+        const area = ringArea(cell.polygon);
+        areas[cell.factionId] = (areas[cell.factionId] || 0) + area;
+        total += area;
+    });
+    if (total > 0) Object.keys(areas).forEach(id => { areas[id] /= total; });
+    return areas;
+}
+
+/**
+ * Time-limit score (also used for Battle Royale rounds):
+ * cities * SCORE_PER_CITY + gold + oil.
+ */
+export const calculateScore = (faction: Faction, pois: POI[]): number =>
+    pois.filter(p => p.type === POIType.CITY && p.ownerFactionId === faction.id).length * VICTORY_CONFIG.SCORE_PER_CITY +
+    faction.gold + (faction.oil || 0);
+
+// A faction and its surviving allies - they share progress and the win
+const getSide = (state: VictoryView, factionId: string, survivors: string[]): string[] =>
+    [factionId, ...getAllies(state, factionId).filter(id => survivors.includes(id))];
+
+interface SideStats {
+    capitals: number;
+    territory: number;
+    gold: number;
+    holdsHill: boolean;
+    score: number;
+}
+
+function getSideStats(state: VictoryView, victory: VictoryState, side: string[]): SideStats {
+    const factions = state.factions.filter(f => side.includes(f.id));
+    const hill = state.pois.find(p => p.id === victory.hillPoiId);
+    return {
+        capitals: state.pois.filter(p => isCapital(p) && side.includes(p.ownerFactionId)).length,
+        territory: side.reduce((sum, id) => sum + (victory.territory[id] || 0), 0),
+        gold: factions.reduce((sum, f) => sum + f.gold, 0),
+        holdsHill: !!hill && side.includes(hill.ownerFactionId),
+        score: factions.reduce((sum, f) => sum + calculateScore(f, state.pois), 0)
+    };
+}
+
+/**
+ * Host-side victory step: refresh territory shares and hold timers, and
+ * return the side that met an enabled condition (elimination excluded).
+ */
+export function processVictoryConditions(state: VictoryView): { victory: VictoryState; outcome: VictoryOutcome | null } {
+    const settings = getGameSettings(state);
+    const { victoryConditions: conditions, victoryParams: params } = settings;
+    const previous = getVictoryState(state);
+    const victory: VictoryState = {
+        ...previous,
+        holdSince: {},
+        territory: conditions.includes('TERRITORY') ? calculateTerritoryShares(state.pois, state.units) : {}
+    };
+
+    const survivors = getSurvivors(state);
+    let outcome: VictoryOutcome | null = null;
+    const win = (condition: VictoryCondition, winners: string[]) => {
+        if (!outcome) outcome = { condition, winners };
+    };
+
+    // Keeps the hold timer running while `held`, true once it has run `minutes`
+    const hold = (condition: VictoryCondition, factionId: string, held: boolean, minutes: number): boolean => {
+        if (!held) return false;
+        const key = `${condition}:${factionId}`;
+        const since = previous.holdSince[key] ?? state.gameTick;
+        victory.holdSince[key] = since;
+        return state.gameTick - since >= minutesToTicks(minutes);
+    };
+
+    survivors.forEach(factionId => {
+        const side = getSide(state, factionId, survivors);
+        const stats = getSideStats(state, victory, side);
+
+        if (conditions.includes('CAPITALS') &&
+            hold('CAPITALS', factionId, stats.capitals >= params.capitalCount, params.capitalHoldMinutes)) {
+            win('CAPITALS', side);
+        }
+        if (conditions.includes('TERRITORY') && stats.territory * 100 >= params.territoryPercent) {
+            win('TERRITORY', side);
+        }
+        if (conditions.includes('KING_OF_THE_HILL') &&
+            hold('KING_OF_THE_HILL', factionId, stats.holdsHill, params.hillHoldMinutes)) {
+            win('KING_OF_THE_HILL', side);
+        }
+        if (conditions.includes('ECONOMIC') && stats.gold >= params.economicGold) {
+            win('ECONOMIC', side);
+        }
+    });
+
+    // Out of time: the side with the best score takes it
+    if (conditions.includes('TIME_LIMIT') && state.gameTick >= minutesToTicks(params.timeLimitMinutes) && survivors.length > 0) {
+        const ranked = survivors
+            .map(factionId => getSide(state, factionId, survivors))
+            .map(side => ({ side, score: getSideStats(state, victory, side).score }));
+        win('TIME_LIMIT', ranked.reduce((best, r) => r.score > best.score ? r : best).side);
+    }
+
+    return { victory, outcome };
+}
+
+/** "held 3 capitals for 3 minutes" - completes "<side> ..." in log lines. */
+export function describeVictory(condition: VictoryCondition, settings: GameSettings): string {
+    const p = settings.victoryParams;
+    switch (condition) {
+        case 'ELIMINATION': return 'achieved global domination';
+        case 'CAPITALS': return `held ${p.capitalCount} capitals for ${p.capitalHoldMinutes} minutes`;
+        case 'TERRITORY': return `took ${p.territoryPercent}% of the map`;
+        case 'KING_OF_THE_HILL': return `held the hill for ${p.hillHoldMinutes} minutes`;
+        case 'ECONOMIC': return `banked ${p.economicGold} gold`;
+        case 'TIME_LIMIT': return 'led on score when time ran out';
+    }
+}
+
+/**
+ * Progress towards every enabled condition for `factionId`'s side, for the
+ * HUD. Uses the territory shares and hold timers of the last host check.
+ */
+export function getVictoryProgress(state: VictoryView, factionId: string): VictoryProgress[] {
+    const settings = getGameSettings(state);
+    const { victoryParams: params } = settings;
+    const victory = getVictoryState(state);
+    const survivors = getSurvivors(state);
+    const side = getSide(state, factionId, survivors);
+    const stats = getSideStats(state, victory, side);
+    const heldFor = (condition: VictoryCondition) => {
+        const since = victory.holdSince[`${condition}:${factionId}`];
+        return since === undefined ? null : state.gameTick - since;
+    };
+
+    return settings.victoryConditions.map(condition => {
+        const name = VICTORY_CONDITION_NAMES[condition];
+        switch (condition) {
+            case 'ELIMINATION': {
+                const allies = getAllies(state, factionId);
+                const rivals = state.factions.filter(f => f.type !== 'NEUTRAL' && f.id !== factionId && !allies.includes(f.id));
+                const remaining = rivals.filter(f => survivors.includes(f.id)).length;
+                const progress = rivals.length > 0 ? (rivals.length - remaining) / rivals.length : 1;
+                return { condition, name, progress, detail: `${remaining} rival${remaining === 1 ? '' : 's'} left` };
+            }
+            case 'CAPITALS': {
+                const held = heldFor('CAPITALS');
+                const needed = minutesToTicks(params.capitalHoldMinutes);
+                return held === null
+                    ? { condition, name, progress: Math.min(1, stats.capitals / params.capitalCount) * 0.5, detail: `${stats.capitals}/${params.capitalCount} capitals` }
+                    : { condition, name, progress: 0.5 + 0.5 * Math.min(1, held / Math.max(1, needed)), detail: `Holding ${stats.capitals} - ${formatTicks(needed - held)} left` };
+            }
+            case 'TERRITORY':
+                return { condition, name, progress: Math.min(1, (stats.territory * 100) / params.territoryPercent), detail: `${Math.round(stats.territory * 100)}% / ${params.territoryPercent}%` };
+            case 'KING_OF_THE_HILL': {
+                const hill = state.pois.find(p => p.id === victory.hillPoiId);
+                const held = heldFor('KING_OF_THE_HILL');
+                const needed = minutesToTicks(params.hillHoldMinutes);
+                if (!hill) return { condition, name, progress: 0, detail: 'No hill on this map' };
+                return held === null
+                    ? { condition, name, progress: 0, detail: `Take ${hill.name}` }
+                    : { condition, name, progress: Math.min(1, held / Math.max(1, needed)), detail: `Holding ${hill.name} - ${formatTicks(needed - held)} left` };
+            }
+            case 'ECONOMIC':
+                return { condition, name, progress: Math.min(1, stats.gold / params.economicGold), detail: `${Math.floor(stats.gold)} / ${params.economicGold} gold` };
+            case 'TIME_LIMIT': {
+                const limit = minutesToTicks(params.timeLimitMinutes);
+                const scores = survivors.map(id => getSideStats(state, victory, getSide(state, id, survivors)).score);
+                const rank = scores.filter(s => s > stats.score).length + 1;
+                return { condition, name, progress: Math.min(1, state.gameTick / limit), detail: `${formatTicks(limit - state.gameTick)} left - rank ${rank}/${survivors.length}` };
+            }
+        }
+    });
+}
@@ -0,0 +1,186 @@
+// ============================================
+// WEBSOCKET RELAY TRANSPORT
+// Peer connections tunnelled through a self-hosted relay (server/relayServer.ts)
+// ============================================
+// Every peer keeps one WebSocket to the relay and registers its peer ID there.
+// A "connection" between two peers is a link ID (cid) the relay forwards frames
+// for - no WebRTC, no PeerJS broker. Works in browsers and on Node 22+ (global
+// WebSocket).
+
+import { Transport, TransportConnection, TransportError, TransportEvents } from './transport';
+import { TRANSPORT_CONFIG } from '../constants';
+
+// Relay protocol - JSON text frames in both directions
+export type RelayMessage =
+    | { t: 'hello'; id?: string }                          // Register (random ID when missing)
+    | { t: 'welcome'; id: string }
+    | { t: 'connect'; to: string; cid: string }            // Open a link to `to`
+    | { t: 'connection'; from: string; cid: string }       // Someone opened a link to us
+    | { t: 'accept'; cid: string }                         // Our link reached its target
+    | { t: 'data'; cid: string; data?: any; bin?: string }  // bin = binary frame, base64
+    | { t: 'close'; cid: string }
+    | { t: 'error'; type: string; message: string; cid?: string };
+
+// Binary frames ride inside the JSON text frames as base64
+const toBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array => {
+    const binary = atob(text);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+};
+
+class RelayConnection implements TransportConnection {
+    open = false;
+    private events = new TransportEvents();
+
+    constructor(private relay: RelayTransport, public readonly peer: string, public readonly cid: string) { }
+
+    on(event: string, listener: (...args: any[]) => void) {
+        this.events.on(event, listener);
+    }
+
+    send(data: any) {
+        if (!this.open) return;
+        if (data instanceof Uint8Array) this.relay.sendFrame({ t: 'data', cid: this.cid, bin: toBase64(data) });
+        else this.relay.sendFrame({ t: 'data', cid: this.cid, data });
+    }
+
+    close() {
+        if (!this.open) return;
+        this.relay.sendFrame({ t: 'close', cid: this.cid });
+        this.closed();
+    }
+
+    // Relay side of the lifecycle
+    opened() {
+        this.open = true;
+        this.events.emit('open');
+    }
+
+    closed() {
+        const wasOpen = this.open;
+        this.open = false;
+        this.relay.forget(this.cid);
+        if (wasOpen) this.events.emit('close');
+    }
+
+    failed(err: TransportError) {
+        this.relay.forget(this.cid);
+        this.events.emit('error', err);
+    }
+
+    received(data: any) {
+        if (this.open) this.events.emit('data', data);
+    }
+}
+
+class RelayTransport implements Transport {
+    private socket: WebSocket;
+    private events = new TransportEvents();
+    private links = new Map<string, RelayConnection>();
+    private id = '';
+    private nextLink = 0;
+    private pending: RelayMessage[] = []; // Sent before the relay welcomed us
+
+    constructor(url: string, requestedId?: string) {
+        this.socket = new WebSocket(url);
+        this.socket.onopen = () => this.socket.send(JSON.stringify({ t: 'hello', id: requestedId } as RelayMessage));
+        this.socket.onmessage = event => this.handleFrame(String(event.data));
+        this.socket.onerror = () => this.events.emit('error', { type: 'network', message: `Relay ${url} unreachable` });
+        this.socket.onclose = () => {
+            [...this.links.values()].forEach(link => link.closed());
+        };
+    }
+
+    on(event: string, listener: (...args: any[]) => void) {
+        this.events.on(event, listener);
+    }
+
+    connect(peerId: string): TransportConnection {
+        // Unique across the relay even before it has told us our ID
+        const cid = `${++this.nextLink}-${Math.random().toString(36).slice(2, 12)}`;
+        const link = new RelayConnection(this, peerId, cid);
+        this.links.set(cid, link);
+        this.sendFrame({ t: 'connect', to: peerId, cid });
+        setTimeout(() => {
+            if (!link.open && this.links.get(cid) === link) {
+                link.failed({ type: 'peer-unavailable', message: `No answer from ${peerId}` });
+            }
+        }, TRANSPORT_CONFIG.RELAY_CONNECT_TIMEOUT_MS);
+        return link;
+    }
+
+    destroy() {
+        [...this.links.values()].forEach(link => link.close());
+        this.socket.close();
+    }
+
+    sendFrame(msg: RelayMessage) {
+        if (!this.id && msg.t !== 'hello') {
+            this.pending.push(msg);
+            return;
+        }
+        if (this.socket.readyState === WebSocket.OPEN) this.socket.send(JSON.stringify(msg));
+    }
+
+    forget(cid: string) {
+        this.links.delete(cid);
+    }
+
+    private handleFrame(raw: string) {
+        let msg: RelayMessage;
+        try {
+            msg = JSON.parse(raw);
+        } catch {
+            console.warn('[RELAY] Unreadable frame from relay');
+            return;
+        }
+
+        switch (msg.t) {
+            case 'welcome':
+                this.id = msg.id;
+                this.events.emit('open', msg.id);
+                this.pending.splice(0).forEach(queued => this.sendFrame(queued));
+                break;
+            case 'connection': {
+                const link = new RelayConnection(this, msg.from, msg.cid);
+                this.links.set(msg.cid, link);
+                this.events.emit('connection', link);
+                link.opened();
+                break;
+            }
+            case 'accept':
+                this.links.get(msg.cid)?.opened();
+                break;
+            case 'data':
+                this.links.get(msg.cid)?.received(msg.bin !== undefined ? fromBase64(msg.bin) : msg.data);
+                break;
+            case 'close':
+                this.links.get(msg.cid)?.closed();
+                break;
+            case 'error': {
+                const err = { type: msg.type, message: msg.message };
+                const link = msg.cid ? this.links.get(msg.cid) : undefined;
+                if (link) link.failed(err);
+                else this.events.emit('error', err);
+                break;
+            }
+        }
+    }
+}
+
+/**
+ * Endpoint on the relay at `url` (ws:// or wss://), registered as `id`
+ * (random when missing).
+ */
+export function createWebSocketTransport(url: string, id?: string): Transport {
+    return new RelayTransport(url, id);
+}
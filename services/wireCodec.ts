@@ -0,0 +1,529 @@
+// ============================================
+// BINARY WIRE FORMAT
+// Compact encoding for ACTION, FULL_STATE and HEARTBEAT messages
+// ============================================
+// Peers agree on it per connection: both send HELLO with the wire versions
+// they can read when the connection opens, and the highest common one is used
+// from then on (see NetworkService). Until then - and with peers that never
+// answer, like older builds or the Battle Royale phantom host - everything
+// stays JSON. Other message types always go as JSON.
+//
+// Frame: version (u8) | kind (u8) | epoch (varuint) | string table | body
+//   - string table: every string in the message once (unit / faction / POI
+//     IDs, object keys, text); the body refers to them by index - fields
+//     that may be unset (unowned POIs, projectiles without a target) by
+//     index + 1, with 0 for undefined
+//   - UnitClass / POIType / WeaponType / action types are enum indices
+//   - {lat, lng} pairs are quantized to 1e-7 degree (~1 cm), headings to
+//     1/65536 of a turn
+//   - everything else goes through a tagged value encoding (ints as zigzag
+//     varints, other numbers as float64 - no precision lost)
+//
+// The enum index tables are part of the format: only ever append to them, and
+// bump WIRE_VERSION for anything else.
+//
+// Versions:
+//   1 - initial format
+//   2 - ACTION carries the client's prediction sequence number (varuint,
+//       0 = none), see services/predictionService.ts
+
+import { GameState, GameUnit, POI, Projectile, UnitClass, POIType, WeaponType } from '../types';
+import { GameAction, GameActionType, NetworkMessage, ActionMessage, FullStateMessage, HeartbeatMessage, EpochStamp } from './schemas';
+
+export const WIRE_VERSION = 2;
+
+/** Wire versions this build can read, newest last (0 = JSON, always understood). */
+export const SUPPORTED_WIRE_VERSIONS = [1, WIRE_VERSION];
+
+const KIND = { ACTION: 1, FULL_STATE: 2, HEARTBEAT: 3 };
+
+const UNIT_CLASSES = Object.values(UnitClass);
+const POI_TYPES = Object.values(POIType);
+const WEAPON_TYPES = Object.values(WeaponType);
+const ACTION_TYPES: GameActionType[] = [
+    'QUEUE_PRODUCTION', 'CANCEL_PRODUCTION', 'SET_RALLY_POINT', 'MOVE_UNITS', 'QUEUE_ORDERS', 'ATTACK_TARGET',
+    'BUILD_STRUCTURE', 'SELECT_BASE', 'CLAIM_POI', 'LAUNCH_NUKE', 'SET_AUTO_MODE', 'SET_STANCE', 'SET_FORMATION',
+    'LOAD_UNITS', 'UNLOAD_UNITS', 'AIRDROP', 'LAY_MINE', 'SWEEP_MINES', 'PROPOSE_TREATY', 'ACCEPT_TREATY',
+    'REJECT_TREATY', 'TRANSFER_RESOURCES'
+];
+const UNKNOWN_ENUM = 255;        // Followed by the value as a string
+
+const COORD_SCALE = 1e7;
+const HEADING_STEPS = 65536;
+
+// Tagged value encoding
+const TAG = { NULL: 0, FALSE: 1, TRUE: 2, INT: 3, FLOAT: 4, STRING: 5, ARRAY: 6, OBJECT: 7, POINT: 8 };
+
+// Fields encoded up front in each record - the rest go through writeValue
+const UNIT_FIELDS = ['id', 'unitClass', 'factionId', 'position', 'heading'];
+const POI_FIELDS = ['id', 'type', 'position', 'ownerFactionId'];
+const PROJECTILE_FIELDS = ['id', 'fromId', 'toId', 'fromPos', 'toPos', 'weaponType'];
+const STATE_FIELDS = ['units', 'pois', 'projectiles'];
+
+type Point = { lat: number; lng: number };
+
+const isPoint = (value: any): value is Point => {
+    if (typeof value.lat !== 'number' || typeof value.lng !== 'number') return false;
+    const keys = Object.keys(value);
+    return keys.length === 2 && Number.isFinite(value.lat) && Number.isFinite(value.lng);
+};
+
+const without = (record: object, fields: string[]): Record<string, any> => {
+    const rest: Record<string, any> = { ...record };
+    fields.forEach(field => delete rest[field]);
+    return rest;
+};
+
+// ============================================
+// WRITER
+// ============================================
+
+class WireWriter {
+    private bytes = new Uint8Array(1024);
+    private view = new DataView(this.bytes.buffer);
+    private length = 0;
+    private strings = new Map<string, number>();
+
+    private reserve(size: number) {
+        if (this.length + size <= this.bytes.length) return;
+        let capacity = this.bytes.length * 2;
+        while (capacity < this.length + size) capacity *= 2;
+        const grown = new Uint8Array(capacity);
+        grown.set(this.bytes.subarray(0, this.length));
+        this.bytes = grown;
+        this.view = new DataView(grown.buffer);
+    }
+
+    u8(value: number) {
+        this.reserve(1);
+        this.bytes[this.length++] = value;
+    }
+
+    u16(value: number) {
+        this.reserve(2);
+        this.view.setUint16(this.length, value);
+        this.length += 2;
+    }
+
+    f64(value: number) {
+        this.reserve(8);
+        this.view.setFloat64(this.length, value);
+        this.length += 8;
+    }
+
+    // LEB128 - arithmetic rather than bitwise so the full safe-integer range works
+    varuint(value: number) {
+        while (value >= 0x80) {
+            this.u8((value % 0x80) | 0x80);
+            value = Math.floor(value / 0x80);
+        }
+        this.u8(value);
+    }
+
+    varint(value: number) {
+        this.varuint(value >= 0 ? value * 2 : -value * 2 - 1);
+    }
+
+    bytesOf(data: Uint8Array) {
+        this.reserve(data.length);
+        this.bytes.set(data, this.length);
+        this.length += data.length;
+    }
+
+    string(value: string) {
+        this.varuint(this.stringIndex(value));
+    }
+
+    /** A string field that may be unset: 0 = undefined, else index + 1. */
+    optionalString(value: string | undefined | null) {
+        this.varuint(value === undefined || value === null ? 0 : this.stringIndex(value) + 1);
+    }
+
+    private stringIndex(value: string): number {
+        let index = this.strings.get(value);
+        if (index === undefined) {
+            index = this.strings.size;
+            this.strings.set(value, index);
+        }
+        return index;
+    }
+
+    point(value: Point) {
+        this.varint(Math.round(value.lat * COORD_SCALE));
+        this.varint(Math.round(value.lng * COORD_SCALE));
+    }
+
+    heading(degrees: number) {
+        const turn = (((Number.isFinite(degrees) ? degrees : 0) % 360) + 360) % 360;
+        this.u16(Math.round((turn / 360) * HEADING_STEPS) % HEADING_STEPS);
+    }
+
+    enumValue(table: readonly string[], value: string) {
+        const index = table.indexOf(value);
+        if (index >= 0 && index < UNKNOWN_ENUM) {
+            this.u8(index);
+        } else {
+            this.u8(UNKNOWN_ENUM);
+            this.string(value);
+        }
+    }
+
+    value(value: any) {
+        if (value === null || value === undefined || typeof value === 'function') {
+            this.u8(TAG.NULL);
+        } else if (typeof value === 'boolean') {
+            this.u8(value ? TAG.TRUE : TAG.FALSE);
+        } else if (typeof value === 'number') {
+            if (Number.isInteger(value) && Math.abs(value) < 2 ** 52) {
+                this.u8(TAG.INT);
+                this.varint(value);
+            } else {
+                this.u8(TAG.FLOAT);
+                this.f64(value);
+            }
+        } else if (typeof value === 'string') {
+            this.u8(TAG.STRING);
+            this.string(value);
+        } else if (Array.isArray(value)) {
+            this.u8(TAG.ARRAY);
+            this.varuint(value.length);
+            value.forEach(item => this.value(item));
+        } else if (isPoint(value)) {
+            this.u8(TAG.POINT);
+            this.point(value);
+        } else {
+            // Like JSON: undefined / function members are left out
+            const keys = Object.keys(value).filter(key => value[key] !== undefined && typeof value[key] !== 'function');
+            this.u8(TAG.OBJECT);
+            this.varuint(keys.length);
+            keys.forEach(key => {
+                this.string(key);
+                this.value(value[key]);
+            });
+        }
+    }
+
+    /** Header + string table + everything written so far. */
+    finish(version: number, kind: number, epoch: number): Uint8Array {
+        const body = this.bytes.subarray(0, this.length);
+        const frame = new WireWriter();
+        frame.u8(version);
+        frame.u8(kind);
+        frame.varuint(epoch);
+        frame.varuint(this.strings.size);
+        const encoder = new TextEncoder();
+        this.strings.forEach((_index, text) => {
+            const utf8 = encoder.encode(text);
+            frame.varuint(utf8.length);
+            frame.bytesOf(utf8);
+        });
+        frame.bytesOf(body);
+        return frame.bytes.slice(0, frame.length);
+    }
+}
+
+// ============================================
+// READER
+// ============================================
+
+class WireReader {
+    private view: DataView;
+    private offset = 0;
+    private strings: string[] = [];
+    readonly version: number;
+    readonly kind: number;
+    readonly epoch: number;
+
+    constructor(private bytes: Uint8Array) {
+        this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        this.version = this.u8();
+        if (!SUPPORTED_WIRE_VERSIONS.includes(this.version)) {
+            throw new Error(`Unsupported wire version ${this.version}`);
+        }
+        this.kind = this.u8();
+        this.epoch = this.varuint();
+
+        const decoder = new TextDecoder();
+        const count = this.varuint();
+        for (let i = 0; i < count; i++) {
+            const length = this.varuint();
+            this.need(length);
+            this.strings.push(decoder.decode(this.bytes.subarray(this.offset, this.offset + length)));
+            this.offset += length;
+        }
+    }
+
+    private need(size: number) {
+        if (this.offset + size > this.bytes.length) throw new Error('Truncated wire frame');
+    }
+
+    u8(): number {
+        this.need(1);
+        return this.bytes[this.offset++];
+    }
+
+    u16(): number {
+        this.need(2);
+        const value = this.view.getUint16(this.offset);
+        this.offset += 2;
+        return value;
+    }
+
+    f64(): number {
+        this.need(8);
+        const value = this.view.getFloat64(this.offset);
+        this.offset += 8;
+        return value;
+    }
+
+    varuint(): number {
+        let value = 0;
+        let scale = 1;
+        for (; ;) {
+            const byte = this.u8();
+            value += (byte & 0x7F) * scale;
+            if (byte < 0x80) return value;
+            scale *= 0x80;
+        }
+    }
+
+    varint(): number {
+        const zigzag = this.varuint();
+        return zigzag % 2 === 0 ? zigzag / 2 : -(zigzag + 1) / 2;
+    }
+
+    string(): string {
+        return this.stringAt(this.varuint());
+    }
+
+    optionalString(): string | undefined {
+        const index = this.varuint();
+        return index === 0 ? undefined : this.stringAt(index - 1);
+    }
+
+    private stringAt(index: number): string {
+        if (index >= this.strings.length) throw new Error(`Bad string index ${index}`);
+        return this.strings[index];
+    }
+
+    point(): Point {
+        return { lat: this.varint() / COORD_SCALE, lng: this.varint() / COORD_SCALE };
+    }
+
+    heading(): number {
+        return (this.u16() / HEADING_STEPS) * 360;
+    }
+
+    enumValue<T extends string>(table: readonly T[]): T {
+        const index = this.u8();
+        if (index === UNKNOWN_ENUM) return this.string() as T;
+        if (index >= table.length) throw new Error(`Bad enum index ${index}`);
+        return table[index];
+    }
+
+    value(): any {
+        const tag = this.u8();
+        switch (tag) {
+            case TAG.NULL: return null;
+            case TAG.FALSE: return false;
+            case TAG.TRUE: return true;
+            case TAG.INT: return this.varint();
+            case TAG.FLOAT: return this.f64();
+            case TAG.STRING: return this.string();
+            case TAG.POINT: return this.point();
+            case TAG.ARRAY: {
+                const length = this.varuint();
+                const items = [];
+                for (let i = 0; i < length; i++) items.push(this.value());
+                return items;
+            }
+            case TAG.OBJECT: {
+                const count = this.varuint();
+                const record: Record<string, any> = {};
+                for (let i = 0; i < count; i++) {
+                    const key = this.string();
+                    record[key] = this.value();
+                }
+                return record;
+            }
+            default:
+                throw new Error(`Bad value tag ${tag}`);
+        }
+    }
+
+    done() {
+        if (this.offset !== this.bytes.length) throw new Error('Trailing bytes in wire frame');
+    }
+}
+
+// ============================================
+// MESSAGES
+// ============================================
+
+const writeUnit = (w: WireWriter, unit: GameUnit) => {
+    w.string(unit.id);
+    w.enumValue(UNIT_CLASSES, unit.unitClass);
+    w.string(unit.factionId);
+    w.point(unit.position);
+    w.heading(unit.heading);
+    w.value(without(unit, UNIT_FIELDS));
+};
+
+const readUnit = (r: WireReader): GameUnit => {
+    const id = r.string();
+    const unitClass = r.enumValue(UNIT_CLASSES);
+    const factionId = r.string();
+    const position = r.point();
+    const heading = r.heading();
+    return { id, unitClass, factionId, position, heading, ...r.value() };
+};
+
+const writePOI = (w: WireWriter, poi: POI) => {
+    w.string(poi.id);
+    w.enumValue(POI_TYPES, poi.type);
+    w.point(poi.position);
+    w.optionalString(poi.ownerFactionId);
+    w.value(without(poi, POI_FIELDS));
+};
+
+const readPOI = (r: WireReader): POI => {
+    const id = r.string();
+    const type = r.enumValue(POI_TYPES);
+    const position = r.point();
+    const ownerFactionId = r.optionalString();
+    const poi: POI = { id, type, position, ...r.value() };
+    // Unset stays absent, as after JSON
+    if (ownerFactionId !== undefined) poi.ownerFactionId = ownerFactionId;
+    return poi;
+};
+
+const writeProjectile = (w: WireWriter, projectile: Projectile) => {
+    w.string(projectile.id);
+    w.string(projectile.fromId);
+    w.optionalString(projectile.toId);
+    w.point(projectile.fromPos);
+    w.point(projectile.toPos);
+    w.enumValue(WEAPON_TYPES, projectile.weaponType);
+    w.value(without(projectile, PROJECTILE_FIELDS));
+};
+
+const readProjectile = (r: WireReader): Projectile => {
+    const id = r.string();
+    const fromId = r.string();
+    const toId = r.optionalString();
+    const fromPos = r.point();
+    const toPos = r.point();
+    const weaponType = r.enumValue(WEAPON_TYPES);
+    const projectile: Projectile = { id, fromId, fromPos, toPos, weaponType, ...r.value() };
+    if (toId !== undefined) projectile.toId = toId;
+    return projectile;
+};
+
+const writeList = <T>(w: WireWriter, items: T[] | undefined, write: (w: WireWriter, item: T) => void) => {
+    const list = items || [];
+    w.varuint(list.length);
+    list.forEach(item => write(w, item));
+};
+
+const readList = <T>(r: WireReader, read: (r: WireReader) => T): T[] => {
+    const length = r.varuint();
+    const items: T[] = [];
+    for (let i = 0; i < length; i++) items.push(read(r));
+    return items;
+};
+
+/** Message types that have a binary encoding. */
+export function isBinaryEncodable(msg: { type: string }): boolean {
+    return msg.type === 'ACTION' || msg.type === 'FULL_STATE' || msg.type === 'HEARTBEAT';
+}
+
+/** True for a frame produced by encodeWireMessage (as any transport delivers it). */
+export function isBinaryFrame(data: any): data is ArrayBuffer | ArrayBufferView {
+    return data instanceof ArrayBuffer || ArrayBuffer.isView(data);
+}
+
+/**
+ * Encode an ACTION, FULL_STATE or HEARTBEAT message (check isBinaryEncodable
+ * first). Coordinates and headings are quantized, see the header.
+ */
+export function encodeWireMessage(msg: NetworkMessage, version: number = WIRE_VERSION): Uint8Array {
+    const w = new WireWriter();
+    switch (msg.type) {
+        case 'ACTION': {
+            const { actionType, playerId, actionId, timestamp, payload, seq } = msg.action;
+            w.enumValue(ACTION_TYPES, actionType);
+            w.string(playerId);
+            w.string(actionId);
+            w.f64(timestamp);
+            if (version >= 2) w.varuint(seq ?? 0);
+            w.value(payload);
+            return w.finish(version, KIND.ACTION, msg.epoch ?? 0);
+        }
+        case 'FULL_STATE': {
+            const state = msg.gameState;
+            w.f64(msg.timestamp);
+            writeList(w, state.units, writeUnit);
+            writeList(w, state.pois, writePOI);
+            writeList(w, state.projectiles, writeProjectile);
+            w.value(without(state, STATE_FIELDS));
+            return w.finish(version, KIND.FULL_STATE, msg.epoch ?? 0);
+        }
+        case 'HEARTBEAT':
+            w.f64(msg.timestamp);
+            return w.finish(version, KIND.HEARTBEAT, msg.epoch ?? 0);
+        default:
+            throw new Error(`No binary encoding for ${msg.type}`);
+    }
+}
+
+/**
+ * Decode a binary frame back into the message it was encoded from. Throws on
+ * unknown versions and malformed frames.
+ */
+export function decodeWireMessage(data: ArrayBuffer | ArrayBufferView): NetworkMessage {
+    const bytes = data instanceof ArrayBuffer
+        ? new Uint8Array(data)
+        : new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+    const r = new WireReader(bytes);
+    const stamp: EpochStamp = { epoch: r.epoch };
+    let msg: NetworkMessage;
+
+    switch (r.kind) {
+        case KIND.ACTION: {
+            const actionType = r.enumValue(ACTION_TYPES);
+            const playerId = r.string();
+            const actionId = r.string();
+            const timestamp = r.f64();
+            const seq = r.version >= 2 ? r.varuint() : 0;
+            const action: GameAction = { playerId, actionType, payload: r.value(), timestamp, actionId };
+            if (seq > 0) action.seq = seq;
+            msg = { ...stamp, type: 'ACTION', action } as ActionMessage;
+            break;
+        }
+        case KIND.FULL_STATE: {
+            const timestamp = r.f64();
+            const units = readList(r, readUnit);
+            const pois = readList(r, readPOI);
+            const projectiles = readList(r, readProjectile);
+            const gameState = { ...r.value(), units, pois, projectiles } as GameState;
+            msg = { ...stamp, type: 'FULL_STATE', gameState, timestamp } as FullStateMessage;
+            break;
+        }
+        case KIND.HEARTBEAT:
+            msg = { ...stamp, type: 'HEARTBEAT', timestamp: r.f64() } as HeartbeatMessage;
+            break;
+        default:
+            throw new Error(`Unknown wire message kind ${r.kind}`);
+    }
+    r.done();
+    return msg;
+}
+
+/**
+ * Wire version to use with a peer that can read `theirs` (from its HELLO);
+ * 0 = JSON.
+ */
+export function negotiateWireVersion(theirs: number[] | undefined): number {
+    const common = (theirs || []).filter(version => SUPPORTED_WIRE_VERSIONS.includes(version));
+    return common.length > 0 ? Math.max(...common) : 0;
+}
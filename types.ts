@@ -57,6 +57,8 @@ export interface Faction {
   lastAiUpdate?: number;
   maxUnits?: number;
   ready?: boolean; // For multiplayer lobby/start logic
+  teamId?: string; // Pre-set lobby team - permanent allies (see teamService)
+  disconnectedUntil?: number; // Host tick when a dropped player's seat is forfeited (see reconnectService)
   // Advanced Bot AI Fields
   personality?: BotPersonality;
   strategicGoals?: StrategicGoal[];
@@ -145,6 +147,8 @@ export interface GameUnit extends UnitStats {
   // Auto-control modes for player units
   autoMode?: 'NONE' | 'DEFEND' | 'ATTACK' | 'PATROL';
   autoTarget?: boolean; // Auto-engage enemies in range
+  stance?: UnitStance; // Engagement rules (undefined = AGGRESSIVE, see services/autoControl.ts)
+  orderedTargetId?: string | null; // Target the player picked - chased whatever the stance
   homePosition?: { lat: number; lng: number }; // For patrol/defend
   guardingCityId?: string; // For neutral defenders - the city they protect
 
@@ -162,6 +166,52 @@ export interface GameUnit extends UnitStats {
   dropZone?: { lat: number; lng: number }; // Where to unload units
   parentCarrierId?: string;   // For drones - which carrier spawned them
   isLoaded?: boolean;         // Is this unit loaded into a transport
+  boardingTransportId?: string; // Moving to board this transport/carrier (LOAD_UNITS)
+  mineCooldown?: number;      // Ticks until MINELAYER can lay / DESTROYER can sweep again
+  // Submarine stealth (see services/stealthService.ts)
+  detectedBy?: string[];      // Factions holding a sonar contact this tick
+  revealedUntilTick?: number; // Exposed to everyone until this tick (after firing)
+  supply?: number;            // 0-100, see services/supplyService.ts (undefined = full)
+  // Production structures (see services/productionService.ts)
+  productionQueue?: ProductionOrder[];
+  rallyPoint?: { lat: number; lng: number } | null; // Finished units head here
+  // Planned route around terrain (see services/pathfindingService.ts)
+  path?: UnitPath;
+  // Shift-queued commands (see services/orderQueueService.ts)
+  activeOrder?: UnitOrder | null; // Queued order being carried out right now
+  orderQueue?: UnitOrder[];       // Orders waiting for the active one to finish
+}
+
+// AGGRESSIVE: chase anything that shoots at us; HOLD_POSITION: shoot whatever
+// comes into range but never chase; RETURN_FIRE: only shoot back, never chase
+export type UnitStance = 'AGGRESSIVE' | 'HOLD_POSITION' | 'RETURN_FIRE';
+
+export type UnitOrderType = 'MOVE' | 'ATTACK' | 'ATTACK_MOVE' | 'PATROL' | 'LOAD' | 'UNLOAD';
+
+// Modifier keys held during a right-click command (Shift = queue it)
+export type CommandModifiers = Pick<MouseEvent, 'shiftKey' | 'ctrlKey' | 'altKey'>;
+
+// One step of a unit's command chain
+export interface UnitOrder {
+  type: UnitOrderType;
+  position?: { lat: number; lng: number };   // MOVE / ATTACK_MOVE / PATROL / UNLOAD
+  targetId?: string;                          // ATTACK (unit or POI) / LOAD (transport)
+  patrolFrom?: { lat: number; lng: number }; // PATROL: other end, set when the order starts
+}
+
+// Waypoints towards `goal`; only followed while destination === goal
+export interface UnitPath {
+  goal: { lat: number; lng: number };
+  waypoints: { lat: number; lng: number }[]; // Last one is the goal
+}
+
+// One unit waiting in (or at the head of) a structure's production queue
+export interface ProductionOrder {
+  unitId: string;             // Pre-generated ID the finished unit will carry
+  unitClass: UnitClass;
+  buildTicks: number;
+  startedTick?: number;       // Set once the order reaches the head of the queue
+  cost: { gold: number; oil: number }; // Paid up front, refunded on cancel
 }
 
 export interface Projectile {
@@ -203,6 +253,55 @@ export interface NuclearMissile {
   progress: number;        // 0-1
 }
 
+export interface NavalMine {
+  id: string;
+  factionId: string;
+  position: { lat: number; lng: number };
+  layerId: string;         // MINELAYER that deployed it
+  laidAt: number;          // Simulation time
+  revealedTo: string[];    // Enemy factions that have spotted it (DESTROYER / RECON_DRONE)
+}
+
+// =============================================
+// DIPLOMACY (see services/diplomacyService.ts)
+// =============================================
+
+export type TreatyType = 'ALLIANCE' | 'NON_AGGRESSION' | 'CEASEFIRE' | 'TRIBUTE';
+
+// Periodic gold/oil payment from one side of a TRIBUTE treaty to the other
+export interface TributeTerms {
+  payerId: string;
+  gold: number;
+  oil: number;
+}
+
+export interface DiplomaticProposal {
+  id: string;
+  type: TreatyType;
+  fromFactionId: string;
+  toFactionId: string;
+  durationTicks: number;
+  tribute?: TributeTerms;
+  createdTick: number;
+  expiresTick: number;       // Unanswered proposals lapse
+}
+
+export interface Treaty {
+  id: string;
+  type: TreatyType;
+  factionIds: [string, string];
+  tribute?: TributeTerms;
+  startedTick: number;
+  endsTick: number;
+  // Relations (a->b, b->a) before signing - restored when the treaty ends
+  relationsBefore: [number, number];
+}
+
+export interface DiplomacyState {
+  proposals: DiplomaticProposal[];
+  treaties: Treaty[];
+}
+
 export enum Difficulty {
   EASY = 'EASY',
   MEDIUM = 'MEDIUM',
@@ -235,6 +334,7 @@ export interface GameState {
   pendingBotFactions?: string[]; // Bot faction IDs awaiting city assignment
   // Victory/Defeat State
   gameResult?: 'VICTORY' | 'DEFEAT' | null;
+  winnerFactionIds?: string[]; // Surviving coalition when the game was won
   gameStats?: {
     unitsKilled: number;
     unitsLost: number;
@@ -246,8 +346,70 @@ export interface GameState {
   // Network Sync Fields (NEW)
   stateVersion: number;    // Authoritative state version from host
   hostTick: number;        // Last known host tick for reconciliation
+  // Highest action seq the host has applied, per player (client prediction replays the rest)
+  actionAcks?: Record<string, number>;
+  // Deterministic simulation seed (see services/deterministic.ts)
+  rngSeed: number;
   // Nuclear missiles in flight
   nukesInFlight: NuclearMissile[];
+  // Persistent naval minefields
+  mines: NavalMine[];
+  // Treaties + pending proposals (undefined = none yet)
+  diplomacy?: DiplomacyState;
+  // Custom game setup chosen in the lobby (see services/gameSettings.ts)
+  settings?: GameSettings;
+  victory?: VictoryState;
+}
+
+// =============================================
+// CUSTOM GAME SETUP
+// =============================================
+
+// How a match can be won (see services/victoryService.ts)
+export type VictoryCondition =
+  | 'ELIMINATION'       // Last surviving coalition
+  | 'CAPITALS'          // Hold N capitals (tier 1 cities) for X minutes
+  | 'TERRITORY'         // Control a share of the map (Voronoi area)
+  | 'KING_OF_THE_HILL'  // Hold the designated POI for X minutes
+  | 'ECONOMIC'          // Bank a gold target
+  | 'TIME_LIMIT';       // Highest score when the clock runs out
+
+// Targets for the non-elimination victory conditions
+export interface VictoryParams {
+  capitalCount: number;
+  capitalHoldMinutes: number;
+  territoryPercent: number;
+  hillPoiId?: string;        // Unset = most central capital, picked at start
+  hillHoldMinutes: number;
+  economicGold: number;
+  timeLimitMinutes: number;
+}
+
+// Per-match victory bookkeeping, host-authoritative and synced to clients
+export interface VictoryState {
+  hillPoiId?: string;
+  holdSince: Record<string, number>;   // `${condition}:${factionId}` -> tick the hold began
+  territory: Record<string, number>;   // factionId -> share of the map (0..1), refreshed every check
+  endedBy?: VictoryCondition;          // Condition that decided the match
+}
+
+// A bot slot's personality; RANDOM is rolled by the host at start
+export type BotPersonalityChoice = BotPersonality | 'RANDOM';
+
+// Everything the lobby can tune. Plain data so it travels with START_GAME.
+export interface GameSettings {
+  startingGold: number;
+  startingOil: number;
+  startingUnits: Partial<Record<UnitClass, number>>; // Spawned around every faction's HQ
+  // Per-faction starting resource scale, keyed by lobby slot ID (as in LobbyState.teams) - missing = 1
+  resourceScale?: Record<string, number>;
+  botCount: number;
+  botPersonalities: BotPersonalityChoice[]; // Indexed by bot slot (BOT_<i>), missing = RANDOM
+  incomeMultiplier: number;
+  nukesEnabled: boolean;
+  fogOfWar: boolean;
+  victoryConditions: VictoryCondition[];
+  victoryParams: VictoryParams;
 }
 
 export interface LobbyPlayer {
@@ -262,8 +424,12 @@ export interface LobbyState {
   players: LobbyPlayer[];
   scenarioId: string;
   difficulty: Difficulty;
-  botCount: number;
   gameMode: 'DOMINATION' | 'SURVIVAL' | 'BATTLE_ROYALE';
+  // Pre-set teams: slot ID (lobby player ID, 'PLAYER' offline, BOT_<i>) -> team number, 0/missing = no team
+  teams?: Record<string, number>;
+  settings: GameSettings;
+  // Host-made scenario picked in the lobby (map data stays on the host)
+  customScenario?: Scenario;
 }
 
 export interface Scenario {
@@ -275,13 +441,41 @@ export interface Scenario {
     minLng: number;
     maxLng: number;
   };
+  // Built with the scenario editor (see services/scenarioService.ts). Custom
+  // scenarios bring their own map: no generated cities or random deposits.
+  custom?: boolean;
+  pois?: ScenarioPOI[];
+  units?: ScenarioUnit[];
+}
+
+// Scenario ownership is by faction slot: 0 = first lobby seat, then the other
+// players and the bots in lobby order. Resolved to faction IDs at match start.
+export interface ScenarioPOI {
+  id: string;
+  type: POIType;
+  name: string;
+  position: { lat: number; lng: number };
+  tier?: number;
+  isCoastal?: boolean;
+  hp: number;
+  ownerSlot?: number; // Missing = unclaimed
+}
+
+// Pre-placed unit or structure
+export interface ScenarioUnit {
+  id: string;
+  unitClass: UnitClass;
+  slot: number;
+  position: { lat: number; lng: number };
+  hp?: number; // Missing = full health
 }
 
 // NETWORK TYPES
 export type NetworkRequest =
   | { type: 'REQUEST_SELECT_BASE'; poiId: string; playerId: string }
   | { type: 'REQUEST_READY'; playerId: string; isReady: boolean }
-  | { type: 'BR_JOIN_REQUEST'; peerId: string; option: 'NEW_FACTION' | 'TAKEOVER_BOT'; targetCityId?: string; botFactionId?: string };
+  | { type: 'BR_JOIN_REQUEST'; peerId: string; option: 'NEW_FACTION' | 'TAKEOVER_BOT'; targetCityId?: string; botFactionId?: string }
+  | { type: 'REJOIN'; peerId: string; token: string }; // Reclaim a seat with the SESSION_TOKEN from join
 
 export type NetworkResponse =
   | { type: 'BASE_SELECTED'; poiId: string; factionId: string }
@@ -289,7 +483,24 @@ export type NetworkResponse =
   | { type: 'BR_JOIN_OPTIONS'; bots: Faction[]; cities: POI[] }
   | { type: 'BR_PLAYER_JOINED'; factionId: string; peerId: string; tookOverBot: boolean }
   | { type: 'BR_ROUND_END'; winnerId: string; reason: string; score: number }
-  | { type: 'BR_NEW_ROUND'; startTime: number; scenarioId: string };
+  | { type: 'BR_NEW_ROUND'; startTime: number; scenarioId: string }
+  | { type: 'ACTION_REJECTED'; actionId: string; playerId: string; reason: ActionRejectReason; message: string }
+  // Sent to one peer only
+  | { type: 'SESSION_TOKEN'; token: string; factionId: string }
+  | { type: 'REJOIN_RESULT'; accepted: boolean; factionId?: string; message?: string };
+
+// Why the host refused a GameAction (see services/actionValidator.ts)
+export type ActionRejectReason =
+  | 'UNKNOWN_PLAYER'       // playerId has no faction / does not match sender
+  | 'INVALID_PAYLOAD'      // Missing or malformed fields
+  | 'UNKNOWN_ENTITY'       // Referenced unit/POI/silo does not exist
+  | 'NOT_OWNER'            // Unit/silo belongs to another faction
+  | 'INSUFFICIENT_FUNDS'   // Cannot afford cost
+  | 'INVALID_PLACEMENT'    // Terrain/territory/spawn-site rules violated
+  | 'DUPLICATE_ID'         // Pre-generated ID already in use
+  | 'ON_COOLDOWN'          // Silo or ability not ready
+  | 'OUT_OF_RANGE'         // Target beyond max range
+  | 'DISABLED';            // Turned off in the game settings
 
 // =============================================
 // BATTLE ROYALE TYPES
@@ -300,7 +511,7 @@ export interface BattleRoyaleConfig {
   minBots: number;             // 2 (when no players)
   roundDurationMs: number;     // 300000 (5 minutes)
   isPermanent: boolean;        // true - room never closes
-  scenarioRotation: string[];  // ['WORLD', 'EUROPE', 'ASIA', ...]
+  scenarioRotation: string[];  // ['WORLD', 'EUROPE', 'ASIA', ...] - custom scenario IDs too
 }
 
 export interface BattleRoyalePlayer {